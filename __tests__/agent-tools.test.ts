@@ -0,0 +1,41 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { buildFilteredAst } from '../src/ast/gen_filtered.js';
+import { AGENT_TOOLS, type AgentToolContext } from '../src/agent/tools.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata/ts_app');
+const readRange = AGENT_TOOLS.find((t) => t.name === 'read_range')!;
+
+let filteredAst: any;
+
+beforeAll(async () => {
+  filteredAst = await buildFilteredAst(ROOT);
+});
+
+/** 빈 도구 컨텍스트 */
+const context = (): AgentToolContext => ({ projectRoot: ROOT, filteredAst, priorSlices: [], slices: [], files: new Set() });
+
+describe('read_range', () => {
+  it('끝 라인을 파일 길이로 자르고 읽은 범위를 코드 조각으로 남깁니다', async () => {
+    const ctx = context();
+    const out = await readRange.run({ file: 'src/jobs.ts', startLine: 4, endLine: 100 }, ctx);
+    expect(String(out).split('\n')[0]).toBe('src/jobs.ts:4-9');
+    expect(ctx.slices).toEqual([expect.objectContaining({ file: 'src/jobs.ts', startLine: 4, endLine: 9 })]);
+    expect(ctx.slices[0].code).toMatch(/^export function runJobs/);
+  });
+
+  it('시작 라인이 파일 끝을 넘으면 코드 조각 없이 오류를 냅니다', async () => {
+    const ctx = context();
+    await expect(readRange.run({ file: 'src/jobs.ts', startLine: 12, endLine: 20 }, ctx)).rejects.toThrow(
+      'start beyond end of file (9 lines)'
+    );
+    expect(ctx.slices).toEqual([]);
+    expect(ctx.files.size).toBe(0);
+  });
+
+  it('끝 라인이 시작보다 앞이면 시작 라인 한 줄만 읽습니다', async () => {
+    const ctx = context();
+    await readRange.run({ file: 'src/jobs.ts', startLine: 5, endLine: 2 }, ctx);
+    expect(ctx.slices).toEqual([expect.objectContaining({ startLine: 5, endLine: 5, code: '  let total = 0;' })]);
+  });
+});
@@ -0,0 +1,40 @@
+import path from 'path';
+import { parseOneForFiltered } from '../src/ast/gen_filtered.js';
+import { buildCallGraph, callGraphFilesForQuestion, callersOf } from '../src/ast/callgraph.js';
+
+/** 가상 프로젝트(파일 → 소스)로 filtered AST를 만듭니다. */
+function filteredAstOf(sources: Record<string, string>) {
+  const root = path.resolve('/virtual');
+  const index = Object.entries(sources).map(([file, code]) => parseOneForFiltered(path.join(root, file), root, code)!);
+  return { files: index.map((i) => i.file), index };
+}
+
+const fa = filteredAstOf({
+  'jobs.ts': ['export function runJobs() {', '  return schedule();', '}', 'function schedule() {}', ''].join('\n'),
+  'cache.ts': ['export class Cache {', '  get(key: string) {}', '  set(key: string) {}', '}', ''].join('\n'),
+  'main.ts': ['function main() {', '  runJobs();', '  new Cache().get("a");', '}', ''].join('\n'),
+  'other.ts': ['function other() {', '  cache.set("b");', '}', ''].join('\n'),
+});
+
+describe('callgraph', () => {
+  it('이름으로 호출 간선을 잇습니다', () => {
+    const graph = buildCallGraph(fa);
+    expect(callersOf(graph, 'runJobs').map((e) => `${e.caller.file}:${e.caller.symbol}`)).toEqual(['main.ts:main']);
+    expect(callersOf(graph, 'Cache.get').map((e) => e.caller.file)).toEqual(['main.ts']);
+  });
+
+  it('식별자 모양이거나 정의 이름과 정확히 같은 단어만 심볼로 봅니다', () => {
+    const { symbols, files } = callGraphFilesForQuestion(fa, 'Who calls runJobs?', 10);
+    expect(symbols).toEqual(['runJobs']);
+    expect(files.sort()).toEqual(['jobs.ts', 'main.ts']);
+    expect(callGraphFilesForQuestion(fa, 'where is Cache.set called', 10).symbols).toEqual(['Cache.set']);
+    expect(callGraphFilesForQuestion(fa, 'what does schedule do', 10).symbols).toEqual(['schedule']);
+  });
+
+  it('평범한 단어(get, set, run)는 메서드 이름과 같아도 끌어오지 않습니다', () => {
+    expect(callGraphFilesForQuestion(fa, 'how do we get and set values and run things?', 10)).toEqual({
+      symbols: [],
+      files: [],
+    });
+  });
+});
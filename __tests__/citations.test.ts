@@ -0,0 +1,82 @@
+import { verifyCitations } from '../src/code/citations.js';
+import type { CodeSlice } from '../src/core/types.js';
+
+/** 내용 없는 코드 조각 */
+const slice = (file: string, startLine: number, endLine: number): CodeSlice => ({ file, startLine, endLine, code: '' });
+
+const SLICES = [slice('src/a.ts', 10, 20), slice('src/a.ts', 30, 50), slice('src/b.ts', 1, 5)];
+
+describe('verifyCitations', () => {
+  it('코드 조각 안의 인용은 그대로 두고, 경로 표기와 claim 공백은 정리합니다', () => {
+    const r = verifyCitations(
+      [
+        { file: './src/a.ts', startLine: 12, endLine: 15, claim: '  total을 저장 ' },
+        { file: 'src\\b.ts', startLine: 1, endLine: 5, claim: '   ' },
+      ],
+      SLICES
+    );
+
+    expect(r).toEqual({
+      citations: [
+        { file: 'src/a.ts', startLine: 12, endLine: 15, claim: 'total을 저장' },
+        { file: 'src/b.ts', startLine: 1, endLine: 5 },
+      ],
+      dropped: [],
+    });
+  });
+
+  it('어느 조각과도 겹치지 않으면(다른 파일, 조각 밖 라인) 버립니다', () => {
+    const outside = [
+      { file: 'src/c.ts', startLine: 1, endLine: 3 },
+      { file: 'src/a.ts', startLine: 21, endLine: 29 },
+      { file: 'src/b.ts', startLine: 6, endLine: 6 },
+    ];
+
+    expect(verifyCitations(outside, SLICES)).toEqual({ citations: [], dropped: outside });
+  });
+
+  it('일부만 겹치면 가장 많이 겹치는 조각 범위로 잘라 clamped로 표시합니다', () => {
+    const r = verifyCitations(
+      [
+        { file: 'src/a.ts', startLine: 5, endLine: 12 },
+        // 10-20과 3줄, 30-50과 6줄 겹침
+        { file: 'src/a.ts', startLine: 18, endLine: 35 },
+      ],
+      SLICES
+    );
+
+    expect(r.citations).toEqual([
+      { file: 'src/a.ts', startLine: 10, endLine: 12, clamped: true },
+      { file: 'src/a.ts', startLine: 30, endLine: 35, clamped: true },
+    ]);
+    expect(r.dropped).toEqual([]);
+  });
+
+  it('시작/끝이 뒤집힌 인용은 바로잡아 대조합니다', () => {
+    const r = verifyCitations(
+      [
+        { file: 'src/a.ts', startLine: 15, endLine: 11 },
+        { file: 'src/b.ts', startLine: 9, endLine: 3 },
+      ],
+      SLICES
+    );
+
+    expect(r.citations).toEqual([
+      { file: 'src/a.ts', startLine: 11, endLine: 15 },
+      { file: 'src/b.ts', startLine: 3, endLine: 5, clamped: true },
+    ]);
+  });
+
+  it('같은 범위로 모이는 인용은 처음 것 하나만 남깁니다', () => {
+    const r = verifyCitations(
+      [
+        { file: 'src/a.ts', startLine: 40, endLine: 55, claim: 'first' },
+        { file: './src/a.ts', startLine: 50, endLine: 40, claim: 'second' },
+      ],
+      SLICES
+    );
+
+    expect(r.citations).toEqual([{ file: 'src/a.ts', startLine: 40, endLine: 50, claim: 'first', clamped: true }]);
+    expect(r.dropped).toEqual([]);
+  });
+});
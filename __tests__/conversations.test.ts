@@ -0,0 +1,47 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type * as Conversations from '../src/server/conversations.js';
+import { createGraphFixture, type GraphFixture } from './support/graph.js';
+
+const FIXTURE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata/ts_app');
+const QUESTION = 'how does runJobs store the total?';
+
+let tmp: string;
+let project: string;
+let fixture: GraphFixture;
+let conversations: typeof Conversations;
+
+beforeAll(async () => {
+  // 턴 사이에 파일을 고치므로 픽스처를 복사해서 씀
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'conversations-'));
+  project = path.join(tmp, 'project');
+  fs.cpSync(FIXTURE, project, { recursive: true });
+  fixture = await createGraphFixture(project, { env: { INDEX_STORE_DIR: path.join(tmp, 'index') } });
+  conversations = await import('../src/server/conversations.js');
+});
+
+afterAll(() => {
+  fixture.cleanup();
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+describe('대화', () => {
+  it('턴 사이에 바뀐 파일은 이전 턴의 코드 조각 대신 파일을 다시 읽습니다', async () => {
+    const conv = conversations.createConversation(project);
+    const first = await conversations.askInConversation(conv, QUESTION);
+    expect(first.index?.full).toBe(true);
+    expect(conv.slices.find((s) => s.file === 'src/jobs.ts')?.code).toContain("cache.set('total', total);");
+
+    // 같은 줄 수로 내용만 바꿈(범위가 같아 이전 조각이 그대로 재사용될 수 있는 경우)
+    const jobs = path.join(project, 'src/jobs.ts');
+    fs.writeFileSync(jobs, fs.readFileSync(jobs, 'utf8').replace("cache.set('total', total);", "cache.set('sum', total);"));
+
+    const second = await conversations.askInConversation(conv, QUESTION);
+    expect(second.index?.changedFiles).toContain('src/jobs.ts');
+    const code = second.codeSlices.find((s) => s.file === 'src/jobs.ts')?.code;
+    expect(code).toContain("cache.set('sum', total);");
+    expect(conv.slices.filter((s) => s.file === 'src/jobs.ts').map((s) => s.code).join('\n')).not.toContain("'total'");
+  });
+});
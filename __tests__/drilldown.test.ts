@@ -0,0 +1,171 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { buildDirTree, dirView, filesUnder } from '../src/ast/dirs.js';
+import { env } from '../src/config/env.js';
+import { PROMPT_DRILLDOWN } from '../src/config/prompts.js';
+import { countMessageTokens } from '../src/core/tokenizer.js';
+import type { GraphState } from '../src/core/types.js';
+import { drillDown } from '../src/drilldown/navigate.js';
+import { ScriptedChatModel, type FakeScript } from '../src/llm/fake.js';
+
+/** 인덱스 항목 하나(심볼: [이름, 줄 수]) */
+function item(file: string, symbols: Array<[string, number]> = [], exports: string[] = []) {
+  return {
+    file,
+    lang: file.endsWith('.py') ? 'python' : 'typescript',
+    lines: 10,
+    ast: symbols.map(([name, lines]) => ({ kind: 'function', name, startLine: 1, endLine: lines })),
+    exports,
+  };
+}
+
+/** 인덱스 항목으로 만든 filtered AST */
+function filteredAst(items: ReturnType<typeof item>[]) {
+  return { files: items.map((i) => i.file), index: items };
+}
+
+/** api(5) / lib(1) / web(2) / main.ts */
+const AST = filteredAst([
+  item('api/routes/a.ts'),
+  item('api/routes/b.ts'),
+  item('api/handlers/h1.ts'),
+  item('api/handlers/h2.ts'),
+  item('api/handlers/h3.ts'),
+  item('lib/util.ts'),
+  item('web/ui/view.ts'),
+  item('web/y.ts'),
+  item('main.ts'),
+]);
+
+const state = (ast: object = AST) =>
+  ({ question: 'q', filteredAst: ast, _trace: { iterations: 0, filesRequested: [], filesParsed: [] } }) as unknown as GraphState;
+
+describe('buildDirTree / dirView', () => {
+  it('하위 디렉토리까지 집계하고, 하위 디렉토리는 파일 수 많은 순으로 둡니다', () => {
+    const ast = filteredAst([
+      item('src/a.ts', [['small', 3], ['big', 30]], ['small']),
+      item('src/deep/b.py', [['helper', 50]]),
+      item('src/deep/c.py'),
+      item('src/x/d.ts'),
+      item('main.ts'),
+    ]);
+    const tree = buildDirTree(ast);
+
+    expect(tree.get('.')).toMatchObject({ files: 5, lines: 50, languages: { typescript: 3, python: 2 }, subdirs: ['src'] });
+    expect(tree.get('src')).toMatchObject({ files: 4, subdirs: ['src/deep', 'src/x'], directFiles: ['src/a.ts'] });
+    // export된 것 우선, 그다음 큰 선언 순
+    expect(tree.get('src')!.topSymbols.map((s) => s.name)).toEqual(['small', 'helper', 'big']);
+    expect(filesUnder(tree, './src/')).toEqual(['src/a.ts', 'src/deep/b.py', 'src/deep/c.py', 'src/x/d.ts']);
+    expect(buildDirTree(ast)).toBe(tree);
+  });
+
+  it('maxEntries를 넘는 하위 디렉토리/파일은 빼고 그 수를 omitted로 알립니다(하위 디렉토리 먼저)', () => {
+    const tree = buildDirTree(AST);
+
+    const full = dirView(tree, AST, '.')!;
+    expect(full.subdirs.map((s) => s.dir)).toEqual(['api', 'web', 'lib']);
+    expect(full.directFiles.map((f) => f.file)).toEqual(['main.ts']);
+    expect(full.omitted).toBeUndefined();
+
+    const cut = dirView(tree, AST, '.', { maxEntries: 2, summaries: { api: 'HTTP API' } })!;
+    expect(cut.subdirs).toEqual([
+      expect.objectContaining({ dir: 'api', files: 5, summary: 'HTTP API' }),
+      expect.not.objectContaining({ summary: expect.anything() }),
+    ]);
+    expect(cut.directFiles).toEqual([]);
+    expect(cut.omitted).toBe(2);
+    expect(dirView(tree, AST, 'nope')).toBeNull();
+  });
+});
+
+describe('drillDown', () => {
+  const saved = {
+    DRILLDOWN_SCOPE_FILES: env.DRILLDOWN_SCOPE_FILES,
+    DRILLDOWN_MAX_ROUNDS: env.DRILLDOWN_MAX_ROUNDS,
+    DIR_SUMMARIES: env.DIR_SUMMARIES,
+    MODEL_CTX_TOKENS: env.MODEL_CTX_TOKENS,
+    TOKENIZER: env.TOKENIZER,
+  };
+  beforeEach(() => {
+    env.DIR_SUMMARIES = false;
+    env.DRILLDOWN_MAX_ROUNDS = 4;
+  });
+  afterEach(() => {
+    Object.assign(env, saved);
+  });
+
+  const run = async (script: FakeScript['drilldown'], ast: object = AST) => {
+    const llm = new ScriptedChatModel({ drilldown: script });
+    return { result: await drillDown(llm, state(ast)), llm };
+  };
+
+  it('DRILLDOWN_SCOPE_FILES 이하인 디렉토리는 통째로 넣고, 큰 디렉토리는 다음 라운드에 엽니다', async () => {
+    env.DRILLDOWN_SCOPE_FILES = 2;
+    const { result, llm } = await run([
+      { openDirs: ['./api/', 'lib', 'missing'], files: ['main.ts', 'nope.ts'] },
+      // 열린 디렉토리 밖(web/ui), 이미 본 디렉토리(lib), 범위 밖 파일(web/y.ts)은 무시
+      { openDirs: ['api/routes', 'web/ui', 'lib'], files: ['api/handlers/h1.ts', 'web/y.ts'] },
+    ]);
+
+    expect(result).toEqual({
+      dirs: ['lib', 'api/routes'],
+      files: ['main.ts', 'api/handlers/h1.ts'],
+      scope: ['main.ts', 'api/handlers/h1.ts', 'lib/util.ts', 'api/routes/a.ts', 'api/routes/b.ts'],
+      rounds: [
+        { dirs: ['.'], opened: ['api', 'lib'], files: ['main.ts'], scoped: ['lib'] },
+        { dirs: ['api'], opened: ['api/routes'], files: ['api/handlers/h1.ts'], scoped: ['api/routes'] },
+      ],
+    });
+    expect(llm.calls.map((c) => c.input.budget)).toEqual([
+      { scopeFiles: 2, roundsLeft: 3 },
+      { scopeFiles: 2, roundsLeft: 2 },
+    ]);
+  });
+
+  it('더 고르지 않으면 열려 있던 디렉토리를 통째로 넣습니다', async () => {
+    env.DRILLDOWN_SCOPE_FILES = 1;
+    const { result } = await run([{ openDirs: ['api', 'web'] }, {}]);
+
+    expect(result!.dirs).toEqual(['api', 'web']);
+    expect(result!.scope).toEqual([...filesUnder(buildDirTree(AST), 'api'), ...filesUnder(buildDirTree(AST), 'web')]);
+    expect(result!.rounds.map((r) => [r.opened, r.scoped])).toEqual([
+      [['api', 'web'], []],
+      [[], ['api', 'web']],
+    ]);
+  });
+
+  it('DRILLDOWN_MAX_ROUNDS의 마지막 라운드에서 고른 디렉토리는 크기와 상관없이 넣습니다', async () => {
+    env.DRILLDOWN_SCOPE_FILES = 1;
+    env.DRILLDOWN_MAX_ROUNDS = 1;
+    const { result, llm } = await run({ openDirs: ['api'] });
+
+    expect(result!.dirs).toEqual(['api']);
+    expect(result!.rounds).toHaveLength(1);
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it('첫 라운드에서 아무것도 고르지 않으면 null', async () => {
+    expect((await run({ openDirs: ['missing'], files: [] })).result).toBeNull();
+  });
+
+  it('토큰 예산을 넘는 목록은 디렉토리별로 번갈아 자르고 잘린 수를 omitted로 싣습니다', async () => {
+    const many = (dir: string) => Array.from({ length: 30 }, (_, i) => item(`${dir}/f${String(i).padStart(2, '0')}.ts`));
+    const ast = filteredAst([...many('api'), ...many('web')]);
+    env.DRILLDOWN_SCOPE_FILES = 10;
+    env.TOKENIZER = 'chars';
+    env.MODEL_CTX_TOKENS =
+      countMessageTokens([new SystemMessage(PROMPT_DRILLDOWN), new HumanMessage('')]) + env.OUTPUT_TOKENS_BUDGET + 300;
+
+    const { result, llm } = await run([{ openDirs: ['api', 'web'] }, {}], ast);
+
+    expect(result!.dirs).toEqual(['api', 'web']);
+    const views = llm.calls[1].input.dirs;
+    expect(views.map((v: any) => v.dir)).toEqual(['api', 'web']);
+    for (const v of views) {
+      // 두 디렉토리 모두 일부가 실리고, 실린 것 + omitted = 전체
+      expect(v.directFiles.length).toBeGreaterThan(0);
+      expect(v.omitted).toBeGreaterThan(0);
+      expect(v.directFiles.length + v.omitted).toBe(30);
+    }
+    expect(Math.abs(views[0].directFiles.length - views[1].directFiles.length)).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,166 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseOneForFiltered, type ClassSig, type InterfaceSig, type SymbolSig } from '../src/ast/gen_filtered.js';
+import { countLines, splitLines } from '../src/core/lines.js';
+
+const TESTDATA = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata');
+
+/** 픽스처 프로젝트의 파일 하나를 인덱싱 */
+function index(project: string, rel: string, source?: string) {
+  const root = path.join(TESTDATA, project);
+  const item = parseOneForFiltered(path.join(root, rel), root, source);
+  if (!item) throw new Error(`not indexed: ${project}/${rel}`);
+  return item;
+}
+
+describe('lines', () => {
+  it('파일 끝 개행은 줄로 세지 않습니다', () => {
+    expect(countLines('a\nb\n')).toBe(2);
+    expect(countLines('a\r\nb')).toBe(2);
+    expect(countLines('')).toBe(1);
+    expect(splitLines('a\n\n')).toEqual(['a', '']);
+  });
+
+  it('인덱스의 lines는 파일의 실제 줄 수와 같습니다', () => {
+    expect(index('kotlin_basic', 'src/App.kt').lines).toBe(34);
+    expect(index('java_basic', 'src/com/example/Account.java').lines).toBe(40);
+    expect(index('ts_types', 'src/x.ts', 'export const a = 1;\n').lines).toBe(1);
+  });
+});
+
+describe('Kotlin 호출 지점', () => {
+  it('companion 멤버의 caller는 companion 이름을 포함합니다', () => {
+    const calls = index('kotlin_basic', 'src/App.kt').calls ?? [];
+    expect(calls).toContainEqual(expect.objectContaining({ caller: 'Account.Factory.create', callee: 'Account' }));
+    expect(calls).toContainEqual(expect.objectContaining({ caller: 'Account.deposit', callee: 'max' }));
+  });
+
+  it('이름 없는 companion은 `Companion`으로 구분합니다', () => {
+    const source = [
+      'class Box {',
+      '    fun open() = make()',
+      '    companion object {',
+      '        fun make(): Box = Box()',
+      '    }',
+      '}',
+      '',
+    ].join('\n');
+    const item = index('kotlin_basic', 'src/Box.kt', source);
+    expect(item.ast.map((s) => s.name)).toEqual(['Box', 'Box.Companion']);
+    expect(item.calls).toEqual([
+      expect.objectContaining({ caller: 'Box.open', callee: 'make' }),
+      expect.objectContaining({ caller: 'Box.Companion.make', callee: 'Box' }),
+    ]);
+  });
+});
+
+/** 시그니처 목록에서 종류(`type`)와 이름으로 하나(없으면 실패) */
+function byName<T extends SymbolSig['type']>(
+  items: SymbolSig[],
+  type: T,
+  name: string
+): Extract<SymbolSig, { type: T }> {
+  const hit = items.find((s): s is Extract<SymbolSig, { type: T }> => s.type === type && s.name === name);
+  if (!hit) throw new Error(`no ${type} named ${name}`);
+  return hit;
+}
+
+/** 클래스 시그니처만 */
+const classes = (items: SymbolSig[]) => items.filter((s): s is ClassSig => s.type === 'class');
+
+describe('Java 시그니처', () => {
+  const { ast, imports } = index('java_basic', 'src/com/example/Account.java');
+
+  it('클래스/인터페이스/enum/record와 중첩 타입을 추출합니다', () => {
+    expect(ast.map((s) => s.type)).toEqual(Array(5).fill('class'));
+    expect(classes(ast).map((s) => [s.name, s.kind])).toEqual([
+      ['Account', 'class'],
+      ['Account.Kind', 'enum'],
+      ['Repository', 'interface'],
+      ['Color', 'enum'],
+      ['Point', 'record'],
+    ]);
+    expect(imports).toEqual([expect.objectContaining({ source: 'java.util.List', kind: 'jvm' })]);
+  });
+
+  it('생성자와 메서드에 수식어/어노테이션을 붙입니다', () => {
+    const account = byName(ast, 'class', 'Account');
+    expect(account).toMatchObject({ modifiers: ['public'], annotations: ['@Entity'], startLine: 5, endLine: 23 });
+    expect(account.methods).toEqual([
+      expect.objectContaining({ name: 'Account', params: ['int id'], where: 'constructor', modifiers: ['public'] }),
+      expect.objectContaining({ name: 'toString', where: 'definition', annotations: ['@Override'] }),
+      expect.objectContaining({ name: 'sum', params: ['int a', 'int b'], modifiers: ['public', 'static'] }),
+    ]);
+    expect(byName(ast, 'class', 'Repository').methods.map((m) => [m.name, m.where])).toEqual([
+      ['find', 'declaration'],
+      ['findAll', 'declaration'],
+    ]);
+    expect(byName(ast, 'class', 'Color').methods.map((m) => [m.name, m.where])).toEqual([
+      ['Color', 'constructor'],
+      ['isWarm', 'definition'],
+    ]);
+  });
+});
+
+describe('Kotlin 시그니처', () => {
+  const { ast } = index('kotlin_basic', 'src/App.kt');
+
+  it('class/interface/enum/data class/object/companion을 추출합니다', () => {
+    expect(classes(ast).map((s) => [s.name, s.kind])).toEqual([
+      ['Account', 'class'],
+      ['Account.Factory', 'companion'],
+      ['Repository', 'interface'],
+      ['Color', 'enum'],
+      ['Point', 'class'],
+      ['Registry', 'object'],
+    ]);
+    expect(byName(ast, 'class', 'Point').modifiers).toEqual(['data']);
+  });
+
+  it('주/보조 생성자와 메서드를 추출합니다', () => {
+    const account = byName(ast, 'class', 'Account');
+    expect(account.annotations).toEqual(['@Suppress("unused")']);
+    expect(account.methods.map((m) => [m.name, m.where, m.params])).toEqual([
+      ['Account', 'constructor', ['val id: Int']],
+      ['Account', 'constructor', ['id: Int', 'name: String']],
+      ['deposit', 'definition', ['amount: Int']],
+    ]);
+    expect(byName(ast, 'class', 'Registry').methods[0]).toMatchObject({ name: 'register', modifiers: ['private'] });
+  });
+
+  it('최상위 함수와 확장 함수(receiver)를 추출합니다', () => {
+    expect(byName(ast, 'function', 'topLevel')).toMatchObject({ params: ['a: Int', 'b: Int'] });
+    expect(byName(ast, 'function', 'shout')).toMatchObject({ receiver: 'String', params: ['times: Int'] });
+    expect(byName(ast, 'function', 'loadAll')).toMatchObject({ receiver: 'Repository<T>', modifiers: ['suspend', 'inline'] });
+  });
+});
+
+describe('TypeScript 타입 선언', () => {
+  it('interface/enum 멤버에 주석을 넣지 않습니다', () => {
+    const source = [
+      'export interface Options {',
+      '  // 서버 실행 위치 기준 상대 경로',
+      '  root: string;',
+      '  /** 최대 파일 수 */',
+      '  max?: number;',
+      '}',
+      'enum Mode {',
+      '  // 기본',
+      '  Fast,',
+      '  /* 느림 */ Slow = 2,',
+      '}',
+      '',
+    ].join('\n');
+    const { ast } = index('ts_types', 'src/comments.ts', source);
+    expect(byName(ast, 'interface', 'Options')).toMatchObject({ members: ['root: string', 'max?: number'] });
+    expect(byName(ast, 'enum', 'Mode')).toMatchObject({ members: ['Fast', 'Slow'] });
+  });
+
+  it('실제 소스(src/core/types.ts)의 interface 멤버에도 주석이 없습니다', () => {
+    const root = path.resolve(TESTDATA, '..');
+    const item = parseOneForFiltered(path.join(root, 'src/core/types.ts'), root)!;
+    const members = item.ast.filter((s): s is InterfaceSig => s.type === 'interface').flatMap((s) => s.members);
+    expect(members.length).toBeGreaterThan(0);
+    expect(members.filter((m) => m.startsWith('//') || m.startsWith('/*'))).toEqual([]);
+  });
+});
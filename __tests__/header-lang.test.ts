@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseOneForFiltered } from '../src/ast/gen_filtered.js';
+import { detectHeaderLanguage } from '../src/ast/header-lang.js';
+
+const TESTDATA = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata');
+
+/** 픽스처 헤더의 언어 판별 */
+function detect(project: string, rel: string) {
+  const root = path.join(TESTDATA, project);
+  const abs = path.join(root, rel);
+  return detectHeaderLanguage(abs, root, fs.readFileSync(abs, 'utf8'));
+}
+
+describe('detectHeaderLanguage', () => {
+  it('설정 파일 headerLanguage가 가장 우선하고, 뒤에 적은 패턴이 이깁니다', () => {
+    expect(detect('mixed', 'legacy/compat.h')).toEqual({ lang: 'cpp', by: 'config', reason: 'legacy/' });
+    // C++ 문법이 있어도 설정이 우선
+    expect(detect('header_policy', 'include/legacy/api.h')).toEqual({ lang: 'c', by: 'config', reason: 'include/legacy/' });
+    expect(detect('header_policy', 'include/legacy/cxx_wrap.h')).toEqual({
+      lang: 'cpp',
+      by: 'config',
+      reason: 'include/legacy/cxx_*.h',
+    });
+  });
+
+  it('C++에만 있는 문법이 있으면 C++입니다', () => {
+    expect(detect('mixed', 'core/shapes.h')).toEqual({ lang: 'cpp', by: 'syntax', reason: 'namespace' });
+    expect(detect('header_policy', 'include/foo.h')).toEqual({ lang: 'cpp', by: 'syntax', reason: 'class' });
+  });
+
+  it('같은 이름의 짝 소스로 정합니다', () => {
+    expect(detect('mixed', 'core/x.h')).toEqual({ lang: 'c', by: 'sibling', reason: 'x.c' });
+    expect(detect('mixed', 'core/y.h')).toEqual({ lang: 'cpp', by: 'sibling', reason: 'y.cpp' });
+  });
+
+  it('짝이 없으면 compile_commands.json, 디렉터리 구성, 기본값 순으로 정합니다', () => {
+    expect(detect('header_policy', 'lib/inc/util.h')).toEqual({
+      lang: 'cpp',
+      by: 'compile_commands',
+      reason: '1 C++ translation unit(s)',
+    });
+    expect(detect('header_policy', 'plain/point.h')).toEqual({ lang: 'c', by: 'directory', reason: '1 .c file(s), no C++' });
+    expect(detect('header_policy', 'include/bare.h')).toMatchObject({ lang: 'c', by: 'default' });
+  });
+});
+
+describe('헤더 인덱싱', () => {
+  it('판별한 언어로 파싱하고 근거를 인덱스에 남깁니다', () => {
+    const root = path.join(TESTDATA, 'header_policy');
+    const asC = parseOneForFiltered(path.join(root, 'include/legacy/api.h'), root)!;
+    expect(asC.headerLanguage).toMatchObject({ lang: 'c', by: 'config' });
+    expect(asC.ast.map((s: any) => s.name)).toEqual(['api_open']);
+
+    const asCpp = parseOneForFiltered(path.join(root, 'include/foo.h'), root)!;
+    expect(asCpp.headerLanguage).toMatchObject({ lang: 'cpp', by: 'syntax' });
+    expect(asCpp.ast.map((s: any) => s.name)).toEqual(expect.arrayContaining(['Foo', 'foo_c_api']));
+  });
+});
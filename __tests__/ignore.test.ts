@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { env } from '../src/config/env.js';
+import { walkSupportedFiles } from '../src/ast/gen_filtered.js';
+import { createPathFilter } from '../src/ast/ignore.js';
+
+let tmp: string;
+
+/** 임시 프로젝트(상대 경로 → 내용) */
+function project(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(tmp, 'p-'));
+  for (const [rel, text] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, rel)), { recursive: true });
+    fs.writeFileSync(path.join(root, rel), text);
+  }
+  return root;
+}
+
+/** 필터를 통과한 파일(상대 경로, 정렬) */
+function indexed(root: string, filter = createPathFilter(root)): string[] {
+  return walkSupportedFiles(root, filter)
+    .map((f) => path.relative(root, f).replaceAll('\\', '/'))
+    .sort();
+}
+
+beforeAll(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ignore-'));
+});
+
+afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('createPathFilter', () => {
+  const NESTED = {
+    '.gitignore': 'build/\n*.gen.ts\n',
+    'src/.gitignore': '!keep.gen.ts\nlocal/\n',
+    'src/a.ts': '',
+    'src/b.gen.ts': '',
+    'src/keep.gen.ts': '',
+    'src/local/x.ts': '',
+    'lib/c.gen.ts': '',
+    'lib/d.ts': '',
+    'lib/.ignore': 'd.ts\n',
+    'build/out.ts': '',
+    'node_modules/pkg/index.js': '',
+    'README.md': '',
+  };
+
+  it('.gitignore/.ignore를 상위에서 하위 디렉터리 순으로 이어 적용하고, 하위의 !패턴이 상위 규칙을 뒤집습니다', () => {
+    const root = project(NESTED);
+    const filter = createPathFilter(root);
+
+    expect(indexed(root, filter)).toEqual(['src/a.ts', 'src/keep.gen.ts']);
+    expect(filter.policy.ignoreFiles.sort()).toEqual(['.gitignore', 'lib/.ignore', 'src/.gitignore']);
+    // 파일 감시용 검사는 상위 디렉터리까지 봄
+    expect(filter.acceptsFile('src/keep.gen.ts')).toBe(true);
+    expect(filter.acceptsFile('src/local/x.ts')).toBe(false);
+    expect(filter.acceptsFile('build/out.ts')).toBe(false);
+    expect(filter.acceptsFile('node_modules/pkg/index.js')).toBe(false);
+  });
+
+  it('설정 파일의 gitignore: false면 ignore 파일을 읽지 않지만 기본 제외 디렉터리는 뺍니다', () => {
+    const root = project({ ...NESTED, '.codebase-explorer.json': JSON.stringify({ gitignore: false }) });
+
+    expect(indexed(root)).toEqual([
+      'build/out.ts',
+      'lib/c.gen.ts',
+      'lib/d.ts',
+      'src/a.ts',
+      'src/b.gen.ts',
+      'src/keep.gen.ts',
+      'src/local/x.ts',
+    ]);
+  });
+
+  it('include/exclude 패턴(gitignore 문법)으로 대상을 좁힙니다', () => {
+    const root = project({
+      '.codebase-explorer.json': JSON.stringify({ include: ['src/', 'tools/*.py'], exclude: ['**/*.test.ts', 'src/vendor/'] }),
+      'src/a.ts': '',
+      'src/a.test.ts': '',
+      'src/vendor/lib.js': '',
+      'tools/gen.py': '',
+      'tools/deep/other.py': '',
+      'scripts/run.ts': '',
+    });
+    const filter = createPathFilter(root);
+
+    expect(indexed(root, filter)).toEqual(['src/a.ts', 'tools/gen.py']);
+    expect(filter.policy).toMatchObject({
+      configFile: '.codebase-explorer.json',
+      include: ['src/', 'tools/*.py'],
+      exclude: ['**/*.test.ts', 'src/vendor/'],
+    });
+    expect(filter.acceptsFile('scripts/run.ts')).toBe(false);
+    expect(filter.acceptsFile('src/vendor/lib.js')).toBe(false);
+  });
+
+  it('maxFileBytes보다 큰 파일은 건너뛰고 집계합니다', () => {
+    const root = project({
+      '.codebase-explorer.json': JSON.stringify({ maxFileBytes: 10 }),
+      'small.ts': 'let a = 1;',
+      'big.ts': 'let a = 1; let b = 2;',
+    });
+    const filter = createPathFilter(root);
+
+    expect(indexed(root, filter)).toEqual(['small.ts']);
+    expect(filter.policy.skipped.tooLarge).toBe(1);
+    expect(filter.acceptsFile('big.ts', 21)).toBe(false);
+    expect(filter.acceptsFile('big.ts')).toBe(true); // 크기를 모르면 경로만 검사
+  });
+
+  it('설정 파일이 없으면 INDEX_MAX_FILE_BYTES를 쓰고 0이면 제한하지 않습니다', () => {
+    const saved = env.INDEX_MAX_FILE_BYTES;
+    try {
+      const root = project({ 'big.ts': 'x'.repeat(100) });
+      env.INDEX_MAX_FILE_BYTES = 50;
+      expect(indexed(root)).toEqual([]);
+      env.INDEX_MAX_FILE_BYTES = 0;
+      expect(indexed(root)).toEqual(['big.ts']);
+    } finally {
+      env.INDEX_MAX_FILE_BYTES = saved;
+    }
+  });
+});
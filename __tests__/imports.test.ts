@@ -0,0 +1,186 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildFilteredAst } from '../src/ast/gen_filtered.js';
+import { buildDepGraph, depNeighbourhood } from '../src/ast/deps.js';
+
+let tmp: string;
+
+/** 임시 프로젝트(상대 경로 → 내용) */
+function project(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(tmp, 'p-'));
+  for (const [rel, text] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, rel)), { recursive: true });
+    fs.writeFileSync(path.join(root, rel), text);
+  }
+  return root;
+}
+
+/** 파일별 import 원문 → 해석 결과(해석 실패는 null) */
+async function resolvedImports(files: Record<string, string>): Promise<Record<string, Record<string, string | null>>> {
+  const ast = await buildFilteredAst(project(files));
+  const out: Record<string, Record<string, string | null>> = {};
+  for (const item of ast.index) {
+    if (!item.imports?.length) continue;
+    out[item.file] = Object.fromEntries(item.imports.map((imp) => [imp.source, imp.resolved ?? null]));
+  }
+  return out;
+}
+
+beforeAll(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'imports-'));
+});
+
+afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('import 해석', () => {
+  it('JS/TS: `.js`로 적힌 ESM 경로는 TS 소스로, 디렉터리는 index 파일로, 확장자 없는 경로는 보충해서 찾습니다', async () => {
+    const imports = await resolvedImports({
+      'src/main.ts': [
+        "import { a } from './lib/a.js';",
+        "import { util } from './util';",
+        "import View from './view.jsx';",
+        "import React from 'react';",
+        "export * from './types';",
+        "const lazy = () => import('../outside.js');",
+      ].join('\n'),
+      'src/lib/a.ts': 'export const a = 1;',
+      'src/util/index.ts': 'export const util = 1;',
+      'src/view.tsx': 'export default function View() { return null; }',
+      'src/types.ts': 'export type T = number;',
+    });
+
+    expect(imports['src/main.ts']).toEqual({
+      './lib/a.js': 'src/lib/a.ts',
+      './util': 'src/util/index.ts',
+      './view.jsx': 'src/view.tsx',
+      react: null, // 외부 패키지
+      './types': 'src/types.ts',
+      '../outside.js': null, // 프로젝트에 없는 파일
+    });
+  });
+
+  it('C/C++: 포함한 파일 기준 → 프로젝트 루트 → include 경로 → 유일한 경로 접미사 순으로 찾습니다', async () => {
+    const imports = await resolvedImports({
+      '.codebase-explorer.json': JSON.stringify({ preprocessor: { includePaths: ['include'] } }),
+      'src/main.c': [
+        '#include <stdio.h>',
+        '#include "local.h"',
+        '#include "api/api.h"',
+        '#include "src/util/util.h"',
+        '#include "shared.h"',
+        '#include "dup.h"',
+        'int main(void) { return api_version() + util() + shared(); }',
+      ].join('\n'),
+      'src/local.h': '#define LOCAL 1',
+      'include/api/api.h': 'int api_version(void);',
+      'src/util/util.h': 'int util(void);',
+      'third_party/lib/shared.h': 'int shared(void);',
+      'a/dup.h': '',
+      'b/dup.h': '',
+    });
+
+    expect(imports['src/main.c']).toEqual({
+      'stdio.h': null,
+      'local.h': 'src/local.h',
+      'api/api.h': 'include/api/api.h',
+      'src/util/util.h': 'src/util/util.h',
+      'shared.h': 'third_party/lib/shared.h',
+      'dup.h': null, // 접미사 일치가 둘 이상
+    });
+  });
+
+  it('Python: 상대 import는 점 수만큼 올라간 패키지 기준으로, `from . import m`은 하위 모듈로 찾습니다', async () => {
+    const imports = await resolvedImports({
+      'app/pkg/__init__.py': '',
+      'app/pkg/models.py': 'class User:\n    pass\n',
+      'app/pkg/sub/__init__.py': '',
+      'app/pkg/sub/helpers.py': 'def helper():\n    pass\n',
+      'app/pkg/sub/views.py': [
+        'import os',
+        'from ..models import User',
+        'from . import helpers',
+        'from .. import sub',
+        'from .missing import x',
+        'import pkg.models',
+      ].join('\n'),
+    });
+
+    expect(imports['app/pkg/sub/views.py']).toEqual({
+      os: null,
+      '..models': 'app/pkg/models.py',
+      '.': 'app/pkg/sub/helpers.py',
+      '..': 'app/pkg/sub/__init__.py',
+      '.missing': null,
+      // 소스 루트가 하위 디렉터리(app/)여도 유일한 경로 접미사로 찾음
+      'pkg.models': 'app/pkg/models.py',
+    });
+  });
+
+  it('Java/Kotlin: 패키지 경로 접미사로 찾고, 중첩 클래스 import는 바깥 클래스 파일로 찾습니다', async () => {
+    const imports = await resolvedImports({
+      'src/main/java/com/acme/App.java': [
+        'package com.acme;',
+        'import java.util.List;',
+        'import com.acme.util.Strings;',
+        'import com.acme.util.Strings.Joiner;',
+        'class App {}',
+      ].join('\n'),
+      'src/main/java/com/acme/util/Strings.java': 'package com.acme.util;\npublic class Strings { public static class Joiner {} }',
+      'src/main/kotlin/com/acme/Main.kt': 'package com.acme\n\nimport com.acme.model.User\n\nfun main() {}\n',
+      'src/main/kotlin/com/acme/model/User.kt': 'package com.acme.model\n\nclass User\n',
+    });
+
+    expect(imports['src/main/java/com/acme/App.java']).toEqual({
+      'java.util.List': null,
+      'com.acme.util.Strings': 'src/main/java/com/acme/util/Strings.java',
+      'com.acme.util.Strings.Joiner': 'src/main/java/com/acme/util/Strings.java',
+    });
+    expect(imports['src/main/kotlin/com/acme/Main.kt']).toEqual({
+      'com.acme.model.User': 'src/main/kotlin/com/acme/model/User.kt',
+    });
+  });
+});
+
+describe('depNeighbourhood', () => {
+  it('해석된 import를 따라 depth 단계까지 의존/피의존 파일을 모읍니다', async () => {
+    // main → a → b → c, other → b
+    const ast = await buildFilteredAst(
+      project({
+        'main.ts': "import { a } from './a.js';",
+        'a.ts': "import { b } from './b.js';\nexport const a = b;",
+        'b.ts': "import { c } from './c.js';\nexport const b = c;",
+        'c.ts': 'export const c = 1;',
+        'other.ts': "import { b } from './b.js';",
+      })
+    );
+    const graph = buildDepGraph(ast);
+
+    expect(depNeighbourhood(graph, 'main.ts', 1)).toEqual({
+      file: 'main.ts',
+      depth: 1,
+      dependencies: [{ file: 'a.ts', depth: 1 }],
+      dependents: [],
+    });
+    expect(depNeighbourhood(graph, 'main.ts', 2).dependencies).toEqual([
+      { file: 'a.ts', depth: 1 },
+      { file: 'b.ts', depth: 2 },
+    ]);
+    expect(depNeighbourhood(graph, 'c.ts', 3).dependents).toEqual([
+      { file: 'b.ts', depth: 1 },
+      { file: 'a.ts', depth: 2 },
+      { file: 'other.ts', depth: 2 },
+      { file: 'main.ts', depth: 3 },
+    ]);
+    // 1 미만/소수 depth는 내림 후 최소 1
+    expect(depNeighbourhood(graph, 'b.ts', 0)).toMatchObject({
+      depth: 1,
+      dependencies: [{ file: 'c.ts', depth: 1 }],
+      dependents: [
+        { file: 'a.ts', depth: 1 },
+        { file: 'other.ts', depth: 1 },
+      ],
+    });
+    expect(depNeighbourhood(graph, 'main.ts', 2.9).depth).toBe(2);
+  });
+});
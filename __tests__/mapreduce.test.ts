@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Send } from '@langchain/langgraph';
+import type { MapBatchResult, GraphState } from '../src/core/types.js';
+import type * as MapReduce from '../src/mapreduce/map.js';
+import type { runGraph as RunGraph } from '../src/graph/run.js';
+import type { ScriptedChatModel } from '../src/llm/fake.js';
+import { createGraphFixture, type GraphFixture } from './support/graph.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata/ts_app');
+const FILES = ['src/cache.ts', 'src/jobs.ts', 'src/main.ts'];
+
+let fixture: GraphFixture;
+let map: typeof MapReduce;
+let runGraph: typeof RunGraph;
+let llm: ScriptedChatModel;
+let filteredAstPath: string;
+
+beforeAll(async () => {
+  // 상세 AST 파일이 2개 이상이면 map-reduce, 컨텍스트 창을 모르면 파일 하나당 한 배치
+  fixture = await createGraphFixture(ROOT, {
+    script: { decideFiles: { wantFiles: FILES, sliceHints: { symbols: [], hintTypes: [], maxNodes: 200 } } },
+    env: { MAP_REDUCE_MIN_FILES: '2', MODEL_CTX_TOKENS: '0' },
+  });
+  ({ llm, filteredAstPath } = fixture);
+  ({ runGraph } = fixture.run);
+  // env는 픽스처에서 이미 로드됨
+  map = await import('../src/mapreduce/map.js');
+});
+
+afterAll(() => fixture.cleanup());
+
+/** 배치 결과 하나 */
+const batch = (iteration: number, n: number, notes = ''): MapBatchResult => ({
+  iteration,
+  batch: n,
+  files: [`f${n}.ts`],
+  notes: notes ? [{ file: `f${n}.ts`, relevant: true, notes, ranges: [] }] : [],
+});
+
+describe('mergeMapResults', () => {
+  it('같은 반복/배치 결과가 두 번 들어와도 늘어나지 않고 새 결과로 바뀝니다', () => {
+    const once = map.mergeMapResults(undefined, [batch(0, 0, 'a'), batch(0, 1, 'b')]);
+    const twice = map.mergeMapResults(once, [batch(0, 1, 'b2')]);
+    expect(twice).toHaveLength(2);
+    expect(twice?.[1].notes[0].notes).toBe('b2');
+    // 노드가 상태 전체를 다시 돌려줘도 그대로
+    expect(map.mergeMapResults(twice, twice)).toEqual(twice);
+    expect(map.mergeMapResults(twice, undefined)).toBe(twice);
+    // 다른 반복의 같은 배치 번호는 따로 둠
+    expect(map.mergeMapResults(twice, [batch(1, 0)])).toHaveLength(3);
+  });
+});
+
+describe('routeAfterDetails', () => {
+  const state = (files: string[]) =>
+    ({
+      question: 'q',
+      projectRoot: ROOT,
+      filteredAst: JSON.parse(fs.readFileSync(filteredAstPath, 'utf8')),
+      detailedAsts: files.map((filePath) => ({ filePath })),
+      _trace: { iterations: 1, filesRequested: [], filesParsed: [] },
+    }) as unknown as GraphState;
+
+  it('파일이 많으면 배치마다 map_file로 Send 분기합니다', async () => {
+    const sends = (await map.routeAfterDetails(state(FILES))) as Send[];
+    expect(sends).toHaveLength(3);
+    for (const s of sends) expect(s).toBeInstanceOf(Send);
+    expect(sends.map((s) => [s.node, s.args.batch, s.args.files, s.args.iteration])).toEqual([
+      ['map_file', 0, ['src/cache.ts'], 1],
+      ['map_file', 1, ['src/jobs.ts'], 1],
+      ['map_file', 2, ['src/main.ts'], 1],
+    ]);
+  });
+
+  it('파일이 적으면 prune_ast로 갑니다', async () => {
+    expect(await map.routeAfterDetails(state(['src/jobs.ts']))).toBe('prune_ast');
+  });
+});
+
+describe('map-reduce 파이프라인', () => {
+  it('배치별 메모가 answer_from_code 프롬프트의 notes로 들어갑니다', async () => {
+    const result = await runGraph('what does runJobs store?', { projectRoot: ROOT, filteredAstPath, graphMode: 'pipeline' });
+
+    const steps = llm.calls.map((c) => c.step);
+    expect(steps.filter((s) => s === 'mapFiles')).toHaveLength(3);
+    expect(steps).not.toContain('prunePlan');
+    expect(steps).not.toContain('codeRanges');
+
+    const answer = llm.calls.find((c) => c.step === 'answerFromCode')!;
+    expect(answer.input.notes.map((n: any) => n.file).sort()).toEqual(FILES);
+    expect(answer.input.notes[0].notes).toMatch(/^fake: src\//);
+    expect(answer.input.codeSlices.map((s: any) => s.file).sort()).toEqual(FILES);
+    expect(result.trace?.mapReduce?.[0]).toMatchObject({ batches: 3, files: 3, failedBatches: 0 });
+  });
+});
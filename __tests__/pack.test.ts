@@ -0,0 +1,130 @@
+import type { FileOutline } from '../src/ast/outline.js';
+import { packSlices, type PackOptions } from '../src/code/pack.js';
+import type { CodeSlice } from '../src/core/types.js';
+
+const QUESTION = 'where is the total stored?';
+
+/** `lines`줄짜리 함수 하나(본문은 질문과 무관한 계산) */
+function fnCode(name: string, lines: number): string {
+  const body = Array.from({ length: lines - 3 }, (_, i) => `  x = x * 31 + ${i};`);
+  return [`export function ${name}(x: number): number {`, ...body, '  return x;', '}'].join('\n');
+}
+
+/** 1번 줄부터 시작하는 코드 조각 */
+function slice(file: string, code: string): CodeSlice {
+  return { file, startLine: 1, endLine: code.split('\n').length, code };
+}
+
+/** 기본 패킹 조건(상한 없음) */
+function options(opts: Partial<PackOptions> = {}): PackOptions {
+  return { budget: 0, maxBytes: 0, maxFiles: 0, question: QUESTION, symbols: [], outlines: new Map(), ...opts };
+}
+
+const choices = (r: ReturnType<typeof packSlices>) => r.packing.items.map((i) => [i.file, i.choice]);
+
+describe('packSlices', () => {
+  it('앞쪽의 큰 조각이 예산을 넘어도 뒤의 조각을 밀어내지 않습니다', () => {
+    const slices = [
+      slice('src/big.ts', fnCode('helper', 300)),
+      slice('src/a.ts', fnCode('storeTotal', 5)),
+      slice('src/b.ts', fnCode('loadTotal', 5)),
+    ];
+
+    const r = packSlices(slices, options({ budget: 200 }));
+
+    expect(choices(r)).toEqual([
+      ['src/a.ts', 'full'],
+      ['src/b.ts', 'full'],
+      ['src/big.ts', 'dropped'],
+    ]);
+    expect(r.slices.map((s) => s.file)).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(r.packing).toMatchObject({ unit: 'tokens', budget: 200 });
+    expect(r.packing.used).toBeLessThanOrEqual(200);
+  });
+
+  it('전체가 예산을 넘으면 선언 시그니처와 질문 단어가 나오는 줄만 남긴 요약본을 넣습니다', () => {
+    const lines = fnCode('helper', 300).split('\n');
+    lines[150] = '  store.set("total", x);';
+    const big = slice('src/big.ts', lines.join('\n'));
+    const outline: FileOutline = {
+      file: 'src/big.ts',
+      lines: 300,
+      symbols: [{ kind: 'function', name: 'helper', startLine: 1, endLine: 300 }],
+    };
+
+    const r = packSlices([big], options({ budget: 100, outlines: new Map([['src/big.ts', outline]]) }));
+
+    const [item] = r.packing.items;
+    expect(item.choice).toBe('reduced');
+    expect(item.reducedTokens).toBeLessThan(item.tokens);
+    // 줄 번호를 지키도록 맞닿은 줄끼리 나뉨: 시그니처(1), 질문 단어 줄(151) ±1
+    expect(r.slices.map((s) => [s.startLine, s.endLine, s.reduced])).toEqual([
+      [1, 1, true],
+      [150, 152, true],
+    ]);
+    expect(r.slices[0].code).toBe('export function helper(x: number): number {');
+    expect(r.slices[1].code.split('\n')[1]).toBe(lines[150]);
+  });
+
+  it('토큰 예산으로 고른 뒤 CODE_MAX_BYTES를 넘으면 관련도가 낮은 것부터 뺍니다', () => {
+    const slices = [
+      slice('src/c.ts', fnCode('helper', 5)),
+      slice('src/b.ts', fnCode('loadTotal', 5)),
+      slice('src/a.ts', fnCode('storeTotal', 5).replace('return x', 'return stored')),
+    ];
+    const bytes = (s: CodeSlice) => Buffer.byteLength(s.code, 'utf8');
+
+    const r = packSlices(slices, options({ budget: 10_000, maxBytes: bytes(slices[1]) + bytes(slices[2]) }));
+
+    expect(choices(r)).toEqual([
+      ['src/a.ts', 'full'],
+      ['src/b.ts', 'full'],
+      ['src/c.ts', 'dropped'],
+    ]);
+  });
+
+  it('CODE_MAX_FILES를 넘는 파일의 조각은 관련도가 낮은 것부터 뺍니다(이미 들어간 파일은 그대로)', () => {
+    const slices = [
+      slice('src/c.ts', fnCode('cTotal', 5)),
+      slice('src/a.ts', fnCode('storeTotal', 5).replace('return x', 'return stored')),
+      slice('src/b.ts', fnCode('loadTotal', 5).replace('return x', 'return stored')),
+      { ...slice('src/a.ts', fnCode('helper', 5)), startLine: 20, endLine: 24 },
+    ];
+
+    const r = packSlices(slices, options({ budget: 10_000, maxFiles: 2 }));
+
+    expect(r.packing.items.map((i) => [i.file, i.startLine, i.choice])).toEqual([
+      ['src/a.ts', 1, 'full'],
+      ['src/b.ts', 1, 'full'],
+      ['src/c.ts', 1, 'dropped'],
+      ['src/a.ts', 20, 'full'],
+    ]);
+  });
+
+  it('토큰 예산과 바이트 상한이 모두 없으면 전부 그대로 넣습니다', () => {
+    const slices = [slice('src/big.ts', fnCode('helper', 300)), slice('src/a.ts', fnCode('storeTotal', 5))];
+
+    const r = packSlices(slices, options());
+
+    expect(r.packing).toMatchObject({ unit: null, budget: 0 });
+    expect(choices(r)).toEqual([
+      ['src/a.ts', 'full'],
+      ['src/big.ts', 'full'],
+    ]);
+    expect(r.slices).toEqual([slices[1], slices[0]]);
+    expect(r.packing.used).toBe(r.packing.items.reduce((n, i) => n + i.tokens, 0));
+  });
+
+  it('토큰 예산이 없으면 CODE_MAX_BYTES를 예산으로 씁니다', () => {
+    const slices = [slice('src/big.ts', fnCode('helper', 300)), slice('src/a.ts', fnCode('storeTotal', 5))];
+
+    const r = packSlices(slices, options({ maxBytes: 1000 }));
+
+    expect(r.packing).toMatchObject({ unit: 'bytes', budget: 1000 });
+    expect(choices(r)).toEqual([
+      ['src/a.ts', 'full'],
+      ['src/big.ts', 'dropped'],
+    ]);
+    expect(r.packing.used).toBe(Buffer.byteLength(slices[1].code, 'utf8'));
+  });
+});
@@ -0,0 +1,87 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type * as Run from '../src/graph/run.js';
+import type { GraphStreamEvent } from '../src/graph/run.js';
+import type { ScriptedChatModel } from '../src/llm/fake.js';
+import { createGraphFixture, type GraphFixture } from './support/graph.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata/ts_app');
+const QUESTION = 'how does runJobs store the total?';
+
+let fixture: GraphFixture;
+let run: typeof Run;
+let llm: ScriptedChatModel;
+let filteredAstPath: string;
+
+beforeAll(async () => {
+  // 스크립트 없이 페이로드에서 만든 기본 응답을 씀
+  fixture = await createGraphFixture(ROOT);
+  ({ run, llm, filteredAstPath } = fixture);
+});
+
+beforeEach(() => {
+  llm.calls.length = 0;
+});
+
+afterAll(() => fixture.cleanup());
+
+describe('파이프라인(runGraph)', () => {
+  it('파일 결정부터 근거 검증까지 노드 순서대로 모델을 부릅니다', async () => {
+    const result = await run.runGraph(QUESTION, { projectRoot: ROOT, filteredAstPath, graphMode: 'pipeline' });
+
+    expect(llm.calls.map((c) => c.step)).toEqual([
+      'decideFiles',
+      'prunePlan',
+      'codeRanges',
+      'answerFromCode',
+      'verifyGrounding',
+    ]);
+    // 질문의 runJobs → 콜 그래프로 호출하는 main.ts까지
+    expect(result.wantFiles).toEqual(expect.arrayContaining(['src/jobs.ts', 'src/main.ts']));
+    const jobs = result.codeSlices.find((s) => s.file === 'src/jobs.ts');
+    expect(jobs?.code).toContain('export function runJobs');
+    expect(result.citations.map((c) => c.file)).toEqual(result.codeSlices.map((s) => s.file));
+    expect(result.answer).toContain(`fake answer for "${QUESTION}"`);
+    expect(result.confidence).toBe('high');
+    expect(result.trace?.grounding?.[0]).toMatchObject({ by: 'llm', retry: false });
+  });
+});
+
+describe('파이프라인(streamGraph)', () => {
+  it('노드 이벤트와 답변 조각을 보내고 마지막에 결과를 줍니다', async () => {
+    const events: GraphStreamEvent[] = [];
+    for await (const e of run.streamGraph(QUESTION, { projectRoot: ROOT, filteredAstPath, graphMode: 'pipeline' })) {
+      events.push(e);
+    }
+
+    const ended = events.flatMap((e) => (e.type === 'node-end' ? [e.node] : []));
+    expect(ended).toEqual([
+      'load_filtered',
+      'decide_files',
+      'get_details',
+      'prune_ast',
+      'select_code_ranges',
+      'load_code_slices',
+      'answer_from_code',
+      'verify_grounding',
+    ]);
+    const done = events.at(-1);
+    expect(done?.type).toBe('done');
+    const result = (done as Extract<GraphStreamEvent, { type: 'done' }>).result;
+    const streamed = events.flatMap((e) => (e.type === 'answer-token' ? [e.delta] : [])).join('');
+    expect(streamed.length).toBeGreaterThan(0);
+    expect(result.answer).toBe(streamed);
+  });
+});
+
+describe('에이전트 모드', () => {
+  it('도구로 코드를 읽고 finish 후 읽은 조각으로 답합니다', async () => {
+    const result = await run.runGraph(QUESTION, { projectRoot: ROOT, filteredAstPath, graphMode: 'agent' });
+
+    expect(llm.calls.map((c) => c.step)).toEqual(['agent', 'agent', 'agent', 'answerFromCode', 'verifyGrounding']);
+    expect(result.trace?.toolCalls?.map((c) => c.tool)).toEqual(['list_symbols', 'read_range', 'finish']);
+    expect(result.codeSlices).toEqual([expect.objectContaining({ file: 'src/jobs.ts', startLine: 4, endLine: 9 })]);
+    expect(result.citations).toEqual([expect.objectContaining({ file: 'src/jobs.ts', startLine: 4, endLine: 9 })]);
+    expect(result.confidence).toBe('high');
+  });
+});
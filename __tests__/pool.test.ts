@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { runIndexTasks, slotOf } from '../src/ast/pool.js';
+import type * as Env from '../src/config/env.js';
+import type * as Pool from '../src/ast/pool.js';
+import type * as Store from '../src/ast/store.js';
+import type * as TreeCache from '../src/ast/tree-cache.js';
+import { compileSources } from './support/compile.js';
+
+describe('index pool', () => {
+  it('같은 파일은 항상 같은 워커 슬롯으로 갑니다', () => {
+    const files = Array.from({ length: 200 }, (_, i) => `/p/src/f${i}.ts`);
+    const slots = files.map((f) => slotOf(f, 4));
+    expect(files.map((f) => slotOf(f, 4))).toEqual(slots);
+    expect(new Set(slots)).toEqual(new Set([0, 1, 2, 3]));
+  });
+
+  it('작업이 적으면 메인 스레드에서 입력 순서대로 결과를 돌려줍니다', async () => {
+    const results = await runIndexTasks([
+      { fileAbs: '/nonexistent/a.ts', projectRoot: '/nonexistent' },
+      { fileAbs: '/nonexistent/b.ts', projectRoot: '/nonexistent' },
+    ]);
+    expect(results.map((r) => [r.fileAbs, 'error' in r])).toEqual([
+      ['/nonexistent/a.ts', true],
+      ['/nonexistent/b.ts', true],
+    ]);
+  });
+});
+
+/** 워커 스레드를 띄우는 경로 — 워커는 jest 변환을 거치지 않으므로 JS 변환본을 불러옴 */
+describe('index pool 워커 스레드', () => {
+  const WORKERS = 2;
+  const FILES = 40; // POOL_MIN_TASKS(32) 이상
+  let compiled: ReturnType<typeof compileSources>;
+  let tmp: string;
+  let root: string;
+  let pool: typeof Pool;
+  let store: typeof Store;
+  let trees: typeof TreeCache;
+
+  const load = async <T>(rel: string): Promise<T> => import(pathToFileURL(path.join(compiled.dir, 'src', rel)).href);
+  const fileAbs = (i: number) => path.join(root, `src/f${i}.ts`);
+
+  beforeAll(async () => {
+    compiled = compileSources();
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'pool-'));
+    root = path.join(tmp, 'project');
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true });
+    for (let i = 0; i < FILES; i++) {
+      fs.writeFileSync(fileAbs(i), `export function f${i}(x: number): number {\n  return x + ${i};\n}\n`);
+    }
+
+    const { env } = await load<typeof Env>('config/env.js');
+    env.INDEX_WORKERS = WORKERS;
+    env.INDEX_STORE_DIR = path.join(tmp, 'store');
+    pool = await load<typeof Pool>('ast/pool.js');
+    store = await load<typeof Store>('ast/store.js');
+    trees = await load<typeof TreeCache>('ast/tree-cache.js');
+  });
+
+  afterAll(async () => {
+    await pool.closeIndexPool();
+    compiled.cleanup();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it('작업이 많으면 워커에서 파싱하고 입력 순서대로 결과를 돌려줍니다', async () => {
+    const tasks = Array.from({ length: FILES }, (_, i) => ({ fileAbs: fileAbs(i), projectRoot: root }));
+
+    const results = await pool.runIndexTasks(tasks);
+
+    expect(results.map((r) => ('error' in r ? r.error : r.item?.file))).toEqual(tasks.map((_, i) => `src/f${i}.ts`));
+    // 메인 스레드는 한 파일도 파싱하지 않음
+    expect(trees.treeCacheStats().full).toBe(0);
+  });
+
+  it('updateProjectFiles도 워커에서 파싱하고, 지운 파일의 트리를 비워도 워커 응답이 어긋나지 않습니다', async () => {
+    await store.openProjectIndex(root);
+    const slot = slotOf(fileAbs(0), WORKERS);
+    // 지울 파일과 같은 슬롯(같은 워커)에서 다시 파싱할 파일
+    const sibling = Array.from({ length: FILES }, (_, i) => i).find((i) => i > 0 && slotOf(fileAbs(i), WORKERS) === slot)!;
+    fs.rmSync(fileAbs(0));
+    fs.appendFileSync(fileAbs(sibling), `export function g${sibling}(): void {}\n`);
+
+    const pi = await store.updateProjectFiles(root, ['src/f0.ts', `src/f${sibling}.ts`]);
+
+    expect(pi.manifest.lastRefresh).toMatchObject({
+      removedFiles: ['src/f0.ts'],
+      changedFiles: [`src/f${sibling}.ts`],
+      failed: 0,
+    });
+    const item = pi.filteredAst.index.find((x) => x.file === `src/f${sibling}.ts`)!;
+    expect(JSON.stringify(item.ast)).toContain(`g${sibling}`);
+    expect(trees.treeCacheStats().full).toBe(0);
+  });
+});
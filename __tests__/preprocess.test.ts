@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseOneForFiltered } from '../src/ast/gen_filtered.js';
+import { preprocessC } from '../src/ast/preprocess.js';
+
+const TESTDATA = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata');
+
+/** 픽스처 프로젝트의 파일 하나를 전처리 */
+function preprocess(project: string, rel: string, cpp = false) {
+  const root = path.join(TESTDATA, project);
+  const abs = path.join(root, rel);
+  return preprocessC(fs.readFileSync(abs, 'utf8'), abs, root, { cpp });
+}
+
+/** 1-based 라인 */
+const lineOf = (code: string, line: number) => code.split('\n')[line - 1];
+
+describe('preprocessC', () => {
+  it('include 경로(compile_commands의 -I)로 헤더를 따라가 매크로를 읽습니다', () => {
+    const { info, macros } = preprocess('c_simple', 'src/math.c');
+    expect(info.headers).toEqual(['include/config.h', 'include/math.h']);
+    expect(info.macrosUsed).toEqual({ API: 'include/config.h', SQUARE: 'include/config.h' });
+    // include guard와 헤더의 매크로는 이 파일의 매크로가 아님
+    expect(macros).toEqual([]);
+  });
+
+  it('#if/#else는 헤더 매크로로, #ifndef는 compile_commands의 -D로 분기를 고릅니다', () => {
+    const { code, info } = preprocess('c_simple', 'src/math.c');
+    expect(info.inactive).toEqual([
+      [8, 8], // USE_FAST_ADD=1 → #else 분기
+      [15, 15], // -DNDEBUG → debug_dump
+    ]);
+    expect(lineOf(code, 6)).toBe('int add(int a, int b) { return a + b; }');
+    expect(lineOf(code, 8).trim()).toBe('');
+    // 조건 지시문 줄은 지우고 길이는 그대로
+    expect(lineOf(code, 5)).toBe(' '.repeat('#if USE_FAST_ADD'.length));
+    // 본문 없는 객체형 매크로는 펼쳐서 선언이 파싱되게 함
+    expect(lineOf(code, 11)).toBe('    int sub(int a, int b) { return a - b; }');
+    expect(code.length).toBe(fs.readFileSync(path.join(TESTDATA, 'c_simple/src/math.c'), 'utf8').length);
+  });
+
+  it('#elif, #undef, defined()와 파일 안의 #define을 반영합니다', () => {
+    const { info, macros } = preprocess('c_simple', 'src/branch.c');
+    expect(info.inactive).toEqual([
+      [7, 7], // LEVEL == 1
+      [11, 11], // #else
+      [16, 16], // #undef USE_FAST_ADD
+    ]);
+    expect(macros.map((m) => [m.name, m.params ?? null, m.value])).toEqual([
+      ['LEVEL', null, '2'],
+      ['TWICE', ['x'], '((x) + (x))'],
+    ]);
+    expect(info.macrosUsed).toEqual({ TWICE: 'src/branch.c', SQUARE: 'include/config.h' });
+  });
+
+  it('인덱스에는 활성 분기의 선언만 남습니다', () => {
+    const root = path.join(TESTDATA, 'c_simple');
+    const item = parseOneForFiltered(path.join(root, 'src/branch.c'), root)!;
+    const functions = item.ast.filter((s: any) => s.type === 'function').map((s: any) => [s.name, s.startLine]);
+    expect(functions).toEqual([
+      ['level', 9],
+      ['area', 20],
+    ]);
+    expect(item.preprocessor?.inactive).toEqual([
+      [7, 7],
+      [11, 11],
+      [16, 16],
+    ]);
+  });
+
+  it('__cplusplus는 C++로 파싱할 때만 정의됩니다', () => {
+    const c = preprocess('header_policy', 'include/foo.h');
+    expect(c.info.inactive).toEqual([
+      [4, 7],
+      [9, 9],
+      [15, 15],
+    ]);
+    expect(lineOf(c.code, 12)).toBe('int foo_c_api(int n);');
+
+    const cpp = preprocess('header_policy', 'include/foo.h', true);
+    expect(cpp.info.inactive).toBeUndefined();
+    expect(lineOf(cpp.code, 4)).toBe('class Foo {');
+  });
+});
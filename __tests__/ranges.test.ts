@@ -0,0 +1,43 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { env } from '../src/config/env.js';
+import { parseOneForFiltered } from '../src/ast/gen_filtered.js';
+import { outlinesForFiles } from '../src/ast/outline.js';
+import { validateRanges } from '../src/code/ranges.js';
+import { normalizeRanges } from '../src/code/normalize.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata/ts_types');
+const FILE = 'src/state.ts';
+/** `Util.clamp` 본문 한 줄 */
+const BODY = { file: FILE, startLine: 25, endLine: 25, rationale: 'clamp' };
+
+describe('코드 범위 보정', () => {
+  const snapMax = env.CODE_SNAP_MAX_LINES;
+  afterEach(() => {
+    env.CODE_SNAP_MAX_LINES = snapMax;
+  });
+
+  it('validateRanges는 검증/클램프만 하고 선언 경계로 넓히지 않습니다', () => {
+    const item = parseOneForFiltered(path.join(ROOT, FILE), ROOT)!;
+    const outlines = outlinesForFiles({ files: [FILE], index: [item] }, [FILE]);
+    expect(
+      validateRanges([BODY, { ...BODY, startLine: 30, endLine: 500 }, { ...BODY, file: 'src/other.ts' }], outlines)
+    ).toEqual([BODY, { ...BODY, startLine: 30, endLine: item.lines }]);
+  });
+
+  it('normalizeRanges는 CODE_SNAP_MAX_LINES 안의 선언만 넓힙니다', async () => {
+    const { ranges, adjustments } = await normalizeRanges([BODY], ROOT);
+    expect(ranges).toEqual([{ ...BODY, startLine: 24, endLine: 26 }]);
+    expect(adjustments[0].reasons).toEqual(['expanded']);
+
+    env.CODE_SNAP_MAX_LINES = 2;
+    expect((await normalizeRanges([BODY], ROOT)).ranges).toEqual([BODY]);
+  });
+
+  it('CODE_SNAP_MAX_LINES=0이면 넓히지 않습니다', async () => {
+    env.CODE_SNAP_MAX_LINES = 0;
+    const { ranges, adjustments } = await normalizeRanges([BODY], ROOT);
+    expect(ranges).toEqual([BODY]);
+    expect(adjustments).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { runGraph as RunGraph } from '../src/graph/run.js';
+import type { ScriptedChatModel } from '../src/llm/fake.js';
+import { createGraphFixture, type GraphFixture } from './support/graph.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata/ts_app');
+const hints = { symbols: [], hintTypes: ['function_declaration'], maxNodes: 200 };
+const unsupported = { claims: [{ claim: 'total', supported: false }], missing: ['누가 runJobs를 부르는지'] };
+
+/**
+ * 근거 부족 재탐색 — 파일 결정은 실행마다 두 번씩 불림
+ * - 1회차: jobs.ts → cache.ts(새 파일)
+ * - 2회차: jobs.ts → jobs.ts(새 파일 없음)
+ */
+const script = {
+  decideFiles: [
+    { wantFiles: ['src/jobs.ts'], sliceHints: hints },
+    { wantFiles: ['src/cache.ts'], sliceHints: hints },
+    { wantFiles: ['src/jobs.ts'], sliceHints: hints },
+    { wantFiles: ['src/jobs.ts'], sliceHints: hints },
+  ],
+  verifyGrounding: unsupported,
+};
+
+let fixture: GraphFixture;
+let runGraph: typeof RunGraph;
+let llm: ScriptedChatModel;
+let filteredAstPath: string;
+
+beforeAll(async () => {
+  fixture = await createGraphFixture(ROOT, { script, env: { MAX_LOOPS: '1' } });
+  ({ llm, filteredAstPath } = fixture);
+  ({ runGraph } = fixture.run);
+});
+
+afterAll(() => fixture.cleanup());
+
+describe('근거 부족 재탐색', () => {
+  it('다시 탐색하면 앞 반복에서 읽은 코드 조각도 답변에 싣습니다', async () => {
+    const result = await runGraph('what is stored after the jobs finish?', { projectRoot: ROOT, filteredAstPath });
+
+    const answers = llm.calls.filter((c) => c.step === 'answerFromCode');
+    expect(answers).toHaveLength(2);
+    expect(answers[1].input.codeSlices.map((s: any) => s.file).sort()).toEqual(['src/cache.ts', 'src/jobs.ts']);
+    expect([...new Set(result.codeSlices.map((s) => s.file))].sort()).toEqual(['src/cache.ts', 'src/jobs.ts']);
+    expect(result.confidence).toBe('low');
+    expect(result.answer).toMatch(/^⚠️ 근거 부족/);
+  });
+
+  it('새로 고른 파일이 없으면 다시 답변하지 않고 직전 답변으로 끝냅니다', async () => {
+    llm.calls.length = 0;
+    const result = await runGraph('what is stored after the jobs finish?', { projectRoot: ROOT, filteredAstPath });
+
+    expect(llm.calls.map((c) => c.step)).toEqual([
+      'decideFiles',
+      'prunePlan',
+      'codeRanges',
+      'answerFromCode',
+      'verifyGrounding',
+      'decideFiles',
+    ]);
+    expect(result.codeSlices.map((s) => s.file)).toEqual(['src/jobs.ts']);
+    expect(result.answer).toMatch(/^⚠️ 근거 부족[\s\S]*fake answer for .* from 1 slice\(s\): src\/jobs\.ts/);
+    expect(result.trace?.grounding?.[0]?.retry).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { buildFilteredAst } from '../src/ast/gen_filtered.js';
+import { searchProject, tokenizeForSearch } from '../src/ast/search.js';
+import { createGraphFixture, type GraphFixture } from './support/graph.js';
+
+/** 검색용 작은 프로젝트 */
+const SOURCES: Record<string, string> = {
+  'src/billing.ts': [
+    '/** Create an invoice for the order and store the invoice total. */',
+    'export function createInvoice(orderId: string): number {',
+    '  const invoiceTotal = 0;',
+    '  return invoiceTotal;',
+    '}',
+  ].join('\n'),
+  'src/orders.ts': [
+    'export function cancelOrder(orderId: string): void {',
+    "  console.log('order cancelled; no invoice sent');",
+    '}',
+  ].join('\n'),
+  'src/users.ts': 'export function loadUser(id: string): string {\n  return id;\n}',
+};
+
+let tmp: string;
+
+/** 임시 디렉토리에 프로젝트를 만듭니다(역색인이 루트별로 남으므로 테스트마다 새 루트). */
+function makeProject(name: string): string {
+  const root = path.join(tmp, name);
+  for (const [rel, code] of Object.entries(SOURCES)) {
+    fs.mkdirSync(path.dirname(path.join(root, rel)), { recursive: true });
+    fs.writeFileSync(path.join(root, rel), code);
+  }
+  return root;
+}
+
+beforeAll(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'search-'));
+});
+
+afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('tokenizeForSearch', () => {
+  it('식별자를 통째로 한 번, camelCase/snake_case 마디로 한 번 더 셉니다', () => {
+    expect(tokenizeForSearch('parseHTTPResponse')).toEqual(['parsehttpresponse', 'parse', 'http', 'response']);
+    expect(tokenizeForSearch('max_file_bytes')).toEqual(['max_file_bytes', 'max', 'file', 'bytes']);
+  });
+
+  it('유니코드 문자도 단어로 셉니다', () => {
+    expect(tokenizeForSearch('계정_잔액 Straße')).toEqual(['계정_잔액', '계정', '잔액', 'straße']);
+  });
+
+  it('주석/문자열 속 단어도 세고, 한 글자 단어와 흔한 키워드는 버립니다', () => {
+    expect(tokenizeForSearch("// load the user cache\nconst x = 'Invoice not found'; return this.value")).toEqual([
+      'load',
+      'user',
+      'cache',
+      'invoice',
+      'not',
+      'found',
+      'value',
+    ]);
+  });
+});
+
+describe('searchProject', () => {
+  it('BM25 점수순으로 돌려주고, 겹치는 선언을 붙이고, 점수 0인 파일은 뺍니다', async () => {
+    const root = makeProject('rank');
+    const ast = await buildFilteredAst(root);
+
+    const hits = await searchProject(root, ast, 'invoice', 10);
+
+    expect(hits.map((h) => h.file)).toEqual(['src/billing.ts', 'src/orders.ts']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(hits[0].symbols.map((s) => s.name)).toEqual(['createInvoice']);
+    expect(hits[1].symbols).toEqual([]);
+    expect(await searchProject(root, ast, 'invoice', 1)).toHaveLength(1);
+    expect(await searchProject(root, ast, 'invoice', 10, new Set(['src/orders.ts']))).toEqual([hits[1]]);
+    expect(await searchProject(root, ast, 'the return', 10)).toEqual([]);
+  });
+
+  it('바뀐 파일은 다시 읽고, filtered AST에서 빠진 파일은 색인에서도 뺍니다', async () => {
+    const root = makeProject('incremental');
+    const ast = await buildFilteredAst(root);
+    expect((await searchProject(root, ast, 'invoice', 10))[0].file).toBe('src/billing.ts');
+
+    // orders.ts에 invoice를 잔뜩 넣으면 순위가 바뀜
+    const orders = path.join(root, 'src/orders.ts');
+    fs.appendFileSync(orders, '\n// invoice invoice invoice invoice invoice invoice\n');
+    expect((await searchProject(root, ast, 'invoice', 10)).map((h) => h.file)).toEqual([
+      'src/orders.ts',
+      'src/billing.ts',
+    ]);
+
+    const without = { ...ast, files: ast.files.filter((f) => f !== 'src/orders.ts') };
+    expect((await searchProject(root, without, 'invoice', 10)).map((h) => h.file)).toEqual(['src/billing.ts']);
+    // 빠진 파일이 돌아오면 다시 읽음
+    expect(await searchProject(root, ast, 'cancel', 10)).toEqual([
+      expect.objectContaining({ file: 'src/orders.ts', symbols: [expect.objectContaining({ name: 'cancelOrder' })] }),
+    ]);
+  });
+});
+
+describe('GET /search', () => {
+  let root: string;
+  let fixture: GraphFixture;
+  let server: Server;
+  let base: string;
+  let projectId: string;
+
+  beforeAll(async () => {
+    root = makeProject('http');
+    // 서버 모듈은 LLM 공급자를 만들며 로드되므로 스크립트 모델로
+    fixture = await createGraphFixture(root, { env: { INDEX_STORE_DIR: path.join(tmp, 'store') } });
+    const { env } = await import('../src/config/env.js');
+    env.PROJECT_ROOT = root;
+    env.FILTERED_AST_PATH = fixture.filteredAstPath;
+    projectId = (await (await import('../src/ast/store.js')).openProjectIndex(root)).id;
+    const { createApp } = await import('../src/server/http.js');
+    server = createApp().listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fixture.cleanup();
+  });
+
+  const get = async (query: string) => {
+    const res = await fetch(`${base}/search?${query}`);
+    return { status: res.status, body: (await res.json()) as any };
+  };
+
+  it('FILTERED_AST_PATH의 인덱스에서 찾습니다', async () => {
+    const { status, body } = await get('q=invoice&limit=1');
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ ok: true, q: 'invoice', hits: [{ file: 'src/billing.ts' }] });
+    expect(body.hits).toHaveLength(1);
+  });
+
+  it('projectId를 주면 그 프로젝트 인덱스에서 찾습니다', async () => {
+    const { status, body } = await get(`q=${encodeURIComponent('load user')}&projectId=${projectId}`);
+    expect(status).toBe(200);
+    expect(body.hits.map((h: any) => h.file)).toEqual(['src/users.ts']);
+  });
+
+  it('잘못된 요청은 400/404로 답합니다', async () => {
+    expect(await get('q=')).toMatchObject({ status: 400, body: { error: 'q (query) is required' } });
+    expect(await get('q=invoice&limit=0')).toMatchObject({ status: 400 });
+    expect(await get('q=invoice&projectId=000000000000')).toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { env } from '../src/config/env.js';
+import { writeFileAtomic, writeFilteredAst, type FilteredAst } from '../src/ast/gen_filtered.js';
+import { openProjectIndex, projectIdOf, type ProjectIndex } from '../src/ast/store.js';
+
+const FIXTURE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata/ts_app');
+
+describe('filtered AST 기록', () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await fsp.mkdtemp(path.join(os.tmpdir(), 'fa-store-'));
+  });
+  afterEach(async () => {
+    await fsp.rm(dir, { recursive: true, force: true });
+  });
+
+  it('쓰는 동안 읽어도 항상 온전한 JSON을 봅니다', async () => {
+    const target = path.join(dir, 'filtered_ast.json');
+    const big = (n: number): FilteredAst => ({
+      root: dir,
+      files: Array.from({ length: 2000 }, (_, i) => `src/f${n}_${i}.ts`),
+      index: [],
+      generatedAt: new Date().toISOString(),
+    });
+    await writeFilteredAst(big(0), target);
+
+    let writing = true;
+    const writer = (async () => {
+      for (let n = 1; n <= 20; n++) await writeFilteredAst(big(n), target);
+      writing = false;
+    })();
+    let reads = 0;
+    while (writing) {
+      const json = JSON.parse(await fsp.readFile(target, 'utf8'));
+      expect(json.files).toHaveLength(2000);
+      reads++;
+    }
+    await writer;
+
+    expect(reads).toBeGreaterThan(0);
+    expect(JSON.parse(fs.readFileSync(target, 'utf8')).files[0]).toBe('src/f20_0.ts');
+    expect(fs.readdirSync(dir)).toEqual(['filtered_ast.json']);
+  });
+
+  it('쓰기에 실패하면 임시 파일을 남기지 않고 기존 파일을 유지합니다', async () => {
+    const target = path.join(dir, 'manifest.json');
+    await writeFileAtomic(target, '{"ok":1}');
+    // 대상 자리에 디렉토리가 있으면 rename이 실패함
+    const blocked = path.join(dir, 'blocked');
+    await fsp.mkdir(path.join(blocked, 'x'), { recursive: true });
+    await expect(writeFileAtomic(blocked, '{}')).rejects.toThrow();
+    expect(fs.readdirSync(dir).sort()).toEqual(['blocked', 'manifest.json']);
+    expect(fs.readFileSync(target, 'utf8')).toBe('{"ok":1}');
+  });
+});
+
+describe('프로젝트 인덱스 증분 갱신', () => {
+  const saved = { storeDir: env.INDEX_STORE_DIR, workers: env.INDEX_WORKERS };
+  let dir: string;
+  /** 픽스처를 임시 디렉토리에 복사한 프로젝트 루트 */
+  const project = (name: string) => {
+    const root = path.join(dir, name);
+    fs.cpSync(FIXTURE, root, { recursive: true });
+    return root;
+  };
+  const files = (pi: ProjectIndex) => pi.filteredAst.files;
+
+  beforeEach(async () => {
+    dir = await fsp.mkdtemp(path.join(os.tmpdir(), 'fa-index-'));
+    env.INDEX_STORE_DIR = path.join(dir, 'store');
+    env.INDEX_WORKERS = 0;
+  });
+  afterEach(async () => {
+    env.INDEX_STORE_DIR = saved.storeDir;
+    env.INDEX_WORKERS = saved.workers;
+    await fsp.rm(dir, { recursive: true, force: true });
+  });
+
+  it('mtime/size나 내용 해시가 같으면 다시 파싱하지 않습니다', async () => {
+    const root = project('app');
+    const first = await openProjectIndex(root);
+    expect(first.manifest.lastRefresh).toMatchObject({ full: true, parsed: 3, total: 3 });
+
+    const again = await openProjectIndex(root);
+    expect(again.manifest.lastRefresh).toMatchObject({ full: false, parsed: 0, reused: 3, changedFiles: [] });
+
+    // mtime만 바뀜 → 해시가 같으므로 재사용하고 매니페스트의 mtime만 갱신
+    const jobs = path.join(root, 'src/jobs.ts');
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(jobs, later, later);
+    const touched = await openProjectIndex(root);
+    expect(touched.manifest.lastRefresh).toMatchObject({ parsed: 0, reused: 3, changedFiles: [] });
+    expect(touched.manifest.entries['src/jobs.ts'].mtimeMs).toBe(fs.statSync(jobs).mtimeMs);
+    expect(touched.filteredAst.generatedAt).toBe(first.filteredAst.generatedAt);
+  });
+
+  it('내용이 바뀐 파일만 다시 파싱합니다', async () => {
+    const root = project('app');
+    await openProjectIndex(root);
+    const jobs = path.join(root, 'src/jobs.ts');
+    fs.appendFileSync(jobs, '\nexport function stopJobs(): void {}\n');
+
+    const pi = await openProjectIndex(root);
+    expect(pi.manifest.lastRefresh).toMatchObject({ full: false, parsed: 1, reused: 2, changedFiles: ['src/jobs.ts'] });
+    const item = pi.filteredAst.index.find((x) => x.file === 'src/jobs.ts')!;
+    expect(JSON.stringify(item.ast)).toContain('stopJobs');
+  });
+
+  it('사라진 파일은 인덱스에서 뺍니다', async () => {
+    const root = project('app');
+    await openProjectIndex(root);
+    fs.rmSync(path.join(root, 'src/cache.ts'));
+
+    const pi = await openProjectIndex(root);
+    expect(pi.manifest.lastRefresh).toMatchObject({ full: false, removed: 1, removedFiles: ['src/cache.ts'] });
+    expect(files(pi)).toEqual(['src/jobs.ts', 'src/main.ts']);
+    expect(pi.manifest.entries['src/cache.ts']).toBeUndefined();
+  });
+
+  it('디스크의 매니페스트 형식 버전이 다르면 전체를 다시 만듭니다', async () => {
+    const source = await openProjectIndex(project('app'));
+    /** 다른 루트(같은 내용)의 저장본을 형식 버전만 바꿔 심어 둠 */
+    const seed = (root: string, version: number) => {
+      const to = path.join(env.INDEX_STORE_DIR, projectIdOf(root));
+      fs.mkdirSync(to, { recursive: true });
+      const manifest = { ...source.manifest, id: projectIdOf(root), root, version };
+      fs.writeFileSync(path.join(to, 'manifest.json'), JSON.stringify(manifest));
+      fs.writeFileSync(path.join(to, 'filtered_ast.json'), JSON.stringify({ ...source.filteredAst, root }));
+      return root;
+    };
+
+    // 같은 버전이면 복사로 mtime이 달라도 해시가 같아 모두 재사용
+    const same = await openProjectIndex(seed(project('same'), source.manifest.version));
+    expect(same.manifest.lastRefresh).toMatchObject({ full: false, parsed: 0, reused: 3 });
+
+    const old = await openProjectIndex(seed(project('old'), source.manifest.version - 1));
+    expect(old.manifest.lastRefresh).toMatchObject({ full: true, parsed: 3, reused: 0 });
+    expect(old.manifest.version).toBe(source.manifest.version);
+    expect(files(old)).toEqual(files(source));
+  });
+});
@@ -0,0 +1,131 @@
+import type { BaseMessage } from '@langchain/core/messages';
+import { PROMPT_DECIDE_FILES, PROMPT_REPAIR_JSON } from '../src/config/prompts.js';
+import type { GraphState } from '../src/core/types.js';
+import { ScriptedChatModel } from '../src/llm/fake.js';
+import { messageText } from '../src/llm/messages.js';
+import { DecideFilesSchema } from '../src/llm/schemas.js';
+import { extractJson, invokeStructured } from '../src/llm/structured.js';
+
+/** 파일 결정 요청 하나 */
+function decide(llm: ScriptedChatModel, state: GraphState) {
+  return invokeStructured(llm, {
+    step: 'decideFiles',
+    system: PROMPT_DECIDE_FILES,
+    user: JSON.stringify({ question: 'q', filteredAst: { files: ['a.ts'] } }),
+    schema: DecideFilesSchema,
+    state,
+  });
+}
+
+const emptyState = () => ({ _trace: { iterations: 0, filesRequested: [], filesParsed: [] } }) as unknown as GraphState;
+
+/** tool-calling을 지원하는 척하지만 구조화 출력 요청은 `error`로 실패하는 모델 */
+function withFailingTools(llm: ScriptedChatModel, error: Error): ScriptedChatModel {
+  Object.assign(llm, {
+    bindTools: () => llm,
+    withStructuredOutput: () => ({
+      invoke: async () => {
+        throw error;
+      },
+    }),
+  });
+  return llm;
+}
+
+/** 실행하는 동안 console.warn 메시지를 모읍니다. */
+async function captureWarnings<T>(fn: () => Promise<T>): Promise<{ result: T; warnings: string[] }> {
+  const warnings: string[] = [];
+  const warn = console.warn;
+  console.warn = (...args: unknown[]) => void warnings.push(args.join(' '));
+  try {
+    return { result: await fn(), warnings };
+  } finally {
+    console.warn = warn;
+  }
+}
+
+describe('extractJson', () => {
+  it('코드 펜스와 앞뒤 설명을 벗깁니다', () => {
+    expect(extractJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Here you go: {"a":[1]} hope it helps')).toEqual({ a: [1] });
+    expect(() => extractJson('no json')).toThrow('no JSON object');
+  });
+});
+
+describe('invokeStructured 복구 재시도', () => {
+  it('스키마에 맞지 않으면 직전 응답과 오류를 붙여 다시 요청합니다', async () => {
+    const llm = new ScriptedChatModel({
+      decideFiles: ['not json at all', { wantFiles: 'a.ts' }, { wantFiles: ['a.ts'] }],
+    });
+    const sent: BaseMessage[][] = [];
+    const invoke = llm.invoke.bind(llm);
+    llm.invoke = (messages: any, options?: any) => {
+      sent.push(messages);
+      return invoke(messages, options);
+    };
+    const state = emptyState();
+
+    const { value } = await decide(llm, state);
+
+    expect(value).toEqual({ wantFiles: ['a.ts'] });
+    expect(llm.calls).toHaveLength(3);
+    const failures = state._trace!.llmFailures ?? [];
+    expect(failures.map((f) => [f.attempt, f.mode])).toEqual([
+      [0, 'json'],
+      [1, 'json'],
+    ]);
+    expect(failures[1].error).toContain('wantFiles');
+    // 두 번째 요청: 원래 요청 + 직전 응답 + 복구 지시(오류 포함)
+    const repair = sent[1];
+    expect(repair.map((m) => m.getType())).toEqual(['system', 'human', 'ai', 'human']);
+    expect(messageText(repair[2])).toBe('not json at all');
+    expect(messageText(repair[3])).toContain(PROMPT_REPAIR_JSON);
+    expect(messageText(repair[3])).toContain('no JSON object');
+    expect(state._trace!.promptTokens).toHaveLength(3);
+  });
+
+  it('재시도를 다 써도 맞지 않으면 null을 돌려주고 경고는 한 번만 남깁니다', async () => {
+    const llm = new ScriptedChatModel({ decideFiles: '{"wantFiles": 1}' });
+    const state = emptyState();
+
+    const { result, warnings } = await captureWarnings(() => decide(llm, state));
+
+    expect(result.value).toBeNull();
+    expect(result.raw).toBe('{"wantFiles": 1}');
+    expect(llm.calls).toHaveLength(3); // 처음 + LLM_REPAIR_RETRIES(기본 2)
+    expect(state._trace!.llmFailures).toHaveLength(3);
+    expect(warnings).toEqual([expect.stringContaining('decideFiles: no valid output')]);
+  });
+
+  it('성공하면 실패한 시도가 있어도 경고를 남기지 않습니다', async () => {
+    const llm = new ScriptedChatModel({ decideFiles: ['nope', { wantFiles: ['a.ts'] }] });
+    const { result, warnings } = await captureWarnings(() => decide(llm, emptyState()));
+    expect(result.value).toEqual({ wantFiles: ['a.ts'] });
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe('invokeStructured 구조화 출력 경로', () => {
+  it('tool-calling 미지원 오류면 같은 요청을 JSON 경로로 보냅니다', async () => {
+    const unsupported = Object.assign(new Error('400 this model does not support tools'), { status: 400 });
+    const llm = withFailingTools(new ScriptedChatModel({ decideFiles: { wantFiles: ['a.ts'] } }), unsupported);
+    const state = emptyState();
+
+    const { value } = await decide(llm, state);
+
+    expect(value).toEqual({ wantFiles: ['a.ts'] });
+    expect(llm.calls).toHaveLength(1);
+    expect(state._trace!.llmFailures?.map((f) => [f.attempt, f.mode])).toEqual([[0, 'structured']]);
+  });
+
+  it.each([
+    ['한도 초과', Object.assign(new Error('429 Rate limit reached for requests'), { status: 429 })],
+    ['인증 실패', Object.assign(new Error('401 Incorrect API key provided'), { status: 401 })],
+    ['네트워크 오류', new Error('fetch failed: ECONNRESET')],
+    ['tool 단어가 들어간 다른 오류', Object.assign(new Error('tools: quota exceeded, not supported on free tier'), { status: 429 })],
+  ])('%s는 JSON 경로로 바꾸지 않고 그대로 던집니다', async (_name, error) => {
+    const llm = withFailingTools(new ScriptedChatModel({ decideFiles: { wantFiles: ['a.ts'] } }), error);
+    await expect(decide(llm, emptyState())).rejects.toBe(error);
+    expect(llm.calls).toHaveLength(0);
+  });
+});
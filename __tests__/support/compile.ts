@@ -0,0 +1,31 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+
+const REPO = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+/**
+ * `src`를 파일별로 JS로 변환해 임시 디렉토리에 씁니다(타입 검사 없음).
+ * - 워커 스레드는 jest 변환을 거치지 않으므로 워커를 띄우는 테스트는 변환본(`<dir>/src/...`)을 불러옵니다.
+ * - 패키지는 저장소의 node_modules를 링크해서 씁니다.
+ * @returns {{dir: string; cleanup: () => void}} 변환본 루트와 정리 함수
+ */
+export function compileSources(): { dir: string; cleanup: () => void } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'compiled-'));
+  const src = path.join(REPO, 'src');
+  for (const rel of fs.readdirSync(src, { recursive: true }) as string[]) {
+    if (!rel.endsWith('.ts') || rel.endsWith('.d.ts')) continue;
+    const { outputText } = ts.transpileModule(fs.readFileSync(path.join(src, rel), 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+      fileName: rel,
+    });
+    const out = path.join(dir, 'src', rel.replace(/\.ts$/, '.js'));
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    fs.writeFileSync(out, outputText);
+  }
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ type: 'module' }));
+  fs.symlinkSync(path.join(REPO, 'node_modules'), path.join(dir, 'node_modules'), 'dir');
+  return { dir, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
@@ -0,0 +1,19 @@
+/**
+ * Jest 테스트 환경 — tree-sitter를 워커 프로세스에서 한 번만 로드합니다.
+ *
+ * tree-sitter의 index.js는 네이티브 바인딩(프로세스에 하나)의 `Tree.prototype` 등을 덮어쓰므로,
+ * 테스트 파일마다 새 모듈 레지스트리에서 다시 실행되면 두 번째 로드가 첫 번째가 씌운 getter를 원본으로 잡아
+ * `tree.rootNode`가 undefined가 됩니다. Node의 require로 한 번 로드한 모듈을 전역으로 넘기고,
+ * `tree-sitter` import는 moduleNameMapper로 그 전역을 가리키게 합니다(./tree-sitter.cjs).
+ */
+const { TestEnvironment } = require('jest-environment-node');
+const treeSitter = require('tree-sitter');
+
+class TreeSitterEnvironment extends TestEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    this.global.__treeSitter = treeSitter;
+  }
+}
+
+module.exports = TreeSitterEnvironment;
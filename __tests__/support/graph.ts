@@ -0,0 +1,53 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type * as Run from '../../src/graph/run.js';
+import type { ScriptedChatModel } from '../../src/llm/fake.js';
+
+/** 그래프 테스트 픽스처 */
+export interface GraphFixture {
+  /** 임시 디렉토리(filtered AST와 스크립트를 둠) */
+  tmp: string;
+  filteredAstPath: string;
+  run: typeof Run;
+  /** 노드가 쓰는 스크립트 모델 */
+  llm: ScriptedChatModel;
+  /** 임시 디렉토리 삭제 */
+  cleanup: () => void;
+}
+
+/**
+ * 스크립트 모델로 그래프를 돌릴 픽스처를 만듭니다.
+ * - `root`의 filtered AST를 임시 디렉토리에 기록
+ * - 환경변수는 모듈을 불러오는 동안만 바꾸고 되돌림(설정은 env 모듈이 로드 시점에 읽음)
+ * @param {string} root 프로젝트 루트
+ * @param {object} [opts] 옵션
+ * @param {object} [opts.script] 노드별 응답 스크립트(없으면 페이로드에서 만든 기본 응답)
+ * @param {Record<string, string>} [opts.env] 추가 환경변수
+ * @returns {Promise<GraphFixture>} 픽스처
+ */
+export async function createGraphFixture(
+  root: string,
+  opts: { script?: Record<string, unknown>; env?: Record<string, string> } = {}
+): Promise<GraphFixture> {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'graph-'));
+  let script = '';
+  if (opts.script) {
+    script = path.join(tmp, 'script.json');
+    fs.writeFileSync(script, JSON.stringify(opts.script));
+  }
+
+  const saved = { ...process.env };
+  Object.assign(process.env, { LLM_PROVIDER: 'fake', FAKE_LLM_SCRIPT: script, ...opts.env });
+  try {
+    const { buildFilteredAst, writeFilteredAst } = await import('../../src/ast/gen_filtered.js');
+    const filteredAstPath = path.join(tmp, 'filtered_ast.json');
+    await writeFilteredAst(await buildFilteredAst(root), filteredAstPath);
+    const run = await import('../../src/graph/run.js');
+    const llm = (await import('../../src/graph/nodes.js')).llm as ScriptedChatModel;
+    return { tmp, filteredAstPath, run, llm, cleanup: () => fs.rmSync(tmp, { recursive: true, force: true }) };
+  } finally {
+    for (const key of Object.keys(process.env)) if (!(key in saved)) delete process.env[key];
+    Object.assign(process.env, saved);
+  }
+}
@@ -0,0 +1,2 @@
+/** 테스트 환경(./environment.cjs)이 워커 프로세스에서 한 번 로드한 tree-sitter */
+module.exports = globalThis.__treeSitter;
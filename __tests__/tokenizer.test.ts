@@ -0,0 +1,111 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { env } from '../src/config/env.js';
+import {
+  countMessageTokens,
+  countTokens,
+  fitToTokens,
+  getTokenizer,
+  tokenizerNameForModel,
+  truncateToTokens,
+} from '../src/core/tokenizer.js';
+
+describe('tokenizer', () => {
+  const tokenizer = env.TOKENIZER;
+  afterEach(() => {
+    env.TOKENIZER = tokenizer;
+  });
+
+  it('모델 이름으로 BPE 인코딩을 고릅니다', () => {
+    expect(tokenizerNameForModel('gpt-4o-mini')).toBe('o200k_base');
+    expect(tokenizerNameForModel('gpt-4.1')).toBe('o200k_base');
+    expect(tokenizerNameForModel('o3-mini')).toBe('o200k_base');
+    expect(tokenizerNameForModel('gpt-4-turbo')).toBe('cl100k_base');
+    expect(tokenizerNameForModel('claude-3-5-sonnet-latest')).toBe('cl100k_base');
+    expect(tokenizerNameForModel(null)).toBe('cl100k_base');
+  });
+
+  it('알려진 문자열의 토큰 수를 셉니다', () => {
+    env.TOKENIZER = 'cl100k_base';
+    expect(getTokenizer().name).toBe('cl100k_base');
+    expect(countTokens('hello world')).toBe(2);
+    expect(countTokens('tiktoken is great!')).toBe(6);
+    expect(countTokens('')).toBe(0);
+    // 특수 토큰 문자열도 일반 텍스트로 셈
+    expect(countTokens('<|endoftext|>')).toBeGreaterThan(1);
+
+    env.TOKENIZER = 'o200k_base';
+    expect(countTokens('hello world')).toBe(2);
+
+    env.TOKENIZER = 'chars';
+    expect(countTokens('abcdefghi')).toBe(3);
+  });
+
+  it('메시지마다 형식 오버헤드를 더합니다', () => {
+    env.TOKENIZER = 'cl100k_base';
+    // 응답 프라이밍 3 + 메시지별 (4 + 2)
+    expect(countMessageTokens([new SystemMessage('hello world'), new HumanMessage('hello world')])).toBe(15);
+  });
+
+  it('알 수 없는 TOKENIZER는 오류를 냅니다', () => {
+    env.TOKENIZER = 'p50k_base';
+    expect(() => countTokens('x')).toThrow('unknown TOKENIZER "p50k_base"');
+  });
+});
+
+describe('fitToTokens', () => {
+  const tokenizer = env.TOKENIZER;
+  beforeEach(() => {
+    env.TOKENIZER = 'chars'; // 4자당 1토큰(올림)
+  });
+  afterEach(() => {
+    env.TOKENIZER = tokenizer;
+  });
+
+  const items = ['aaaa', 'bbbb', 'cccc', 'dddd'];
+  const render = (n: number) => items.slice(0, n).join(',');
+  const itemText = (i: number) => items[i];
+
+  it('전체가 들어가거나 예산이 무한대면 전부 넣습니다', () => {
+    expect(fitToTokens(items.length, 5, render, itemText)).toEqual({ n: 4, text: 'aaaa,bbbb,cccc,dddd' });
+    expect(fitToTokens(items.length, Infinity, render, itemText).n).toBe(4);
+    expect(fitToTokens(0, 0, render, itemText)).toEqual({ n: 0, text: '' });
+  });
+
+  it('항목별 토큰 수(+구분자)를 더해 가며 예산 안에서 고릅니다', () => {
+    // 항목당 1 + 1토큰 → 두 번째 항목에서 3을 넘음
+    expect(fitToTokens(items.length, 3, render, itemText)).toEqual({ n: 1, text: 'aaaa' });
+  });
+
+  it('항목 추정이 모자라 렌더링 결과가 넘치면 하나씩 뺍니다', () => {
+    // 항목 텍스트를 비워 추정을 1토큰으로 → 3개를 골랐지만 렌더링은 4토큰
+    expect(fitToTokens(items.length, 3, render, () => '')).toEqual({ n: 2, text: 'aaaa,bbbb' });
+  });
+
+  it('빈 틀만으로 넘치면 0개로 렌더링한 결과를 돌려줍니다', () => {
+    const framed = (n: number) => `header: ${render(n)}`;
+    expect(fitToTokens(items.length, 1, framed, itemText)).toEqual({ n: 0, text: 'header: ' });
+  });
+});
+
+describe('truncateToTokens', () => {
+  const tokenizer = env.TOKENIZER;
+  beforeAll(() => {
+    env.TOKENIZER = 'cl100k_base';
+  });
+  afterAll(() => {
+    env.TOKENIZER = tokenizer;
+  });
+
+  it('예산 안이거나 상한이 없으면 그대로 돌려줍니다', () => {
+    expect(truncateToTokens('hello world', 2)).toBe('hello world');
+    expect(truncateToTokens('hello world', 0)).toBe('hello world');
+  });
+
+  it('넘치면 뒤쪽을 버리고 잘렸다는 표시를 붙여 예산 안으로 맞춥니다', () => {
+    const text = Array.from({ length: 200 }, (_, i) => `line ${i}: const value${i} = compute(${i});`).join('\n');
+    const out = truncateToTokens(text, 50);
+    expect(out.endsWith('\n…(truncated)')).toBe(true);
+    expect(text.startsWith(out.slice(0, -'\n…(truncated)'.length))).toBe(true);
+    expect(countTokens(out)).toBeLessThanOrEqual(50);
+  });
+});
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import Parser from 'tree-sitter';
+import type { SyntaxNode } from 'tree-sitter';
+import { getLanguageForFile } from '../src/ast/languages.js';
+import { computeEdit, forgetTree, parseWithCache, treeCacheStats } from '../src/ast/tree-cache.js';
+
+const TESTDATA = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../testdata');
+/** 픽스처를 이어 붙일 횟수(편집 지점과 무관한 서브트리가 충분히 생기도록) */
+const REPEAT = 200;
+
+/** 트리의 노드 id(재사용된 서브트리는 같은 id를 유지) */
+function nodeIds(root: SyntaxNode): Set<number> {
+  const ids = new Set<number>();
+  const cursor = root.walk();
+  for (;;) {
+    ids.add(cursor.currentNode.id);
+    if (cursor.gotoFirstChild()) continue;
+    while (!cursor.gotoNextSibling()) {
+      if (!cursor.gotoParent()) return ids;
+    }
+  }
+}
+
+/** 픽스처 파일을 REPEAT번 이어 붙인 큰 소스 */
+function bigSource(rel: string): { file: string; language: any; text: string } {
+  const file = path.join(TESTDATA, rel);
+  const code = fs.readFileSync(file, 'utf8');
+  const { language } = getLanguageForFile(file, path.dirname(file), code);
+  return { file, language, text: Array.from({ length: REPEAT }, () => code).join('\n') };
+}
+
+/** 텍스트 한가운데 줄 하나에 주석을 끼워 넣은 새 텍스트 */
+function editMiddle(text: string): string {
+  const at = text.indexOf('\n', Math.floor(text.length / 2)) + 1;
+  return `${text.slice(0, at)}// edited\n${text.slice(at)}`;
+}
+
+describe('tree-cache', () => {
+  afterEach(() => forgetTree());
+
+  it('computeEdit은 바뀐 구간 하나만 돌려줍니다', () => {
+    const edit = computeEdit('int a;\nint b;\n', 'int a;\nint bc;\n')!;
+    expect(edit.startIndex).toBe(12);
+    expect(edit.oldEndIndex).toBe(12);
+    expect(edit.newEndIndex).toBe(13);
+    expect(edit.startPosition).toEqual({ row: 1, column: 5 });
+    expect(computeEdit('same', 'same')).toBeNull();
+  });
+
+  it('같은 텍스트면 캐시 트리를, 바뀌면 증분 파싱을 씁니다', () => {
+    const { file, language, text } = bigSource('c_simple/src/math.c');
+    const before = treeCacheStats();
+    const first = parseWithCache(file, language, text);
+    expect(parseWithCache(file, language, text)).toBe(first);
+    parseWithCache(file, language, editMiddle(text));
+    const after = treeCacheStats();
+    expect(after.full - before.full).toBe(1);
+    expect(after.hits - before.hits).toBe(1);
+    expect(after.incremental - before.incremental).toBe(1);
+  });
+
+  it.each(['ts_types/src/state.ts', 'c_simple/src/math.c', 'java_basic/src/com/example/Account.java'])(
+    '%s: 증분 파싱은 대부분의 노드를 재사용합니다',
+    (rel) => {
+      const { file, language, text } = bigSource(rel);
+      const edited = editMiddle(text);
+      const fresh = new Parser();
+      fresh.setLanguage(language);
+      const opts = { bufferSize: edited.length + 1 };
+
+      // 이전 트리의 노드 id가 새 트리에 남아 있는 수
+      forgetTree(file);
+      const before = nodeIds(parseWithCache(file, language, text).rootNode);
+      const full = fresh.parse(edited, undefined, opts);
+      const incrementalIds = nodeIds(parseWithCache(file, language, edited).rootNode);
+      const fullReused = [...nodeIds(full.rootNode)].filter((id) => before.has(id)).length;
+      const incrementalReused = [...incrementalIds].filter((id) => before.has(id)).length;
+
+      expect(fullReused).toBe(0);
+      expect(incrementalReused / incrementalIds.size).toBeGreaterThan(0.5);
+    }
+  );
+});
@@ -2,11 +2,13 @@ import type { Config } from 'jest';
 
 const config: Config = {
   preset: 'ts-jest/presets/default-esm',
-  testEnvironment: 'node',
+  // tree-sitter를 워커 프로세스에서 한 번만 로드(__tests__/support/environment.cjs)
+  testEnvironment: '<rootDir>/__tests__/support/environment.cjs',
   transform: { '^.+\\.tsx?$': ['ts-jest', { useESM: true }] },
   extensionsToTreatAsEsm: ['.ts', '.tsx'],
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
+    '^tree-sitter$': '<rootDir>/__tests__/support/tree-sitter.cjs',
   },
   roots: ['<rootDir>/__tests__'],
   testMatch: ['**/*.test.ts'],
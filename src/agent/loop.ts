@@ -0,0 +1,141 @@
+import { HumanMessage, SystemMessage, ToolMessage, type AIMessage, type BaseMessage } from '@langchain/core/messages';
+
+import { env } from '../config/env.js';
+import { PROMPT_AGENT } from '../config/prompts.js';
+import { historyForPrompt } from '../core/history.js';
+import { countMessageTokens, countTokens, fitToTokens, truncateToTokens } from '../core/tokenizer.js';
+import type { AgentStopReason, GraphState } from '../core/types.js';
+import type { ChatModel } from '../llm/provider.js';
+import { userTokenBudget } from '../llm/structured.js';
+import { AGENT_TOOLS, FINISH_TOOL, type AgentToolContext } from './tools.js';
+
+const TOOLS_BY_NAME = new Map(AGENT_TOOLS.map((t) => [t.name, t]));
+
+/**
+ * 첫 요청 메시지(시스템 프롬프트 + 질문/파일 목록)
+ * - 파일 목록은 사용자 메시지 예산의 절반까지만 싣습니다(나머지는 도구 결과 몫).
+ * @param {GraphState} state 현재 상태(filteredAst 필요)
+ * @returns {BaseMessage[]} 메시지
+ */
+function initialMessages(state: GraphState): BaseMessage[] {
+  const files: string[] = state.filteredAst?.files ?? [];
+  const history = historyForPrompt(state.history);
+  const budget = { maxSteps: env.AGENT_MAX_STEPS, toolTokens: env.AGENT_MAX_TOOL_TOKENS };
+  const render = (n: number) =>
+    JSON.stringify({ question: state.question, history, files: files.slice(0, n), omittedFiles: files.length - n, budget });
+  const { text } = fitToTokens(files.length, userTokenBudget(PROMPT_AGENT) / 2, render, (i) => JSON.stringify(files[i]));
+  return [new SystemMessage(PROMPT_AGENT), new HumanMessage(text)];
+}
+
+/**
+ * LangGraph 노드(에이전트 모드): 모델에 다음 행동을 묻습니다.
+ *
+ * - 모델이 도구 호출 없이 답하거나 `finish`를 부르면 탐색을 끝냅니다.
+ * - `AGENT_MAX_STEPS`번 호출했거나 대화가 `MODEL_CTX_TOKENS`를 넘으면 모델을 부르지 않고 끝냅니다.
+ * - LLM이 없으면 바로 끝냅니다(답변 노드가 데모 응답 생성).
+ * - 종료 사유는 `_trace.agentStop`에 기록합니다.
+ *
+ * @param {ChatModel|null} llm 챗 모델
+ * @param {GraphState} state 현재 상태
+ * @returns {Promise<GraphState>} 모델 응답이 덧붙은 상태
+ */
+export async function nodeAgentStep(llm: ChatModel | null, state: GraphState): Promise<GraphState> {
+  if (!state.filteredAst) throw new Error('filteredAst missing');
+  const tr = state._trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
+  const messages = state.agentMessages?.length ? state.agentMessages : initialMessages(state);
+  const stop = (reason: AgentStopReason): GraphState => {
+    tr.agentStop = reason;
+    return { ...state, agentMessages: messages, _trace: tr };
+  };
+
+  if (!llm || typeof (llm as any).invoke !== 'function') return stop('no_model');
+  const steps = tr.agentSteps ?? 0;
+  if (steps >= Math.max(1, env.AGENT_MAX_STEPS)) return stop('max_steps');
+  const tokens = countMessageTokens(messages);
+  if (env.MODEL_CTX_TOKENS > 0 && tokens + env.OUTPUT_TOKENS_BUDGET > env.MODEL_CTX_TOKENS) return stop('context');
+
+  (tr.promptTokens ??= []).push({ iteration: tr.iterations ?? 0, step: 'agent', tokens });
+  // tool-calling 미지원 모델은 도구 없이 호출(곧바로 답변 단계로)
+  const model =
+    typeof llm.bindTools === 'function'
+      ? llm.bindTools(AGENT_TOOLS.map(({ name, description, schema }) => ({ name, description, schema })))
+      : llm;
+  const reply = (await model.invoke(messages)) as AIMessage;
+  tr.agentSteps = steps + 1;
+
+  const calls = reply.tool_calls ?? [];
+  if (!calls.length) tr.agentStop = 'no_tool_calls';
+  const finish = calls.find((c) => c.name === FINISH_TOOL);
+  if (finish) {
+    tr.agentStop = 'finish';
+    (tr.toolCalls ??= []).push({ step: steps, tool: FINISH_TOOL, args: finish.args, ok: true, tokens: 0 });
+  }
+  return { ...state, agentMessages: [...messages, reply], _trace: tr };
+}
+
+/**
+ * LangGraph 노드(에이전트 모드): 직전 모델 응답의 도구 호출을 실행합니다.
+ *
+ * - 결과는 `AGENT_TOOL_RESULT_TOKENS`로 잘라 `ToolMessage`로 돌려주고, 호출마다 `_trace.toolCalls`에 기록합니다.
+ * - 인자 검증 실패/도구 오류는 오류 메시지를 결과로 돌려줘 모델이 고칠 수 있게 합니다.
+ * - `read_range`로 읽은 코드는 `codeSlices`에, 읽거나 파싱한 파일은 `wantFiles`/`filesParsed`에 모읍니다.
+ * - 도구 결과 토큰 합계가 `AGENT_MAX_TOOL_TOKENS`에 이르면 탐색을 끝냅니다.
+ *
+ * @param {GraphState} state 현재 상태(agentMessages 필요)
+ * @returns {Promise<GraphState>} 도구 결과가 덧붙은 상태
+ */
+export async function nodeAgentTools(state: GraphState): Promise<GraphState> {
+  const tr = state._trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
+  const messages = state.agentMessages ?? [];
+  const last = messages.at(-1) as AIMessage | undefined;
+  const calls = (last?.tool_calls ?? []).filter((c) => c.name !== FINISH_TOOL);
+  const ctx: AgentToolContext = {
+    projectRoot: state.projectRoot ?? env.PROJECT_ROOT,
+    filteredAst: state.filteredAst,
+    priorSlices: state.priorSlices ?? [],
+    slices: [...(state.codeSlices ?? [])],
+    files: new Set(state.wantFiles ?? []),
+  };
+  const step = Math.max(0, (tr.agentSteps ?? 1) - 1);
+  let used = (tr.toolCalls ?? []).reduce((sum, c) => sum + c.tokens, 0);
+
+  const results: ToolMessage[] = [];
+  for (const call of calls) {
+    const tool = TOOLS_BY_NAME.get(call.name);
+    let content: string;
+    let error: string | undefined;
+    try {
+      if (!tool) throw new Error(`unknown tool: ${call.name}`);
+      const args = tool.schema.safeParse(call.args ?? {});
+      if (!args.success) {
+        throw new Error(`invalid arguments: ${args.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ')}`);
+      }
+      const value = await tool.run(args.data, ctx);
+      content = typeof value === 'string' ? value : JSON.stringify(value);
+    } catch (e: any) {
+      error = String(e?.message || e);
+      content = `error: ${error}`;
+    }
+    content = truncateToTokens(content, env.AGENT_TOOL_RESULT_TOKENS);
+    const tokens = countTokens(content);
+    used += tokens;
+    (tr.toolCalls ??= []).push({ step, tool: call.name, args: call.args, ok: !error, tokens, ...(error ? { error } : {}) });
+    results.push(new ToolMessage({ content, tool_call_id: call.id ?? '', name: call.name }));
+  }
+  if (env.AGENT_MAX_TOOL_TOKENS > 0 && used >= env.AGENT_MAX_TOOL_TOKENS) tr.agentStop = 'token_budget';
+
+  const files = [...ctx.files];
+  const it = tr.iterations ?? 0;
+  tr.filesRequested[it] = files;
+  tr.filesParsed[it] = files;
+  return { ...state, agentMessages: [...messages, ...results], codeSlices: ctx.slices, wantFiles: files, _trace: tr };
+}
+
+/**
+ * 에이전트/도구 노드 다음 행선지
+ * @param {GraphState} state 현재 상태
+ * @returns {'continue'|'answer'} 탐색이 끝났으면 answer, 아니면 continue(도구 실행 또는 다음 모델 호출)
+ */
+export function agentNext(state: GraphState): 'continue' | 'answer' {
+  return state._trace?.agentStop ? 'answer' : 'continue';
+}
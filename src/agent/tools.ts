@@ -0,0 +1,224 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+import { buildDepGraph, depNeighbourhood, type DepGraph } from '../ast/deps.js';
+import { buildDirTree, dirView } from '../ast/dirs.js';
+import type { FileIndexItem } from '../ast/gen_filtered.js';
+import { buildFileOutline } from '../ast/outline.js';
+import { parseFileToAST, sliceDetailedAST } from '../ast/parse.js';
+import { searchProject } from '../ast/search.js';
+import { readFileLines, sliceFromPrior } from '../code/load.js';
+import type { CodeSlice } from '../core/types.js';
+
+/** 도구 실행 컨텍스트(한 번의 질문 동안 유지) */
+export interface AgentToolContext {
+  projectRoot: string;
+  filteredAst: any;
+  /** 같은 대화의 이전 턴에서 읽은 코드 조각 */
+  priorSlices: CodeSlice[];
+  /** read_range로 읽은 코드 조각(최종 답변 근거) */
+  slices: CodeSlice[];
+  /** 읽거나 파싱한 파일 */
+  files: Set<string>;
+  /** 의존 그래프(처음 쓸 때 생성) */
+  depGraph?: DepGraph;
+}
+
+/** 에이전트 도구 */
+export interface AgentTool<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  run(args: z.infer<S>, ctx: AgentToolContext): Promise<unknown>;
+}
+
+/** 탐색 종료를 알리는 도구 이름(실행하지 않음) */
+export const FINISH_TOOL = 'finish';
+
+/** read_range 한 번에 읽는 최대 라인 수 */
+const MAX_RANGE_LINES = 400;
+/** grep 최대 결과 수 */
+const GREP_MAX_MATCHES = 50;
+/** list_symbols(query) 최대 결과 수 */
+const SYMBOL_MAX_MATCHES = 50;
+/** list_dir 최대 항목 수 */
+const DIR_MAX_ENTRIES = 200;
+
+/** 인덱스 항목(없으면 오류 — 인덱스 밖 파일/경로 이탈 방지) */
+function indexItem(ctx: AgentToolContext, file: string): FileIndexItem {
+  const rel = file.replaceAll('\\', '/').replace(/^\.\//, '');
+  const item = (ctx.filteredAst?.index ?? []).find((e: FileIndexItem) => e.file === rel);
+  if (!item) throw new Error(`file not in index: ${file} (use list_symbols without arguments to list files)`);
+  return item;
+}
+
+/** 스키마에서 `run` 인자 타입을 추론하도록 감싸는 헬퍼 */
+function defineTool<S extends z.ZodTypeAny>(t: AgentTool<S>): AgentTool<S> {
+  return t;
+}
+
+const listSymbols = defineTool({
+  name: 'list_symbols',
+  description:
+    'List declarations (kind, name, startLine, endLine). With "file": the outline of that file. ' +
+    'With "query": symbols whose name contains the query across the project. With neither: the indexed files.',
+  schema: z.object({
+    file: z.string().optional().describe('project-relative file path'),
+    query: z.string().optional().describe('case-insensitive substring of a symbol name'),
+  }),
+  async run({ file, query }, ctx) {
+    const index: FileIndexItem[] = ctx.filteredAst?.index ?? [];
+    if (file) return buildFileOutline(indexItem(ctx, file));
+    if (query) {
+      const q = query.toLowerCase();
+      const out: Array<{ file: string; kind: string; name: string; startLine: number; endLine: number }> = [];
+      for (const item of index) {
+        for (const s of buildFileOutline(item).symbols) {
+          if (s.name.toLowerCase().includes(q)) out.push({ file: item.file, ...s });
+          if (out.length >= SYMBOL_MAX_MATCHES) return { matches: out, truncated: true };
+        }
+      }
+      return { matches: out };
+    }
+    return { files: index.map((e) => ({ file: e.file, lines: e.lines ?? 0, symbols: (e.ast ?? []).length })) };
+  },
+});
+
+const listDir = defineTool({
+  name: 'list_dir',
+  description:
+    'One level of the directory tree: subdirectories (file count, lines, languages, top symbols) and the files ' +
+    'directly inside (language, lines, main symbols). Start from "." on large projects and descend.',
+  schema: z.object({
+    dir: z.string().optional().describe('project-relative directory (default ".")'),
+  }),
+  async run({ dir }, ctx) {
+    const view = dirView(buildDirTree(ctx.filteredAst), ctx.filteredAst, dir ?? '.', { maxEntries: DIR_MAX_ENTRIES });
+    if (!view) throw new Error(`directory not in index: ${dir}`);
+    return view;
+  },
+});
+
+const readRange = defineTool({
+  name: 'read_range',
+  description: `Read lines startLine..endLine (1-based, inclusive, at most ${MAX_RANGE_LINES} lines) of a file. ` +
+    'The code read here is what the final answer is based on.',
+  schema: z.object({
+    file: z.string().describe('project-relative file path'),
+    startLine: z.number().int().min(1),
+    endLine: z.number().int().min(1),
+  }),
+  async run({ file, startLine, endLine }, ctx) {
+    const item = indexItem(ctx, file);
+    const start = startLine;
+    if (item.lines && start > item.lines) throw new Error(`start beyond end of file (${item.lines} lines)`);
+    const end = Math.min(Math.max(start, endLine), start + MAX_RANGE_LINES - 1, item.lines || Infinity);
+    const code =
+      sliceFromPrior(ctx.priorSlices, item.file, start, end) ??
+      (await readFileLines(path.resolve(ctx.projectRoot, item.file), start, end));
+    if (code == null) throw new Error(`cannot read ${item.file}`);
+
+    ctx.files.add(item.file);
+    if (!ctx.slices.some((s) => s.file === item.file && s.startLine === start && s.endLine === end)) {
+      ctx.slices.push({ file: item.file, startLine: start, endLine: end, code, rationale: 'agent: read_range' });
+    }
+    const numbered = code.split('\n').map((l, i) => `${start + i}: ${l}`).join('\n');
+    return `${item.file}:${start}-${end}\n${numbered}`;
+  },
+});
+
+const grep = defineTool({
+  name: 'grep',
+  description: `Search indexed files with a JavaScript regular expression. Returns up to ${GREP_MAX_MATCHES} "file:line: text" matches.`,
+  schema: z.object({
+    pattern: z.string().describe('regular expression'),
+    path: z.string().optional().describe('only files under this project-relative directory or path prefix'),
+    ignoreCase: z.boolean().optional(),
+  }),
+  async run({ pattern, path: prefix, ignoreCase }, ctx) {
+    const re = new RegExp(pattern, ignoreCase ? 'i' : '');
+    const files: string[] = (ctx.filteredAst?.files ?? []).filter((f: string) => !prefix || f.startsWith(prefix));
+    const out: string[] = [];
+    for (const file of files) {
+      let text: string;
+      try {
+        text = await fs.readFile(path.resolve(ctx.projectRoot, file), 'utf8');
+      } catch {
+        continue;
+      }
+      const lines = text.split(/\r?\n/);
+      for (let i = 0; i < lines.length; i++) {
+        if (!re.test(lines[i])) continue;
+        out.push(`${file}:${i + 1}: ${lines[i].trim().slice(0, 200)}`);
+        if (out.length >= GREP_MAX_MATCHES) return `${out.join('\n')}\n(more matches omitted)`;
+      }
+    }
+    return out.length ? out.join('\n') : '(no matches)';
+  },
+});
+
+const getDetailedAst = defineTool({
+  name: 'get_detailed_ast',
+  description:
+    'Detailed syntax tree of a file (node type, position, source sample). ' +
+    'Pass "symbols" to keep only nodes mentioning those names.',
+  schema: z.object({
+    file: z.string().describe('project-relative file path'),
+    symbols: z.array(z.string()).optional(),
+    maxNodes: z.number().int().positive().optional(),
+  }),
+  async run({ file, symbols, maxNodes }, ctx) {
+    const item = indexItem(ctx, file);
+    const ast = await parseFileToAST(path.resolve(ctx.projectRoot, item.file), ctx.projectRoot);
+    ctx.files.add(item.file);
+    return symbols?.length ? sliceDetailedAST(ast, { symbols, hintTypes: [], maxNodes: maxNodes ?? 200 }) : ast;
+  },
+});
+
+const followImport = defineTool({
+  name: 'follow_import',
+  description: 'Project files a file imports (dependencies) and files importing it (dependents), up to "depth" hops.',
+  schema: z.object({
+    file: z.string().describe('project-relative file path'),
+    direction: z.enum(['dependencies', 'dependents', 'both']).optional(),
+    depth: z.number().int().min(1).max(3).optional(),
+  }),
+  async run({ file, direction, depth }, ctx) {
+    const item = indexItem(ctx, file);
+    ctx.depGraph ??= buildDepGraph(ctx.filteredAst);
+    const n = depNeighbourhood(ctx.depGraph, item.file, depth ?? 1);
+    if (direction === 'dependencies') return { file: n.file, depth: n.depth, dependencies: n.dependencies };
+    if (direction === 'dependents') return { file: n.file, depth: n.depth, dependents: n.dependents };
+    return n;
+  },
+});
+
+const searchCode = defineTool({
+  name: 'search_code',
+  description:
+    'Rank project files by lexical relevance to a query (BM25 over identifiers split on camelCase/snake_case, ' +
+    'comments and string literals). Each hit lists its declarations matching the query.',
+  schema: z.object({
+    query: z.string().describe('words or identifiers to look for'),
+    limit: z.number().int().min(1).max(50).optional(),
+  }),
+  async run({ query, limit }, ctx) {
+    const hits = await searchProject(ctx.projectRoot, ctx.filteredAst, query, limit ?? 10);
+    return hits.length ? hits : '(no matches)';
+  },
+});
+
+const finish = defineTool({
+  name: FINISH_TOOL,
+  description: 'Stop exploring: the ranges read with read_range are enough to answer the question.',
+  schema: z.object({
+    reason: z.string().describe('why the evidence is sufficient'),
+  }),
+  async run() {
+    return 'ok';
+  },
+});
+
+/** 에이전트 도구 목록(`finish` 포함) */
+export const AGENT_TOOLS: AgentTool[] = [listSymbols, listDir, readRange, grep, searchCode, getDetailedAst, followImport, finish];
@@ -0,0 +1,215 @@
+import type { CallSite, FileIndexItem } from './gen_filtered.js';
+
+/** 콜 그래프의 심볼 참조 */
+export interface SymbolRef {
+  file: string;
+  /** 인덱스 기준 이름(예: `Foo.bar`, `A::m1`, `<module>`) */
+  symbol: string;
+}
+
+/** 호출 간선 */
+export interface CallEdge {
+  caller: SymbolRef;
+  callee: SymbolRef;
+  /** 호출 라인(caller 파일 기준, 1-based) */
+  line: number;
+  /**
+   * 해석 근거
+   * - `self`: self/this 메서드 호출, `qualified`: 한정자(클래스/네임스페이스) 일치,
+   *   `local`: 같은 파일, `import`: import한 파일, `name`: 이름만 일치(모호)
+   */
+  via: 'self' | 'qualified' | 'local' | 'import' | 'name';
+}
+
+/** 프로젝트 콜 그래프(최선 노력) */
+export interface CallGraph {
+  edges: CallEdge[];
+  /** 정의된 심볼 수 */
+  symbols: number;
+}
+
+/** 이름만으로 잇는 경우 허용할 최대 후보 수(넘으면 모호하므로 버림) */
+const AMBIGUOUS_MAX = 3;
+
+/** `A::m1` / `Foo.bar` → `m1` / `bar` */
+export function simpleName(name: string): string {
+  return name.split(/::|\./).pop() ?? name;
+}
+
+/** `A::m1` / `Foo.bar` → `A` / `Foo` (없으면 빈 문자열) */
+function ownerName(name: string): string {
+  const parts = name.split(/::|\./);
+  return parts.length > 1 ? parts[parts.length - 2] : '';
+}
+
+/** 정의 심볼 */
+interface DefRef extends SymbolRef {
+  simple: string;
+  owner: string;
+}
+
+/**
+ * 인덱스에서 호출 대상이 될 수 있는 정의(함수/메서드/생성자)를 모읍니다.
+ * - 클래스 메서드는 `Class.method`(이미 한정된 이름은 그대로)로 등록합니다.
+ * - 클래스 이름 자체도 생성자 호출(`new Foo()`, `Foo()`) 대상으로 등록합니다.
+ */
+function collectDefs(index: FileIndexItem[]): DefRef[] {
+  const defs: DefRef[] = [];
+  const add = (file: string, symbol: string) =>
+    defs.push({ file, symbol, simple: simpleName(symbol), owner: ownerName(symbol) });
+
+  for (const item of index) {
+    for (const sig of item.ast ?? []) {
+      if (sig.type === 'function') add(item.file, sig.name);
+      if (sig.type === 'class') {
+        add(item.file, sig.name);
+        for (const m of sig.methods ?? []) {
+          add(item.file, m.name.includes('::') ? m.name : `${sig.name}.${m.name}`);
+        }
+      }
+    }
+  }
+  return defs;
+}
+
+/**
+ * 호출 지점 하나를 정의 후보 중에서 해석합니다.
+ * - self/this → 같은 클래스 메서드, 한정자 일치 → 같은 파일 → import한 파일 → 이름만(후보가 적을 때) 순
+ */
+function resolveCall(
+  call: CallSite,
+  file: string,
+  candidates: DefRef[],
+  imported: Set<string>
+): Array<{ def: DefRef; via: CallEdge['via'] }> {
+  if (!candidates.length) return [];
+  const q = call.qualifier ?? '';
+
+  if (q === 'self' || q === 'this') {
+    const owner = ownerName(call.caller);
+    const same = candidates.filter((c) => c.owner === owner && c.file === file);
+    const any = same.length ? same : candidates.filter((c) => c.owner === owner);
+    if (any.length) return any.map((def) => ({ def, via: 'self' as const }));
+  }
+
+  if (q) {
+    const last = simpleName(q);
+    const owned = candidates.filter((c) => c.owner && (c.owner === q || c.owner === last));
+    if (owned.length) return owned.map((def) => ({ def, via: 'qualified' as const }));
+  }
+
+  const local = candidates.filter((c) => c.file === file);
+  if (local.length) return local.map((def) => ({ def, via: 'local' as const }));
+
+  const viaImport = candidates.filter((c) => imported.has(c.file));
+  if (viaImport.length) return viaImport.map((def) => ({ def, via: 'import' as const }));
+
+  if (candidates.length <= AMBIGUOUS_MAX) return candidates.map((def) => ({ def, via: 'name' as const }));
+  return [];
+}
+
+/**
+ * filtered AST 인덱스의 호출 지점(`calls`)과 import 정보로 **최선 노력 콜 그래프**를 만듭니다.
+ *
+ * @param {any} filteredAst filtered AST(JSON)
+ * @returns {CallGraph} 호출 간선 목록
+ */
+export function buildCallGraph(filteredAst: any): CallGraph {
+  const index: FileIndexItem[] = Array.isArray(filteredAst?.index) ? filteredAst.index : [];
+  const defs = collectDefs(index);
+  const bySimple = new Map<string, DefRef[]>();
+  for (const d of defs) {
+    const arr = bySimple.get(d.simple);
+    if (arr) arr.push(d);
+    else bySimple.set(d.simple, [d]);
+  }
+
+  const edges: CallEdge[] = [];
+  const seen = new Set<string>();
+  for (const item of index) {
+    const imported = new Set((item.imports ?? []).map((i) => i.resolved).filter(Boolean) as string[]);
+    for (const call of item.calls ?? []) {
+      for (const { def, via } of resolveCall(call, item.file, bySimple.get(call.callee) ?? [], imported)) {
+        if (def.file === item.file && def.symbol === call.caller) continue; // 재귀 호출은 생략
+        const key = `${item.file}\0${call.caller}\0${def.file}\0${def.symbol}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        edges.push({
+          caller: { file: item.file, symbol: call.caller },
+          callee: { file: def.file, symbol: def.symbol },
+          line: call.line,
+          via,
+        });
+      }
+    }
+  }
+  return { edges, symbols: defs.length };
+}
+
+/** 질의 이름이 심볼과 일치하는지(한정자가 없으면 마지막 마디만 비교) */
+function matchesSymbol(symbol: string, name: string): boolean {
+  if (symbol === name) return true;
+  if (/::|\./.test(name)) return symbol.replace(/::/g, '.') === name.replace(/::/g, '.');
+  return simpleName(symbol) === name;
+}
+
+/**
+ * 심볼을 호출하는 쪽(callers)을 반환합니다.
+ * @param {CallGraph} graph 콜 그래프
+ * @param {string} name 심볼 이름(`bar` 또는 `Foo.bar`/`A::m1`)
+ * @returns {CallEdge[]} 간선 목록
+ */
+export function callersOf(graph: CallGraph, name: string): CallEdge[] {
+  return graph.edges.filter((e) => matchesSymbol(e.callee.symbol, name));
+}
+
+/**
+ * 심볼이 호출하는 쪽(callees)을 반환합니다.
+ * @param {CallGraph} graph 콜 그래프
+ * @param {string} name 심볼 이름(`bar` 또는 `Foo.bar`/`A::m1`)
+ * @returns {CallEdge[]} 간선 목록
+ */
+export function calleesOf(graph: CallGraph, name: string): CallEdge[] {
+  return graph.edges.filter((e) => matchesSymbol(e.caller.symbol, name));
+}
+
+/** 식별자 모양(camelCase, snake_case, `a.b`, `A::b`)인지 — 평범한 영어 단어(run, get, set)와 구분 */
+function looksLikeIdentifier(word: string): boolean {
+  return /[a-z0-9][A-Z]/.test(word) || /[A-Za-z0-9]_[A-Za-z0-9]/.test(word) || /[\w$](?:\.|::)[A-Za-z_$]/.test(word);
+}
+
+/**
+ * 질문에 등장하는 심볼 이름의 caller/callee 파일을 모읍니다.
+ * - 질문의 단어 중 식별자 모양(camelCase, snake_case, `a.b`, `A::b`)이면서 인덱스에 정의가 있는 것,
+ *   또는 인덱스의 심볼 이름과 정확히 같은 것만 대상으로 합니다
+ *   ("run", "get" 같은 단어가 `Foo.run`에 걸려 관계없는 파일을 끌어오지 않도록).
+ *
+ * @param {any} filteredAst filtered AST(JSON)
+ * @param {string} question 사용자 질문
+ * @param {number} limit 최대 파일 수
+ * @returns {{symbols:string[]; files:string[]}} 질문에서 찾은 심볼과 관련 파일
+ */
+export function callGraphFilesForQuestion(
+  filteredAst: any,
+  question: string,
+  limit: number
+): { symbols: string[]; files: string[] } {
+  const words = Array.from(new Set((question || '').match(/[A-Za-z_$][A-Za-z0-9_$]*(?:(?:::|\.)[A-Za-z_$][A-Za-z0-9_$]*)*/g) ?? []));
+  if (!words.length || limit <= 0) return { symbols: [], files: [] };
+
+  const defs = collectDefs(Array.isArray(filteredAst?.index) ? filteredAst.index : []);
+  const defined = new Set(defs.map((d) => d.simple));
+  const exact = new Set(defs.map((d) => d.symbol));
+  const symbols = words.filter(
+    (w) => w.length >= 3 && (exact.has(w) || (looksLikeIdentifier(w) && defined.has(simpleName(w))))
+  );
+  if (!symbols.length) return { symbols: [], files: [] };
+
+  const graph = buildCallGraph(filteredAst);
+  const files: string[] = [];
+  for (const sym of symbols) {
+    for (const e of callersOf(graph, sym)) files.push(e.caller.file, e.callee.file);
+    for (const e of calleesOf(graph, sym)) files.push(e.caller.file, e.callee.file);
+  }
+  return { symbols, files: Array.from(new Set(files)).slice(0, limit) };
+}
@@ -0,0 +1,145 @@
+import type { FileIndexItem } from './gen_filtered.js';
+
+/** 파일 단위 모듈 의존 그래프 */
+export interface DepGraph {
+  /** 파일 → 이 파일이 import하는 파일 */
+  dependencies: Map<string, Set<string>>;
+  /** 파일 → 이 파일을 import하는 파일 */
+  dependents: Map<string, Set<string>>;
+}
+
+/** 이웃 파일(시작 파일로부터의 거리 포함) */
+export interface DepNeighbour {
+  file: string;
+  depth: number;
+}
+
+/** 한 파일의 의존/피의존 이웃 */
+export interface DepNeighbourhood {
+  file: string;
+  depth: number;
+  dependencies: DepNeighbour[];
+  dependents: DepNeighbour[];
+}
+
+/**
+ * filtered AST 인덱스의 해석된 import(`resolved`)로 의존 그래프를 만듭니다.
+ *
+ * @param {any} filteredAst filtered AST(JSON)
+ * @returns {DepGraph} 의존/피의존 인접 리스트
+ */
+export function buildDepGraph(filteredAst: any): DepGraph {
+  const dependencies = new Map<string, Set<string>>();
+  const dependents = new Map<string, Set<string>>();
+  const index: FileIndexItem[] = Array.isArray(filteredAst?.index) ? filteredAst.index : [];
+
+  for (const item of index) {
+    if (!dependencies.has(item.file)) dependencies.set(item.file, new Set());
+    if (!dependents.has(item.file)) dependents.set(item.file, new Set());
+  }
+  for (const item of index) {
+    for (const imp of item.imports ?? []) {
+      if (!imp.resolved) continue;
+      dependencies.get(item.file)!.add(imp.resolved);
+      if (!dependents.has(imp.resolved)) dependents.set(imp.resolved, new Set());
+      dependents.get(imp.resolved)!.add(item.file);
+    }
+  }
+  return { dependencies, dependents };
+}
+
+/** 인접 리스트를 따라 BFS로 depth 이내의 파일을 모읍니다(시작 파일 제외). */
+function bfs(adj: Map<string, Set<string>>, start: string, depth: number): DepNeighbour[] {
+  const seen = new Map<string, number>([[start, 0]]);
+  let frontier = [start];
+  for (let d = 1; d <= depth && frontier.length; d++) {
+    const next: string[] = [];
+    for (const f of frontier) {
+      for (const n of adj.get(f) ?? []) {
+        if (seen.has(n)) continue;
+        seen.set(n, d);
+        next.push(n);
+      }
+    }
+    frontier = next;
+  }
+  seen.delete(start);
+  return [...seen.entries()]
+    .map(([file, d]) => ({ file, depth: d }))
+    .sort((a, b) => a.depth - b.depth || a.file.localeCompare(b.file));
+}
+
+/**
+ * 한 파일의 의존(dependencies)/피의존(dependents) 파일을 depth 단계까지 구합니다.
+ *
+ * @param {DepGraph} graph 의존 그래프
+ * @param {string} file 시작 파일(프로젝트 상대 경로)
+ * @param {number} depth 탐색 깊이(1 이상)
+ * @returns {DepNeighbourhood} 이웃 목록
+ */
+export function depNeighbourhood(graph: DepGraph, file: string, depth: number): DepNeighbourhood {
+  const d = Math.max(1, Math.floor(depth) || 1);
+  return {
+    file,
+    depth: d,
+    dependencies: bfs(graph.dependencies, file, d),
+    dependents: bfs(graph.dependents, file, d),
+  };
+}
+
+/**
+ * 질문에 등장하는 식별자/파일명으로 **후보 파일**을 고릅니다.
+ * - 심볼 이름(한정 이름의 마지막 마디 포함)과 정확히 일치하거나
+ * - 확장자를 뗀 파일명과 대소문자 무시로 일치하면 후보로 봅니다.
+ *
+ * @param {any} filteredAst filtered AST(JSON)
+ * @param {string} question 사용자 질문
+ * @param {number} limit 최대 개수
+ * @returns {string[]} 후보 파일(상대 경로)
+ */
+export function questionCandidates(filteredAst: any, question: string, limit: number): string[] {
+  const words = new Set((question || '').match(/[A-Za-z_$][A-Za-z0-9_$]{2,}/g) ?? []);
+  if (!words.size) return [];
+  const lower = new Set([...words].map((w) => w.toLowerCase()));
+  const index: FileIndexItem[] = Array.isArray(filteredAst?.index) ? filteredAst.index : [];
+
+  const out: string[] = [];
+  for (const item of index) {
+    const base = item.file.split('/').pop()!.replace(/\.[^.]+$/, '').toLowerCase();
+    const hitFile = lower.has(base);
+    const hitSym = (item.ast ?? []).some((s: any) => {
+      const last = String(s.name ?? '').split(/::|\./).pop() ?? '';
+      return words.has(s.name) || words.has(last);
+    });
+    if (hitFile || hitSym) out.push(item.file);
+    if (out.length >= limit) break;
+  }
+  return out;
+}
+
+/**
+ * 후보 파일들의 이웃(직접 import/피import)을 프롬프트용으로 요약합니다.
+ *
+ * @param {any} filteredAst filtered AST(JSON)
+ * @param {string[]} files 후보 파일
+ * @param {number} depth 탐색 깊이
+ * @returns {{file:string; imports:string[]; importedBy:string[]}[]} 파일별 이웃
+ */
+export function neighbourhoodForPrompt(
+  filteredAst: any,
+  files: string[],
+  depth: number
+): Array<{ file: string; imports: string[]; importedBy: string[] }> {
+  if (!files.length) return [];
+  const graph = buildDepGraph(filteredAst);
+  return Array.from(new Set(files))
+    .filter((f) => graph.dependencies.has(f))
+    .map((f) => {
+      const n = depNeighbourhood(graph, f, depth);
+      return {
+        file: f,
+        imports: n.dependencies.map((x) => x.file),
+        importedBy: n.dependents.map((x) => x.file),
+      };
+    });
+}
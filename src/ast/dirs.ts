@@ -0,0 +1,233 @@
+import { createHash } from 'crypto';
+import path from 'path';
+
+import type { FileIndexItem } from './gen_filtered.js';
+
+/** 디렉토리 대표 심볼 */
+export interface DirSymbol {
+  name: string;
+  file: string;
+  /** 선언 라인 수(클수록 대표성이 높다고 봄) */
+  lines: number;
+}
+
+/** 디렉토리 하나의 요약(하위 디렉토리 포함 집계) */
+export interface DirNode {
+  /** 프로젝트 상대 경로(루트는 `.`) */
+  dir: string;
+  /** 하위 디렉토리까지 포함한 파일 수 */
+  files: number;
+  /** 하위 디렉토리까지 포함한 라인 수 */
+  lines: number;
+  /** 언어 키 → 파일 수(하위 디렉토리 포함) */
+  languages: Record<string, number>;
+  /** 바로 아래 디렉토리(파일 수 많은 순) */
+  subdirs: string[];
+  /** 바로 아래 파일 */
+  directFiles: string[];
+  /** 대표 심볼(export된 것 우선, 큰 선언 순) */
+  topSymbols: DirSymbol[];
+}
+
+/** 디렉토리 경로 → 요약 */
+export type DirTree = Map<string, DirNode>;
+
+/** 프롬프트/API용 하위 디렉토리 요약 */
+export interface SubdirView {
+  dir: string;
+  files: number;
+  lines: number;
+  languages: Record<string, number>;
+  topSymbols: string[];
+  /** LLM 한 줄 요약(캐시에 있을 때) */
+  summary?: string;
+}
+
+/** 프롬프트/API용 디렉토리 한 단계 목록 */
+export interface DirView {
+  dir: string;
+  files: number;
+  subdirs: SubdirView[];
+  /** 바로 아래 파일(대표 심볼 이름 포함) */
+  directFiles: Array<{ file: string; lang: string; lines: number; symbols: string[] }>;
+  /** `maxEntries`로 잘린 하위 디렉토리/파일 수 */
+  omitted?: number;
+}
+
+/** 디렉토리당 대표 심볼 수 */
+const DIR_TOP_SYMBOLS = 8;
+/** 디렉토리 목록에서 파일당 싣는 심볼 이름 수 */
+const FILE_VIEW_SYMBOLS = 5;
+
+/** 파일의 상위 디렉토리(루트는 `.`) */
+export function dirOf(file: string): string {
+  const d = path.posix.dirname(file);
+  return d === '' ? '.' : d;
+}
+
+/** 디렉토리 경로 정규화(`./a/b/` → `a/b`, 빈 값 → `.`) */
+export function normalizeDir(dir: string): string {
+  const d = dir.replaceAll('\\', '/').replace(/^\.\/+/, '').replace(/\/+$/, '');
+  return d === '' || d === '.' ? '.' : d;
+}
+
+/** 파일의 대표 심볼 후보(최상위 선언, export된 것 우선) */
+function fileSymbols(item: FileIndexItem): Array<DirSymbol & { exported: boolean }> {
+  const exported = new Set(item.exports ?? []);
+  return (item.ast ?? [])
+    .filter((s: any) => typeof s.name === 'string' && s.name)
+    .map((s: any) => ({
+      name: s.name,
+      file: item.file,
+      lines: Number.isInteger(s.startLine) && Number.isInteger(s.endLine) ? s.endLine - s.startLine + 1 : 0,
+      exported: exported.has(s.name),
+    }));
+}
+
+/** 대표 심볼 순서(export 우선, 큰 선언 순, 이름 순) */
+function bySignificance(a: DirSymbol & { exported?: boolean }, b: DirSymbol & { exported?: boolean }): number {
+  return Number(!!b.exported) - Number(!!a.exported) || b.lines - a.lines || a.name.localeCompare(b.name);
+}
+
+/** filtered AST 객체 → 디렉토리 트리 */
+const treeCache = new WeakMap<object, DirTree>();
+/** filtered AST 객체 → (파일 → 인덱스 항목) */
+const itemCache = new WeakMap<object, Map<string, FileIndexItem>>();
+
+/** 파일 → 인덱스 항목(filtered AST 객체별 캐시) */
+function itemsOf(filteredAst: any): Map<string, FileIndexItem> {
+  let items = itemCache.get(filteredAst);
+  if (!items) {
+    items = new Map((filteredAst?.index ?? []).map((e: FileIndexItem) => [e.file, e] as [string, FileIndexItem]));
+    if (filteredAst && typeof filteredAst === 'object') itemCache.set(filteredAst, items);
+  }
+  return items;
+}
+
+/**
+ * filtered AST로 디렉토리 트리를 만듭니다.
+ * - 디렉토리마다 하위 디렉토리까지 합친 파일 수/라인 수/언어 분포와 대표 심볼을 집계합니다.
+ * - 결과는 filtered AST 객체별로 캐시합니다(같은 객체면 다시 만들지 않음).
+ *
+ * @param {any} filteredAst filtered AST(JSON)
+ * @returns {DirTree} 디렉토리 경로 → 요약
+ */
+export function buildDirTree(filteredAst: any): DirTree {
+  const cached = treeCache.get(filteredAst);
+  if (cached) return cached;
+
+  const tree: DirTree = new Map();
+  // 디렉토리별 대표 심볼 후보(바로 아래 파일의 선언 — 하위 디렉토리 몫은 아래에서 상위 K개만 올림)
+  const candidates = new Map<string, Array<DirSymbol & { exported: boolean }>>();
+  const nodeOf = (dir: string): DirNode => {
+    let n = tree.get(dir);
+    if (!n) {
+      n = { dir, files: 0, lines: 0, languages: {}, subdirs: [], directFiles: [], topSymbols: [] };
+      tree.set(dir, n);
+      candidates.set(dir, []);
+      if (dir !== '.') nodeOf(dirOf(dir)).subdirs.push(dir);
+    }
+    return n;
+  };
+  nodeOf('.');
+
+  for (const item of (filteredAst?.index ?? []) as FileIndexItem[]) {
+    const dir = dirOf(item.file);
+    nodeOf(dir).directFiles.push(item.file);
+    candidates.get(dir)!.push(...fileSymbols(item));
+    // 파일이 속한 모든 상위 디렉토리에 집계
+    for (let d = dir; ; d = dirOf(d)) {
+      const n = nodeOf(d);
+      n.files += 1;
+      n.lines += item.lines ?? 0;
+      n.languages[item.lang] = (n.languages[item.lang] ?? 0) + 1;
+      if (d === '.') break;
+    }
+  }
+
+  // 깊은 디렉토리부터 대표 심볼을 정하고 상위 디렉토리 후보로 올림
+  const depth = (d: string) => (d === '.' ? 0 : d.split('/').length);
+  for (const n of [...tree.values()].sort((a, b) => depth(b.dir) - depth(a.dir))) {
+    n.subdirs.sort((a, b) => tree.get(b)!.files - tree.get(a)!.files || a.localeCompare(b));
+    n.directFiles.sort();
+    const top = candidates.get(n.dir)!.sort(bySignificance).slice(0, DIR_TOP_SYMBOLS);
+    n.topSymbols = top.map(({ name, file, lines }) => ({ name, file, lines }));
+    if (n.dir !== '.') candidates.get(dirOf(n.dir))!.push(...top);
+  }
+  if (filteredAst && typeof filteredAst === 'object') treeCache.set(filteredAst, tree);
+  return tree;
+}
+
+/**
+ * 디렉토리 아래(하위 디렉토리 포함)의 파일
+ * @param {DirTree} tree 디렉토리 트리
+ * @param {string} dir 디렉토리
+ * @returns {string[]} 파일(디렉토리가 없으면 빈 배열)
+ */
+export function filesUnder(tree: DirTree, dir: string): string[] {
+  const n = tree.get(normalizeDir(dir));
+  if (!n) return [];
+  return [...n.directFiles, ...n.subdirs.flatMap((d) => filesUnder(tree, d))];
+}
+
+/**
+ * 디렉토리 서명(하위 파일 경로와 최상위 선언 이름의 해시) — 요약 캐시 무효화용
+ * @param {DirTree} tree 디렉토리 트리
+ * @param {any} filteredAst filtered AST(JSON)
+ * @param {string} dir 디렉토리
+ * @returns {string} sha1(hex)
+ */
+export function dirSignature(tree: DirTree, filteredAst: any, dir: string): string {
+  const items = itemsOf(filteredAst);
+  const h = createHash('sha1');
+  for (const file of filesUnder(tree, dir).sort()) {
+    h.update(file);
+    for (const s of items.get(file)?.ast ?? []) h.update(`\0${(s as any).name ?? ''}`);
+    h.update('\n');
+  }
+  return h.digest('hex');
+}
+
+/**
+ * 디렉토리 한 단계 목록(하위 디렉토리 요약 + 바로 아래 파일)
+ *
+ * @param {DirTree} tree 디렉토리 트리
+ * @param {any} filteredAst filtered AST(JSON)
+ * @param {string} dir 디렉토리
+ * @param {{summaries?:Record<string,string>; maxEntries?:number}} [options] 한 줄 요약, 최대 항목 수(하위 디렉토리 먼저)
+ * @returns {DirView|null} 목록(디렉토리가 없으면 null)
+ */
+export function dirView(
+  tree: DirTree,
+  filteredAst: any,
+  dir: string,
+  options: { summaries?: Record<string, string>; maxEntries?: number } = {}
+): DirView | null {
+  const n = tree.get(normalizeDir(dir));
+  if (!n) return null;
+  const items = itemsOf(filteredAst);
+  const max = options.maxEntries ?? Infinity;
+  const subdirs = n.subdirs.slice(0, max).map((d) => {
+    const s = tree.get(d)!;
+    const summary = options.summaries?.[d];
+    return {
+      dir: d,
+      files: s.files,
+      lines: s.lines,
+      languages: s.languages,
+      topSymbols: s.topSymbols.map((t) => t.name),
+      ...(summary ? { summary } : {}),
+    };
+  });
+  const directFiles = n.directFiles.slice(0, Math.max(0, max - subdirs.length)).map((file) => {
+    const item = items.get(file);
+    return {
+      file,
+      lang: item?.lang ?? '',
+      lines: item?.lines ?? 0,
+      symbols: item ? fileSymbols(item).sort(bySignificance).slice(0, FILE_VIEW_SYMBOLS).map((s) => s.name) : [],
+    };
+  });
+  const omitted = n.subdirs.length + n.directFiles.length - subdirs.length - directFiles.length;
+  return { dir: n.dir, files: n.files, subdirs, directFiles, ...(omitted > 0 ? { omitted } : {}) };
+}
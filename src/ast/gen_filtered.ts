@@ -1,35 +1,162 @@
 // src/ast/filtered.ts
+import { createHash, randomBytes } from 'crypto';
 import fs from 'fs';
 import fsp from 'fs/promises';
 import path from 'path';
-import Parser from 'tree-sitter';
 import { env } from '../config/env.js';
-import { getLanguageByExt } from './languages.js';
+import { getLanguageByExt, getLanguageForFile } from './languages.js';
+import type { HeaderLanguage } from './header-lang.js';
+import { parseWithCache } from './tree-cache.js';
+import { countLines } from '../core/lines.js';
+import { createPathFilter, type IndexPolicy, type PathFilter } from './ignore.js';
+import { runIndexTasks, type IndexProgress } from './pool.js';
+import { extractModuleInfo, resolveImportsInIndex, type ImportRef } from './imports.js';
+import { preprocessC, projectIncludeDirs, type PreprocessInfo } from './preprocess.js';
 
 /** ---------- 타입들 ---------- */
 
+/**
+ * 심볼의 소스 내 위치
+ * - 라인은 1-based inclusive, 바이트는 UTF-8 기준 0-based `[startByte, endByte)`
+ */
+export interface SymbolSpan {
+  startLine: number;
+  endLine: number;
+  startByte: number;
+  endByte: number;
+}
+
 /** 함수 시그니처(언어 공통) */
-export interface FuncSig {
+export interface FuncSig extends SymbolSpan {
   type: 'function';
   name: string;
   params: string[];
   /** C/C++에서 definition/declaration 등 힌트 */
   where?: string;
+  /** Kotlin 확장 함수의 리시버 타입(예: `String`) */
+  receiver?: string;
+  /** 수식어(예: `public`, `static`, `suspend`) */
+  modifiers?: string[];
+  /** 어노테이션 원문(예: `@Override`) */
+  annotations?: string[];
 }
 
 /** 메서드 시그니처 */
-export interface MethodSig {
+export interface MethodSig extends SymbolSpan {
   type: 'method';
   name: string;
   params: string[];
+  /** definition/declaration/constructor 힌트 */
   where?: string;
+  /** getter/setter 구분(JS/TS) */
+  accessor?: 'get' | 'set';
+  modifiers?: string[];
+  annotations?: string[];
+}
+
+/** 클래스 종류(Java/Kotlin 구분용, 없으면 일반 class) */
+export type ClassKind = 'class' | 'interface' | 'enum' | 'record' | 'annotation' | 'object' | 'companion';
+
+/** 클래스 필드 시그니처(TS/JS `public_field_definition`) */
+export interface FieldSig extends SymbolSpan {
+  name: string;
+  /** 타입 주석 원문(예: `number`) */
+  valueType?: string;
+  modifiers?: string[];
 }
 
 /** 클래스 시그니처(메서드 포함) */
-export interface ClassSig {
+export interface ClassSig extends SymbolSpan {
   type: 'class';
   name: string;
   methods: MethodSig[];
+  /** 필드/프로퍼티(TS/JS) */
+  fields?: FieldSig[];
+  kind?: ClassKind;
+  modifiers?: string[];
+  annotations?: string[];
+}
+
+/** 인터페이스 시그니처(TS) */
+export interface InterfaceSig extends SymbolSpan {
+  type: 'interface';
+  name: string;
+  /** 타입 파라미터 원문(예: `<T>`) */
+  typeParams?: string;
+  /** extends 대상 타입 */
+  extends?: string[];
+  /** 멤버 시그니처 원문(예: `run(x: number): void`) */
+  members: string[];
+}
+
+/** 타입 별칭 시그니처(TS) */
+export interface TypeAliasSig extends SymbolSpan {
+  type: 'type_alias';
+  name: string;
+  typeParams?: string;
+  /** 우변 타입 원문(길면 잘림) */
+  value: string;
+}
+
+/** enum 시그니처(TS) */
+export interface EnumSig extends SymbolSpan {
+  type: 'enum';
+  name: string;
+  members: string[];
+  /** `const enum` 여부 */
+  isConst?: boolean;
+}
+
+/** 네임스페이스/모듈 선언 시그니처(TS `namespace`, `declare module`, `declare global`) */
+export interface NamespaceSig extends SymbolSpan {
+  type: 'namespace';
+  name: string;
+  kind: 'namespace' | 'module' | 'global';
+  /** `declare` 로 선언된 앰비언트 여부 */
+  ambient?: boolean;
+}
+
+/** 이름 없는 `export default <expr>` 시그니처(JS/TS) */
+export interface DefaultExportSig extends SymbolSpan {
+  type: 'export_default';
+  /** 식별자를 export하면 그 이름, 아니면 `default` */
+  name: string;
+  /** 내보낸 식의 노드 타입(예: `object`, `arrow_function`) */
+  expression: string;
+}
+
+/** `#define` 매크로 시그니처(C/C++, 전처리 단계에서 추출) */
+export interface MacroSig extends SymbolSpan {
+  type: 'macro';
+  name: string;
+  /** 함수형 매크로의 파라미터(객체형이면 없음) */
+  params?: string[];
+  /** 치환 본문(앞부분만) */
+  value?: string;
+}
+
+/** filtered AST에 들어가는 모든 심볼 시그니처 */
+export type SymbolSig =
+  | FuncSig
+  | MethodSig
+  | ClassSig
+  | InterfaceSig
+  | TypeAliasSig
+  | EnumSig
+  | NamespaceSig
+  | DefaultExportSig
+  | MacroSig;
+
+/** 호출 지점(콜 그래프 입력) */
+export interface CallSite {
+  /** 호출을 감싸는 함수/메서드(예: `Foo.bar`, `A::m1`), 최상위면 `<module>` */
+  caller: string;
+  /** 호출된 이름(마지막 마디) */
+  callee: string;
+  /** 수신 객체/한정자 원문(예: `self`, `this`, `ns`, `obj`) */
+  qualifier?: string;
+  /** 1-based 라인 */
+  line: number;
 }
 
 /** 파일별 요약 엔트리 */
@@ -38,8 +165,20 @@ export interface FileIndexItem {
   file: string;
   /** 언어 키(확장자 기반) */
   lang: string;
+  /** 파일 전체 라인 수 */
+  lines: number;
   /** 시그니처 목록 */
-  ast: Array<FuncSig | MethodSig | ClassSig>;
+  ast: SymbolSig[];
+  /** import/#include 목록(해석 가능한 경우 `resolved`에 프로젝트 상대 경로) */
+  imports?: ImportRef[];
+  /** export되는 이름(JS/TS, Python) */
+  exports?: string[];
+  /** 호출 지점(콜 그래프 구성용, 프롬프트에는 싣지 않음) */
+  calls?: CallSite[];
+  /** `.h` 헤더를 C/C++ 중 무엇으로 파싱했는지와 그 근거 */
+  headerLanguage?: HeaderLanguage;
+  /** C/C++ 전처리 기록(비활성 분기, 매크로 출처, 따라간 헤더 — 프롬프트에는 싣지 않음) */
+  preprocessor?: PreprocessInfo;
 }
 
 /** 필터링(간략) AST 루트 */
@@ -48,46 +187,40 @@ export interface FilteredAst {
   files: string[];
   index: FileIndexItem[];
   generatedAt: string;
+  /** 파일 수집에 적용된 정책 */
+  policy?: IndexPolicy;
 }
 
 /** ---------- 내부 유틸 ---------- */
 
 /**
- * 간단한 디렉터리 제외 규칙
- */
-function isExcluded(p: string): boolean {
-  const parts = p.split(path.sep);
-  const excludes = [
-    'node_modules', '.git', 'out', 'build', 'dist', 'gen', 'generated',
-    '__snapshots__', '__fixtures__', '.next', '.turbo',
-  ];
-  return parts.some((seg) => excludes.includes(seg));
-}
-
-/**
- * 프로젝트 전체에서 지원 확장자 파일만 모읍니다.
+ * 프로젝트 전체에서 인덱싱 대상 파일만 모읍니다.
+ * - 제외/포함 규칙과 크기 제한은 `PathFilter`(`.gitignore`/`.ignore`, 프로젝트 설정 파일)를 따릅니다.
  * @param {string} dirAbs 절대 경로(프로젝트 루트)
+ * @param {PathFilter} [filter] 경로 필터(기본: 프로젝트 정책으로 생성)
  * @returns {string[]} 파일 절대 경로 목록
  */
-function walkSupportedFiles(dirAbs: string): string[] {
-  const exts = new Set([
-    '.js', '.jsx', '.ts', '.tsx', '.html', '.css',
-    '.c', '.cc', '.cpp', '.cxx', '.h', '.hh', '.hpp', '.hxx',
-    '.java', '.kt', '.kts', '.py',
-  ]);
+export function walkSupportedFiles(dirAbs: string, filter: PathFilter = createPathFilter(dirAbs)): string[] {
+  const root = path.resolve(dirAbs);
   const out: string[] = [];
-  const stk = [dirAbs];
+  const stk = [root];
   while (stk.length) {
     const dir = stk.pop()!;
-    if (isExcluded(dir)) continue;
     const entries = fs.readdirSync(dir, { withFileTypes: true });
     for (const e of entries) {
       const full = path.join(dir, e.name);
+      const rel = path.relative(root, full).replaceAll('\\', '/');
       if (e.isDirectory()) {
-        stk.push(full);
+        if (!filter.ignoresEntry(rel, true)) stk.push(full);
       } else {
-        const ext = path.extname(e.name).toLowerCase();
-        if (exts.has(ext)) out.push(full);
+        if (filter.ignoresEntry(rel, false)) continue;
+        let size: number;
+        try {
+          size = fs.statSync(full).size;
+        } catch {
+          continue; // 깨진 심볼릭 링크 등
+        }
+        if (!filter.tooLarge(size)) out.push(full);
       }
     }
   }
@@ -97,6 +230,79 @@ function walkSupportedFiles(dirAbs: string): string[] {
 /** 코드 슬라이스 */
 const slice = (code: string, a: number, b: number) => code.slice(a, b);
 
+/**
+ * tree-sitter 인덱스(UTF-16 코드 유닛)를 UTF-8 바이트 오프셋으로 바꾸는 함수를 만듭니다.
+ * - 라인 시작 위치를 미리 계산해 두고, 해당 라인 안쪽만 바이트 길이를 잽니다.
+ *
+ * @param {string} code 원본 소스
+ * @returns {(index:number) => number} 인덱스 → 바이트 오프셋 변환 함수
+ */
+function makeByteOffsetFn(code: string): (index: number) => number {
+  const lineStarts: number[] = [0];
+  const lineBytes: number[] = [0];
+  let bytes = 0;
+  let last = 0;
+  for (let i = 0; i < code.length; i++) {
+    if (code.charCodeAt(i) !== 10) continue;
+    bytes += Buffer.byteLength(code.slice(last, i + 1), 'utf8');
+    last = i + 1;
+    lineStarts.push(last);
+    lineBytes.push(bytes);
+  }
+  return (index: number) => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= index) lo = mid;
+      else hi = mid - 1;
+    }
+    return lineBytes[lo] + Buffer.byteLength(code.slice(lineStarts[lo], index), 'utf8');
+  };
+}
+
+/** 마지막으로 계산한 소스의 바이트 오프셋 변환기(파일 단위로 재사용) */
+let byteOffsetMemo: { code: string; at: (index: number) => number } | null = null;
+
+/**
+ * 노드의 위치 정보(라인/바이트)를 {@link SymbolSpan}으로 변환합니다.
+ * - 끝 위치가 다음 줄 0열이면(개행 포함) 직전 줄을 끝 라인으로 봅니다.
+ *
+ * @param {any} node tree-sitter 노드
+ * @param {string} code 원본 소스
+ * @returns {SymbolSpan} 심볼 위치
+ */
+function spanOf(node: any, code: string): SymbolSpan {
+  if (!byteOffsetMemo || byteOffsetMemo.code !== code) {
+    byteOffsetMemo = { code, at: makeByteOffsetFn(code) };
+  }
+  const startLine = node.startPosition.row + 1;
+  const endRow = node.endPosition.column === 0 && node.endPosition.row > node.startPosition.row
+    ? node.endPosition.row - 1
+    : node.endPosition.row;
+  return {
+    startLine,
+    endLine: endRow + 1,
+    startByte: byteOffsetMemo.at(node.startIndex),
+    endByte: byteOffsetMemo.at(node.endIndex),
+  };
+}
+
+/**
+ * 선언 노드가 `export`/`declare` 문으로 감싸져 있으면 가장 바깥 감싼 노드를 반환합니다(JS/TS).
+ * - 심볼 범위에 `export`/`declare` 키워드와 데코레이터 줄이 포함되도록 합니다.
+ *
+ * @param {any} node 선언 노드
+ * @returns {any} 범위 계산에 쓸 노드
+ */
+function withExportWrapper(node: any): any {
+  let cur = node;
+  while (cur?.parent && (cur.parent.type === 'export_statement' || cur.parent.type === 'ambient_declaration')) {
+    cur = cur.parent;
+  }
+  return cur;
+}
+
 /**
  * 안전하게 `namedChildren`를 배열로 반환합니다.
  * - 트리시터 노드가 `null/undefined`이거나 `namedChildren`가 없을 때 빈 배열을 반환합니다.
@@ -110,10 +316,23 @@ function safeNamedChildren(node: any): any[] {
   return arr.filter(Boolean);
 }
 
+/**
+ * 주석 노드인지 판별합니다.
+ * - 바인딩에 따라 주석 자식의 `type`이 부모 타입으로 보고되므로 `isExtra`와 원문 접두(`//`, `/*`)로 봅니다.
+ * @param node 노드
+ * @param code 원본 코드
+ */
+function isCommentNode(node: any, code: string): boolean {
+  if (node?.isExtra) return true;
+  const head = slice(code, node.startIndex, Math.min(node.endIndex, node.startIndex + 2));
+  return head === '//' || head === '/*';
+}
+
 /**
  * DFS로 노드와 모든 자손을 순회합니다(자식은 `namedChildren` 기준).
  * - 스택에 `undefined`가 섞여도 안전하게 무시합니다.
- * - 방문 순서는 후입선출(LIFO) 기반의 전형적인 DFS입니다.
+ * - 자식을 역순으로 쌓아 소스 순서(왼쪽→오른쪽) 전위 순회가 되도록 합니다.
+ *   (`findDescendant`가 파라미터 이름이 아닌 함수 이름을 먼저 찾도록)
  *
  * @param {any} node - 시작 노드(루트)
  * @param {(n:any) => void} visit - 각 노드를 방문할 때 호출되는 콜백
@@ -127,7 +346,7 @@ function walkNamed(node: any, visit: (n: any) => void): void {
     if (!cur) continue;
     visit(cur);
     const kids = safeNamedChildren(cur);
-    for (let i = 0; i < kids.length; i++) stack.push(kids[i]);
+    for (let i = kids.length - 1; i >= 0; i--) stack.push(kids[i]);
   }
 }
 
@@ -179,7 +398,7 @@ function getFunctionNameFromDeclarator(decl: any, code: string): string {
  * @param {string} code - 원본 소스(슬라이스에 사용)
  * @returns {string} 함수(또는 메서드) 이름(없으면 빈 문자열)
  */
-function getFunctionNameFromDeclaratorCpp(decl: any, code: string): string {
+export function getFunctionNameFromDeclaratorCpp(decl: any, code: string): string {
   // 우선 qualified → 그다음 identifier/field_identifier
   const idNode =
     findDescendant(decl, (x) => x?.type === 'qualified_identifier') ||
@@ -208,7 +427,7 @@ function getParamsFromDeclarator(decl: any, code: string): string[] {
   return out;
 }
 
-/** 하위에서 첫 identifier류 텍스트를 찾아 반환(C/C++) */
+/** 하위에서 첫 identifier류 텍스트를 찾아 반환(C/C++, 소스 순서) */
 function findIdentifierText(node: any, code: string): string | null {
   if (!node) return null;
   const stack = [node];
@@ -217,7 +436,8 @@ function findIdentifierText(node: any, code: string): string | null {
     if (n.type === 'identifier' || n.type === 'field_identifier' || n.type === 'type_identifier') {
       return slice(code, n.startIndex, n.endIndex);
     }
-    if (n.namedChildren) for (const ch of n.namedChildren) stack.push(ch);
+    const kids = n.namedChildren ?? [];
+    for (let i = kids.length - 1; i >= 0; i--) stack.push(kids[i]);
   }
   return null;
 }
@@ -252,13 +472,77 @@ function getParamsJS(paramsNode: any, code: string): string[] {
   });
 }
 
+/** 공백을 하나로 접은 노드 원문 */
+const flatText = (node: any, code: string) => slice(code, node.startIndex, node.endIndex).replace(/\s+/g, ' ').trim();
+
 /**
- * JS/TS/JSX 트리에서 함수/클래스/메서드 시그니처를 추출합니다.
+ * 노드의 익명 키워드 토큰(예: `abstract`, `static`, `readonly`, `get`)을 모읍니다(JS/TS).
+ * @param node 선언 노드
+ * @param keep 수집할 키워드 집합
+ */
+function keywordTokensJS(node: any, keep: Set<string>): string[] {
+  const out: string[] = [];
+  for (const ch of node?.children ?? []) {
+    if (ch.type === 'accessibility_modifier') out.push(ch.text);
+    else if (!ch.isNamed && keep.has(ch.type)) out.push(ch.type);
+  }
+  return out;
+}
+
+/** 클래스 멤버에서 수식어로 취급할 키워드 */
+const JS_MEMBER_KEYWORDS = new Set(['static', 'readonly', 'abstract', 'declare', 'override', 'async']);
+
+/**
+ * 클래스 본문에서 메서드(getter/setter/추상 메서드 포함)와 필드를 수집합니다(JS/TS).
+ * @param bodyNode class_body 노드
+ * @param code 원본 코드
+ */
+function collectClassMembersJS(bodyNode: any, code: string): { methods: MethodSig[]; fields: FieldSig[] } {
+  const methods: MethodSig[] = [];
+  const fields: FieldSig[] = [];
+  for (const ch of safeNamedChildren(bodyNode)) {
+    if (ch.type === 'method_definition' || ch.type === 'abstract_method_signature' || ch.type === 'method_signature') {
+      const mName = ch.childForFieldName?.('name');
+      if (!mName) continue;
+      const params = getParamsJS(ch.childForFieldName?.('parameters'), code);
+      const accessor = (ch.children ?? []).find((c: any) => !c.isNamed && (c.type === 'get' || c.type === 'set'));
+      const modifiers = keywordTokensJS(ch, JS_MEMBER_KEYWORDS);
+      methods.push({
+        type: 'method',
+        name: slice(code, mName.startIndex, mName.endIndex),
+        params,
+        ...(ch.type === 'method_definition' ? {} : { where: 'declaration' }),
+        ...(accessor ? { accessor: accessor.type } : {}),
+        ...(modifiers.length ? { modifiers } : {}),
+        ...spanOf(ch, code),
+      });
+    } else if (ch.type === 'public_field_definition' || ch.type === 'field_definition') {
+      const fName = ch.childForFieldName?.('name') ?? ch.childForFieldName?.('property');
+      if (!fName) continue;
+      const typeNode = ch.childForFieldName?.('type');
+      const modifiers = keywordTokensJS(ch, JS_MEMBER_KEYWORDS);
+      fields.push({
+        name: slice(code, fName.startIndex, fName.endIndex),
+        ...(typeNode ? { valueType: flatText(typeNode, code).replace(/^:\s*/, '') } : {}),
+        ...(modifiers.length ? { modifiers } : {}),
+        ...spanOf(ch, code),
+      });
+    }
+  }
+  return { methods, fields };
+}
+
+/** 타입 별칭 우변 원문 최대 길이 */
+const TYPE_ALIAS_VALUE_MAX = 200;
+
+/**
+ * JS/TS/JSX 트리에서 함수/클래스/메서드 시그니처와
+ * TS 타입 수준 선언(interface/type/enum/namespace/declare module)을 추출합니다.
  * @param root 루트 노드
  * @param code 원본 코드
  */
-function extractNodeInfoJS(root: any, code: string): Array<FuncSig | ClassSig> {
-  let results: Array<FuncSig | ClassSig> = [];
+function extractNodeInfoJS(root: any, code: string): SymbolSig[] {
+  let results: SymbolSig[] = [];
 
   const visit = (node: any) => {
     // function foo(...) {}
@@ -271,34 +555,24 @@ function extractNodeInfoJS(root: any, code: string): Array<FuncSig | ClassSig> {
           type: 'function',
           name: slice(code, nameNode.startIndex, nameNode.endIndex),
           params,
+          ...spanOf(withExportWrapper(node), code),
         });
       }
     }
 
-    // class Foo { method() {} }
-    if (node.type === 'class_declaration') {
+    // class Foo { method() {} } / abstract class Foo { abstract m(): void }
+    if (node.type === 'class_declaration' || node.type === 'abstract_class_declaration') {
       const nameNode = node.childForFieldName?.('name');
       const bodyNode = node.childForFieldName?.('body');
-      const methods: MethodSig[] = [];
-      if (bodyNode) {
-        for (const ch of bodyNode.namedChildren) {
-          if (ch.type === 'method_definition') {
-            const mName = ch.childForFieldName?.('name');
-            const mParams = ch.childForFieldName?.('parameters');
-            const params = getParamsJS(mParams, code);
-            if (mName) methods.push({
-              type: 'method',
-              name: slice(code, mName.startIndex, mName.endIndex),
-              params,
-            });
-          }
-        }
-      }
+      const { methods, fields } = bodyNode ? collectClassMembersJS(bodyNode, code) : { methods: [], fields: [] };
       if (nameNode) {
         results.push({
           type: 'class',
           name: slice(code, nameNode.startIndex, nameNode.endIndex),
           methods,
+          ...(fields.length ? { fields } : {}),
+          ...(node.type === 'abstract_class_declaration' ? { modifiers: ['abstract'] } : {}),
+          ...spanOf(withExportWrapper(node), code),
         });
       }
     }
@@ -316,11 +590,104 @@ function extractNodeInfoJS(root: any, code: string): Array<FuncSig | ClassSig> {
             type: 'function',
             name: slice(code, idNode.startIndex, idNode.endIndex),
             params,
+            ...spanOf(withExportWrapper(node), code),
           });
         }
       }
     }
 
+    // interface Foo<T> extends Bar { ... }
+    if (node.type === 'interface_declaration') {
+      const nameNode = node.childForFieldName?.('name');
+      const typeParams = node.childForFieldName?.('type_parameters');
+      const ext = safeNamedChildren(node).find((c) => c.type === 'extends_type_clause');
+      const body = node.childForFieldName?.('body');
+      if (nameNode) {
+        results.push({
+          type: 'interface',
+          name: slice(code, nameNode.startIndex, nameNode.endIndex),
+          ...(typeParams ? { typeParams: flatText(typeParams, code) } : {}),
+          ...(ext ? { extends: safeNamedChildren(ext).map((t) => flatText(t, code)) } : {}),
+          members: safeNamedChildren(body)
+            .filter((m) => !isCommentNode(m, code))
+            .map((m) => flatText(m, code)),
+          ...spanOf(withExportWrapper(node), code),
+        });
+      }
+    }
+
+    // type Foo<T> = ...
+    if (node.type === 'type_alias_declaration') {
+      const nameNode = node.childForFieldName?.('name');
+      const typeParams = node.childForFieldName?.('type_parameters');
+      const value = node.childForFieldName?.('value');
+      if (nameNode) {
+        const valueText = value ? flatText(value, code) : '';
+        results.push({
+          type: 'type_alias',
+          name: slice(code, nameNode.startIndex, nameNode.endIndex),
+          ...(typeParams ? { typeParams: flatText(typeParams, code) } : {}),
+          value: valueText.length > TYPE_ALIAS_VALUE_MAX ? valueText.slice(0, TYPE_ALIAS_VALUE_MAX) + '…' : valueText,
+          ...spanOf(withExportWrapper(node), code),
+        });
+      }
+    }
+
+    // (const) enum Color { Red = 1, Green }
+    if (node.type === 'enum_declaration') {
+      const nameNode = node.childForFieldName?.('name');
+      const body = node.childForFieldName?.('body');
+      if (nameNode) {
+        const isConst = (node.children ?? []).some((c: any) => !c.isNamed && c.type === 'const');
+        results.push({
+          type: 'enum',
+          name: slice(code, nameNode.startIndex, nameNode.endIndex),
+          members: safeNamedChildren(body)
+            .filter((m) => !isCommentNode(m, code))
+            .map((m) => {
+              const n = m.type === 'enum_assignment' ? m.childForFieldName?.('name') : m;
+              return n ? slice(code, n.startIndex, n.endIndex) : '';
+            })
+            .filter(Boolean),
+          ...(isConst ? { isConst } : {}),
+          ...spanOf(withExportWrapper(node), code),
+        });
+      }
+    }
+
+    // namespace A.B { } / declare module 'x' { } / declare global { }
+    if (node.type === 'internal_module' || node.type === 'module') {
+      const nameNode = node.childForFieldName?.('name');
+      if (nameNode) {
+        const raw = slice(code, nameNode.startIndex, nameNode.endIndex);
+        const ambient = node.parent?.type === 'ambient_declaration';
+        results.push({
+          type: 'namespace',
+          name: nameNode.type === 'string' ? raw.slice(1, -1) : raw,
+          kind: node.type === 'module' ? 'module' : 'namespace',
+          ...(ambient ? { ambient } : {}),
+          ...spanOf(withExportWrapper(node), code),
+        });
+      }
+    }
+    if (node.type === 'ambient_declaration' && (node.children ?? []).some((c: any) => !c.isNamed && c.type === 'global')) {
+      results.push({ type: 'namespace', name: 'global', kind: 'global', ambient: true, ...spanOf(withExportWrapper(node), code) });
+    }
+
+    // export default <expr> (이름 있는 function/class 선언은 위에서 처리)
+    if (node.type === 'export_statement') {
+      const value = node.childForFieldName?.('value');
+      const isDefault = (node.children ?? []).some((c: any) => !c.isNamed && c.type === 'default');
+      if (isDefault && value) {
+        results.push({
+          type: 'export_default',
+          name: value.type === 'identifier' ? slice(code, value.startIndex, value.endIndex) : 'default',
+          expression: value.type,
+          ...spanOf(node, code),
+        });
+      }
+    }
+
     for (const ch of node.namedChildren ?? []) visit(ch);
   };
 
@@ -350,7 +717,7 @@ function extractFunctionsC(root: any, code: string): Array<FuncSig | MethodSig |
       if (decl) {
         const name = getFunctionNameFromDeclarator(decl, code);
         const params = getParamsFromDeclarator(decl, code);
-        out.push({ type: 'function', where: 'definition', name, params });
+        out.push({ type: 'function', where: 'definition', name, params, ...spanOf(n, code) });
       }
       return;
     }
@@ -361,7 +728,7 @@ function extractFunctionsC(root: any, code: string): Array<FuncSig | MethodSig |
       if (fdecl) {
         const name = getFunctionNameFromDeclarator(fdecl, code);
         const params = getParamsFromDeclarator(fdecl, code);
-        out.push({ type: 'function', where: 'declaration', name, params });
+        out.push({ type: 'function', where: 'declaration', name, params, ...spanOf(n, code) });
       }
       return;
     }
@@ -394,7 +761,7 @@ function extractFunctionsCpp(root: any, code: string): Array<FuncSig | MethodSig
         // C++의 경우, 네임스페이스/클래스 한정자(A::m1 등) 보존
         const name = getFunctionNameFromDeclaratorCpp(decl, code);
         const params = getParamsFromDeclarator(decl, code);
-        out.push({ type: 'function', where: 'definition', name, params });
+        out.push({ type: 'function', where: 'definition', name, params, ...spanOf(n, code) });
       }
       return;
     }
@@ -405,7 +772,7 @@ function extractFunctionsCpp(root: any, code: string): Array<FuncSig | MethodSig
       if (fdecl) {
         const name = getFunctionNameFromDeclaratorCpp(fdecl, code);
         const params = getParamsFromDeclarator(fdecl, code);
-        out.push({ type: 'function', where: 'declaration', name, params });
+        out.push({ type: 'function', where: 'declaration', name, params, ...spanOf(n, code) });
       }
       return;
     }
@@ -454,7 +821,7 @@ function extractClassesCPP(root: any, code: string): ClassSig[] {
           if (decl) {
             const mname = getFunctionNameFromDeclaratorCpp(decl, code);
             const params = getParamsFromDeclarator(decl, code);
-            if (mname) methods.push({ type: 'method', where: ch.type === 'function_definition' ? 'definition' : 'declaration', name: mname, params });
+            if (mname) methods.push({ type: 'method', where: ch.type === 'function_definition' ? 'definition' : 'declaration', name: mname, params, ...spanOf(ch, code) });
           }
         }
         // C++에서 클래스 내부 순수 method 선언 노드가 별도 타입으로 들어오는 경우 대비
@@ -463,13 +830,13 @@ function extractClassesCPP(root: any, code: string): ClassSig[] {
           if (fdecl) {
             const mname = getFunctionNameFromDeclaratorCpp(fdecl, code);
             const params = getParamsFromDeclarator(fdecl, code);
-            if (mname) methods.push({ type: 'method', where: 'declaration', name: mname, params });
+            if (mname) methods.push({ type: 'method', where: 'declaration', name: mname, params, ...spanOf(ch, code) });
           }
         }
       }
     }
 
-    classes.push({ type: 'class', name, methods });
+    classes.push({ type: 'class', name, methods, ...spanOf(n, code) });
   });
 
   return classes;
@@ -519,7 +886,8 @@ function extractNodeInfoPython(root: any, code: string): Array<FuncSig | ClassSi
     return slice(code, node.startIndex, node.endIndex);
   };
 
-  const toFunctionSig = (node: any): FuncSig | null => {
+  // outer: 데코레이터를 포함한 범위 계산용 노드(decorated_definition)
+  const toFunctionSig = (node: any, outer: any = node): FuncSig | null => {
     const nameNode = node?.childForFieldName?.('name');
     if (!nameNode) return null;
     const paramsNode = node.childForFieldName?.('parameters');
@@ -529,16 +897,18 @@ function extractNodeInfoPython(root: any, code: string): Array<FuncSig | ClassSi
       name: getNameText(nameNode) ?? '',
       params,
       where: 'definition',
+      ...spanOf(outer, code),
     };
   };
 
-  const toMethodSig = (node: any): MethodSig | null => {
-    const fn = toFunctionSig(node);
+  const toMethodSig = (node: any, outer: any = node): MethodSig | null => {
+    const fn = toFunctionSig(node, outer);
     if (!fn) return null;
-    return { type: 'method', name: fn.name, params: fn.params, where: fn.where };
+    const { type: _type, ...rest } = fn;
+    return { type: 'method', ...rest };
   };
 
-  const handleClass = (node: any): ClassSig | null => {
+  const handleClass = (node: any, outer: any = node): ClassSig | null => {
     const nameNode = node?.childForFieldName?.('name');
     if (!nameNode) return null;
 
@@ -552,7 +922,7 @@ function extractNodeInfoPython(root: any, code: string): Array<FuncSig | ClassSi
         } else if (ch.type === 'decorated_definition') {
           const inner = ch.childForFieldName?.('definition');
           if (inner?.type === 'function_definition') {
-            const method = toMethodSig(inner);
+            const method = toMethodSig(inner, ch);
             if (method) methods.push(method);
           }
         }
@@ -563,6 +933,7 @@ function extractNodeInfoPython(root: any, code: string): Array<FuncSig | ClassSi
       type: 'class',
       name: getNameText(nameNode) ?? '',
       methods,
+      ...spanOf(outer, code),
     };
   };
 
@@ -578,10 +949,10 @@ function extractNodeInfoPython(root: any, code: string): Array<FuncSig | ClassSi
       const inner = node.childForFieldName?.('definition');
       if (!inner) return;
       if (inner.type === 'function_definition') {
-        const fn = toFunctionSig(inner);
+        const fn = toFunctionSig(inner, node);
         if (fn) results.push(fn);
       } else if (inner.type === 'class_definition') {
-        const cls = handleClass(inner);
+        const cls = handleClass(inner, node);
         if (cls) results.push(cls);
       }
     }
@@ -595,72 +966,556 @@ function extractNodeInfoPython(root: any, code: string): Array<FuncSig | ClassSi
 }
 
 
+/** ---------- Java/Kotlin 시그니처 추출 ---------- */
+
+/**
+ * `modifiers` 노드에서 수식어와 어노테이션을 분리해 수집합니다(Java/Kotlin 공통).
+ * - Java는 키워드가 익명 토큰, Kotlin은 `*_modifier` 노드로 들어오므로 모든 자식을 훑습니다.
+ *
+ * @param {any} node 선언 노드(class/method/function 등)
+ * @param {string} code 원본 코드
+ * @returns {{modifiers?: string[]; annotations?: string[]}} 비어 있으면 키를 생략
+ */
+function getModifiersJvm(node: any, code: string): { modifiers?: string[]; annotations?: string[] } {
+  const mods = (node?.children ?? []).find((c: any) => c?.type === 'modifiers');
+  if (!mods) return {};
+  const modifiers: string[] = [];
+  const annotations: string[] = [];
+  for (const ch of mods.children ?? []) {
+    const text = slice(code, ch.startIndex, ch.endIndex).replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+    if (String(ch.type).includes('annotation')) annotations.push(text);
+    else modifiers.push(text);
+  }
+  return {
+    ...(modifiers.length ? { modifiers } : {}),
+    ...(annotations.length ? { annotations } : {}),
+  };
+}
+
+/**
+ * 파라미터 목록 노드의 named 자식을 원문 그대로 수집합니다(Java/Kotlin 공통).
+ * @param paramsNode formal_parameters / function_value_parameters / primary_constructor
+ * @param code 원본 코드
+ */
+function getParamsJvm(paramsNode: any, code: string): string[] {
+  if (!paramsNode) return [];
+  return safeNamedChildren(paramsNode)
+    .filter((p) => !isCommentNode(p, code))
+    .map((p) => slice(code, p.startIndex, p.endIndex).replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/** Java 타입 선언 노드 → 클래스 종류 */
+const JAVA_TYPE_DECLS: Record<string, ClassKind> = {
+  class_declaration: 'class',
+  interface_declaration: 'interface',
+  enum_declaration: 'enum',
+  record_declaration: 'record',
+  annotation_type_declaration: 'annotation',
+};
+
+/**
+ * Java 트리에서 클래스/인터페이스/enum/record와 생성자·메서드 시그니처를 추출합니다.
+ * - 중첩 타입은 `Outer.Inner` 이름으로 평탄화해 별도 {@link ClassSig}로 넣습니다.
+ * - Java에는 자유 함수가 없으므로 결과는 클래스 시그니처뿐입니다.
+ *
+ * @param root 루트 노드
+ * @param code 원본 코드
+ */
+function extractNodeInfoJava(root: any, code: string): ClassSig[] {
+  const results: ClassSig[] = [];
+
+  const visitType = (node: any, outer: string | null) => {
+    const nameNode = node.childForFieldName?.('name');
+    if (!nameNode) return;
+    const simple = slice(code, nameNode.startIndex, nameNode.endIndex);
+    const name = outer ? `${outer}.${simple}` : simple;
+
+    // enum은 enum_body_declarations 안에 멤버가 들어 있음
+    const body = node.childForFieldName?.('body');
+    const members: any[] = [];
+    for (const ch of safeNamedChildren(body)) {
+      if (ch.type === 'enum_body_declarations') members.push(...safeNamedChildren(ch));
+      else members.push(ch);
+    }
+
+    const methods: MethodSig[] = [];
+    const nested: any[] = [];
+    for (const m of members) {
+      if (m.type === 'method_declaration') {
+        const mName = m.childForFieldName?.('name');
+        if (!mName) continue;
+        methods.push({
+          type: 'method',
+          name: slice(code, mName.startIndex, mName.endIndex),
+          params: getParamsJvm(m.childForFieldName?.('parameters'), code),
+          where: m.childForFieldName?.('body') ? 'definition' : 'declaration',
+          ...getModifiersJvm(m, code),
+          ...spanOf(m, code),
+        });
+      } else if (m.type === 'constructor_declaration' || m.type === 'compact_constructor_declaration') {
+        methods.push({
+          type: 'method',
+          name: simple,
+          params: getParamsJvm(m.childForFieldName?.('parameters'), code),
+          where: 'constructor',
+          ...getModifiersJvm(m, code),
+          ...spanOf(m, code),
+        });
+      } else if (JAVA_TYPE_DECLS[m.type]) {
+        nested.push(m);
+      }
+    }
+
+    results.push({
+      type: 'class',
+      name,
+      kind: JAVA_TYPE_DECLS[node.type],
+      methods,
+      ...getModifiersJvm(node, code),
+      ...spanOf(node, code),
+    });
+    for (const n of nested) visitType(n, name);
+  };
+
+  for (const node of safeNamedChildren(root)) {
+    if (JAVA_TYPE_DECLS[node.type]) visitType(node, null);
+  }
+  return results;
+}
+
+/**
+ * Kotlin `class_declaration`의 종류를 익명 키워드 토큰(`interface`/`enum`)으로 판별합니다.
+ * @param node class_declaration 노드
+ */
+function kotlinClassKind(node: any): ClassKind {
+  const tokens = (node.children ?? []).filter((c: any) => !c.isNamed).map((c: any) => c.type);
+  if (tokens.includes('interface')) return 'interface';
+  if (tokens.includes('enum')) return 'enum';
+  const mods = (node.children ?? []).find((c: any) => c?.type === 'modifiers');
+  if (mods && safeNamedChildren(mods).some((m) => m.type === 'class_modifier' && m.text === 'annotation')) {
+    return 'annotation';
+  }
+  return 'class';
+}
+
+/**
+ * Kotlin 함수 선언을 시그니처로 변환합니다.
+ * - 확장 함수(`fun String.shout()`)는 `.` 앞의 타입을 `receiver`로 기록합니다.
+ *
+ * @param node function_declaration 노드
+ * @param code 원본 코드
+ * @returns 이름/파라미터/리시버/수식어(없으면 null)
+ */
+function kotlinFunctionParts(node: any, code: string): Omit<FuncSig, 'type'> | null {
+  const kids: any[] = node.children ?? [];
+  const nameNode = kids.find((c) => c.type === 'simple_identifier');
+  if (!nameNode) return null;
+
+  let receiver: string | undefined;
+  for (let i = 0; i + 1 < kids.length; i++) {
+    if (kids[i].isNamed && kids[i + 1].type === '.' && kids[i].endIndex <= nameNode.startIndex) {
+      receiver = slice(code, kids[i].startIndex, kids[i].endIndex);
+    }
+  }
+
+  return {
+    name: slice(code, nameNode.startIndex, nameNode.endIndex),
+    params: getParamsJvm(kids.find((c) => c.type === 'function_value_parameters'), code),
+    where: kids.some((c) => c.type === 'function_body') ? 'definition' : 'declaration',
+    ...(receiver ? { receiver } : {}),
+    ...getModifiersJvm(node, code),
+    ...spanOf(node, code),
+  };
+}
+
+/**
+ * Kotlin 트리에서 클래스/인터페이스/enum/object/companion과 생성자·메서드,
+ * 최상위 함수(확장 함수 포함) 시그니처를 추출합니다.
+ * - 중첩 선언(companion 포함)은 `Outer.Inner` 이름으로 평탄화합니다.
+ *
+ * @param root 루트 노드
+ * @param code 원본 코드
+ */
+function extractNodeInfoKotlin(root: any, code: string): Array<FuncSig | ClassSig> {
+  const results: Array<FuncSig | ClassSig> = [];
+
+  const visitType = (node: any, outer: string | null) => {
+    const kids: any[] = node.children ?? [];
+    const nameNode = kids.find((c) => c.type === 'type_identifier');
+    let kind: ClassKind;
+    if (node.type === 'object_declaration') kind = 'object';
+    else if (node.type === 'companion_object') kind = 'companion';
+    else kind = kotlinClassKind(node);
+
+    const simple = nameNode ? slice(code, nameNode.startIndex, nameNode.endIndex) : kind === 'companion' ? 'Companion' : '';
+    if (!simple) return;
+    const name = outer ? `${outer}.${simple}` : simple;
+
+    const methods: MethodSig[] = [];
+    const primary = kids.find((c) => c.type === 'primary_constructor');
+    if (primary) {
+      methods.push({ type: 'method', name: simple, params: getParamsJvm(primary, code), where: 'constructor', ...spanOf(primary, code) });
+    }
+
+    const nested: any[] = [];
+    const body = kids.find((c) => c.type === 'class_body' || c.type === 'enum_class_body');
+    for (const m of safeNamedChildren(body)) {
+      if (m.type === 'function_declaration') {
+        const fn = kotlinFunctionParts(m, code);
+        if (fn) methods.push({ type: 'method', ...fn });
+      } else if (m.type === 'secondary_constructor') {
+        methods.push({
+          type: 'method',
+          name: simple,
+          params: getParamsJvm(safeNamedChildren(m).find((c) => c.type === 'function_value_parameters'), code),
+          where: 'constructor',
+          ...getModifiersJvm(m, code),
+          ...spanOf(m, code),
+        });
+      } else if (['class_declaration', 'object_declaration', 'companion_object'].includes(m.type)) {
+        nested.push(m);
+      }
+    }
+
+    results.push({ type: 'class', name, kind, methods, ...getModifiersJvm(node, code), ...spanOf(node, code) });
+    for (const n of nested) visitType(n, name);
+  };
+
+  for (const node of safeNamedChildren(root)) {
+    if (node.type === 'function_declaration') {
+      const fn = kotlinFunctionParts(node, code);
+      if (fn) results.push({ type: 'function', ...fn });
+    } else if (node.type === 'class_declaration' || node.type === 'object_declaration') {
+      visitType(node, null);
+    }
+  }
+  return results;
+}
+
+
+/** ---------- 호출 지점 추출(콜 그래프) ---------- */
+
+/** 최상위(함수 밖) 호출의 caller 이름 */
+export const MODULE_SCOPE = '<module>';
+
+/** 한정자 원문 최대 길이(체인 호출 등 긴 식은 자름) */
+const QUALIFIER_MAX = 60;
+
+/**
+ * 호출식 노드에서 (callee, qualifier)를 뽑습니다. 호출이 아니면 null.
+ * - JS/TS: `call_expression`/`new_expression`, C/C++: `call_expression`/`new_expression`,
+ *   Python: `call`, Java: `method_invocation`/`object_creation_expression`, Kotlin: `call_expression`
+ *
+ * @param node 후보 노드
+ * @param code 원본 코드
+ */
+function calleeOf(node: any, code: string): { callee: string; qualifier?: string } | null {
+  const text = (n: any) => slice(code, n.startIndex, n.endIndex);
+  const qual = (n: any) => {
+    const t = text(n).replace(/\s+/g, '');
+    return t.length > QUALIFIER_MAX ? undefined : t;
+  };
+  const fromTarget = (fn: any): { callee: string; qualifier?: string } | null => {
+    if (!fn) return null;
+    switch (fn.type) {
+      case 'identifier':
+      case 'simple_identifier':
+      case 'type_identifier':
+        return { callee: text(fn) };
+      case 'member_expression': {
+        const prop = fn.childForFieldName?.('property');
+        const obj = fn.childForFieldName?.('object');
+        return prop ? { callee: text(prop), ...(obj ? { qualifier: qual(obj) } : {}) } : null;
+      }
+      case 'attribute': {
+        const attr = fn.childForFieldName?.('attribute');
+        const obj = fn.childForFieldName?.('object');
+        return attr ? { callee: text(attr), ...(obj ? { qualifier: qual(obj) } : {}) } : null;
+      }
+      case 'field_expression': {
+        const field = fn.childForFieldName?.('field');
+        const arg = fn.childForFieldName?.('argument');
+        return field ? { callee: text(field), ...(arg ? { qualifier: qual(arg) } : {}) } : null;
+      }
+      case 'qualified_identifier': {
+        // ns::Cls::f → callee f, qualifier ns::Cls
+        const full = text(fn);
+        const idx = full.lastIndexOf('::');
+        return idx < 0 ? { callee: full } : { callee: full.slice(idx + 2), qualifier: full.slice(0, idx) };
+      }
+      case 'navigation_expression': {
+        // Kotlin: obj.method → [expr, navigation_suffix(simple_identifier)]
+        const kids = safeNamedChildren(fn);
+        const suffix = kids[kids.length - 1];
+        const id = suffix?.type === 'navigation_suffix' ? safeNamedChildren(suffix).find((c) => c.type === 'simple_identifier') : null;
+        return id ? { callee: text(id), ...(kids.length > 1 ? { qualifier: qual(kids[0]) } : {}) } : null;
+      }
+      case 'template_function':
+        return fromTarget(fn.childForFieldName?.('name'));
+      default:
+        return null;
+    }
+  };
+
+  switch (node.type) {
+    case 'call_expression': {
+      const fn = node.childForFieldName?.('function') ?? safeNamedChildren(node)[0];
+      if (fn?.type === 'import') return null;
+      return fromTarget(fn);
+    }
+    case 'call':
+      return fromTarget(node.childForFieldName?.('function'));
+    case 'new_expression':
+      return fromTarget(node.childForFieldName?.('constructor') ?? node.childForFieldName?.('type'));
+    case 'method_invocation': {
+      const name = node.childForFieldName?.('name');
+      const obj = node.childForFieldName?.('object');
+      return name ? { callee: text(name), ...(obj ? { qualifier: qual(obj) } : {}) } : null;
+    }
+    case 'object_creation_expression': {
+      const t = node.childForFieldName?.('type');
+      return t ? { callee: text(t).replace(/<.*$/, '').split('.').pop()! } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * 파일 안의 모든 호출 지점을 감싸는 함수/메서드 이름과 함께 수집합니다.
+ * - C/C++ 함수 이름은 {@link getFunctionNameFromDeclaratorCpp}로 한정자(`A::m1`)를 보존합니다.
+ * - 클래스 안의 메서드는 `Class.method`(C++은 `Class::method`) 형태로 이름을 붙입니다.
+ *
+ * @param {any} root 루트 노드
+ * @param {string} code 원본 코드
+ * @returns {CallSite[]} 호출 지점 목록(라인 순)
+ */
+function extractCallSites(root: any, code: string): CallSite[] {
+  const out: CallSite[] = [];
+  const text = (n: any) => slice(code, n.startIndex, n.endIndex);
+  const nameField = (n: any) => {
+    const nm = n.childForFieldName?.('name');
+    return nm ? text(nm) : null;
+  };
+  const join = (cls: string | null, name: string, sep = '.') => (cls ? `${cls}${sep}${name}` : name);
+
+  const visit = (node: any, scope: string, cls: string | null) => {
+    if (node.type === 'ERROR') return; // 파싱 실패 구간은 선언을 호출로 오인하기 쉬움
+    let nextScope = scope;
+    let nextCls = cls;
+
+    switch (node.type) {
+      // 클래스류: 이후 메서드 이름의 소유자
+      case 'class_declaration':
+      case 'abstract_class_declaration':
+      case 'interface_declaration':
+      case 'enum_declaration':
+      case 'record_declaration':
+      case 'class_definition':
+      case 'object_declaration':
+      case 'companion_object': {
+        const nm = nameField(node) ?? safeNamedChildren(node).find((c) => c.type === 'type_identifier');
+        // 이름 없는 companion은 Kotlin과 같이 `Companion` (시그니처의 `Outer.Companion`과 맞춤)
+        const simple = typeof nm === 'string' ? nm : nm ? text(nm) : node.type === 'companion_object' ? 'Companion' : null;
+        if (simple) nextCls = join(cls, simple);
+        break;
+      }
+      case 'class_specifier':
+      case 'struct_specifier': {
+        const nm = nameField(node);
+        if (nm && node.childForFieldName?.('body')) nextCls = join(cls, nm, '::');
+        break;
+      }
+      // 함수/메서드: caller 이름
+      case 'function_definition': {
+        const decl = findDescendant(node, (x) => x?.type === 'function_declarator');
+        if (decl) {
+          const nm = getFunctionNameFromDeclaratorCpp(decl, code);
+          if (nm) nextScope = nm.includes('::') ? nm : join(cls, nm, '::');
+        } else {
+          const nm = nameField(node); // Python
+          if (nm) nextScope = join(cls, nm);
+        }
+        break;
+      }
+      case 'function_declaration': {
+        const nm = nameField(node) ?? (() => {
+          const id = safeNamedChildren(node).find((c) => c.type === 'simple_identifier');
+          return id ? text(id) : null;
+        })();
+        if (nm) nextScope = join(cls, nm);
+        break;
+      }
+      case 'method_definition':
+      case 'method_declaration':
+      case 'constructor_declaration':
+      case 'secondary_constructor': {
+        const nm = nameField(node) ?? (cls ? cls.split('.').pop()! : null);
+        if (nm) nextScope = join(cls, nm);
+        break;
+      }
+      case 'variable_declarator': {
+        const value = node.childForFieldName?.('value');
+        const nm = nameField(node);
+        if (nm && value && ['arrow_function', 'function_expression', 'function'].includes(value.type)) {
+          nextScope = join(cls, nm);
+        }
+        break;
+      }
+      default: {
+        const hit = calleeOf(node, code);
+        if (hit && hit.callee) {
+          out.push({
+            caller: scope,
+            callee: hit.callee,
+            ...(hit.qualifier ? { qualifier: hit.qualifier } : {}),
+            line: node.startPosition.row + 1,
+          });
+        }
+      }
+    }
+
+    for (const ch of safeNamedChildren(node)) visit(ch, nextScope, nextCls);
+  };
+
+  visit(root, MODULE_SCOPE, null);
+  return out.sort((a, b) => a.line - b.line);
+}
+
+
 /** ---------- 메인 빌드 루틴 ---------- */
 
 /**
  * 단일 파일을 파싱하고, 언어에 맞춰 함수/클래스 시그니처를 추출합니다.
  * @param {string} fileAbs 파일 절대 경로
+ * @param {string} projectRoot 프로젝트 루트(상대 경로 계산용)
+ * @param {string} [source] 이미 읽어 둔 파일 내용(없으면 디스크에서 읽음)
  * @returns {FileIndexItem|null} 파일 인덱스 항목(없으면 null)
  */
-export function parseOneForFiltered(fileAbs: string, projectRoot: string): FileIndexItem | null {
+export function parseOneForFiltered(fileAbs: string, projectRoot: string, source?: string): FileIndexItem | null {
   const ext = path.extname(fileAbs).toLowerCase();
-  const lang = getLanguageByExt(ext);
-  if (!lang) return null;
-
-  const parser = new Parser();
-  parser.setLanguage(lang);
-
-  const code = fs.readFileSync(fileAbs, 'utf8');
-  const tree = parser.parse(code);
-
-  let items: Array<FuncSig | MethodSig | ClassSig> = [];
+  if (!getLanguageByExt(ext)) return null;
+
+  const code = source ?? fs.readFileSync(fileAbs, 'utf8');
+  // `.h`는 파일마다 C/C++ 판별(근거는 headerLanguage에 기록)
+  const { language: lang, header } = getLanguageForFile(fileAbs, projectRoot, code);
+  const isC = ext === '.c' || header?.lang === 'c';
+  const isCpp = ['.cc', '.cpp', '.cxx', '.hh', '.hpp', '.hxx'].includes(ext) || header?.lang === 'cpp';
+  // C/C++는 전처리한 텍스트로 파싱(길이/라인이 같으므로 추출기에는 원본을 넘겨 원문 시그니처를 유지)
+  const pre = (isC || isCpp) && env.C_PREPROCESS ? preprocessC(code, fileAbs, projectRoot, { cpp: isCpp }) : null;
+  const tree = parseWithCache(fileAbs, lang, pre?.code ?? code);
+
+  let items: SymbolSig[] = [];
   // JS/TS/JSX
   if (['.js', '.jsx', '.ts', '.tsx'].includes(ext)) {
     items = extractNodeInfoJS(tree.rootNode, code);
   }
   // C
-  else if (ext === '.c' || (ext === '.h' && !env.C_HEADER_AS_CPP)) {
-    items = extractFunctionsC(tree.rootNode, code);
+  else if (isC) {
+    items = [...extractFunctionsC(tree.rootNode, code), ...(pre?.macros ?? [])];
   }
   // C++
-  else if (['.cc', '.cpp', '.cxx', '.hh', '.hpp', '.hxx'].includes(ext) || (ext === '.h' && env.C_HEADER_AS_CPP)) {
+  else if (isCpp) {
     const funcs = extractFunctionsC(tree.rootNode, code);
     const clazz = extractClassesCPP(tree.rootNode, code);
-    items = [...funcs, ...clazz];
+    items = [...funcs, ...clazz, ...(pre?.macros ?? [])];
   }
   // Python
   else if (ext === '.py') {
     items = extractNodeInfoPython(tree.rootNode, code);
   }
+  // Java
+  else if (ext === '.java') {
+    items = extractNodeInfoJava(tree.rootNode, code);
+  }
+  // Kotlin
+  else if (ext === '.kt' || ext === '.kts') {
+    items = extractNodeInfoKotlin(tree.rootNode, code);
+  }
   // HTML/CSS는 시그니처 없음 → 빈 배열
 
+  const { imports, exports } = extractModuleInfo(ext, tree.rootNode, code);
+  const calls = ['.html', '.css'].includes(ext) ? [] : extractCallSites(tree.rootNode, code);
+
   const relativeRoot = path.resolve(projectRoot);
   return {
     file: path.relative(relativeRoot, fileAbs).replaceAll('\\', '/'),
     lang: ext.replace('.', ''), // 간단 표기
+    lines: countLines(code),
     ast: items,
+    ...(imports.length ? { imports } : {}),
+    ...(exports.length ? { exports } : {}),
+    ...(calls.length ? { calls } : {}),
+    ...(header ? { headerLanguage: header } : {}),
+    ...(pre && Object.keys(pre.info).length ? { preprocessor: pre.info } : {}),
   };
 }
 
+/** 파일 하나의 인덱싱 작업(워커/메인 스레드 공통) */
+export interface IndexTask {
+  fileAbs: string;
+  projectRoot: string;
+  /** 이전 내용 해시 — 같으면 파싱을 건너뜀 */
+  prevHash?: string;
+}
+
+/** 인덱싱 작업 결과 */
+export interface IndexTaskResult {
+  fileAbs: string;
+  /** 파일 내용 sha1(hex) */
+  hash: string;
+  /** `prevHash`와 내용이 같아 파싱하지 않음 */
+  unchanged?: boolean;
+  item: FileIndexItem | null;
+}
+
+/**
+ * 파일 내용 해시(sha1 hex)
+ * @param {string} code 파일 내용
+ * @returns {string} 해시
+ */
+export function contentHash(code: string): string {
+  return createHash('sha1').update(code).digest('hex');
+}
+
+/**
+ * 파일을 읽고 해시를 계산한 뒤, 내용이 바뀌었으면 파싱합니다.
+ * @param {IndexTask} task 작업
+ * @returns {IndexTaskResult} 결과
+ * @throws {Error} 파일 읽기/파싱 오류
+ */
+export function runIndexTask(task: IndexTask): IndexTaskResult {
+  const code = fs.readFileSync(task.fileAbs, 'utf8');
+  const hash = contentHash(code);
+  if (task.prevHash === hash) return { fileAbs: task.fileAbs, hash, unchanged: true, item: null };
+  return { fileAbs: task.fileAbs, hash, item: parseOneForFiltered(task.fileAbs, task.projectRoot, code) };
+}
+
 /**
  * 프로젝트 전체를 스캔해 **filtered AST**(간략 인덱스)를 생성합니다.
+ * - 파싱은 워커 풀(`INDEX_WORKERS`)에서 나눠 처리합니다.
  * @param {string} projectRoot 프로젝트 루트(절대 경로)
+ * @param {{onProgress?:(p:IndexProgress)=>void}} [options] 파싱 진행 상황 콜백
  * @returns {Promise<FilteredAst>} filtered_ast 모델
  */
-export async function buildFilteredAst(projectRoot: string): Promise<FilteredAst> {
-  const filesAbs = walkSupportedFiles(projectRoot);
+export async function buildFilteredAst(
+  projectRoot: string,
+  options: { onProgress?: (p: IndexProgress) => void } = {}
+): Promise<FilteredAst> {
+  const filter = createPathFilter(projectRoot);
+  const filesAbs = walkSupportedFiles(projectRoot, filter);
   const index: FileIndexItem[] = [];
 
-  for (const abs of filesAbs) {
-    try {
-      const item = parseOneForFiltered(abs, projectRoot);
-      if (item) index.push(item);
-    } catch (e: any) {
-      console.warn(`[filtered] parse error at ${abs}: ${e?.message || e}`);
-    }
+  const tasks = filesAbs.map((fileAbs) => ({ fileAbs, projectRoot }));
+  for (const r of await runIndexTasks(tasks, options)) {
+    if ('error' in r) console.warn(`[filtered] parse error at ${r.fileAbs}: ${r.error}`);
+    else if (r.item) index.push(r.item);
   }
 
   index.sort((a, b) => a.file.localeCompare(b.file));
+  resolveImportsInIndex(index, { includeDirs: projectIncludeDirs(projectRoot) });
   const files = index.map((x) => x.file);
 
   return {
@@ -668,37 +1523,35 @@ export async function buildFilteredAst(projectRoot: string): Promise<FilteredAst
     files,
     index,
     generatedAt: new Date().toISOString(),
+    policy: filter.policy,
   };
 }
 
 /**
- * filtered_ast 결과를 지정한 경로에 기록합니다.
- * @param {FilteredAst} fa 결과 모델
- * @param {string} outputPath 저장할 파일 경로
+ * 파일을 원자적으로 바꿉니다(같은 디렉토리의 임시 파일에 쓴 뒤 `rename`).
+ * - 감시(WATCH) 중 재인덱싱과 `/graph/ask`가 같은 파일을 동시에 읽어도 잘린 JSON을 보지 않습니다.
+ * @param {string} target 대상 파일 경로
+ * @param {string} data 내용
  * @returns {Promise<void>}
  */
-export async function writeFilteredAst(fa: FilteredAst, outputPath: string): Promise<void> {
-  await fsp.mkdir(path.dirname(outputPath), { recursive: true });
-  await fsp.writeFile(outputPath, JSON.stringify(fa, null, 2), 'utf8');
+export async function writeFileAtomic(target: string, data: string): Promise<void> {
+  await fsp.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await fsp.writeFile(tmp, data, 'utf8');
+    await fsp.rename(tmp, target);
+  } catch (e) {
+    await fsp.rm(tmp, { force: true });
+    throw e;
+  }
 }
 
 /**
- * 서버 부트 전에 filtered_ast가 없으면 생성합니다.
- * - 존재하면 스킵
- * - 강제 재생성(`REGENERATE_FILTERED=1`)이면 항상 재생성
+ * filtered_ast 결과를 지정한 경로에 기록합니다(원자적 교체).
+ * @param {FilteredAst} fa 결과 모델
+ * @param {string} outputPath 저장할 파일 경로
  * @returns {Promise<void>}
  */
-export async function ensureFilteredAst(): Promise<void> {
-  const force = String(process.env.REGENERATE_FILTERED || '0') === '1';
-  try {
-    if (!force) {
-      await fsp.access(env.FILTERED_AST_PATH, fs.constants.F_OK);
-      return; // 이미 있음 → 스킵
-    }
-  } catch {
-    // not exists → 생성으로 진행
-  }
-  const fa = await buildFilteredAst(env.PROJECT_ROOT);
-  await writeFilteredAst(fa, env.FILTERED_AST_PATH);
-  console.log(`[filtered] generated at ${env.FILTERED_AST_PATH} (files=${fa.files.length})`);
+export async function writeFilteredAst(fa: FilteredAst, outputPath: string): Promise<void> {
+  await writeFileAtomic(outputPath, JSON.stringify(fa, null, 2));
 }
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import ignore from 'ignore';
+
+import { env } from '../config/env.js';
+import { loadPreprocessorSetup, stripComments, type PreprocessorSetup } from './preprocess.js';
+
+/** `.h` 헤더를 어떤 언어로 파싱할지와 그 근거 */
+export interface HeaderLanguage {
+  lang: 'c' | 'cpp';
+  /** 판단 근거 종류(앞의 것이 우선) */
+  by: 'config' | 'syntax' | 'sibling' | 'compile_commands' | 'directory' | 'default';
+  /** 근거 설명(예: `namespace`, `foo.cpp`, 설정 패턴) */
+  reason: string;
+}
+
+/** C++ 소스/헤더 확장자 */
+const CPP_EXTS = ['.cc', '.cpp', '.cxx', '.hh', '.hpp', '.hxx'];
+/** C++ 소스 확장자(같은 이름의 짝 파일 찾기용) */
+const CPP_SOURCE_EXTS = ['.cc', '.cpp', '.cxx'];
+
+/** C++에만 있는 문법(이름 → 패턴) */
+const CPP_SYNTAX: Array<[string, RegExp]> = [
+  ['namespace', /\bnamespace(?:\s+[A-Za-z_][\w:]*)?\s*\{|\busing\s+namespace\b/],
+  ['class', /\bclass\s+[A-Za-z_]\w*(?:\s+final)?\s*(?::[^;{]*)?\{/],
+  ['template', /\btemplate\s*</],
+  ['access specifier', /^\s*(?:public|private|protected)\s*:/m],
+  ['::', /[A-Za-z_]\w*\s*::\s*~?[A-Za-z_]/],
+  ['keyword', /\b(?:constexpr|nullptr|static_cast|dynamic_cast|reinterpret_cast|virtual|noexcept)\b/],
+];
+
+/** 설정 객체 → `headerLanguage` 패턴 매처 */
+const matchers = new WeakMap<PreprocessorSetup, Array<{ pattern: string; lang: 'c' | 'cpp'; test: (rel: string) => boolean }>>();
+
+/** 설정 파일 `headerLanguage`에서 맞는 마지막 패턴 */
+function configured(setup: PreprocessorSetup, rel: string): HeaderLanguage | null {
+  let list = matchers.get(setup);
+  if (!list) {
+    list = setup.headerLanguage.map(({ pattern, lang }) => {
+      const ig = ignore().add(pattern);
+      return { pattern, lang, test: (r: string) => ig.ignores(r) };
+    });
+    matchers.set(setup, list);
+  }
+  const hit = list.filter((m) => m.test(rel)).at(-1);
+  return hit ? { lang: hit.lang, by: 'config', reason: hit.pattern } : null;
+}
+
+/** 소스에서 C++ 문법을 찾습니다(주석/문자열 제외, 찾은 이름 또는 null). */
+function cppSyntax(code: string): string | null {
+  const text = stripComments(code).replace(/"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g, '""');
+  return CPP_SYNTAX.find(([, re]) => re.test(text))?.[0] ?? null;
+}
+
+/** 같은 이름의 짝 소스 파일(`foo.h` → `foo.cpp`/`foo.c`) */
+function sibling(fileAbs: string): HeaderLanguage | null {
+  const base = fileAbs.slice(0, -path.extname(fileAbs).length);
+  const cpp = CPP_SOURCE_EXTS.map((e) => base + e).filter((f) => fs.existsSync(f));
+  const c = fs.existsSync(base + '.c');
+  if (cpp.length && !c) return { lang: 'cpp', by: 'sibling', reason: path.basename(cpp[0]) };
+  if (c && !cpp.length) return { lang: 'c', by: 'sibling', reason: path.basename(base + '.c') };
+  return null;
+}
+
+/** 이 헤더를 쓸 수 있는 compile_commands.json 항목(같은 디렉터리 소스 또는 include 경로 아래 헤더)의 언어 */
+function fromCompileCommands(setup: PreprocessorSetup, fileAbs: string): HeaderLanguage | null {
+  const dir = path.dirname(fileAbs);
+  const under = (d: string) => dir === d || dir.startsWith(d + path.sep);
+  let cpp = 0;
+  let c = 0;
+  for (const [source, flags] of setup.commands) {
+    if (path.dirname(source) !== dir && !flags.includeDirs.some(under)) continue;
+    if (flags.cpp) cpp++;
+    else c++;
+  }
+  if (cpp && !c) return { lang: 'cpp', by: 'compile_commands', reason: `${cpp} C++ translation unit(s)` };
+  if (c && !cpp) return { lang: 'c', by: 'compile_commands', reason: `${c} C translation unit(s)` };
+  return null;
+}
+
+/** 같은 디렉터리의 소스/헤더 확장자 분포(한쪽 언어만 있을 때) */
+function fromDirectory(fileAbs: string): HeaderLanguage | null {
+  let names: string[];
+  try {
+    names = fs.readdirSync(path.dirname(fileAbs));
+  } catch {
+    return null;
+  }
+  const cpp = names.filter((n) => CPP_EXTS.includes(path.extname(n).toLowerCase())).length;
+  const c = names.filter((n) => path.extname(n) === '.c').length;
+  if (cpp && !c) return { lang: 'cpp', by: 'directory', reason: `${cpp} C++ file(s), no .c` };
+  if (c && !cpp) return { lang: 'c', by: 'directory', reason: `${c} .c file(s), no C++` };
+  return null;
+}
+
+/**
+ * `.h` 헤더를 C와 C++ 중 무엇으로 파싱할지 정합니다.
+ *
+ * 다음 순서로 처음 결론이 나는 근거를 씁니다.
+ * 1. 설정 파일 `headerLanguage`의 패턴(뒤에 적은 것 우선)
+ * 2. C++에만 있는 문법(`class X {`, `namespace`, `template<`, `::`, 접근 지정자 등 — 주석/문자열 제외)
+ * 3. 같은 이름의 짝 소스(`foo.cpp` / `foo.c`)
+ * 4. compile_commands.json에서 이 헤더를 쓸 수 있는 항목(같은 디렉터리 소스, include 경로 아래)의 언어
+ * 5. 같은 디렉터리 파일의 확장자(한쪽 언어만 있을 때)
+ * 6. `C_HEADER_AS_CPP`
+ *
+ * @param {string} fileAbs 헤더 절대 경로
+ * @param {string} projectRoot 프로젝트 루트
+ * @param {string} code 헤더 내용
+ * @returns {HeaderLanguage} 언어와 근거
+ */
+export function detectHeaderLanguage(fileAbs: string, projectRoot: string, code: string): HeaderLanguage {
+  const setup = loadPreprocessorSetup(projectRoot);
+  const rel = path.relative(setup.root, fileAbs).replaceAll('\\', '/');
+  const override = configured(setup, rel);
+  if (override) return override;
+  const syntax = cppSyntax(code);
+  if (syntax) return { lang: 'cpp', by: 'syntax', reason: syntax };
+  return (
+    sibling(fileAbs) ??
+    fromCompileCommands(setup, path.resolve(fileAbs)) ??
+    fromDirectory(fileAbs) ?? {
+      lang: env.C_HEADER_AS_CPP ? 'cpp' : 'c',
+      by: 'default',
+      reason: `C_HEADER_AS_CPP=${env.C_HEADER_AS_CPP ? 1 : 0}`,
+    }
+  );
+}
@@ -0,0 +1,174 @@
+import fs from 'fs';
+import path from 'path';
+import ignore, { type Ignore } from 'ignore';
+
+import { env } from '../config/env.js';
+import { loadProjectConfig, PROJECT_CONFIG_FILE } from '../config/project.js';
+
+/** 인덱싱 대상 확장자 */
+export const SUPPORTED_EXTS = [
+  '.js', '.jsx', '.ts', '.tsx', '.html', '.css',
+  '.c', '.cc', '.cpp', '.cxx', '.h', '.hh', '.hpp', '.hxx',
+  '.java', '.kt', '.kts', '.py',
+];
+
+/**
+ * 항상 제외하는 디렉터리 이름
+ * - 빌드 산출물(`out`, `gen`, `build` 등)은 `.gitignore`/설정 파일의 `exclude`로 제외합니다.
+ */
+export const DEFAULT_EXCLUDES = ['node_modules', '.git', '.hg', '.svn', '__snapshots__', '__fixtures__', '.next', '.turbo'];
+
+/** 디렉터리별로 읽는 ignore 파일 */
+const IGNORE_FILES = ['.gitignore', '.ignore'];
+
+/** 실제로 적용된 인덱싱 정책(filtered AST 헤더에 기록) */
+export interface IndexPolicy {
+  /** 적용한 설정 파일(프로젝트 상대 경로, 없으면 null) */
+  configFile: string | null;
+  include: string[];
+  exclude: string[];
+  defaultExcludes: string[];
+  extensions: string[];
+  /** 0이면 제한 없음 */
+  maxFileBytes: number;
+  gitignore: boolean;
+  /** 적용한 `.gitignore`/`.ignore` 파일(프로젝트 상대 경로) */
+  ignoreFiles: string[];
+  /** 정책 때문에 건너뛴 항목 수 */
+  skipped: { ignored: number; tooLarge: number };
+}
+
+/** 프로젝트 경로 필터 */
+export interface PathFilter {
+  root: string;
+  policy: IndexPolicy;
+  /**
+   * 디렉터리 항목 하나를 건너뛸지 판단합니다(상위 디렉터리는 이미 통과했다고 가정 — 워커용).
+   * @param rel 프로젝트 상대 경로(`/` 구분)
+   */
+  ignoresEntry(rel: string, isDir: boolean): boolean;
+  /**
+   * 파일이 인덱싱 대상인지 경로 전체(상위 디렉터리 포함)를 검사합니다(파일 감시용).
+   * @param rel 프로젝트 상대 경로(`/` 구분)
+   * @param size 파일 크기(알면 크기 제한까지 검사)
+   */
+  acceptsFile(rel: string, size?: number): boolean;
+  /** 크기 제한을 넘는지(넘으면 `skipped.tooLarge` 증가) */
+  tooLarge(size: number): boolean;
+}
+
+/**
+ * 정책 파일(설정/ignore 파일) 경로인지 판단합니다 — 바뀌면 필터를 다시 만들어야 합니다.
+ * @param {string} rel 프로젝트 상대 경로
+ * @returns {boolean} 정책 파일 여부
+ */
+export function isPolicyFile(rel: string): boolean {
+  const base = path.posix.basename(rel);
+  return rel === PROJECT_CONFIG_FILE || IGNORE_FILES.includes(base);
+}
+
+/**
+ * 프로젝트의 설정 파일과 ignore 파일로 경로 필터를 만듭니다.
+ *
+ * 판단 순서
+ * 1. 기본 제외 디렉터리(`DEFAULT_EXCLUDES`)
+ * 2. 설정 파일의 `exclude`
+ * 3. 각 디렉터리의 `.gitignore`/`.ignore` (상위 → 하위 순, 하위의 `!패턴`이 상위 규칙을 뒤집음)
+ * 4. (파일) 지원 확장자 + 설정 파일의 `include`
+ *
+ * @param {string} projectRoot 프로젝트 루트
+ * @returns {PathFilter} 경로 필터
+ * @throws {Error} 설정 파일 오류
+ */
+export function createPathFilter(projectRoot: string): PathFilter {
+  const root = path.resolve(projectRoot);
+  const { config, file } = loadProjectConfig(root);
+  const include = config.include ?? [];
+  const exclude = config.exclude ?? [];
+  const gitignore = config.gitignore ?? env.INDEX_GITIGNORE;
+  const maxFileBytes = Math.max(0, config.maxFileBytes ?? env.INDEX_MAX_FILE_BYTES);
+
+  const includeIg = include.length ? ignore().add(include) : null;
+  const excludeIg = exclude.length ? ignore().add(exclude) : null;
+  const exts = new Set(SUPPORTED_EXTS);
+
+  const policy: IndexPolicy = {
+    configFile: file ? path.relative(root, file).replaceAll('\\', '/') : null,
+    include,
+    exclude,
+    defaultExcludes: DEFAULT_EXCLUDES,
+    extensions: SUPPORTED_EXTS,
+    maxFileBytes,
+    gitignore,
+    ignoreFiles: [],
+    skipped: { ignored: 0, tooLarge: 0 },
+  };
+
+  /** 디렉터리(상대 경로, 루트는 '') → 그 디렉터리의 ignore 규칙 */
+  const rules = new Map<string, Ignore | null>();
+  const rulesFor = (dirRel: string): Ignore | null => {
+    if (rules.has(dirRel)) return rules.get(dirRel)!;
+    let ig: Ignore | null = null;
+    for (const name of IGNORE_FILES) {
+      const rel = dirRel ? `${dirRel}/${name}` : name;
+      try {
+        const text = fs.readFileSync(path.join(root, rel), 'utf8');
+        ig = (ig ?? ignore()).add(text);
+        policy.ignoreFiles.push(rel);
+      } catch {
+        // 없음
+      }
+    }
+    rules.set(dirRel, ig);
+    return ig;
+  };
+
+  /** `.gitignore` 체인 검사(상위 디렉터리부터 차례로 적용) */
+  const gitIgnored = (rel: string, isDir: boolean): boolean => {
+    const parts = rel.split('/');
+    let ignored = false;
+    for (let i = 0; i < parts.length; i++) {
+      const dirRel = parts.slice(0, i).join('/');
+      const ig = rulesFor(dirRel);
+      if (!ig) continue;
+      const sub = parts.slice(i).join('/') + (isDir ? '/' : '');
+      const r = ig.test(sub);
+      if (r.ignored) ignored = true;
+      else if (r.unignored) ignored = false;
+    }
+    return ignored;
+  };
+
+  const ignoresEntry = (rel: string, isDir: boolean): boolean => {
+    const name = rel.split('/').pop()!;
+    let skip = false;
+    if (isDir && DEFAULT_EXCLUDES.includes(name)) skip = true;
+    else if (excludeIg?.ignores(isDir ? `${rel}/` : rel)) skip = true;
+    else if (gitignore && gitIgnored(rel, isDir)) skip = true;
+    else if (!isDir) {
+      if (!exts.has(path.extname(name).toLowerCase())) return true; // 지원하지 않는 확장자는 집계하지 않음
+      if (includeIg && !includeIg.ignores(rel)) skip = true;
+    }
+    if (skip) policy.skipped.ignored++;
+    return skip;
+  };
+
+  const tooLarge = (size: number): boolean => {
+    if (maxFileBytes > 0 && size > maxFileBytes) {
+      policy.skipped.tooLarge++;
+      return true;
+    }
+    return false;
+  };
+
+  const acceptsFile = (rel: string, size?: number): boolean => {
+    const parts = rel.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      if (ignoresEntry(parts.slice(0, i).join('/'), true)) return false;
+    }
+    if (ignoresEntry(rel, false)) return false;
+    return size == null || !tooLarge(size);
+  };
+
+  return { root, policy, ignoresEntry, acceptsFile, tooLarge };
+}
@@ -0,0 +1,443 @@
+import path from 'path';
+import type { FileIndexItem } from './gen_filtered.js';
+
+/** 파일 하나가 가진 import(또는 #include) 항목 */
+export interface ImportRef {
+  /** 소스에 적힌 원문 모듈 지정자(예: `./x.js`, `a/b.h`, `..pkg.m`) */
+  source: string;
+  /** 모듈 형태 */
+  kind: 'esm' | 'cjs' | 'dynamic' | 'reexport' | 'include' | 'python' | 'jvm';
+  /** 가져온 이름(가능한 경우, `*`는 전체) */
+  names?: string[];
+  /** 프로젝트 상대 경로로 해석된 결과(해석 실패/외부 모듈이면 없음) */
+  resolved?: string;
+  /** `#include`한 헤더(와 그 헤더가 포함한 헤더)에서 선언돼 이 파일이 쓰는 이름(호출/매크로) */
+  symbols?: string[];
+  /** import 구문 라인(1-based) */
+  line: number;
+}
+
+/** 문자열 리터럴 노드에서 따옴표를 뗀 내용을 반환합니다. */
+function stringValue(node: any, code: string): string {
+  const raw = code.slice(node.startIndex, node.endIndex);
+  return raw.replace(/^[`'"<]/, '').replace(/[`'">]$/, '');
+}
+
+/** 노드와 모든 named 자손을 순회합니다. */
+function eachNamed(node: any, visit: (n: any) => void): void {
+  const stack: any[] = [node];
+  while (stack.length) {
+    const n = stack.pop();
+    if (!n) continue;
+    visit(n);
+    for (const ch of n.namedChildren ?? []) stack.push(ch);
+  }
+}
+
+/**
+ * JS/TS import/require/re-export를 수집합니다.
+ * @param root 루트 노드
+ * @param code 원본 코드
+ */
+function extractImportsJS(root: any, code: string): ImportRef[] {
+  const out: ImportRef[] = [];
+  eachNamed(root, (n) => {
+    if (n.type === 'import_statement' || n.type === 'export_statement') {
+      const src = n.childForFieldName?.('source');
+      if (!src) return;
+      const names: string[] = [];
+      eachNamed(n, (c) => {
+        if (c.type === 'import_specifier' || c.type === 'export_specifier') {
+          const name = c.childForFieldName?.('name') ?? c;
+          names.push(code.slice(name.startIndex, name.endIndex));
+        } else if (c.type === 'namespace_import' || c.type === 'namespace_export') {
+          names.push('*');
+        } else if (c.type === 'identifier' && c.parent?.type === 'import_clause') {
+          names.push('default');
+        }
+      });
+      if (n.type === 'export_statement' && !names.length) names.push('*');
+      out.push({
+        source: stringValue(src, code),
+        kind: n.type === 'import_statement' ? 'esm' : 'reexport',
+        ...(names.length ? { names } : {}),
+        line: n.startPosition.row + 1,
+      });
+      return;
+    }
+    if (n.type === 'call_expression') {
+      const fn = n.childForFieldName?.('function');
+      const args = n.childForFieldName?.('arguments');
+      const first = args?.namedChildren?.[0];
+      if (!fn || !first || first.type !== 'string') return;
+      const isRequire = fn.type === 'identifier' && code.slice(fn.startIndex, fn.endIndex) === 'require';
+      const isDynamic = fn.type === 'import';
+      if (!isRequire && !isDynamic) return;
+      out.push({ source: stringValue(first, code), kind: isRequire ? 'cjs' : 'dynamic', line: n.startPosition.row + 1 });
+    }
+  });
+  return out.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * JS/TS에서 export되는 이름을 수집합니다.
+ * - `export default` → `default`, `export * from` → `*`
+ * @param root 루트 노드
+ * @param code 원본 코드
+ */
+function extractExportsJS(root: any, code: string): string[] {
+  const out: string[] = [];
+  for (const n of root.namedChildren ?? []) {
+    if (n.type !== 'export_statement') continue;
+    if ((n.children ?? []).some((c: any) => !c.isNamed && c.type === 'default')) {
+      out.push('default');
+      continue;
+    }
+    const decl = n.childForFieldName?.('declaration');
+    if (decl) {
+      const name = decl.childForFieldName?.('name');
+      if (name) {
+        out.push(code.slice(name.startIndex, name.endIndex));
+      } else {
+        // export const a = 1, b = 2;
+        for (const d of decl.namedChildren ?? []) {
+          const id = d.childForFieldName?.('name');
+          if (id && id.type === 'identifier') out.push(code.slice(id.startIndex, id.endIndex));
+        }
+      }
+      continue;
+    }
+    const clause = (n.namedChildren ?? []).find((c: any) => c.type === 'export_clause');
+    if (clause) {
+      for (const spec of clause.namedChildren ?? []) {
+        const alias = spec.childForFieldName?.('alias') ?? spec.childForFieldName?.('name');
+        if (alias) out.push(code.slice(alias.startIndex, alias.endIndex));
+      }
+    } else if (n.childForFieldName?.('source')) {
+      out.push('*');
+    }
+  }
+  return Array.from(new Set(out));
+}
+
+/**
+ * C/C++ `#include`를 수집합니다.
+ * @param root 루트 노드
+ * @param code 원본 코드
+ */
+function extractIncludesC(root: any, code: string): ImportRef[] {
+  const out: ImportRef[] = [];
+  eachNamed(root, (n) => {
+    if (n.type !== 'preproc_include') return;
+    const p = n.childForFieldName?.('path');
+    if (!p) return;
+    out.push({
+      source: stringValue(p, code),
+      kind: 'include',
+      ...(p.type === 'system_lib_string' ? { names: ['<system>'] } : {}),
+      line: n.startPosition.row + 1,
+    });
+  });
+  return out.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Python `import` / `from ... import`를 수집합니다.
+ * @param root 루트 노드
+ * @param code 원본 코드
+ */
+function extractImportsPython(root: any, code: string): ImportRef[] {
+  const out: ImportRef[] = [];
+  const text = (n: any) => code.slice(n.startIndex, n.endIndex);
+  eachNamed(root, (n) => {
+    if (n.type === 'import_statement') {
+      for (const ch of n.namedChildren ?? []) {
+        const mod = ch.type === 'aliased_import' ? ch.childForFieldName?.('name') : ch;
+        if (mod) out.push({ source: text(mod), kind: 'python', line: n.startPosition.row + 1 });
+      }
+    } else if (n.type === 'import_from_statement') {
+      const mod = n.childForFieldName?.('module_name');
+      if (!mod) return;
+      const names: string[] = [];
+      for (const ch of n.namedChildren ?? []) {
+        if (ch === mod || ch.startIndex === mod.startIndex) continue;
+        if (ch.type === 'wildcard_import') names.push('*');
+        else if (ch.type === 'aliased_import') {
+          const nm = ch.childForFieldName?.('name');
+          if (nm) names.push(text(nm));
+        } else if (ch.type === 'dotted_name') names.push(text(ch));
+      }
+      out.push({ source: text(mod), kind: 'python', ...(names.length ? { names } : {}), line: n.startPosition.row + 1 });
+    }
+  });
+  return out.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Python 모듈의 공개 이름을 수집합니다.
+ * - `__all__` 리스트가 있으면 그대로, 없으면 `_`로 시작하지 않는 최상위 def/class 이름
+ * @param root 루트 노드
+ * @param code 원본 코드
+ */
+function extractExportsPython(root: any, code: string): string[] {
+  const names: string[] = [];
+  let declared: string[] | null = null;
+  for (const n of root.namedChildren ?? []) {
+    const def = n.type === 'decorated_definition' ? n.childForFieldName?.('definition') : n;
+    if (def && (def.type === 'function_definition' || def.type === 'class_definition')) {
+      const nm = def.childForFieldName?.('name');
+      if (nm) names.push(code.slice(nm.startIndex, nm.endIndex));
+    }
+    const assign = n.type === 'expression_statement' ? n.namedChildren?.[0] : null;
+    const left = assign?.type === 'assignment' ? assign.childForFieldName?.('left') : null;
+    if (left && code.slice(left.startIndex, left.endIndex) === '__all__') {
+      const right = assign.childForFieldName?.('right');
+      declared = (right?.namedChildren ?? [])
+        .filter((c: any) => c.type === 'string')
+        .map((c: any) => stringValue(c, code));
+    }
+  }
+  return declared ?? names.filter((x) => !x.startsWith('_'));
+}
+
+/**
+ * Java/Kotlin `import`를 수집합니다.
+ * @param root 루트 노드
+ * @param code 원본 코드
+ */
+function extractImportsJvm(root: any, code: string): ImportRef[] {
+  const out: ImportRef[] = [];
+  eachNamed(root, (n) => {
+    if (n.type !== 'import_declaration' && n.type !== 'import_header') return;
+    const id = (n.namedChildren ?? []).find((c: any) => c.type === 'scoped_identifier' || c.type === 'identifier');
+    if (!id) return;
+    const wildcard = (n.namedChildren ?? []).some((c: any) => c.type === 'asterisk' || c.type === 'wildcard_import');
+    out.push({
+      source: code.slice(id.startIndex, id.endIndex),
+      kind: 'jvm',
+      ...(wildcard ? { names: ['*'] } : {}),
+      line: n.startPosition.row + 1,
+    });
+  });
+  return out.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * 확장자에 맞춰 import 목록과 export 이름을 추출합니다(해석 전).
+ *
+ * @param {string} ext 파일 확장자(예: `.ts`)
+ * @param {any} root tree-sitter 루트 노드
+ * @param {string} code 원본 코드
+ * @returns {{imports: ImportRef[]; exports: string[]}} 추출 결과
+ */
+export function extractModuleInfo(ext: string, root: any, code: string): { imports: ImportRef[]; exports: string[] } {
+  if (['.js', '.jsx', '.ts', '.tsx'].includes(ext)) {
+    return { imports: extractImportsJS(root, code), exports: extractExportsJS(root, code) };
+  }
+  if (['.c', '.cc', '.cpp', '.cxx', '.h', '.hh', '.hpp', '.hxx'].includes(ext)) {
+    return { imports: extractIncludesC(root, code), exports: [] };
+  }
+  if (ext === '.py') {
+    return { imports: extractImportsPython(root, code), exports: extractExportsPython(root, code) };
+  }
+  if (ext === '.java' || ext === '.kt' || ext === '.kts') {
+    return { imports: extractImportsJvm(root, code), exports: [] };
+  }
+  return { imports: [], exports: [] };
+}
+
+/** ---------- 해석(프로젝트 상대 경로) ---------- */
+
+const JS_EXTS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** `.js`로 적힌 ESM 경로를 TS 소스 후보로 바꿉니다(예: `./x.js` → `./x.ts`). */
+const ESM_REMAP: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/** posix 경로 정규화(선행 `./` 제거, 루트 이탈 시 null) */
+function normalizeRel(p: string): string | null {
+  const n = path.posix.normalize(p);
+  if (n.startsWith('../') || n === '..') return null;
+  return n.replace(/^\.\//, '');
+}
+
+/**
+ * JS/TS 상대 import를 해석합니다.
+ * - 정확 일치 → `.js`→`.ts` 재매핑 → 확장자 보충 → `index.*` 순으로 찾습니다.
+ */
+function resolveJS(fromFile: string, source: string, known: Set<string>): string | undefined {
+  if (!source.startsWith('.')) return undefined;
+  const base = normalizeRel(path.posix.join(path.posix.dirname(fromFile), source));
+  if (base == null) return undefined;
+  const candidates: string[] = [base];
+  const ext = path.posix.extname(base);
+  for (const alt of ESM_REMAP[ext] ?? []) candidates.push(base.slice(0, -ext.length) + alt);
+  for (const e of JS_EXTS) candidates.push(base + e);
+  for (const e of JS_EXTS) candidates.push(path.posix.join(base, 'index' + e));
+  return candidates.find((c) => known.has(c));
+}
+
+/**
+ * C/C++ `#include`를 해석합니다.
+ * - 포함한 파일 기준 상대 경로 → 프로젝트 루트 기준 → include 경로 → 경로 접미사 일치(유일할 때) 순
+ */
+function resolveInclude(
+  fromFile: string,
+  source: string,
+  known: Set<string>,
+  bySuffix: Map<string, string[]>,
+  includeDirs: string[]
+): string | undefined {
+  const local = normalizeRel(path.posix.join(path.posix.dirname(fromFile), source));
+  if (local && known.has(local)) return local;
+  const fromRoot = normalizeRel(source);
+  if (fromRoot && known.has(fromRoot)) return fromRoot;
+  for (const dir of includeDirs) {
+    const rel = normalizeRel(path.posix.join(dir, source));
+    if (rel && known.has(rel)) return rel;
+  }
+  const hits = (bySuffix.get(path.posix.basename(source)) ?? []).filter(
+    (f) => f === source || f.endsWith('/' + source)
+  );
+  return hits.length === 1 ? hits[0] : undefined;
+}
+
+/**
+ * Python import를 해석합니다.
+ * - 상대 import(`.`/`..`)는 파일 패키지 기준, 절대 import는 루트와 파일 디렉터리 기준
+ * - 절대 import가 그래도 안 풀리면 경로 접미사 일치(유일할 때)로 찾습니다(소스 루트가 하위 디렉터리인 경우).
+ */
+function resolvePython(fromFile: string, source: string, known: Set<string>, bySuffix: Map<string, string[]>): string | undefined {
+  const m = /^(\.*)(.*)$/.exec(source)!;
+  const dots = m[1].length;
+  const modPath = m[2] ? m[2].split('.').join('/') : '';
+  const bases: string[] = [];
+  if (dots > 0) {
+    let dir = path.posix.dirname(fromFile);
+    for (let i = 1; i < dots; i++) dir = path.posix.dirname(dir);
+    bases.push(path.posix.join(dir, modPath));
+  } else {
+    bases.push(modPath, path.posix.join(path.posix.dirname(fromFile), modPath));
+  }
+  for (const b of bases) {
+    const n = normalizeRel(b);
+    if (n == null) continue;
+    for (const c of [n + '.py', path.posix.join(n, '__init__.py')]) {
+      if (known.has(c)) return c;
+    }
+  }
+  if (dots === 0 && modPath) {
+    for (const rel of [modPath + '.py', modPath + '/__init__.py']) {
+      const hits = (bySuffix.get(path.posix.basename(rel)) ?? []).filter((f) => f === rel || f.endsWith('/' + rel));
+      if (hits.length === 1) return hits[0];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Java/Kotlin import를 해석합니다(패키지 경로 접미사 일치).
+ */
+function resolveJvm(source: string, bySuffix: Map<string, string[]>): string | undefined {
+  const parts = source.split('.');
+  // 중첩 클래스 import(a.b.Outer.Inner)도 고려해 뒤에서부터 줄여 가며 찾음
+  for (let k = parts.length; k >= 1; k--) {
+    const rel = parts.slice(0, k).join('/');
+    for (const ext of ['.java', '.kt']) {
+      const hit = (bySuffix.get(path.posix.basename(rel) + ext) ?? []).find(
+        (f) => f === rel + ext || f.endsWith('/' + rel + ext)
+      );
+      if (hit) return hit;
+    }
+  }
+  return undefined;
+}
+
+/** 파일이 쓰는 이름(호출 대상, 전처리에서 본 매크로) */
+function usedNames(item: FileIndexItem): Set<string> {
+  return new Set([...(item.calls ?? []).map((c) => c.callee), ...Object.keys(item.preprocessor?.macrosUsed ?? {})]);
+}
+
+/**
+ * 해석된 `#include`마다 그 헤더 쪽에서 선언돼 이 파일이 쓰는 이름을 `symbols`에 기록합니다.
+ * - 헤더가 다시 포함한 헤더의 선언도 그 `#include`의 몫으로 봅니다(먼저 나온 `#include` 우선).
+ */
+function attributeIncludeSymbols(index: FileIndexItem[]): void {
+  const byFile = new Map(index.map((x) => [x.file, x] as [string, FileIndexItem]));
+  // 헤더의 선언(함수/클래스/매크로 등 최상위 이름)
+  const declared = (file: string): string[] => (byFile.get(file)?.ast ?? []).map((s: any) => s.name as string);
+
+  for (const item of index) {
+    const includes = (item.imports ?? []).filter((imp) => imp.kind === 'include');
+    if (!includes.length) continue;
+    const used = usedNames(item);
+    const own = new Set((item.ast ?? []).map((s: any) => s.name as string));
+    const taken = new Set<string>();
+    for (const imp of includes) {
+      delete imp.symbols;
+      if (!imp.resolved) continue;
+      const names: string[] = [];
+      const seen = new Set<string>([item.file]);
+      const queue = [imp.resolved];
+      while (queue.length) {
+        const file = queue.shift()!;
+        if (seen.has(file)) continue;
+        seen.add(file);
+        for (const name of declared(file)) {
+          if (!name || own.has(name) || taken.has(name) || !used.has(name)) continue;
+          taken.add(name);
+          names.push(name);
+        }
+        for (const next of byFile.get(file)?.imports ?? []) {
+          if (next.kind === 'include' && next.resolved) queue.push(next.resolved);
+        }
+      }
+      if (names.length) imp.symbols = names.sort();
+    }
+  }
+}
+
+/**
+ * 인덱스 전체를 기준으로 각 파일의 import를 **프로젝트 상대 경로**로 해석해 `resolved`를 채웁니다.
+ * - 파일 목록이 모두 모인 뒤 호출해야 합니다(파일 단위 갱신 뒤에도 다시 호출).
+ * - C/C++ `#include`는 `includeDirs`(프로젝트 상대 경로)에서도 찾고, 헤더에서 가져다 쓰는 이름을 `symbols`에 기록합니다.
+ *
+ * @param {FileIndexItem[]} index filtered AST 인덱스(제자리 갱신)
+ * @param {{includeDirs?:string[]}} [options] include 경로
+ * @returns {void}
+ */
+export function resolveImportsInIndex(index: FileIndexItem[], options: { includeDirs?: string[] } = {}): void {
+  const includeDirs = options.includeDirs ?? [];
+  const known = new Set(index.map((x) => x.file));
+  const bySuffix = new Map<string, string[]>();
+  for (const f of known) {
+    const b = path.posix.basename(f);
+    const arr = bySuffix.get(b);
+    if (arr) arr.push(f);
+    else bySuffix.set(b, [f]);
+  }
+
+  for (const item of index) {
+    for (const imp of item.imports ?? []) {
+      let resolved: string | undefined;
+      if (imp.kind === 'include') resolved = resolveInclude(item.file, imp.source, known, bySuffix, includeDirs);
+      else if (imp.kind === 'python') {
+        resolved = resolvePython(item.file, imp.source, known, bySuffix);
+        // from . import m → 같은 패키지의 하위 모듈 m
+        if (/^\.+$/.test(imp.source) && imp.names?.length) {
+          resolved = resolvePython(item.file, imp.source + imp.names[0], known, bySuffix) ?? resolved;
+        }
+      }
+      else if (imp.kind === 'jvm') resolved = resolveJvm(imp.source, bySuffix);
+      else resolved = resolveJS(item.file, imp.source, known);
+
+      if (resolved && resolved !== item.file) imp.resolved = resolved;
+      else delete imp.resolved;
+    }
+  }
+  attributeIncludeSymbols(index);
+}
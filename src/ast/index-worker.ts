@@ -0,0 +1,18 @@
+import { parentPort } from 'worker_threads';
+import { runIndexTask } from './gen_filtered.js';
+import type { IndexWorkerMessage } from './pool.js';
+import { forgetTree } from './tree-cache.js';
+
+/**
+ * 인덱싱 워커 — 작업(`IndexTask`)을 하나씩 받아 결과를 돌려줍니다.
+ * - 워커마다 자체 Parser/트리 캐시를 가집니다.
+ * - `{forget}` 메시지는 그 파일의 트리를 캐시에서 비우기만 하고 답하지 않습니다.
+ */
+parentPort?.on('message', (task: IndexWorkerMessage) => {
+  if ('forget' in task) return forgetTree(task.forget);
+  try {
+    parentPort!.postMessage(runIndexTask(task));
+  } catch (e: any) {
+    parentPort!.postMessage({ fileAbs: task.fileAbs, error: String(e?.message || e) });
+  }
+});
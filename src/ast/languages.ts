@@ -1,4 +1,6 @@
+import path from 'path';
 import { env } from '../config/env.js';
+import { detectHeaderLanguage, type HeaderLanguage } from './header-lang.js';
 import JavaScript from 'tree-sitter-javascript';
 import TypeScript from 'tree-sitter-typescript';
 import HTML from 'tree-sitter-html';
@@ -32,7 +34,7 @@ export function getLanguageByExt(ext: string): any | null {
     case '.c':
       return C;
     case '.h':
-      return env.C_HEADER_AS_CPP ? CPP : C; // 환경변수로 기본 해석 선택
+      return env.C_HEADER_AS_CPP ? CPP : C; // 환경변수로 기본 해석 선택(파일별 판별은 getLanguageForFile)
 
     // C++ (소스/헤더)
     case '.cc':
@@ -54,3 +56,21 @@ export function getLanguageByExt(ext: string): any | null {
       return null;
   }
 }
+
+/**
+ * 파일 하나의 tree-sitter 언어를 정합니다(`.h`는 내용/주변 파일/설정으로 C·C++ 판별).
+ * @param {string} fileAbs 파일 절대 경로
+ * @param {string} projectRoot 프로젝트 루트
+ * @param {string} code 파일 내용
+ * @returns {{language:any|null; header?:HeaderLanguage}} 언어(미지원이면 null), `.h`면 판별 결과
+ */
+export function getLanguageForFile(
+  fileAbs: string,
+  projectRoot: string,
+  code: string
+): { language: any | null; header?: HeaderLanguage } {
+  const ext = path.extname(fileAbs).toLowerCase();
+  if (ext !== '.h') return { language: getLanguageByExt(ext) };
+  const header = detectHeaderLanguage(fileAbs, projectRoot, code);
+  return { language: header.lang === 'cpp' ? CPP : C, header };
+}
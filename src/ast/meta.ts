@@ -1,4 +1,5 @@
 import type { AstNodeLite, DetailedAst } from '../core/types.js';
+import { countTokens } from '../core/tokenizer.js';
 
 /**
  * AST 루트에서 빠르게 노드 수를 샘플링 카운트합니다.
@@ -77,18 +78,23 @@ export function summarizeAst(node: AstNodeLite): [number, number] {
   return [c, n];
 }
 
+/** AST → 직렬화 토큰 수(같은 AST 객체는 프루닝 중 여러 번 측정되므로 캐시) */
+const astTokens = new WeakMap<DetailedAst, number>();
+
 /**
- * (chars/4 + nodes/10) 근사치로 프롬프트 토큰을 추정합니다.
+ * 프롬프트에 실리는 형태(JSON 직렬화) 그대로 토크나이저로 세어 AST 토큰 수를 계산합니다.
  * @param {DetailedAst[]} asts AST 배열
- * @returns {number} 토큰 근사
+ * @returns {number} 토큰 수
  */
 export function estimateTokensForAsts(asts: DetailedAst[]): number {
-  let chars = 0;
-  let nodes = 0;
+  let total = 0;
   for (const a of asts) {
-    const [c, n] = summarizeAst(a.root);
-    chars += c;
-    nodes += n;
+    let t = astTokens.get(a);
+    if (t == null) {
+      t = countTokens(JSON.stringify(a));
+      astTokens.set(a, t);
+    }
+    total += t;
   }
-  return Math.ceil(chars / 4) + Math.ceil(nodes / 10);
-}
\ No newline at end of file
+  return total;
+}
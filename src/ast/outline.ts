@@ -0,0 +1,92 @@
+import type { CodeRange } from '../core/types.js';
+import type { FileIndexItem } from './gen_filtered.js';
+
+/** 파일 심볼 아웃라인 항목(라인 범위 포함) */
+export interface OutlineEntry {
+  /** 심볼 종류(function/method/class/interface/field 등) */
+  kind: string;
+  /** 심볼 이름(메서드는 `Class.method` 형태) */
+  name: string;
+  /** 1-based inclusive */
+  startLine: number;
+  /** 1-based inclusive */
+  endLine: number;
+}
+
+/** 파일 단위 아웃라인 */
+export interface FileOutline {
+  file: string;
+  lines: number;
+  symbols: OutlineEntry[];
+}
+
+/**
+ * filtered AST 인덱스 항목을 평탄화된 심볼 아웃라인으로 변환합니다.
+ * - 클래스 내부 메서드/필드는 `Class.member` 이름으로 펼칩니다.
+ * - 라인 정보가 없는(구버전 인덱스) 심볼은 제외합니다.
+ *
+ * @param {FileIndexItem} item 파일 인덱스 항목
+ * @returns {FileOutline} 시작 라인 순으로 정렬된 아웃라인
+ */
+export function buildFileOutline(item: FileIndexItem): FileOutline {
+  const symbols: OutlineEntry[] = [];
+  const push = (kind: string, name: string, s: any) => {
+    if (!Number.isInteger(s?.startLine) || !Number.isInteger(s?.endLine)) return;
+    symbols.push({ kind, name, startLine: s.startLine, endLine: s.endLine });
+  };
+
+  for (const sig of item.ast ?? []) {
+    push(sig.type, sig.name, sig);
+    if (sig.type === 'class') {
+      for (const m of sig.methods ?? []) {
+        const name = m.name.includes('::') ? m.name : `${sig.name}.${m.name}`;
+        push(m.accessor ? `${m.accessor}ter` : m.type, name, m);
+      }
+      for (const f of sig.fields ?? []) push('field', `${sig.name}.${f.name}`, f);
+    }
+  }
+
+  symbols.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+  return { file: item.file, lines: item.lines ?? 0, symbols };
+}
+
+/**
+ * filtered AST에서 주어진 파일들의 아웃라인을 모읍니다.
+ *
+ * @param {any} filteredAst filtered AST(JSON)
+ * @param {string[]} files 대상 파일(상대 경로)
+ * @returns {Map<string, FileOutline>} 파일 → 아웃라인 (인덱스에 없는 파일은 제외)
+ */
+export function outlinesForFiles(filteredAst: any, files: string[]): Map<string, FileOutline> {
+  const wanted = new Set(files);
+  const out = new Map<string, FileOutline>();
+  const index: FileIndexItem[] = Array.isArray(filteredAst?.index) ? filteredAst.index : [];
+  for (const item of index) {
+    if (wanted.has(item.file)) out.set(item.file, buildFileOutline(item));
+  }
+  return out;
+}
+
+/**
+ * LLM이 고른 코드 범위를 아웃라인 기준으로 검증하고 파일 길이에 맞춥니다.
+ *
+ * - 시작 > 끝이면 뒤집고, 파일 길이를 알면 `[1..lines]`로 클램프합니다.
+ * - 라인 값이 숫자가 아니거나 파일 범위 밖이면 null(폐기)을 반환합니다.
+ * - 선언 경계까지 넓히는 일은 읽기 직전 `normalizeRanges`가 한 번만 합니다(`CODE_SNAP_MAX_LINES` 적용).
+ *
+ * @param {CodeRange} range LLM이 반환한 범위
+ * @param {FileOutline} outline 파일 아웃라인
+ * @returns {CodeRange|null} 보정된 범위 또는 null
+ */
+export function clampRangeToOutline(range: CodeRange, outline: FileOutline): CodeRange | null {
+  let start = Math.floor(Number(range.startLine));
+  let end = Math.floor(Number(range.endLine));
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return null;
+  if (start > end) [start, end] = [end, start];
+
+  const max = outline.lines > 0 ? outline.lines : Number.POSITIVE_INFINITY;
+  if (start > max) return null;
+  start = Math.max(1, start);
+  end = Math.min(max, Math.max(start, end));
+  return { ...range, file: outline.file, startLine: start, endLine: end };
+}
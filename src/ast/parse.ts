@@ -1,7 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
-import Parser from 'tree-sitter';
-import { getLanguageByExt } from './languages.js';
+import { getLanguageForFile } from './languages.js';
+import { parseWithCache } from './tree-cache.js';
 import { env } from '../config/env.js';
 import type { AstNodeLite, DetailedAst, SliceHints } from '../core/types.js';
 
@@ -18,13 +18,11 @@ export async function parseFileToAST(
   projectRoot: string = env.PROJECT_ROOT
 ): Promise<DetailedAst> {
   const code = await fs.readFile(absFilePath, 'utf8');
-  const parser = new Parser();
   const ext = path.extname(absFilePath).toLowerCase();
-  const lang = getLanguageByExt(ext);
+  const { language: lang } = getLanguageForFile(absFilePath, projectRoot, code);
   if (!lang) throw new Error(`Unsupported extension: ${ext} (${absFilePath})`);
-  parser.setLanguage(lang);
 
-  const tree = parser.parse(code);
+  const tree = parseWithCache(absFilePath, lang, code);
 
   /** 내부 재귀: tree-sitter 노드를 간결한 JSON으로 변환 */
   function nodeToJSON(node: any, text: string): AstNodeLite {
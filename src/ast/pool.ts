@@ -0,0 +1,172 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+
+import { env } from '../config/env.js';
+import { runIndexTask, type IndexTask, type IndexTaskResult } from './gen_filtered.js';
+import { forgetTree } from './tree-cache.js';
+
+/** 작업 결과(실패 시 error) */
+export type IndexOutcome = IndexTaskResult | { fileAbs: string; error: string };
+
+/** 워커로 보내는 메시지(인덱싱 작업, 또는 답하지 않는 트리 캐시 비우기) */
+export type IndexWorkerMessage = IndexTask | { forget: string };
+
+/** 인덱싱 진행 상황 */
+export interface IndexProgress {
+  done: number;
+  total: number;
+  /** 마지막으로 끝난 파일(절대 경로) */
+  file?: string;
+}
+
+/** 워커를 아직 띄우지 않았을 때 이보다 작업이 적으면 워커를 쓰지 않음(메시지 비용 + 메인 스레드 트리 캐시 재사용) */
+const POOL_MIN_TASKS = 32;
+/** 진행 상황 콜백 최소 간격(ms) */
+const PROGRESS_INTERVAL_MS = 250;
+/** 메인 스레드에서 처리할 때 이벤트 루프에 양보하는 간격(파일 수) */
+const YIELD_EVERY = 8;
+
+/** 워커 스크립트(빌드 산출물이면 .js, tsx 등으로 직접 실행하면 .ts) */
+const workerUrl = new URL(`./index-worker${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+
+/** 슬롯별 워커 — 같은 파일은 항상 같은 슬롯으로 보내 워커의 트리 캐시를 재사용 */
+const workers: Array<Worker | undefined> = [];
+
+/** 슬롯의 워커를 얻습니다(없으면 띄우고, 작업이 없을 때는 프로세스 종료를 막지 않도록 unref). */
+function workerAt(slot: number): Worker {
+  const cur = workers[slot];
+  if (cur) return cur;
+  const w = new Worker(workerUrl);
+  w.unref();
+  workers[slot] = w;
+  w.once('exit', () => {
+    if (workers[slot] === w) workers[slot] = undefined;
+  });
+  return w;
+}
+
+/**
+ * 파일이 갈 워커 슬롯(경로 해시)
+ * @param {string} fileAbs 파일 절대 경로
+ * @param {number} size 워커 수
+ * @returns {number} 슬롯 번호
+ */
+export function slotOf(fileAbs: string, size: number): number {
+  return createHash('sha1').update(fileAbs).digest().readUInt32BE(0) % size;
+}
+
+/**
+ * 슬롯의 워커에 작업 하나를 보내고 결과를 기다립니다.
+ * - 워커가 죽으면 버리고(다음 작업에서 새로 띄움) 해당 작업은 실패로 돌려줍니다.
+ */
+function runOnWorker(slot: number, task: IndexTask): Promise<IndexOutcome> {
+  const w = workerAt(slot);
+  return new Promise((resolve) => {
+    const cleanup = () => {
+      w.off('message', onMessage);
+      w.off('error', onError);
+      w.off('exit', onExit);
+      w.unref();
+    };
+    const onMessage = (msg: IndexOutcome) => {
+      cleanup();
+      resolve(msg);
+    };
+    const onError = (e: any) => {
+      cleanup();
+      if (workers[slot] === w) workers[slot] = undefined;
+      void w.terminate();
+      resolve({ fileAbs: task.fileAbs, error: String(e?.message || e) });
+    };
+    const onExit = (code: number) => onError(new Error(`index worker exited (code=${code})`));
+
+    w.on('message', onMessage);
+    w.on('error', onError);
+    w.on('exit', onExit);
+    w.ref(); // 작업 중에는 프로세스가 끝나지 않도록
+    w.postMessage(task);
+  });
+}
+
+/** 진행 상황 콜백을 일정 간격으로만 호출하도록 감쌉니다(마지막은 항상 호출). */
+function throttled(total: number, onProgress?: (p: IndexProgress) => void) {
+  let done = 0;
+  let last = 0;
+  return (file: string) => {
+    done++;
+    if (!onProgress) return;
+    const now = Date.now();
+    if (done === total || now - last >= PROGRESS_INTERVAL_MS) {
+      last = now;
+      onProgress({ done, total, file });
+    }
+  };
+}
+
+/**
+ * 인덱싱 작업들을 `INDEX_WORKERS`개의 워커 스레드로 나눠 실행합니다.
+ *
+ * - 파일은 경로 해시로 고른 슬롯의 워커가 순서대로 처리하므로, 같은 파일을 다시 파싱하면 그 워커의 트리 캐시를 씁니다.
+ * - 워커 수가 0이거나, 아직 워커를 띄우지 않았는데 작업이 적으면 메인 스레드에서 처리하되 몇 파일마다 이벤트 루프에 양보합니다.
+ * - 결과는 입력 작업과 같은 순서로 반환합니다.
+ *
+ * @param {IndexTask[]} tasks 작업 목록
+ * @param {{onProgress?:(p:IndexProgress)=>void}} [options] 진행 상황 콜백
+ * @returns {Promise<IndexOutcome[]>} 작업별 결과
+ */
+export async function runIndexTasks(
+  tasks: IndexTask[],
+  options: { onProgress?: (p: IndexProgress) => void } = {}
+): Promise<IndexOutcome[]> {
+  const results: IndexOutcome[] = new Array(tasks.length);
+  const tick = throttled(tasks.length, options.onProgress);
+  // 슬롯 배정이 호출마다 같도록 작업 수와 관계없이 설정값을 씀(쓰지 않는 슬롯은 띄우지 않음)
+  const size = Math.max(0, Math.floor(env.INDEX_WORKERS));
+
+  if (size === 0 || (tasks.length < POOL_MIN_TASKS && !workers.some(Boolean))) {
+    for (let i = 0; i < tasks.length; i++) {
+      try {
+        results[i] = runIndexTask(tasks[i]);
+      } catch (e: any) {
+        results[i] = { fileAbs: tasks[i].fileAbs, error: String(e?.message || e) };
+      }
+      tick(tasks[i].fileAbs);
+      if (i % YIELD_EVERY === YIELD_EVERY - 1) await new Promise((r) => setImmediate(r));
+    }
+    return results;
+  }
+
+  const lanes: number[][] = Array.from({ length: size }, () => []);
+  tasks.forEach((t, i) => lanes[slotOf(t.fileAbs, size)].push(i));
+  await Promise.all(
+    lanes.map(async (lane, slot) => {
+      for (const i of lane) {
+        results[i] = await runOnWorker(slot, tasks[i]);
+        tick(tasks[i].fileAbs);
+      }
+    })
+  );
+  return results;
+}
+
+/**
+ * 파일의 파스 트리를 캐시에서 비웁니다(삭제되거나 인덱스에서 제외된 파일).
+ * - 메인 스레드 캐시와 그 파일을 맡는 슬롯의 워커(떠 있을 때만) 캐시를 함께 비웁니다.
+ * @param {string} fileAbs 파일 절대 경로
+ */
+export function forgetIndexedTree(fileAbs: string): void {
+  forgetTree(fileAbs);
+  const size = Math.max(0, Math.floor(env.INDEX_WORKERS));
+  if (size > 0) workers[slotOf(fileAbs, size)]?.postMessage({ forget: fileAbs } satisfies IndexWorkerMessage);
+}
+
+/**
+ * 워커를 모두 종료합니다(종료 처리용).
+ * @returns {Promise<void>}
+ */
+export async function closeIndexPool(): Promise<void> {
+  const all = workers.splice(0).filter((w): w is Worker => !!w);
+  await Promise.all(all.map((w) => w.terminate()));
+}
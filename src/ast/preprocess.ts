@@ -0,0 +1,837 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { env } from '../config/env.js';
+import { loadProjectConfig, PROJECT_CONFIG_FILE, type PreprocessorConfig } from '../config/project.js';
+import type { MacroSig } from './gen_filtered.js';
+
+/** 파일 하나의 전처리 결과(인덱스 항목에 기록) */
+export interface PreprocessInfo {
+  /** 비활성 분기로 건너뛴 라인 범위(1-based inclusive) */
+  inactive?: Array<[number, number]>;
+  /** 이 파일이 쓴 매크로 → 정의한 파일(프로젝트 상대 경로, 설정/미리 정의된 매크로는 `<config>`) */
+  macrosUsed?: Record<string, string>;
+  /** 매크로를 읽으려고 따라간 프로젝트 헤더(전이 포함) — 이 헤더가 바뀌면 이 파일도 다시 파싱 */
+  headers?: string[];
+}
+
+/** 전처리 결과 */
+export interface PreprocessResult {
+  /**
+   * 파싱용 소스 — 비활성 분기와 조건 지시문(`#if`/`#endif` 등)을 공백으로 바꾸고 일부 객체형 매크로를 펼친 것
+   * (원본과 길이/라인이 같아서 노드 위치를 원본 그대로 쓸 수 있음)
+   */
+  code: string;
+  /** 이 파일이 정의한 매크로(활성 분기, include guard 제외) */
+  macros: MacroSig[];
+  info: PreprocessInfo;
+}
+
+/** 프로젝트의 C/C++ 설정(설정 파일 + compile_commands.json + 환경변수) */
+export interface PreprocessorSetup {
+  root: string;
+  /** 공통 include 경로(절대 경로, 프로젝트 안) — 설정의 includePaths + compile_commands의 모든 -I */
+  includeDirs: string[];
+  /** 공통 매크로 정의(`NAME`, `NAME=VALUE`, `F(x)=body`) */
+  defines: string[];
+  /** 파일 절대 경로 → compile_commands.json의 옵션 */
+  commands: Map<string, CommandFlags>;
+  /** `.h` 헤더 언어 지정(설정 파일 `headerLanguage`, 적은 순서대로) */
+  headerLanguage: Array<{ pattern: string; lang: 'c' | 'cpp' }>;
+  /** 설정 서명(바뀌면 인덱스 전체 재생성) */
+  signature: string;
+}
+
+/** compile_commands.json 항목 하나의 전처리 옵션 */
+export interface CommandFlags {
+  /** C++로 컴파일하는지(소스 확장자, `-x c++`, `-std=c++..`, `g++`/`clang++`) */
+  cpp: boolean;
+  includeDirs: string[];
+  /** `-D NAME=VALUE`(정의, 값은 원문) / `-U NAME`(해제, 값 null) 순서대로 */
+  defines: Array<[string, string | null]>;
+}
+
+/** 매크로 정의 */
+interface Macro {
+  name: string;
+  /** 함수형 매크로의 파라미터(객체형이면 없음) */
+  params?: string[];
+  body: string;
+  /** 정의한 파일(프로젝트 상대 경로, 설정/미리 정의된 매크로는 없음) */
+  file?: string;
+}
+
+/** 전처리 한 번의 상태(주 파일 + 따라간 헤더 공통) */
+interface Context {
+  setup: PreprocessorSetup;
+  includeDirs: string[];
+  macros: Map<string, Macro>;
+  /** 이미 읽은 파일(절대 경로) */
+  visited: Set<string>;
+  /** 따라간 프로젝트 헤더(상대 경로) */
+  headers: Set<string>;
+}
+
+/** compile_commands.json을 찾는 위치(설정이 없을 때) */
+const COMPILE_COMMANDS_CANDIDATES = ['compile_commands.json', 'build/compile_commands.json'];
+/** 따라가는 #include 최대 깊이 */
+const MAX_INCLUDE_DEPTH = 16;
+/** 파일 하나를 전처리할 때 따라가는 최대 헤더 수 */
+const MAX_HEADERS = 256;
+/** 헤더 내용 캐시 크기 */
+const HEADER_CACHE_MAX = 512;
+/** 매크로 값에 기록하는 최대 길이 */
+const MACRO_VALUE_CHARS = 120;
+/** #if 식 매크로 확장 최대 깊이 */
+const MAX_EXPANSION_DEPTH = 64;
+
+/** 언어별로 미리 정의된 매크로 */
+const BUILTIN_DEFINES = {
+  c: ['__STDC__=1', '__STDC_VERSION__=201710L'],
+  cpp: ['__STDC__=1', '__cplusplus=201703L'],
+};
+
+/** 프로젝트 루트 → 전처리 설정(설정 파일/compile_commands.json이 바뀌면 다시 읽음) */
+const setups = new Map<string, { key: string; setup: PreprocessorSetup }>();
+/** 헤더 절대 경로 → 주석을 지운 내용 */
+const headerCache = new Map<string, { version: string; clean: string }>();
+
+/** ---------- 설정 ---------- */
+
+/** 파일 변경 감지 키(없으면 `-`) */
+function statKey(file: string): string {
+  try {
+    const st = fs.statSync(file);
+    return `${st.mtimeMs}:${st.size}`;
+  } catch {
+    return '-';
+  }
+}
+
+/** 경로가 프로젝트 루트 안인지 */
+function isInside(root: string, abs: string): boolean {
+  const rel = path.relative(root, abs);
+  return !!rel && !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+/** 셸 명령 문자열을 인자로 나눕니다(따옴표/역슬래시 처리). */
+function splitCommand(cmd: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let started = false;
+  let quote: string | null = null;
+  for (let i = 0; i < cmd.length; i++) {
+    const c = cmd[i];
+    if (quote) {
+      if (c === quote) quote = null;
+      else if (c === '\\' && quote === '"' && i + 1 < cmd.length) cur += cmd[++i];
+      else cur += c;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+      started = true;
+    } else if (c === '\\' && i + 1 < cmd.length) {
+      cur += cmd[++i];
+      started = true;
+    } else if (/\s/.test(c)) {
+      if (started) out.push(cur);
+      cur = '';
+      started = false;
+    } else {
+      cur += c;
+      started = true;
+    }
+  }
+  if (started) out.push(cur);
+  return out;
+}
+
+/** C++ 소스 확장자 */
+const CPP_SOURCE_EXTS = ['.cc', '.cpp', '.cxx', '.c++', '.C'];
+
+/** 컴파일 인자에서 언어와 -I/-isystem/-iquote/-D/-U를 읽습니다. */
+function flagsOf(args: string[], directory: string, file: string): CommandFlags {
+  const flags: CommandFlags = {
+    cpp: CPP_SOURCE_EXTS.includes(path.extname(file)) || /\+\+(?:\.exe)?$/.test(args[0] ?? ''),
+    includeDirs: [],
+    defines: [],
+  };
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (/^-std=(?:c|gnu)\+\+/.test(a)) flags.cpp = true;
+    if (a === '-x' || a.startsWith('-x')) flags.cpp = (a === '-x' ? args[i + 1] : a.slice(2)) === 'c++';
+    const value = (flag: string) => (a === flag ? args[++i] : a.startsWith(flag) ? a.slice(flag.length) : undefined);
+    let v: string | undefined;
+    if ((v = value('-isystem')) !== undefined || (v = value('-iquote')) !== undefined || (v = value('-I')) !== undefined) {
+      if (v) flags.includeDirs.push(path.resolve(directory, v));
+    } else if ((v = value('-D')) !== undefined) {
+      if (v) flags.defines.push([v, v]);
+    } else if ((v = value('-U')) !== undefined) {
+      if (v) flags.defines.push([v, null]);
+    }
+  }
+  return flags;
+}
+
+/** compile_commands.json을 읽습니다(상대 `directory`는 이 파일 위치 기준, 깨졌으면 경고 후 빈 목록). */
+function readCompileCommands(file: string): Map<string, CommandFlags> {
+  const out = new Map<string, CommandFlags>();
+  let json: any;
+  try {
+    json = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e: any) {
+    console.warn(`[preprocess] cannot read ${file}: ${e?.message || e}`);
+    return out;
+  }
+  for (const entry of Array.isArray(json) ? json : []) {
+    if (typeof entry?.file !== 'string' || typeof entry?.directory !== 'string') continue;
+    const directory = path.resolve(path.dirname(file), entry.directory);
+    const args: string[] = Array.isArray(entry.arguments) ? entry.arguments : splitCommand(String(entry.command ?? ''));
+    out.set(path.resolve(directory, entry.file), flagsOf(args, directory, entry.file));
+  }
+  return out;
+}
+
+/**
+ * 프로젝트의 C/C++ 설정(전처리, 헤더 언어 지정)을 읽습니다.
+ *
+ * - 설정 파일 `preprocessor`(includePaths/defines/compileCommands)와 `C_DEFINES`를 합칩니다.
+ * - 설정 파일 `headerLanguage`(헤더 언어 지정)도 함께 읽습니다.
+ * - compileCommands가 없으면 루트와 `build/`의 compile_commands.json을 씁니다.
+ * - 프로젝트 밖 include 경로는 무시합니다(시스템 헤더는 따라가지 않음).
+ * - 설정 파일/compile_commands.json이 바뀌지 않았으면 캐시를 돌려줍니다.
+ *
+ * @param {string} projectRoot 프로젝트 루트
+ * @returns {PreprocessorSetup} 전처리 설정
+ */
+export function loadPreprocessorSetup(projectRoot: string): PreprocessorSetup {
+  const root = path.resolve(projectRoot);
+  const configKey = statKey(path.join(root, PROJECT_CONFIG_FILE));
+  const ccKeys = COMPILE_COMMANDS_CANDIDATES.map((c) => statKey(path.join(root, c)));
+  const key = JSON.stringify([configKey, ccKeys, env.C_DEFINES]);
+  const cached = setups.get(root);
+  if (cached && cached.key === key) return cached.setup;
+
+  let pp: PreprocessorConfig = {};
+  let headerLanguage: PreprocessorSetup['headerLanguage'] = [];
+  try {
+    const { config } = loadProjectConfig(root);
+    pp = config.preprocessor ?? {};
+    headerLanguage = Object.entries(config.headerLanguage ?? {}).map(([pattern, lang]) => ({ pattern, lang }));
+  } catch (e: any) {
+    console.warn(`[preprocess] ${e?.message || e}`);
+  }
+  const ccRel = pp.compileCommands ?? COMPILE_COMMANDS_CANDIDATES.find((c) => fs.existsSync(path.join(root, c)));
+  const ccAbs = ccRel ? path.resolve(root, ccRel) : null;
+  const commands = ccAbs ? readCompileCommands(ccAbs) : new Map<string, CommandFlags>();
+
+  const includeDirs = [
+    ...(pp.includePaths ?? []).map((p) => path.resolve(root, p)),
+    ...[...commands.values()].flatMap((c) => c.includeDirs),
+  ].filter((d, i, all) => (d === root || isInside(root, d)) && all.indexOf(d) === i);
+  const configured = Array.isArray(pp.defines)
+    ? pp.defines
+    : Object.entries(pp.defines ?? {}).map(([k, v]) => `${k}=${v}`);
+  const defines = [...configured, ...env.C_DEFINES];
+
+  const signature = createHash('sha1')
+    .update(JSON.stringify([includeDirs.map((d) => path.relative(root, d)), defines, headerLanguage]))
+    .update(ccAbs && fs.existsSync(ccAbs) ? fs.readFileSync(ccAbs) : '')
+    .digest('hex');
+  const setup: PreprocessorSetup = { root, includeDirs, defines, commands, headerLanguage, signature };
+  setups.set(root, { key, setup });
+  return setup;
+}
+
+/**
+ * `#include` 해석에 쓸 공통 include 경로(프로젝트 상대 경로)
+ * @param {string} projectRoot 프로젝트 루트
+ * @returns {string[]} 경로(루트는 `.`)
+ */
+export function projectIncludeDirs(projectRoot: string): string[] {
+  const { root, includeDirs } = loadPreprocessorSetup(projectRoot);
+  return includeDirs.map((d) => path.relative(root, d).replaceAll('\\', '/') || '.');
+}
+
+/** ---------- 소스 정리 ---------- */
+
+/**
+ * 주석을 공백으로 바꿉니다(문자열/문자 리터럴은 그대로, 줄바꿈과 길이 유지).
+ * @param {string} code 원본
+ * @returns {string} 주석을 지운 소스
+ */
+export function stripComments(code: string): string {
+  const out = code.split('');
+  let i = 0;
+  while (i < code.length) {
+    const c = code[i];
+    const n = code[i + 1];
+    if (c === '/' && n === '/') {
+      while (i < code.length && code[i] !== '\n') {
+        // 줄 끝 역슬래시로 이어진 한 줄 주석
+        if (code[i] === '\\' && code[i + 1] === '\n') {
+          out[i] = ' ';
+          i += 2;
+          continue;
+        }
+        out[i++] = ' ';
+      }
+    } else if (c === '/' && n === '*') {
+      out[i++] = ' ';
+      out[i++] = ' ';
+      while (i < code.length && !(code[i] === '*' && code[i + 1] === '/')) {
+        if (code[i] !== '\n') out[i] = ' ';
+        i++;
+      }
+      if (i < code.length) {
+        out[i++] = ' ';
+        out[i++] = ' ';
+      }
+    } else if (c === '"' || c === "'") {
+      i++;
+      while (i < code.length && code[i] !== c && code[i] !== '\n') i += code[i] === '\\' ? 2 : 1;
+      i++;
+    } else {
+      i++;
+    }
+  }
+  return out.join('');
+}
+
+/** 헤더 내용(주석 제거)을 읽습니다(mtime/size가 같으면 캐시). */
+function readHeader(abs: string): string | null {
+  const version = statKey(abs);
+  if (version === '-') return null;
+  const hit = headerCache.get(abs);
+  if (hit && hit.version === version) return hit.clean;
+  let clean: string;
+  try {
+    clean = stripComments(fs.readFileSync(abs, 'utf8'));
+  } catch {
+    return null;
+  }
+  headerCache.set(abs, { version, clean });
+  while (headerCache.size > HEADER_CACHE_MAX) headerCache.delete(headerCache.keys().next().value!);
+  return clean;
+}
+
+/** ---------- 매크로 ---------- */
+
+/**
+ * `#define` 뒤의 내용을 매크로로 해석합니다(`NAME body`, `NAME(a, b) body`).
+ * @param {string} rest 지시문 이름 뒤 텍스트
+ * @returns {Macro|null} 매크로(이름이 없으면 null)
+ */
+function parseDefine(rest: string): Macro | null {
+  const m = /^([A-Za-z_]\w*)(\(([^)]*)\))?([\s\S]*)$/.exec(rest.trim());
+  if (!m) return null;
+  const body = m[4].trim();
+  if (m[2] === undefined) return { name: m[1], body };
+  const params = m[3]
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => (p === '...' ? '__VA_ARGS__' : p.replace(/\.\.\.$/, '')));
+  return { name: m[1], params, body };
+}
+
+/** 설정의 매크로 정의(`NAME`, `NAME=VALUE`, `F(x)=body`)를 매크로로 바꿉니다(값이 없으면 1). */
+function defineFromSpec(spec: string): Macro | null {
+  const eq = spec.indexOf('=');
+  return parseDefine(eq < 0 ? `${spec} 1` : `${spec.slice(0, eq)} ${spec.slice(eq + 1)}`);
+}
+
+/** 속성/링키지 지정만 있는 매크로 본문(파싱에 방해만 되므로 지움) */
+const ATTRIBUTE_ONLY = /^(?:__attribute__\s*\(\(.*\)\)|__declspec\s*\(.*\)|\[\[.*\]\]|__(?:cdecl|stdcall|fastcall)|\s)*$/s;
+
+/**
+ * 파싱용 소스에서 매크로 이름을 본문으로 바꿀 수 있으면 바꿀 텍스트(이름과 같은 길이), 아니면 null
+ * - 본문이 비었거나 속성뿐이면 공백, 본문이 이름보다 짧으면 본문 + 공백
+ */
+function replacementFor(m: Macro): string | null {
+  if (m.params) return null;
+  if (!m.body || ATTRIBUTE_ONLY.test(m.body)) return ' '.repeat(m.name.length);
+  if (m.body.length <= m.name.length && !m.body.includes('\n')) return m.body.padEnd(m.name.length, ' ');
+  return null;
+}
+
+/** ---------- #if 식 ---------- */
+
+type Tok = { t: 'num'; v: number } | { t: 'id'; v: string } | { t: 'op'; v: string };
+
+const TOKEN_RE =
+  /\s*(?:(0[xX][0-9a-fA-F]+|0[bB][01]+|\d+)[uUlL]*|([A-Za-z_]\w*)|'(\\.|[^'\\])'|(&&|\|\||<<|>>|<=|>=|==|!=|##|[-+*/%<>!~&|^?:(),#]))/y;
+
+/** #if 식을 토큰으로 나눕니다(알 수 없는 문자가 있으면 오류). */
+function lexExpr(text: string): Tok[] {
+  const out: Tok[] = [];
+  TOKEN_RE.lastIndex = 0;
+  let pos = 0;
+  while (pos < text.length) {
+    if (/^\s*$/.test(text.slice(pos))) break;
+    TOKEN_RE.lastIndex = pos;
+    const m = TOKEN_RE.exec(text);
+    if (!m) throw new Error(`unexpected character in #if: ${text.slice(pos, pos + 10)}`);
+    pos = TOKEN_RE.lastIndex;
+    if (m[1] !== undefined) {
+      const s = m[1];
+      const v = /^0[bB]/.test(s) ? parseInt(s.slice(2), 2) : /^0\d/.test(s) ? parseInt(s, 8) : Number(s);
+      out.push({ t: 'num', v });
+    } else if (m[2] !== undefined) out.push({ t: 'id', v: m[2] });
+    else if (m[3] !== undefined) out.push({ t: 'num', v: m[3].startsWith('\\') ? 0 : m[3].charCodeAt(0) });
+    else out.push({ t: 'op', v: m[4] });
+  }
+  return out;
+}
+
+/** `defined X` / `defined(X)`를 1/0으로 바꿉니다. */
+function resolveDefined(tokens: Tok[], macros: Map<string, Macro>): Tok[] {
+  const out: Tok[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.t !== 'id' || t.v !== 'defined') {
+      out.push(t);
+      continue;
+    }
+    let name: string | undefined;
+    if (tokens[i + 1]?.t === 'id') name = String(tokens[++i].v);
+    else if (tokens[i + 1]?.v === '(' && tokens[i + 2]?.t === 'id' && tokens[i + 3]?.v === ')') {
+      name = String(tokens[i + 2].v);
+      i += 3;
+    }
+    out.push({ t: 'num', v: name && macros.has(name) ? 1 : 0 });
+  }
+  return out;
+}
+
+/** 식 토큰의 매크로를 펼칩니다(자기 자신은 다시 펼치지 않음). */
+function expandTokens(tokens: Tok[], macros: Map<string, Macro>, hide: Set<string>, depth = 0): Tok[] {
+  if (depth > MAX_EXPANSION_DEPTH) throw new Error('macro expansion too deep');
+  const out: Tok[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    const m = t.t === 'id' ? macros.get(t.v) : undefined;
+    if (!m || hide.has(m.name)) {
+      out.push(t);
+      continue;
+    }
+    const inner = new Set(hide).add(m.name);
+    if (!m.params) {
+      out.push(...expandTokens(resolveDefined(lexExpr(m.body), macros), macros, inner, depth + 1));
+      continue;
+    }
+    if (tokens[i + 1]?.v !== '(') {
+      out.push(t);
+      continue;
+    }
+    // 인자 모으기(최상위 쉼표로 나눔)
+    const args: Tok[][] = [[]];
+    let level = 0;
+    let j = i + 2;
+    for (; j < tokens.length; j++) {
+      const a = tokens[j];
+      if (a.v === '(') level++;
+      else if (a.v === ')' && level-- === 0) break;
+      if (a.v === ',' && level === 0 && !(m.params.at(-1) === '__VA_ARGS__' && args.length === m.params.length)) {
+        args.push([]);
+        continue;
+      }
+      args.at(-1)!.push(a);
+    }
+    if (j >= tokens.length) throw new Error(`unterminated call to macro ${m.name}`);
+    i = j;
+    const expandedArgs = args.map((a) => expandTokens(a, macros, hide, depth + 1));
+    const body = lexExpr(m.body).flatMap((b) => {
+      const k = b.t === 'id' ? m.params!.indexOf(b.v) : -1;
+      return k >= 0 ? (expandedArgs[k] ?? []) : [b];
+    });
+    out.push(...expandTokens(resolveDefined(body, macros), macros, inner, depth + 1));
+  }
+  return out;
+}
+
+/** 이항 연산자 우선순위 */
+const PRECEDENCE: Record<string, number> = {
+  '||': 1, '&&': 2, '|': 3, '^': 4, '&': 5, '==': 6, '!=': 6,
+  '<': 7, '>': 7, '<=': 7, '>=': 7, '<<': 8, '>>': 8, '+': 9, '-': 9, '*': 10, '/': 10, '%': 10,
+};
+
+/** 정수 식을 계산합니다(남은 식별자는 0, C++의 `true`는 1). */
+function evaluate(tokens: Tok[]): number {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (v: string) => {
+    if (next()?.v !== v) throw new Error(`expected ${v} in #if`);
+  };
+
+  const unary = (): number => {
+    const t = next();
+    if (!t) throw new Error('unexpected end of #if expression');
+    if (t.t === 'num') return t.v;
+    if (t.t === 'id') return t.v === 'true' ? 1 : 0;
+    switch (t.v) {
+      case '!': return unary() ? 0 : 1;
+      case '~': return ~unary();
+      case '-': return -unary();
+      case '+': return unary();
+      case '(': {
+        const v = ternary();
+        expect(')');
+        return v;
+      }
+      default: throw new Error(`unexpected ${t.v} in #if`);
+    }
+  };
+  const binary = (min: number): number => {
+    let left = unary();
+    for (;;) {
+      const op = peek();
+      const prec = op?.t === 'op' ? PRECEDENCE[op.v] : undefined;
+      if (!prec || prec < min) return left;
+      next();
+      const right = binary(prec + 1);
+      switch (op!.v) {
+        case '||': left = left || right ? 1 : 0; break;
+        case '&&': left = left && right ? 1 : 0; break;
+        case '|': left |= right; break;
+        case '^': left ^= right; break;
+        case '&': left &= right; break;
+        case '==': left = left === right ? 1 : 0; break;
+        case '!=': left = left !== right ? 1 : 0; break;
+        case '<': left = left < right ? 1 : 0; break;
+        case '>': left = left > right ? 1 : 0; break;
+        case '<=': left = left <= right ? 1 : 0; break;
+        case '>=': left = left >= right ? 1 : 0; break;
+        case '<<': left = left * 2 ** right; break;
+        case '>>': left = Math.floor(left / 2 ** right); break;
+        case '+': left += right; break;
+        case '-': left -= right; break;
+        case '*': left *= right; break;
+        // 0으로 나누기는 단락 평가로 안 쓰이는 경우가 많아 0으로 둠
+        case '/': left = right ? Math.trunc(left / right) : 0; break;
+        case '%': left = right ? left % right : 0; break;
+      }
+    }
+  };
+  const ternary = (): number => {
+    const cond = binary(1);
+    if (peek()?.v !== '?') return cond;
+    next();
+    const a = ternary();
+    expect(':');
+    const b = ternary();
+    return cond ? a : b;
+  };
+
+  const v = ternary();
+  if (pos < tokens.length) throw new Error(`unexpected ${tokens[pos].v} in #if`);
+  return v;
+}
+
+/** ---------- 전처리 ---------- */
+
+/** `#include` 대상을 찾습니다(프로젝트 안 파일만). */
+function resolveIncludeFile(ctx: Context, fromAbs: string, spec: string, quoted: boolean): string | null {
+  const dirs = quoted ? [path.dirname(fromAbs), ...ctx.includeDirs] : ctx.includeDirs;
+  for (const dir of dirs) {
+    const abs = path.resolve(dir, spec);
+    if (!isInside(ctx.setup.root, abs)) continue;
+    try {
+      if (fs.statSync(abs).isFile()) return abs;
+    } catch {
+      // 다음 경로
+    }
+  }
+  return null;
+}
+
+/**
+ * #if 조건을 계산합니다(`__has_include`는 실제로 찾아보고, 그 밖의 `__has_*`는 0).
+ * 식을 해석할 수 없으면 거짓으로 봅니다.
+ */
+function condition(ctx: Context, fromAbs: string, expr: string): boolean {
+  const text = expr
+    .replace(/__has_include(?:_next)?\s*\(\s*(?:"([^"]+)"|<([^>]+)>)\s*\)/g, (_m, q: string, a: string) =>
+      resolveIncludeFile(ctx, fromAbs, q ?? a, q !== undefined) ? '1' : '0'
+    )
+    .replace(/__has_\w+\s*\([^)]*\)/g, '0');
+  try {
+    const tokens = expandTokens(resolveDefined(lexExpr(text), ctx.macros), ctx.macros, new Set());
+    return evaluate(tokens) !== 0;
+  } catch {
+    return false;
+  }
+}
+
+/** 조건부 컴파일 스택 항목 */
+interface CondFrame {
+  /** 바깥이 활성인지 */
+  parent: boolean;
+  /** 지금 분기가 활성인지 */
+  active: boolean;
+  /** 이미 활성 분기를 지났는지 */
+  taken: boolean;
+}
+
+/** 주 파일 전처리 중에만 쓰는 출력 상태 */
+interface Output {
+  rel: string;
+  code: string;
+  chars: string[];
+  lineStarts: number[];
+  macros: MacroSig[];
+  used: Record<string, string>;
+  inactiveLines: number[];
+  guard?: string;
+}
+
+/** 바이트 오프셋 계산(UTF-8) */
+function byteOffset(code: string, index: number): number {
+  return Buffer.byteLength(code.slice(0, index), 'utf8');
+}
+
+/** 인덱스 → 1-based 라인 */
+function lineAt(lineStarts: number[], index: number): number {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= index) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo + 1;
+}
+
+/**
+ * 텍스트 하나를 전처리합니다(주 파일이면 `out`에 파싱용 소스/매크로/사용 기록을, 헤더면 매크로만).
+ *
+ * @param {Context} ctx 상태
+ * @param {string} abs 파일 절대 경로
+ * @param {string} clean 주석을 지운 내용
+ * @param {number} depth include 깊이
+ * @param {Output} [out] 주 파일 출력
+ */
+function run(ctx: Context, abs: string, clean: string, depth: number, out?: Output): void {
+  const rel = path.relative(ctx.setup.root, abs).replaceAll('\\', '/');
+  const stack: CondFrame[] = [];
+  const active = () => stack.every((f) => f.active);
+  const blank = (from: number, to: number) => {
+    if (!out) return;
+    for (let k = from; k < to; k++) if (out.chars[k] !== '\n' && out.chars[k] !== '\r') out.chars[k] = ' ';
+  };
+  let directives = 0;
+  let guardCandidate: string | undefined;
+
+  let pos = 0;
+  while (pos < clean.length) {
+    let end = clean.indexOf('\n', pos);
+    if (end < 0) end = clean.length;
+    const line = clean.slice(pos, end);
+    const hash = /^\s*#\s*([A-Za-z_]*)/.exec(line);
+
+    if (!hash) {
+      if (!active()) {
+        blank(pos, end);
+        if (out && line.trim()) out.inactiveLines.push(lineAt(out.lineStarts, pos));
+      } else if (out) {
+        scanIdentifiers(ctx, out, line, pos);
+      }
+      pos = end + 1;
+      continue;
+    }
+
+    // 역슬래시로 이어진 지시문은 한 줄로
+    let text = line;
+    while (/\\\s*$/.test(text.split('\n').at(-1)!) && end < clean.length) {
+      const nextEnd = clean.indexOf('\n', end + 1);
+      const stop = nextEnd < 0 ? clean.length : nextEnd;
+      text += '\n' + clean.slice(end + 1, stop);
+      end = stop;
+    }
+    const name = hash[1];
+    const rest = text.slice(hash[0].length).replace(/\\\s*\n/g, ' ').trim();
+    const wasActive = active();
+    directives++;
+
+    switch (name) {
+      case 'if':
+      case 'ifdef':
+      case 'ifndef': {
+        let cond = false;
+        if (wasActive) {
+          const id = /^[A-Za-z_]\w*/.exec(rest)?.[0] ?? '';
+          cond = name === 'if' ? condition(ctx, abs, rest) : ctx.macros.has(id) === (name === 'ifdef');
+          if (name === 'ifndef' && directives === 1) guardCandidate = id;
+        }
+        stack.push({ parent: wasActive, active: wasActive && cond, taken: wasActive && cond });
+        blank(pos, end);
+        break;
+      }
+      case 'elif':
+      case 'elifdef':
+      case 'elifndef': {
+        const f = stack.at(-1);
+        if (f) {
+          let cond = false;
+          if (f.parent && !f.taken) {
+            const id = /^[A-Za-z_]\w*/.exec(rest)?.[0] ?? '';
+            cond = name === 'elif' ? condition(ctx, abs, rest) : ctx.macros.has(id) === (name === 'elifdef');
+          }
+          f.active = cond;
+          f.taken ||= cond;
+        }
+        blank(pos, end);
+        break;
+      }
+      case 'else': {
+        const f = stack.at(-1);
+        if (f) {
+          f.active = f.parent && !f.taken;
+          f.taken = true;
+        }
+        blank(pos, end);
+        break;
+      }
+      case 'endif':
+        stack.pop();
+        blank(pos, end);
+        break;
+      case 'define': {
+        if (!wasActive) {
+          blank(pos, end);
+          break;
+        }
+        const m = parseDefine(rest);
+        if (!m) break;
+        ctx.macros.set(m.name, { ...m, file: rel });
+        const isGuard = directives === 2 && guardCandidate === m.name && !m.body;
+        if (out && isGuard) out.guard = m.name;
+        if (out && !isGuard) {
+          const bodyValue = m.body.replace(/\s+/g, ' ');
+          out.macros.push({
+            type: 'macro',
+            name: m.name,
+            ...(m.params ? { params: m.params } : {}),
+            ...(bodyValue ? { value: bodyValue.slice(0, MACRO_VALUE_CHARS) } : {}),
+            startLine: lineAt(out.lineStarts, pos),
+            endLine: lineAt(out.lineStarts, Math.max(pos, end - 1)),
+            startByte: byteOffset(out.code, pos + (line.length - line.trimStart().length)),
+            endByte: byteOffset(out.code, end),
+          });
+        }
+        break;
+      }
+      case 'undef':
+        if (wasActive) ctx.macros.delete(/^[A-Za-z_]\w*/.exec(rest)?.[0] ?? '');
+        else blank(pos, end);
+        break;
+      case 'include':
+      case 'include_next':
+      case 'import': {
+        if (!wasActive) {
+          blank(pos, end);
+          break;
+        }
+        const spec = /^(?:"([^"]+)"|<([^>]+)>)/.exec(rest);
+        const target = spec ? resolveIncludeFile(ctx, abs, spec[1] ?? spec[2], spec[1] !== undefined) : null;
+        if (!target) break;
+        ctx.headers.add(path.relative(ctx.setup.root, target).replaceAll('\\', '/'));
+        if (ctx.visited.has(target) || depth >= MAX_INCLUDE_DEPTH || ctx.visited.size > MAX_HEADERS) break;
+        ctx.visited.add(target);
+        const header = readHeader(target);
+        if (header != null) run(ctx, target, header, depth + 1);
+        break;
+      }
+      default:
+        // #pragma/#error/#line 등은 그대로(비활성이면 지움)
+        if (!wasActive) blank(pos, end);
+    }
+    pos = end + 1;
+  }
+}
+
+/** 식별자 정규식(문자열/문자 리터럴은 건너뛰려고 함께 매칭) */
+const IDENT_RE = /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|[A-Za-z_]\w*/g;
+
+/** 활성 코드 줄에서 매크로 사용을 기록하고, 펼칠 수 있는 객체형 매크로를 펼칩니다. */
+function scanIdentifiers(ctx: Context, out: Output, line: string, offset: number): void {
+  IDENT_RE.lastIndex = 0;
+  for (let m = IDENT_RE.exec(line); m; m = IDENT_RE.exec(line)) {
+    const word = m[0];
+    if (word[0] === '"' || word[0] === "'") continue;
+    const macro = ctx.macros.get(word);
+    if (!macro) continue;
+    out.used[word] = macro.file ?? '<config>';
+    const replacement = replacementFor(macro);
+    if (replacement == null) continue;
+    for (let k = 0; k < word.length; k++) out.chars[offset + m.index + k] = replacement[k];
+  }
+}
+
+/**
+ * C/C++ 파일 하나를 전처리합니다.
+ *
+ * - 설정(및 compile_commands.json의 이 파일 옵션)의 매크로 정의로 `#if`/`#ifdef`/`#elif`/`#else`를 계산해
+ *   비활성 분기를 공백으로 바꿉니다. 조건 지시문 줄도 지웁니다(분기마다 다른 함수 머리 등을 한 덩어리로 보지 않도록).
+ * - 따옴표 `#include`는 포함한 파일 기준 → include 경로 순으로, `<...>`는 include 경로에서 찾아
+ *   프로젝트 안 헤더면 따라 들어가 그 안의 `#define`/`#undef`를 반영합니다.
+ * - 본문이 비었거나 속성뿐인 객체형 매크로(`#define API`, `__attribute__((...))`)와 이름보다 짧은 매크로는 펼쳐서
+ *   선언이 제대로 파싱되게 합니다(길이를 맞춰 위치는 그대로).
+ *
+ * @param {string} code 원본 소스
+ * @param {string} fileAbs 파일 절대 경로
+ * @param {string} projectRoot 프로젝트 루트
+ * @param {{cpp:boolean}} options C++로 볼지(`__cplusplus` 정의)
+ * @returns {PreprocessResult} 파싱용 소스, 이 파일의 매크로, 전처리 기록
+ */
+export function preprocessC(code: string, fileAbs: string, projectRoot: string, options: { cpp: boolean }): PreprocessResult {
+  const setup = loadPreprocessorSetup(projectRoot);
+  const abs = path.resolve(fileAbs);
+  const command = setup.commands.get(abs);
+  const ctx: Context = {
+    setup,
+    includeDirs: [...(command?.includeDirs.filter((d) => isInside(setup.root, d)) ?? []), ...setup.includeDirs],
+    macros: new Map(),
+    visited: new Set([abs]),
+    headers: new Set(),
+  };
+  for (const spec of [...BUILTIN_DEFINES[options.cpp ? 'cpp' : 'c'], ...setup.defines]) {
+    const m = defineFromSpec(spec);
+    if (m) ctx.macros.set(m.name, m);
+  }
+  for (const [spec, value] of command?.defines ?? []) {
+    if (value === null) ctx.macros.delete(spec);
+    else {
+      const m = defineFromSpec(value);
+      if (m) ctx.macros.set(m.name, m);
+    }
+  }
+
+  const lineStarts = [0];
+  for (let k = code.indexOf('\n'); k >= 0; k = code.indexOf('\n', k + 1)) lineStarts.push(k + 1);
+  const out: Output = {
+    rel: path.relative(setup.root, abs).replaceAll('\\', '/'),
+    code,
+    chars: code.split(''),
+    lineStarts,
+    macros: [],
+    used: {},
+    inactiveLines: [],
+  };
+  run(ctx, abs, stripComments(code), 0, out);
+
+  const inactive: Array<[number, number]> = [];
+  for (const l of out.inactiveLines) {
+    const last = inactive.at(-1);
+    if (last && l <= last[1] + 1) last[1] = l;
+    else inactive.push([l, l]);
+  }
+  const headers = [...ctx.headers].filter((h) => h !== out.rel).sort();
+  const info: PreprocessInfo = {
+    ...(inactive.length ? { inactive } : {}),
+    ...(Object.keys(out.used).length ? { macrosUsed: out.used } : {}),
+    ...(headers.length ? { headers } : {}),
+  };
+  return { code: out.chars.join(''), macros: out.macros, info };
+}
@@ -0,0 +1,205 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import type { FileIndexItem } from './gen_filtered.js';
+import { buildFileOutline, type OutlineEntry } from './outline.js';
+
+/** 검색 결과(파일 단위) */
+export interface SearchHit {
+  file: string;
+  /** BM25 점수 */
+  score: number;
+  /** 이름이 검색어와 겹치는 선언(겹치는 단어가 많은 순) */
+  symbols: OutlineEntry[];
+}
+
+/** 파일 하나의 색인 */
+interface SearchDoc {
+  /** 변경 감지용(mtime:size) */
+  version: string;
+  /** 단어 → 출현 횟수 */
+  tf: Map<string, number>;
+  /** 단어 수 */
+  length: number;
+}
+
+/** 프로젝트 하나의 역색인 */
+interface SearchIndex {
+  docs: Map<string, SearchDoc>;
+  /** 단어 → (파일 → 출현 횟수) */
+  postings: Map<string, Map<string, number>>;
+  totalLength: number;
+}
+
+/** BM25 파라미터 */
+const K1 = 1.2;
+const B = 0.75;
+/** 파일 경로의 단어 가중치(경로에 나온 단어는 본문보다 강하게) */
+const PATH_WEIGHT = 3;
+/** 결과마다 붙이는 선언 수 */
+const SYMBOLS_PER_HIT = 5;
+
+/** 어디에나 나오는 언어 키워드(점수에 도움이 안 됨) */
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'if', 'else', 'return', 'const', 'let', 'var', 'function', 'class', 'import', 'export',
+  'from', 'new', 'this', 'self', 'true', 'false', 'null', 'undefined', 'void', 'public', 'private', 'protected',
+  'static', 'async', 'await', 'def', 'int', 'string', 'number', 'boolean', 'type', 'interface', 'extends',
+  'implements', 'package', 'include', 'define', 'struct', 'while', 'break', 'continue', 'case', 'switch', 'default',
+]);
+
+/** 식별자/단어(유니코드 문자 포함) */
+const WORD = /[\p{L}_$][\p{L}\p{N}_$]*/gu;
+/** camelCase / PascalCase 경계 */
+const CAMEL = /(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u;
+
+/**
+ * 텍스트를 검색용 단어로 나눕니다.
+ * - 식별자는 통째로(소문자) 한 번, camelCase/snake_case 마디로 한 번 더 셉니다.
+ * - 주석/문자열 속 단어도 같은 규칙으로 셉니다.
+ * - 한 글자 단어와 흔한 키워드는 버립니다.
+ *
+ * @param {string} text 텍스트
+ * @returns {string[]} 단어(소문자)
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const out: string[] = [];
+  const push = (w: string) => {
+    const t = w.toLowerCase();
+    if (t.length > 1 && !STOPWORDS.has(t)) out.push(t);
+  };
+  for (const word of text.match(WORD) ?? []) {
+    push(word);
+    const parts = word.split(/[_$]+/).flatMap((p) => p.split(CAMEL)).filter(Boolean);
+    if (parts.length > 1) parts.forEach(push);
+  }
+  return out;
+}
+
+/** 프로젝트 루트 → 역색인(프로세스 수명 동안 유지, 파일 단위로 갱신) */
+const indexes = new Map<string, SearchIndex>();
+
+/** 역색인에서 파일 하나를 뺍니다. */
+function removeDoc(idx: SearchIndex, file: string): void {
+  const doc = idx.docs.get(file);
+  if (!doc) return;
+  for (const term of doc.tf.keys()) {
+    const p = idx.postings.get(term);
+    p?.delete(file);
+    if (p && !p.size) idx.postings.delete(term);
+  }
+  idx.totalLength -= doc.length;
+  idx.docs.delete(file);
+}
+
+/** 역색인에 파일 하나를 넣습니다(경로 단어는 가중치만큼 반복). */
+function addDoc(idx: SearchIndex, file: string, version: string, text: string): void {
+  const tf = new Map<string, number>();
+  const terms = tokenizeForSearch(text);
+  for (let i = 0; i < PATH_WEIGHT; i++) terms.push(...tokenizeForSearch(file));
+  for (const t of terms) tf.set(t, (tf.get(t) ?? 0) + 1);
+  for (const [t, n] of tf) {
+    let p = idx.postings.get(t);
+    if (!p) idx.postings.set(t, (p = new Map()));
+    p.set(file, n);
+  }
+  idx.docs.set(file, { version, tf, length: terms.length });
+  idx.totalLength += terms.length;
+}
+
+/**
+ * 프로젝트의 역색인을 최신 상태로 맞춥니다.
+ * - 처음에는 인덱스에 있는 모든 파일을 읽고, 이후에는 mtime/size가 바뀐 파일만 다시 읽습니다.
+ * - filtered AST에서 빠진 파일은 색인에서도 뺍니다.
+ *
+ * @param {string} projectRoot 프로젝트 루트
+ * @param {any} filteredAst filtered AST(JSON)
+ * @returns {Promise<SearchIndex>} 역색인
+ */
+async function refreshSearchIndex(projectRoot: string, filteredAst: any): Promise<SearchIndex> {
+  const root = path.resolve(projectRoot);
+  let idx = indexes.get(root);
+  if (!idx) indexes.set(root, (idx = { docs: new Map(), postings: new Map(), totalLength: 0 }));
+
+  const files: string[] = filteredAst?.files ?? [];
+  const wanted = new Set(files);
+  for (const file of [...idx.docs.keys()]) if (!wanted.has(file)) removeDoc(idx, file);
+
+  for (const file of files) {
+    const abs = path.resolve(root, file);
+    try {
+      const stat = await fs.stat(abs);
+      const version = `${stat.mtimeMs}:${stat.size}`;
+      if (idx.docs.get(file)?.version === version) continue;
+      const text = await fs.readFile(abs, 'utf8');
+      removeDoc(idx, file);
+      addDoc(idx, file, version, text);
+    } catch {
+      removeDoc(idx, file);
+    }
+  }
+  return idx;
+}
+
+/** 이름의 단어 중 검색어와 겹치는 수 */
+function countHits(name: string, terms: Set<string>): number {
+  return new Set(tokenizeForSearch(name).filter((t) => terms.has(t))).size;
+}
+
+/**
+ * 질문/검색어로 파일을 BM25 점수순으로 찾습니다.
+ *
+ * - 색인 단어: 식별자(camelCase/snake_case 마디 포함), 주석/문자열 속 단어, 파일 경로
+ * - 결과마다 이름이 검색어와 겹치는 선언(아웃라인)을 붙입니다.
+ *
+ * @param {string} projectRoot 프로젝트 루트
+ * @param {any} filteredAst filtered AST(JSON)
+ * @param {string} query 검색어
+ * @param {number} limit 최대 결과 수
+ * @param {ReadonlySet<string>} [within] 이 파일들 안에서만 찾음(디렉토리 단위로 좁힌 범위 등)
+ * @returns {Promise<SearchHit[]>} 점수순 결과(점수 0인 파일 제외)
+ */
+export async function searchProject(
+  projectRoot: string,
+  filteredAst: any,
+  query: string,
+  limit: number,
+  within?: ReadonlySet<string>
+): Promise<SearchHit[]> {
+  const terms = [...new Set(tokenizeForSearch(query))];
+  if (!terms.length || limit <= 0) return [];
+  const idx = await refreshSearchIndex(projectRoot, filteredAst);
+  const n = idx.docs.size;
+  if (!n) return [];
+  const avgLength = idx.totalLength / n;
+
+  const scores = new Map<string, number>();
+  for (const t of terms) {
+    const p = idx.postings.get(t);
+    if (!p) continue;
+    const idf = Math.log(1 + (n - p.size + 0.5) / (p.size + 0.5));
+    for (const [file, tf] of p) {
+      if (within && !within.has(file)) continue;
+      const len = idx.docs.get(file)!.length;
+      const s = (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * len) / avgLength));
+      scores.set(file, (scores.get(file) ?? 0) + s);
+    }
+  }
+
+  const top = [...scores].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, limit);
+  const items = new Map<string, FileIndexItem>(
+    (filteredAst?.index ?? []).map((e: FileIndexItem) => [e.file, e] as [string, FileIndexItem])
+  );
+  const termSet = new Set(terms);
+  return top.map(([file, score]) => {
+    const item = items.get(file);
+    const symbols = item
+      ? buildFileOutline(item)
+          .symbols.map((s) => ({ s, hits: countHits(s.name, termSet) }))
+          .filter((x) => x.hits > 0)
+          .sort((a, b) => b.hits - a.hits || a.s.startLine - b.s.startLine)
+          .slice(0, SYMBOLS_PER_HIT)
+          .map((x) => x.s)
+      : [];
+    return { file, score: Math.round(score * 1000) / 1000, symbols };
+  });
+}
@@ -0,0 +1,554 @@
+import { createHash } from 'crypto';
+import fsp from 'fs/promises';
+import path from 'path';
+
+import { env } from '../config/env.js';
+import {
+  walkSupportedFiles,
+  writeFileAtomic,
+  writeFilteredAst,
+  type FileIndexItem,
+  type FilteredAst,
+  type IndexTask,
+} from './gen_filtered.js';
+import { resolveImportsInIndex } from './imports.js';
+import { loadPreprocessorSetup, projectIncludeDirs } from './preprocess.js';
+import { createPathFilter, type IndexPolicy } from './ignore.js';
+import { forgetIndexedTree, runIndexTasks, type IndexProgress } from './pool.js';
+
+/**
+ * 매니페스트 형식 버전
+ * - 인덱스 항목의 모양이 바뀌면 올려서, 이전 저장본을 전체 재생성하도록 합니다.
+ */
+const STORE_VERSION = 2;
+
+/** 파일별 변경 감지 정보 */
+export interface IndexEntry {
+  mtimeMs: number;
+  size: number;
+  /** 파일 내용 sha1(hex) */
+  hash: string;
+}
+
+/** 한 번의 갱신 결과 */
+export interface RefreshStats {
+  /** 인덱스에 남은 전체 파일 수 */
+  total: number;
+  /** 새로 파싱한 파일 수(추가/변경) */
+  parsed: number;
+  /** 이전 결과를 재사용한 파일 수 */
+  reused: number;
+  /** 사라져서 제외한 파일 수 */
+  removed: number;
+  /** 파싱에 실패한 파일 수(다음 갱신 때 다시 시도) */
+  failed: number;
+  /** 전체 재생성 여부 */
+  full: boolean;
+  /** 새로 파싱한 파일(전체 재생성 시 생략) */
+  changedFiles?: string[];
+  /** 인덱스에서 제외한 파일(전체 재생성 시 생략) */
+  removedFiles?: string[];
+  ms: number;
+  at: string;
+}
+
+/** 디스크에 저장되는 프로젝트 인덱스 매니페스트 */
+interface IndexManifest {
+  version: number;
+  id: string;
+  root: string;
+  /** 파싱 결과에 영향을 주는 옵션(바뀌면 전체 재생성) */
+  options: {
+    cHeaderAsCpp: boolean;
+    /** C/C++ 전처리 사용 여부 */
+    cPreprocess?: boolean;
+    /** C/C++ 설정 서명(include 경로, 매크로, 헤더 언어 지정, compile_commands.json) */
+    cSetup?: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+  entries: Record<string, IndexEntry>;
+  lastRefresh?: RefreshStats;
+}
+
+/** 메모리에 올라온 프로젝트 인덱스 */
+export interface ProjectIndex {
+  id: string;
+  root: string;
+  /** 저장 디렉토리(`INDEX_STORE_DIR/<id>`) */
+  dir: string;
+  /** 최신 filtered_ast.json 절대 경로 */
+  filteredAstPath: string;
+  manifest: IndexManifest;
+  filteredAst: FilteredAst;
+}
+
+/** 프로젝트 인덱스 상태 요약(`GET /projects/:id/index`) */
+export interface ProjectIndexSummary {
+  id: string;
+  root: string;
+  filteredAstPath: string;
+  createdAt: string;
+  updatedAt: string;
+  generatedAt: string;
+  files: number;
+  lastRefresh?: RefreshStats;
+  entries?: Record<string, IndexEntry>;
+}
+
+/** 로드된 인덱스(프로세스 수명 동안 유지) */
+const loaded = new Map<string, ProjectIndex>();
+/** 진행 중인 갱신 — 같은 프로젝트의 작업은 순서대로 하나씩 실행 */
+const inflight = new Map<string, Promise<ProjectIndex>>();
+
+/**
+ * 같은 프로젝트의 이전 작업이 끝난 뒤 실행되도록 작업을 줄 세웁니다.
+ * @param {string} id 프로젝트 ID
+ * @param {() => Promise<ProjectIndex>} fn 작업
+ * @returns {Promise<ProjectIndex>} 작업 결과
+ */
+function exclusive(id: string, fn: () => Promise<ProjectIndex>): Promise<ProjectIndex> {
+  const before = inflight.get(id) ?? Promise.resolve();
+  const task = before.catch(() => undefined).then(fn);
+  inflight.set(id, task);
+  task
+    .finally(() => {
+      if (inflight.get(id) === task) inflight.delete(id);
+    })
+    .catch(() => undefined);
+  return task;
+}
+
+/**
+ * 프로젝트 루트 경로로 프로젝트 ID를 만듭니다(절대 경로의 sha1 앞 12자리).
+ * @param {string} projectRoot 프로젝트 루트
+ * @returns {string} 프로젝트 ID
+ */
+export function projectIdOf(projectRoot: string): string {
+  return createHash('sha1').update(path.resolve(projectRoot)).digest('hex').slice(0, 12);
+}
+
+/** 저장 위치 */
+function storePaths(id: string): { dir: string; manifestPath: string; filteredAstPath: string } {
+  const dir = path.resolve(env.INDEX_STORE_DIR, id);
+  return {
+    dir,
+    manifestPath: path.join(dir, 'manifest.json'),
+    filteredAstPath: path.join(dir, 'filtered_ast.json'),
+  };
+}
+
+/** 현재 파싱 옵션 */
+function currentOptions(root: string): IndexManifest['options'] {
+  return { cHeaderAsCpp: env.C_HEADER_AS_CPP, cPreprocess: env.C_PREPROCESS, cSetup: loadPreprocessorSetup(root).signature };
+}
+
+/**
+ * 다른 파일이 바뀌어 파싱 결과가 달라질 수 있는 C/C++ 파일을 다시 파싱합니다.
+ * - 전처리 중 따라간 헤더가 바뀌거나 사라진 파일(매크로/조건 분기가 달라질 수 있음)
+ * - 같은 디렉터리에 파일이 생기거나 사라진 `.h`(짝 소스/디렉터리 구성으로 언어를 정했거나 기본값을 쓴 경우)
+ *
+ * @param {string} root 프로젝트 루트(절대 경로)
+ * @param {FileIndexItem[]} index 인덱스 항목(제자리 갱신)
+ * @param {string[]} changed 바뀌거나 사라진 파일
+ * @param {string[]} moved 새로 생기거나 사라진 파일
+ * @param {Set<string>} skip 이미 다시 파싱한 파일
+ * @returns {Promise<string[]>} 다시 파싱한 파일
+ */
+async function reparseAffected(
+  root: string,
+  index: FileIndexItem[],
+  changed: string[],
+  moved: string[],
+  skip: Set<string>
+): Promise<string[]> {
+  const changedSet = new Set(changed);
+  const movedDirs = new Set(moved.map((f) => path.posix.dirname(f)));
+  const out: string[] = [];
+  if (!changedSet.size && !movedDirs.size) return out;
+  const affected = (item: FileIndexItem) =>
+    !!item.preprocessor?.headers?.some((h) => changedSet.has(h)) ||
+    (!!item.headerLanguage &&
+      !['config', 'syntax'].includes(item.headerLanguage.by) &&
+      movedDirs.has(path.posix.dirname(item.file)));
+  const targets = [...index.keys()].filter((i) => !skip.has(index[i].file) && affected(index[i]));
+  // 워커 풀에서 파싱(같은 파일은 같은 워커로 가므로 그 워커의 트리 캐시를 씀)
+  const results = await runIndexTasks(targets.map((i) => ({ fileAbs: path.resolve(root, index[i].file), projectRoot: root })));
+  results.forEach((r, k) => {
+    const i = targets[k];
+    if ('error' in r) {
+      console.warn(`[index] parse error at ${index[i].file}: ${r.error}`);
+      return;
+    }
+    if (!r.item) return;
+    out.push(index[i].file);
+    index[i] = r.item;
+  });
+  return out;
+}
+
+/**
+ * 디스크에서 프로젝트 인덱스를 읽습니다(없거나 깨졌으면 null).
+ * @param {string} id 프로젝트 ID
+ * @returns {Promise<ProjectIndex|null>} 인덱스
+ */
+async function readFromDisk(id: string): Promise<ProjectIndex | null> {
+  const { dir, manifestPath, filteredAstPath } = storePaths(id);
+  try {
+    const manifest = JSON.parse(await fsp.readFile(manifestPath, 'utf8')) as IndexManifest;
+    const filteredAst = JSON.parse(await fsp.readFile(filteredAstPath, 'utf8')) as FilteredAst;
+    if (manifest.id !== id || !Array.isArray(filteredAst?.index)) return null;
+    return { id, root: manifest.root, dir, filteredAstPath, manifest, filteredAst };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 이전 인덱스와 디스크 상태를 비교해 **바뀐 파일만 다시 파싱**합니다.
+ *
+ * - mtime/size가 같으면 그대로 재사용하고, 다르면 내용 해시까지 비교합니다.
+ * - 사라진 파일은 제외하고, import 해석(`resolved`)은 전체 인덱스 기준으로 다시 계산합니다.
+ * - 변경이 있을 때만 filtered_ast.json을 다시 씁니다.
+ *
+ * @param {string} root 프로젝트 루트(절대 경로)
+ * @param {ProjectIndex|null} prev 이전 인덱스(없으면 전체 생성)
+ * @returns {Promise<ProjectIndex>} 갱신된 인덱스
+ */
+async function refresh(
+  root: string,
+  prev: ProjectIndex | null,
+  onProgress?: (p: IndexProgress) => void
+): Promise<ProjectIndex> {
+  const started = Date.now();
+  const prevEntries = prev?.manifest.entries ?? {};
+  const prevItems = new Map((prev?.filteredAst.index ?? []).map((x) => [x.file, x] as const));
+  const entries: Record<string, IndexEntry> = {};
+  const index: FileIndexItem[] = [];
+  const changedFiles: string[] = [];
+  let reused = 0;
+  let failed = 0;
+  let touched = false; // 내용은 같고 mtime만 바뀐 경우(매니페스트만 갱신)
+
+  // 1) mtime/size로 재사용할 파일을 거르고 나머지는 작업으로 모음
+  const filter = createPathFilter(root);
+  const tasks: IndexTask[] = [];
+  const stats = new Map<string, { rel: string; mtimeMs: number; size: number }>();
+  for (const abs of walkSupportedFiles(root, filter)) {
+    const rel = path.relative(root, abs).replaceAll('\\', '/');
+    let st;
+    try {
+      st = await fsp.stat(abs);
+    } catch {
+      continue; // 스캔 직후 삭제됨
+    }
+    const old = prevEntries[rel];
+    const oldItem = prevItems.get(rel);
+    if (old && oldItem && old.mtimeMs === st.mtimeMs && old.size === st.size) {
+      entries[rel] = old;
+      index.push(oldItem);
+      reused++;
+      continue;
+    }
+    stats.set(abs, { rel, mtimeMs: st.mtimeMs, size: st.size });
+    tasks.push({ fileAbs: abs, projectRoot: root, ...(old && oldItem ? { prevHash: old.hash } : {}) });
+  }
+
+  // 2) 워커 풀에서 해시 비교 + 파싱
+  for (const r of await runIndexTasks(tasks, { onProgress })) {
+    const { rel, mtimeMs, size } = stats.get(r.fileAbs)!;
+    if ('error' in r) {
+      console.warn(`[index] parse error at ${r.fileAbs}: ${r.error}`);
+      failed++;
+      continue;
+    }
+    if (r.unchanged) {
+      entries[rel] = { mtimeMs, size, hash: r.hash };
+      index.push(prevItems.get(rel)!);
+      reused++;
+      touched = true;
+      continue;
+    }
+    if (!r.item) continue;
+    entries[rel] = { mtimeMs, size, hash: r.hash };
+    index.push(r.item);
+    changedFiles.push(rel);
+  }
+
+  const removedFiles = [...prevItems.keys()].filter((f) => !entries[f]);
+  for (const f of removedFiles) forgetIndexedTree(path.resolve(root, f));
+  // 3) 바뀐 헤더를 포함하거나 언어 판별이 달라질 수 있는 파일은 내용이 같아도 다시 파싱
+  const addedFiles = changedFiles.filter((f) => !prevItems.has(f));
+  const reparsed = await reparseAffected(
+    root,
+    index,
+    [...changedFiles, ...removedFiles],
+    [...addedFiles, ...removedFiles],
+    new Set(changedFiles)
+  );
+  changedFiles.push(...reparsed);
+  reused -= reparsed.length;
+  return persist(root, prev, entries, index, {
+    total: index.length,
+    parsed: changedFiles.length,
+    reused,
+    removed: removedFiles.length,
+    failed,
+    full: !prev,
+    ...(prev ? { changedFiles, removedFiles } : {}),
+    ms: Date.now() - started,
+    at: new Date().toISOString(),
+  }, touched, filter.policy);
+}
+
+/**
+ * 갱신 결과를 디스크에 기록하고 새 인덱스를 만듭니다.
+ * - 파싱/삭제가 있었을 때만 import 해석을 다시 하고 filtered_ast.json을 다시 씁니다.
+ *
+ * @param {string} root 프로젝트 루트(절대 경로)
+ * @param {ProjectIndex|null} prev 이전 인덱스
+ * @param {Record<string, IndexEntry>} entries 파일별 변경 감지 정보
+ * @param {FileIndexItem[]} index 인덱스 항목
+ * @param {RefreshStats} stats 갱신 결과
+ * @param {boolean} touched 내용 변화 없이 mtime만 바뀐 파일이 있었는지
+ * @param {IndexPolicy} [policy] 파일 수집에 적용된 정책(헤더에 기록)
+ * @returns {Promise<ProjectIndex>} 새 인덱스
+ */
+async function persist(
+  root: string,
+  prev: ProjectIndex | null,
+  entries: Record<string, IndexEntry>,
+  index: FileIndexItem[],
+  stats: RefreshStats,
+  touched: boolean,
+  policy?: IndexPolicy
+): Promise<ProjectIndex> {
+  const id = projectIdOf(root);
+  const { dir, manifestPath, filteredAstPath } = storePaths(id);
+  const policyChanged = JSON.stringify(prev?.filteredAst.policy) !== JSON.stringify(policy);
+  const changed = !prev || stats.parsed > 0 || stats.removed > 0 || policyChanged;
+
+  index.sort((a, b) => a.file.localeCompare(b.file));
+  const now = stats.at;
+  let filteredAst = prev?.filteredAst as FilteredAst;
+  if (changed) {
+    resolveImportsInIndex(index, { includeDirs: projectIncludeDirs(root) });
+    filteredAst = { root, files: index.map((x) => x.file), index, generatedAt: now, ...(policy ? { policy } : {}) };
+    await writeFilteredAst(filteredAst, filteredAstPath);
+  }
+
+  const manifest: IndexManifest = {
+    version: STORE_VERSION,
+    id,
+    root,
+    options: currentOptions(root),
+    createdAt: prev?.manifest.createdAt ?? now,
+    updatedAt: changed || touched ? now : prev!.manifest.updatedAt,
+    entries,
+    lastRefresh: stats,
+  };
+  await writeFileAtomic(manifestPath, JSON.stringify(manifest));
+
+  return { id, root, dir, filteredAstPath, manifest, filteredAst };
+}
+
+/**
+ * 프로젝트 인덱스를 열고 최신 상태로 갱신합니다.
+ *
+ * - 메모리 → 디스크(`INDEX_STORE_DIR/<id>`) 순으로 이전 인덱스를 찾고, 바뀐 파일만 다시 파싱합니다.
+ * - 저장 형식 버전이나 파싱 옵션이 다르면(또는 `force`) 전체를 다시 생성합니다.
+ * - 같은 프로젝트에 대한 동시 호출은 진행 중인 갱신 하나를 공유합니다(진행 상황은 처음 호출한 쪽만 받음).
+ * - 다시 파싱할 파일은 워커 풀(`INDEX_WORKERS`)에서 처리합니다.
+ *
+ * @param {string} projectRoot 프로젝트 루트
+ * @param {{force?:boolean; onProgress?:(p:IndexProgress)=>void}} [options]
+ *   `force`: 이전 인덱스를 무시하고 전체 재생성, `onProgress`: 파싱 진행 상황 콜백
+ * @returns {Promise<ProjectIndex>} 최신 인덱스
+ */
+export async function openProjectIndex(
+  projectRoot: string,
+  options: { force?: boolean; onProgress?: (p: IndexProgress) => void } = {}
+): Promise<ProjectIndex> {
+  const root = path.resolve(projectRoot);
+  const id = projectIdOf(root);
+
+  const running = inflight.get(id);
+  if (running && !options.force) return running;
+
+  return exclusive(id, async () => {
+    const prev = options.force ? null : await previousIndex(root);
+    const next = await refresh(root, prev, options.onProgress);
+    loaded.set(id, next);
+    return next;
+  });
+}
+
+/**
+ * 재사용할 수 있는 이전 인덱스를 찾습니다(메모리 → 디스크).
+ * - 저장 형식 버전이나 파싱 옵션이 다르면 null(전체 재생성)을 반환합니다.
+ */
+async function previousIndex(root: string): Promise<ProjectIndex | null> {
+  const id = projectIdOf(root);
+  const prev = loaded.get(id) ?? (await readFromDisk(id));
+  if (
+    !prev ||
+    prev.manifest.version !== STORE_VERSION ||
+    prev.root !== root ||
+    JSON.stringify(prev.manifest.options) !== JSON.stringify(currentOptions(root))
+  ) {
+    return null;
+  }
+  return prev;
+}
+
+/**
+ * 지정한 파일만 다시 인덱싱합니다(파일 감시에서 사용).
+ *
+ * - 존재하면 내용 해시가 바뀐 경우에만 다시 파싱하고, 사라졌으면 인덱스에서 제외합니다.
+ * - 파싱은 전체 갱신과 같이 워커 풀에서 처리합니다(같은 파일은 같은 워커의 트리 캐시를 씀).
+ * - 이전 인덱스가 없으면 전체 갱신(`openProjectIndex`)으로 대신합니다.
+ *
+ * @param {string} projectRoot 프로젝트 루트
+ * @param {string[]} files 프로젝트 상대 경로
+ * @returns {Promise<ProjectIndex>} 갱신된 인덱스
+ */
+export async function updateProjectFiles(projectRoot: string, files: string[]): Promise<ProjectIndex> {
+  const root = path.resolve(projectRoot);
+  const id = projectIdOf(root);
+
+  return exclusive(id, async () => {
+    const prev = await previousIndex(root);
+    if (!prev) {
+      const next = await refresh(root, null);
+      loaded.set(id, next);
+      return next;
+    }
+
+    const started = Date.now();
+    const filter = createPathFilter(root);
+    const entries = { ...prev.manifest.entries };
+    const items = new Map(prev.filteredAst.index.map((x) => [x.file, x] as const));
+    const changedFiles: string[] = [];
+    const removedFiles: string[] = [];
+    let failed = 0;
+    let touched = false;
+
+    const tasks: IndexTask[] = [];
+    const stats = new Map<string, { rel: string; mtimeMs: number; size: number }>();
+    for (const rel of Array.from(new Set(files))) {
+      const abs = path.resolve(root, rel);
+      let st;
+      try {
+        st = await fsp.stat(abs);
+      } catch {
+        // 삭제됨
+      }
+      // 삭제되었거나 정책상 제외된 파일
+      if (!st?.isFile() || !filter.acceptsFile(rel, st.size)) {
+        if (items.delete(rel)) removedFiles.push(rel);
+        delete entries[rel];
+        forgetIndexedTree(abs);
+        continue;
+      }
+      stats.set(abs, { rel, mtimeMs: st.mtimeMs, size: st.size });
+      const prevHash = items.has(rel) ? entries[rel]?.hash : undefined;
+      tasks.push({ fileAbs: abs, projectRoot: root, ...(prevHash ? { prevHash } : {}) });
+    }
+
+    // 워커 풀에서 해시 비교 + 파싱
+    for (const r of await runIndexTasks(tasks)) {
+      const { rel, mtimeMs, size } = stats.get(r.fileAbs)!;
+      if ('error' in r) {
+        console.warn(`[index] parse error at ${r.fileAbs}: ${r.error}`);
+        failed++;
+        continue;
+      }
+      if (r.unchanged) {
+        entries[rel] = { mtimeMs, size, hash: r.hash };
+        touched = true;
+        continue;
+      }
+      if (!r.item) continue;
+      items.set(rel, r.item);
+      entries[rel] = { mtimeMs, size, hash: r.hash };
+      changedFiles.push(rel);
+    }
+
+    const index = [...items.values()];
+    const addedFiles = changedFiles.filter((f) => !prev.manifest.entries[f]);
+    changedFiles.push(
+      ...(await reparseAffected(
+        root,
+        index,
+        [...changedFiles, ...removedFiles],
+        [...addedFiles, ...removedFiles],
+        new Set(changedFiles)
+      ))
+    );
+    const next = await persist(root, prev, entries, index, {
+      total: index.length,
+      parsed: changedFiles.length,
+      reused: index.length - changedFiles.length,
+      removed: removedFiles.length,
+      failed,
+      full: false,
+      changedFiles,
+      removedFiles,
+      ms: Date.now() - started,
+      at: new Date().toISOString(),
+    }, touched, prev.filteredAst.policy);
+    loaded.set(id, next);
+    return next;
+  });
+}
+
+/**
+ * 이미 만들어진 프로젝트 인덱스를 ID로 찾습니다(갱신하지 않음).
+ * @param {string} id 프로젝트 ID
+ * @returns {Promise<ProjectIndex|null>} 인덱스(없으면 null)
+ */
+export async function getProjectIndex(id: string): Promise<ProjectIndex | null> {
+  if (!/^[0-9a-f]{12}$/.test(id)) return null;
+  const mem = loaded.get(id);
+  if (mem) return mem;
+  const disk = await readFromDisk(id);
+  if (disk) loaded.set(id, disk);
+  return disk;
+}
+
+/**
+ * 프로젝트 인덱스 상태를 요약합니다.
+ * @param {ProjectIndex} pi 프로젝트 인덱스
+ * @param {{entries?:boolean}} [options] `entries`: 파일별 mtime/size/hash 포함
+ * @returns {ProjectIndexSummary} 요약
+ */
+export function describeProjectIndex(pi: ProjectIndex, options: { entries?: boolean } = {}): ProjectIndexSummary {
+  return {
+    id: pi.id,
+    root: pi.root,
+    filteredAstPath: pi.filteredAstPath,
+    createdAt: pi.manifest.createdAt,
+    updatedAt: pi.manifest.updatedAt,
+    generatedAt: pi.filteredAst.generatedAt,
+    files: pi.filteredAst.files.length,
+    ...(pi.manifest.lastRefresh ? { lastRefresh: pi.manifest.lastRefresh } : {}),
+    ...(options.entries ? { entries: pi.manifest.entries } : {}),
+  };
+}
+
+/**
+ * 서버 부트 전에 `PROJECT_ROOT`의 filtered_ast를 준비합니다.
+ * - 프로젝트 인덱스를 증분 갱신한 뒤 `FILTERED_AST_PATH`에 기록합니다.
+ * - 강제 재생성(`REGENERATE_FILTERED=1`)이면 이전 인덱스를 무시하고 전체 재생성
+ * @param {{onProgress?:(p:IndexProgress)=>void}} [options] 파싱 진행 상황 콜백
+ * @returns {Promise<void>}
+ */
+export async function ensureFilteredAst(options: { onProgress?: (p: IndexProgress) => void } = {}): Promise<void> {
+  const force = String(process.env.REGENERATE_FILTERED || '0') === '1';
+  const pi = await openProjectIndex(env.PROJECT_ROOT, { force, onProgress: options.onProgress });
+  await writeFilteredAst(pi.filteredAst, env.FILTERED_AST_PATH);
+  const r = pi.manifest.lastRefresh;
+  console.log(
+    `[filtered] generated at ${env.FILTERED_AST_PATH} (files=${pi.filteredAst.files.length}, parsed=${r?.parsed ?? 0}, reused=${r?.reused ?? 0})`
+  );
+}
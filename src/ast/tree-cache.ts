@@ -0,0 +1,172 @@
+import Parser from 'tree-sitter';
+import { env } from '../config/env.js';
+
+/**
+ * tree-sitter 편집 정보
+ * - node-tree-sitter 0.21은 인덱스/컬럼을 **UTF-16 코드 유닛** 기준으로 다룹니다.
+ */
+export interface TreeEdit {
+  startIndex: number;
+  oldEndIndex: number;
+  newEndIndex: number;
+  startPosition: Parser.Point;
+  oldEndPosition: Parser.Point;
+  newEndPosition: Parser.Point;
+}
+
+/** 캐시된 파싱 결과 */
+interface CachedTree {
+  language: any;
+  text: string;
+  tree: Parser.Tree;
+}
+
+/** 캐시 통계 */
+export interface TreeCacheStats {
+  size: number;
+  max: number;
+  /** 텍스트가 같아 트리를 그대로 돌려준 횟수 */
+  hits: number;
+  /** 이전 트리를 편집해 증분 파싱한 횟수 */
+  incremental: number;
+  /** 처음부터 파싱한 횟수 */
+  full: number;
+}
+
+/**
+ * node-tree-sitter는 문자열 입력을 기본 32K 버퍼로 읽어, 그보다 긴 파일은 `Invalid argument`로 실패합니다.
+ * 텍스트 길이만큼 버퍼를 잡아 큰 파일도 한 번에 넘깁니다.
+ */
+const parseOptions = (text: string) => ({ bufferSize: Math.max(32 * 1024, text.length + 1) });
+
+/** 언어별 Parser(재사용) */
+const parsers = new Map<any, Parser>();
+/** 파일 키 → 마지막 파싱 결과 (Map 삽입 순서를 LRU로 사용) */
+const trees = new Map<string, CachedTree>();
+const counters = { hits: 0, incremental: 0, full: 0 };
+
+/** 언어에 맞는 Parser를 재사용합니다. */
+function parserFor(language: any): Parser {
+  let p = parsers.get(language);
+  if (!p) {
+    p = new Parser();
+    p.setLanguage(language);
+    parsers.set(language, p);
+  }
+  return p;
+}
+
+/**
+ * 텍스트 인덱스(UTF-16)를 row/column 위치로 바꿉니다.
+ * @param {string} text 텍스트
+ * @param {number} index 인덱스
+ * @returns {Parser.Point} 0-based 위치
+ */
+function pointAt(text: string, index: number): Parser.Point {
+  let row = 0;
+  let lineStart = 0;
+  for (let i = text.indexOf('\n'); i !== -1 && i < index; i = text.indexOf('\n', i + 1)) {
+    row++;
+    lineStart = i + 1;
+  }
+  return { row, column: index - lineStart };
+}
+
+/** 서로게이트 쌍 중간에서 자르지 않도록 보정 */
+const isHighSurrogate = (code: number) => code >= 0xd800 && code <= 0xdbff;
+const isLowSurrogate = (code: number) => code >= 0xdc00 && code <= 0xdfff;
+
+/**
+ * 이전/새 텍스트의 공통 접두·접미사를 잘라 **하나의 편집 구간**을 계산합니다.
+ *
+ * @param {string} oldText 이전 텍스트
+ * @param {string} newText 새 텍스트
+ * @returns {TreeEdit|null} 편집 정보(같으면 null)
+ */
+export function computeEdit(oldText: string, newText: string): TreeEdit | null {
+  if (oldText === newText) return null;
+  const max = Math.min(oldText.length, newText.length);
+
+  let start = 0;
+  while (start < max && oldText.charCodeAt(start) === newText.charCodeAt(start)) start++;
+  if (start > 0 && isHighSurrogate(oldText.charCodeAt(start - 1))) start--;
+
+  let suffix = 0;
+  while (
+    suffix < max - start &&
+    oldText.charCodeAt(oldText.length - 1 - suffix) === newText.charCodeAt(newText.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+  if (suffix > 0 && isLowSurrogate(newText.charCodeAt(newText.length - suffix))) suffix--;
+
+  const oldEndIndex = oldText.length - suffix;
+  const newEndIndex = newText.length - suffix;
+  return {
+    startIndex: start,
+    oldEndIndex,
+    newEndIndex,
+    startPosition: pointAt(oldText, start),
+    oldEndPosition: pointAt(oldText, oldEndIndex),
+    newEndPosition: pointAt(newText, newEndIndex),
+  };
+}
+
+/**
+ * 파일 단위 트리 캐시를 사용해 파싱합니다.
+ *
+ * - 같은 텍스트면 캐시된 트리를 그대로 반환합니다.
+ * - 텍스트가 바뀌었으면 이전 트리에 `tree.edit()`을 적용한 뒤 `parser.parse(newText, oldTree)`로 **증분 파싱**합니다.
+ * - 언어가 바뀌었거나(예: `.h` 해석 변경) 캐시가 없으면 처음부터 파싱합니다.
+ * - 캐시는 `TREE_CACHE_MAX_FILES`개까지 LRU로 유지합니다(0이면 캐시하지 않음).
+ *
+ * 반환된 트리는 다음 호출에서 편집될 수 있으므로, 호출 측은 동기적으로 사용을 마쳐야 합니다.
+ *
+ * @param {string} key 캐시 키(보통 파일 절대 경로)
+ * @param {any} language tree-sitter 언어
+ * @param {string} text 소스 텍스트
+ * @returns {Parser.Tree} 파싱 트리
+ */
+export function parseWithCache(key: string, language: any, text: string): Parser.Tree {
+  const parser = parserFor(language);
+  const max = Math.max(0, Math.floor(env.TREE_CACHE_MAX_FILES));
+  const prev = trees.get(key);
+  trees.delete(key);
+
+  let tree: Parser.Tree;
+  if (prev && prev.language === language && prev.text === text) {
+    tree = prev.tree;
+    counters.hits++;
+  } else if (prev && prev.language === language) {
+    const edit = computeEdit(prev.text, text)!;
+    prev.tree.edit(edit);
+    tree = parser.parse(text, prev.tree, parseOptions(text));
+    counters.incremental++;
+  } else {
+    tree = parser.parse(text, undefined, parseOptions(text));
+    counters.full++;
+  }
+
+  if (max > 0) {
+    trees.set(key, { language, text, tree });
+    while (trees.size > max) trees.delete(trees.keys().next().value!);
+  }
+  return tree;
+}
+
+/**
+ * 캐시에서 파일 하나(키를 주지 않으면 전부)를 비웁니다.
+ * @param {string} [key] 캐시 키
+ */
+export function forgetTree(key?: string): void {
+  if (key == null) trees.clear();
+  else trees.delete(key);
+}
+
+/**
+ * 캐시 상태를 반환합니다.
+ * @returns {TreeCacheStats} 통계
+ */
+export function treeCacheStats(): TreeCacheStats {
+  return { size: trees.size, max: env.TREE_CACHE_MAX_FILES, ...counters };
+}
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+
+import { createPathFilter, isPolicyFile, type PathFilter } from './ignore.js';
+import { openProjectIndex, updateProjectFiles, type ProjectIndex, type RefreshStats } from './store.js';
+
+/** 인덱스 갱신 이벤트(클라이언트로 전달) */
+export interface IndexUpdateEvent {
+  projectId: string;
+  root: string;
+  /** 다시 파싱한 파일(프로젝트 상대 경로) */
+  changed: string[];
+  /** 인덱스에서 제외한 파일 */
+  removed: string[];
+  /** 디렉터리 변경 등으로 프로젝트 전체를 다시 훑었는지 */
+  full: boolean;
+  stats?: RefreshStats;
+  at: string;
+}
+
+/** 감시 핸들 */
+export interface IndexWatcher {
+  close: () => void;
+}
+
+/**
+ * 프로젝트 루트를 감시하며 인덱스를 최신 상태로 유지합니다.
+ *
+ * - `fs.watch(recursive)` 이벤트를 `debounceMs` 동안 모아 한 번에 처리합니다.
+ * - 인덱싱 대상 파일(`PathFilter.acceptsFile`)이면 해당 파일만 다시 인덱싱합니다.
+ * - 파일이 아닌 경로(디렉터리 이름 변경/삭제 등)나 정책 파일(`.gitignore`, 설정 파일)이 바뀌면
+ *   프로젝트 전체를 증분 갱신합니다.
+ * - 실제로 바뀐 파일이 있을 때만 `onUpdate`를 호출합니다.
+ *
+ * @param {string} projectRoot 프로젝트 루트
+ * @param {(ev: IndexUpdateEvent, pi: ProjectIndex) => void | Promise<void>} onUpdate 갱신 콜백
+ * @param {{debounceMs?:number}} [options] 디바운스 간격(ms, 기본 300)
+ * @returns {IndexWatcher} 감시 핸들
+ */
+export function watchProjectIndex(
+  projectRoot: string,
+  onUpdate: (ev: IndexUpdateEvent, pi: ProjectIndex) => void | Promise<void>,
+  options: { debounceMs?: number } = {}
+): IndexWatcher {
+  const root = path.resolve(projectRoot);
+  const debounceMs = Math.max(0, options.debounceMs ?? 300);
+  const pending = new Set<string>();
+  let rescan = false;
+  let timer: NodeJS.Timeout | null = null;
+  let closed = false;
+  let filter: PathFilter = createPathFilter(root);
+
+  /** 경로의 디렉터리(자기 자신 포함) 중 하나라도 제외 대상인지 */
+  const ignoredDir = (rel: string) => {
+    const parts = rel.split('/');
+    return parts.some((_, i) => filter.ignoresEntry(parts.slice(0, i + 1).join('/'), true));
+  };
+
+  const flush = async () => {
+    timer = null;
+    const files = [...pending];
+    const full = rescan;
+    pending.clear();
+    rescan = false;
+    if (!files.length && !full) return;
+
+    try {
+      const pi = full ? await openProjectIndex(root) : await updateProjectFiles(root, files);
+      const stats = pi.manifest.lastRefresh;
+      if (!stats || (stats.parsed === 0 && stats.removed === 0)) return;
+      await onUpdate(
+        {
+          projectId: pi.id,
+          root,
+          changed: stats.changedFiles ?? [],
+          removed: stats.removedFiles ?? [],
+          full,
+          stats,
+          at: stats.at,
+        },
+        pi
+      );
+    } catch (e: any) {
+      console.warn(`[watch] index update failed: ${e?.message || e}`);
+    }
+  };
+
+  const schedule = () => {
+    if (closed) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void flush(), debounceMs);
+  };
+
+  const watcher = fs.watch(root, { recursive: true }, (_event, filename) => {
+    if (!filename) {
+      rescan = true; // 플랫폼이 경로를 주지 않는 경우
+      return schedule();
+    }
+    const rel = filename.toString().replaceAll('\\', '/');
+    if (isPolicyFile(rel)) {
+      try {
+        filter = createPathFilter(root);
+      } catch (e: any) {
+        console.warn(`[watch] ${e?.message || e}`); // 설정 파일 오류 → 이전 정책 유지
+        return;
+      }
+      rescan = true;
+      return schedule();
+    }
+    if (filter.acceptsFile(rel)) {
+      pending.add(rel);
+      return schedule();
+    }
+    // 확장자가 없는 경로는 디렉터리일 수 있음(이동/삭제 시 하위 파일 이벤트가 오지 않음)
+    if (!path.extname(rel) && !ignoredDir(rel)) {
+      rescan = true;
+      schedule();
+    }
+  });
+  watcher.on('error', (e) => console.warn(`[watch] ${root}: ${e?.message || e}`));
+
+  return {
+    close: () => {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}
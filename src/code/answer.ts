@@ -1,19 +1,25 @@
-import { SystemMessage, HumanMessage } from '@langchain/core/messages';
-import type { ChatOpenAI } from '@langchain/openai';
+import type { ChatModel } from '../llm/provider.js';
+import { AnswerSchema } from '../llm/schemas.js';
+import { invokeStructured } from '../llm/structured.js';
 import { PROMPT_ANSWER_FROM_CODE, PROMPT_ANSWER_FROM_AST } from '../config/prompts.js';
 import type { DetailedAst, GraphState } from '../core/types.js';
+import { fitToTokens } from '../core/tokenizer.js';
+import { historyForPrompt } from '../core/history.js';
+import { verifyCitations } from './citations.js';
 
 /**
  * LangGraph 노드: **코드 중심 최종 답변**을 생성합니다.
  *
- * - 코드 조각(codeSlices)만을 근거로 답변하도록 지시합니다.
- * - LLM이 없으면 데모 응답을 생성합니다.
+ * - 코드 조각(codeSlices)만을 근거로 답변하고, 근거 라인 범위를 인용(citations)으로 내도록 지시합니다.
+ * - map-reduce로 모은 파일별 메모(mapNotes)가 이번 반복 것이면 함께 넘깁니다.
+ * - 인용은 넘긴 코드 조각과 대조해 밖을 가리키는 것은 버리고(trace `citationsDropped`), 걸치는 것은 조각 안으로 자릅니다.
+ * - LLM이 없으면 데모 응답을 생성합니다(앞쪽 코드 조각을 인용으로).
  *
- * @param {ChatOpenAI|null} llm OpenAI 챗 모델 인스턴스(없으면 데모 경로)
+ * @param {ChatModel|null} llm 챗 모델 인스턴스(없으면 데모 경로)
  * @param {GraphState} state 현재 상태( codeSlices 필요 )
- * @returns {Promise<GraphState>} answer/followups가 채워진 새 상태
+ * @returns {Promise<GraphState>} answer/citations/followups가 채워진 새 상태
  */
-export async function nodeAnswerFromCode(llm: ChatOpenAI | null, state: GraphState): Promise<GraphState> {
+export async function nodeAnswerFromCode(llm: ChatModel | null, state: GraphState): Promise<GraphState> {
   const { question, prunedAsts, filteredAst, codeSlices = [] } = state;
 
   if (!llm || typeof (llm as any).invoke !== 'function') {
@@ -23,27 +29,39 @@ export async function nodeAnswerFromCode(llm: ChatOpenAI | null, state: GraphSta
         .slice(0, 2)
         .map((s) => `\n[${s.file}:${s.startLine}-${s.endLine}]\n${s.code.slice(0, 500)}...`)
         .join('\n');
-    return { ...state, answer, followups: [] };
+    const citations = codeSlices.slice(0, 2).map((s) => ({ file: s.file, startLine: s.startLine, endLine: s.endLine }));
+    return { ...state, answer, citations, followups: [] };
   }
 
   const astMeta = (prunedAsts ?? []).map((a) => ({ file: a.filePath }));
   const system = PROMPT_ANSWER_FROM_CODE;
-  const user = JSON.stringify({
-    question,
-    codeSlices: codeSlices.map((s) => ({
-      file: s.file, startLine: s.startLine, endLine: s.endLine, code: s.code, rationale: s.rationale,
-    })),
-    astMeta,
-    filteredAstMeta: { files: (filteredAst as any)?.files ?? [] },
-  });
+  const slices = codeSlices.map((s) => ({
+    file: s.file, startLine: s.startLine, endLine: s.endLine, code: s.code, rationale: s.rationale,
+    ...(s.reduced ? { reduced: true } : {}),
+  }));
+  // 이전 반복의 메모는 지금 코드 조각과 맞지 않을 수 있으므로 이번 반복에 map-reduce를 했을 때만
+  const it = state._trace?.iterations ?? 0;
+  const notes = state._trace?.mapReduce?.[it] && state.mapNotes?.length ? state.mapNotes : undefined;
+  // 토큰 예산을 넘으면 뒤쪽 코드 조각부터 뺌
+  const history = historyForPrompt(state.history);
+  const render = (n: number) =>
+    JSON.stringify({
+      question,
+      history,
+      ...(notes ? { notes } : {}),
+      codeSlices: slices.slice(0, n),
+      astMeta,
+      filteredAstMeta: { files: (filteredAst as any)?.files ?? [] },
+    });
+  const user = (budget: number) => fitToTokens(slices.length, budget, render, (i) => JSON.stringify(slices[i])).text;
 
-  const resp = await (llm as any).invoke([new SystemMessage(system), new HumanMessage(user)]);
-  try {
-    const parsed = JSON.parse((resp as any).content);
-    return { ...state, answer: parsed.answer || '', followups: parsed.followups || [] };
-  } catch {
-    return { ...state, answer: (resp as any).content || '(파싱 실패)', followups: [] };
-  }
+  const { value, raw } = await invokeStructured(llm, { step: 'answerFromCode', system, user, schema: AnswerSchema, state });
+  if (!value) return { ...state, answer: raw || '(파싱 실패)', citations: [], followups: [] };
+
+  const { citations, dropped } = verifyCitations(value.citations, codeSlices);
+  const tr = state._trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
+  if (dropped.length) (tr.citationsDropped ??= [])[it] = dropped;
+  return { ...state, answer: value.answer, citations, followups: value.followups, _trace: tr };
 }
 
 /**
@@ -52,11 +70,11 @@ export async function nodeAnswerFromCode(llm: ChatOpenAI | null, state: GraphSta
  * - 프룬 결과가 있으면 우선 사용하고, 없으면 상세 AST 전체를 사용합니다.
  * - 프롬프트 모드는 외부에서 제어합니다.
  *
- * @param {ChatOpenAI|null} llm OpenAI 챗 모델
+ * @param {ChatModel|null} llm 챗 모델
  * @param {GraphState} state 현재 상태
  * @returns {Promise<GraphState>} answer/followups 채워진 상태
  */
-export async function nodeAnswerFromAst(llm: ChatOpenAI | null, state: GraphState): Promise<GraphState> {
+export async function nodeAnswerFromAst(llm: ChatModel | null, state: GraphState): Promise<GraphState> {
   const { question, filteredAst, detailedAsts, sliceHints, prunedAsts, droppedAll } = state;
   const inputAsts: DetailedAst[] = prunedAsts ?? detailedAsts;
   const astsForPrompt: DetailedAst[] =
@@ -69,23 +87,24 @@ export async function nodeAnswerFromAst(llm: ChatOpenAI | null, state: GraphStat
 
   if (!llm || typeof (llm as any).invoke !== 'function') {
     const answer = `데모(AST 기반): 파일 ${astsForPrompt.length}개 사용`;
-    return { ...state, answer, followups: [] };
+    return { ...state, answer, citations: [], followups: [] };
   }
 
   const system = PROMPT_ANSWER_FROM_AST;
-  const user = JSON.stringify({
-    question,
-    filteredAst,
-    detailedAsts: astsForPrompt,
-    pruned: !!prunedAsts,
-    droppedAll: !!droppedAll,
-  });
+  // 토큰 예산을 넘으면 뒤쪽 상세 AST부터 뺌
+  const render = (n: number) =>
+    JSON.stringify({
+      question,
+      filteredAst,
+      detailedAsts: astsForPrompt.slice(0, n),
+      pruned: !!prunedAsts,
+      droppedAll: !!droppedAll,
+    });
+  const user = (budget: number) =>
+    fitToTokens(astsForPrompt.length, budget, render, (i) => JSON.stringify(astsForPrompt[i])).text;
 
-  const resp = await (llm as any).invoke([new SystemMessage(system), new HumanMessage(user)]);
-  try {
-    const parsed = JSON.parse((resp as any).content);
-    return { ...state, answer: parsed.answer || '', followups: parsed.followups || [] };
-  } catch {
-    return { ...state, answer: (resp as any).content || '(파싱 실패)', followups: [] };
-  }
+  // AST 답변은 읽은 코드 조각이 없으므로 인용을 싣지 않음
+  const { value, raw } = await invokeStructured(llm, { step: 'answerFromAst', system, user, schema: AnswerSchema, state });
+  if (value) return { ...state, answer: value.answer, citations: [], followups: value.followups };
+  return { ...state, answer: raw || '(파싱 실패)', citations: [], followups: [] };
 }
@@ -0,0 +1,61 @@
+import type { Citation, CodeSlice } from '../core/types.js';
+
+/** 인용 검증 결과 */
+export interface CitationCheck {
+  /** 코드 조각 안을 가리키는 인용(일부만 겹치면 겹친 부분으로 잘라 `clamped`) */
+  citations: Citation[];
+  /** 어느 코드 조각과도 겹치지 않아 버린 인용 */
+  dropped: Citation[];
+}
+
+/** 경로 표기 정규화(`./a/b` → `a/b`) */
+function normalizeFile(file: string): string {
+  return file.trim().replaceAll('\\', '/').replace(/^\.\/+/, '');
+}
+
+/**
+ * 모델이 낸 인용을 답변에 넘긴 코드 조각과 대조합니다.
+ *
+ * - 같은 파일의 코드 조각 하나 안에 들어가면 그대로 둡니다.
+ * - 일부만 겹치면 가장 많이 겹치는 조각 범위로 잘라 `clamped`로 표시합니다.
+ * - 겹치는 조각이 없으면(읽지 않은 파일/라인) 버립니다.
+ * - 같은 범위를 가리키는 인용은 하나로 합칩니다(처음 나온 `claim` 유지).
+ *
+ * @param {Citation[]} citations 모델이 낸 인용
+ * @param {CodeSlice[]} slices 답변에 넘긴 코드 조각
+ * @returns {CitationCheck} 남긴 인용과 버린 인용
+ */
+export function verifyCitations(citations: Citation[], slices: CodeSlice[]): CitationCheck {
+  const out: CitationCheck = { citations: [], dropped: [] };
+  const seen = new Set<string>();
+  for (const c of citations) {
+    const file = normalizeFile(c.file);
+    const startLine = Math.min(c.startLine, c.endLine);
+    const endLine = Math.max(c.startLine, c.endLine);
+
+    let best: { slice: CodeSlice; overlap: number } | null = null;
+    for (const s of slices) {
+      if (normalizeFile(s.file) !== file) continue;
+      const overlap = Math.min(endLine, s.endLine) - Math.max(startLine, s.startLine) + 1;
+      if (overlap > 0 && (!best || overlap > best.overlap)) best = { slice: s, overlap };
+    }
+    if (!best) {
+      out.dropped.push(c);
+      continue;
+    }
+
+    const from = Math.max(startLine, best.slice.startLine);
+    const to = Math.min(endLine, best.slice.endLine);
+    const key = `${file}:${from}-${to}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.citations.push({
+      file,
+      startLine: from,
+      endLine: to,
+      ...(c.claim?.trim() ? { claim: c.claim.trim() } : {}),
+      ...(from !== startLine || to !== endLine ? { clamped: true } : {}),
+    });
+  }
+  return out;
+}
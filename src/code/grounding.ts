@@ -0,0 +1,174 @@
+import { env } from '../config/env.js';
+import { PROMPT_VERIFY_GROUNDING } from '../config/prompts.js';
+import { fitToTokens } from '../core/tokenizer.js';
+import type { Confidence, GraphState, GroundingClaim, GroundingReport } from '../core/types.js';
+import type { ChatModel } from '../llm/provider.js';
+import { GroundingSchema } from '../llm/schemas.js';
+import { invokeStructured } from '../llm/structured.js';
+
+/** 신뢰도 순서(낮은 것부터) */
+const CONFIDENCE_ORDER: Confidence[] = ['low', 'medium', 'high'];
+
+/** 둘 중 낮은 신뢰도 */
+function lower(a: Confidence, b: Confidence): Confidence {
+  return CONFIDENCE_ORDER.indexOf(a) <= CONFIDENCE_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * 규칙만으로 근거를 판정합니다(LLM이 없거나 응답이 쓸 수 없을 때, LLM 판정의 상한).
+ * - 코드 조각이 없거나, prune이 상세 AST를 모두 버렸거나, 검증된 인용이 없으면 low
+ * - 코드 조각 밖을 가리켜 버린 인용이 있으면 medium
+ * @param {GraphState} state 답변까지 채워진 상태
+ * @returns {Omit<GroundingReport, 'retry'>} 규칙 판정
+ */
+function ruleReport(state: GraphState): Omit<GroundingReport, 'retry'> {
+  const it = state._trace?.iterations ?? 0;
+  const citations = state.citations ?? [];
+  const dropped = state._trace?.citationsDropped?.[it] ?? [];
+  const claims: GroundingClaim[] = [
+    ...citations.map((c) => ({
+      claim: c.claim ?? `${c.file}:${c.startLine}-${c.endLine}`,
+      supported: true,
+      evidence: `${c.file}:${c.startLine}-${c.endLine}`,
+    })),
+    ...dropped.map((c) => ({ claim: c.claim ?? `${c.file}:${c.startLine}-${c.endLine}`, supported: false })),
+  ];
+
+  const missing: string[] = [];
+  if (!state.codeSlices?.length) missing.push('질문과 관련된 코드 조각을 읽지 못했습니다');
+  if (state.droppedAll) missing.push('prune 단계에서 상세 AST를 모두 버렸습니다');
+  if (!citations.length) missing.push('답변에 읽은 코드를 가리키는 인용이 없습니다');
+  if (missing.length) return { confidence: 'low', by: 'rules', claims, missing };
+  if (dropped.length) {
+    missing.push(...dropped.map((c) => `읽지 않은 코드: ${c.file}:${c.startLine}-${c.endLine}`));
+    return { confidence: 'medium', by: 'rules', claims, missing };
+  }
+  return { confidence: 'high', by: 'rules', claims, missing };
+}
+
+/**
+ * 모델에게 주장별 근거를 판정받습니다.
+ * @param {ChatModel} llm 챗 모델
+ * @param {GraphState} state 답변까지 채워진 상태
+ * @returns {Promise<Omit<GroundingReport, 'retry'>|null>} 모델 판정(응답을 쓸 수 없으면 null)
+ */
+async function llmReport(llm: ChatModel, state: GraphState): Promise<Omit<GroundingReport, 'retry'> | null> {
+  const slices = (state.codeSlices ?? []).map((s) => ({
+    file: s.file, startLine: s.startLine, endLine: s.endLine, code: s.code,
+  }));
+  // 토큰 예산을 넘으면 뒤쪽 코드 조각부터 뺌
+  const render = (n: number) =>
+    JSON.stringify({
+      question: state.question,
+      answer: state.answer,
+      citations: state.citations ?? [],
+      codeSlices: slices.slice(0, n),
+    });
+  const user = (budget: number) => fitToTokens(slices.length, budget, render, (i) => JSON.stringify(slices[i])).text;
+
+  const { value } = await invokeStructured(llm, {
+    step: 'verifyGrounding',
+    system: PROMPT_VERIFY_GROUNDING,
+    user,
+    schema: GroundingSchema,
+    state,
+  });
+  if (!value) return null;
+
+  const claims = value.claims.filter((c) => c.claim.trim());
+  const supported = claims.filter((c) => c.supported).length;
+  let confidence: Confidence;
+  if (!claims.length || supported * 2 < claims.length) confidence = 'low';
+  else if (supported < claims.length || value.missing.length) confidence = 'medium';
+  else confidence = 'high';
+  return { confidence, by: 'llm', claims, missing: value.missing };
+}
+
+/**
+ * 근거를 더 찾으러 탐색을 한 번 더 할 수 있는지
+ * - 에이전트 모드는 탐색 예산을 이미 썼으므로 다시 돌지 않습니다.
+ * @param {GraphState} state 현재 상태
+ * @returns {boolean} true면 파일 결정부터 다시 탐색
+ */
+function canExploreAgain(state: GraphState): boolean {
+  return !state.agentMessages?.length && (state._loopCount || 0) < env.MAX_LOOPS;
+}
+
+/**
+ * 근거 부족 답변 앞에 붙이는 안내
+ * @param {string[]} missing 더 필요한 근거
+ * @returns {string} 안내 문단
+ */
+function lowConfidenceNotice(missing: string[]): string {
+  const lines = ['⚠️ 근거 부족(신뢰도 낮음): 읽은 코드로 확인하지 못한 내용이 있습니다.'];
+  if (missing.length) lines.push('더 필요한 근거:', ...missing.map((m) => `- ${m}`));
+  return lines.join('\n');
+}
+
+/**
+ * LangGraph 노드: **답변 근거 검증**
+ *
+ * - 답변의 주장마다 코드 조각이 뒷받침하는지 모델에게(LLM이 없으면 규칙으로) 판정받아 `confidence`/`missingEvidence`를 채웁니다.
+ * - 모델 판정은 규칙 판정(코드 조각/인용 유무)보다 높게 보지 않습니다.
+ * - 신뢰도가 low이고 탐색을 더 할 수 있으면(`MAX_LOOPS`) `retry`로 표시해 파일 결정부터 다시 돕니다(`needsMoreEvidence`).
+ * - 더 탐색할 수 없으면 답변 앞에 근거 부족 안내를 붙여 돌려줍니다.
+ * - 결과는 `_trace.grounding[iteration]`에 남깁니다.
+ *
+ * @param {ChatModel|null} llm 챗 모델 인스턴스(없으면 규칙만)
+ * @param {GraphState} state 답변까지 채워진 상태
+ * @returns {Promise<GraphState>} confidence/missingEvidence가 채워진 상태
+ */
+export async function nodeVerifyGrounding(llm: ChatModel | null, state: GraphState): Promise<GraphState> {
+  if (!env.GROUNDING_CHECK) return state;
+
+  const rules = ruleReport(state);
+  // 코드 조각이 없으면 모델에게 물을 것도 없음
+  const judged = llm && typeof (llm as any).invoke === 'function' && state.codeSlices?.length
+    ? await llmReport(llm, state)
+    : null;
+  const base = judged
+    ? { ...judged, confidence: lower(judged.confidence, rules.confidence), missing: [...new Set([...rules.missing, ...judged.missing])] }
+    : rules;
+  const report: GroundingReport = { ...base, retry: base.confidence === 'low' && canExploreAgain(state) };
+
+  const it = state._trace?.iterations ?? 0;
+  const tr = state._trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
+  (tr.grounding ??= [])[it] = report;
+
+  const answer =
+    report.confidence === 'low' && !report.retry
+      ? `${lowConfidenceNotice(report.missing)}\n\n${state.answer}`
+      : state.answer;
+  return { ...state, answer, confidence: report.confidence, missingEvidence: report.missing, _trace: tr };
+}
+
+/**
+ * 근거 검증 결과 탐색을 한 번 더 해야 하는지
+ * @param {GraphState} state 근거 검증을 마친 상태
+ * @returns {boolean} true면 파일 결정부터 다시 탐색
+ */
+export function needsMoreEvidence(state: GraphState): boolean {
+  const it = state._trace?.iterations ?? 0;
+  return !!state._trace?.grounding?.[it]?.retry;
+}
+
+/**
+ * 근거가 부족해 다시 탐색하려 했지만 새로 볼 파일이 없을 때 직전 답변으로 끝냅니다.
+ * - 빈 코드 조각으로 다시 답변해 근거 있는 답변을 덮어쓰지 않도록, 직전 답변에 근거 부족 안내를 붙이고
+ *   `_trace.grounding[iteration].retry`를 false로 바꿉니다.
+ * @param {GraphState} state 근거 검증을 마친 상태
+ * @returns {GraphState} 끝낼 상태
+ */
+export function endWithoutRetry(state: GraphState): GraphState {
+  const it = state._trace?.iterations ?? 0;
+  const report = state._trace?.grounding?.[it];
+  if (!state._trace || !report?.retry) return { ...state, followups: [] };
+  const grounding = [...state._trace.grounding!];
+  grounding[it] = { ...report, retry: false };
+  return {
+    ...state,
+    answer: `${lowConfidenceNotice(report.missing)}\n\n${state.answer}`,
+    followups: [],
+    _trace: { ...state._trace, grounding },
+  };
+}
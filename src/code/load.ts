@@ -1,7 +1,11 @@
 import fs from 'fs/promises';
 import path from 'path';
-import type { CodeSlice, GraphState } from '../core/types.js';
+import type { CodeRange, CodeSlice, GraphState } from '../core/types.js';
 import { env } from '../config/env.js';
+import { outlinesForFiles } from '../ast/outline.js';
+import { calcCodeBudget } from './ranges.js';
+import { normalizeRanges } from './normalize.js';
+import { packSlices } from './pack.js';
 
 /**
  * 파일에서 특정 라인 범위를 1-based(포함/포함)로 읽어 문자열을 반환합니다.
@@ -24,51 +28,81 @@ export async function readFileLines(absPath: string, lineStart: number, lineEnd:
   }
 }
 
+/**
+ * 이전 턴에서 읽은 코드 조각 중 범위를 완전히 덮는 것이 있으면 그 안에서 잘라 돌려줍니다.
+ *
+ * @param {CodeSlice[]} prior 이전 코드 조각
+ * @param {string} file 파일(상대 경로)
+ * @param {number} lineStart 시작 라인(1-based, inclusive)
+ * @param {number} lineEnd 끝 라인(1-based, inclusive)
+ * @returns {string|null} 범위 문자열 또는 null
+ */
+export function sliceFromPrior(prior: CodeSlice[], file: string, lineStart: number, lineEnd: number): string | null {
+  const s = Math.max(1, lineStart | 0);
+  const e = Math.max(s, lineEnd | 0);
+  const hit = prior.find((p) => p.file === file && p.startLine <= s && p.endLine >= e);
+  if (!hit) return null;
+  return hit.code.split('\n').slice(s - hit.startLine, e - hit.startLine + 1).join('\n');
+}
+
 /**
  * LangGraph 노드: 선택된 코드 라인 범위를 실제 파일에서 읽어
  * {@link CodeSlice} 배열을 구성하고 상태에 기록합니다.
  *
- * - CODE_MAX_FILES, CODE_MAX_BYTES 상한이 적용됩니다.
- * - MAX_CODE_TOKENS가 설정된 경우, 근사 토큰 기준으로 자릅니다.
+ * - 읽기 전에 범위를 정리합니다({@link normalizeRanges}: 선언 경계로 넓히기, 병합, 클램프 — 바뀐 것은 trace `rangeAdjustments`).
+ * - 같은 대화의 이전 턴에서 읽은 범위는 파일을 다시 읽지 않고 재사용합니다(`priorSlices`).
+ * - 다시 탐색한 반복(`_loopCount` > 0)이면 앞 반복의 코드 조각도 함께 싣습니다
+ *   (다시 탐색은 새 파일만 고르므로, 빼면 앞 답변의 근거가 사라짐).
+ * - 읽은 조각은 관련도 순으로 코드 토큰 예산({@link calcCodeBudget}, 없으면 MAX_CODE_TOKENS)에 채워 넣습니다({@link packSlices}).
+ *   큰 조각은 요약본(시그니처 + 질문 심볼 줄)으로 들어갈 수 있고, CODE_MAX_BYTES/CODE_MAX_FILES 상한도 적용됩니다(trace `slicePacking`).
  *
  * @param {GraphState} state 현재 상태( codeRanges 필요 )
  * @returns {Promise<GraphState>} codeSlices가 채워진 새 상태
  */
 export async function nodeLoadCodeSlices(state: GraphState): Promise<GraphState> {
-  const ranges = state.codeRanges ?? [];
-  if (!ranges.length) return { ...state, codeSlices: [] };
+  const carried = state._loopCount ? state.codeSlices ?? [] : [];
+  const requested: CodeRange[] = [
+    ...carried.map((s) => ({ file: s.file, startLine: s.startLine, endLine: s.endLine, rationale: s.rationale })),
+    ...(state.codeRanges ?? []),
+  ];
+  if (!requested.length) return { ...state, codeSlices: [] };
 
-  const picked = env.CODE_MAX_FILES > 0 ? ranges.slice(0, env.CODE_MAX_FILES) : ranges;
-
-  const slices: CodeSlice[] = [];
-  let totalBytes = 0;
   const projectRoot = state.projectRoot ?? env.PROJECT_ROOT;
+  const { ranges, adjustments } = await normalizeRanges(requested, projectRoot);
 
-  for (const r of picked) {
-    const abs = path.resolve(projectRoot, r.file);
-    const code = await readFileLines(abs, r.startLine, r.endLine);
+  // 요약본은 원래 줄이 아니므로 재사용하지 않음
+  const reusable = [...(state.priorSlices ?? []), ...carried.filter((s) => !s.reduced)];
+  const slices: CodeSlice[] = [];
+  let reused = 0;
+  for (const r of ranges) {
+    let code = sliceFromPrior(reusable, r.file, r.startLine, r.endLine);
+    if (code != null) reused++;
+    else code = await readFileLines(path.resolve(projectRoot, r.file), r.startLine, r.endLine);
     if (code == null) continue;
-
-    const bytes = Buffer.byteLength(code, 'utf8');
-    if (env.CODE_MAX_BYTES > 0 && totalBytes + bytes > env.CODE_MAX_BYTES) break;
-
     slices.push({ file: r.file, startLine: r.startLine, endLine: r.endLine, code, rationale: r.rationale });
-    totalBytes += bytes;
   }
 
-  // 선택적 토큰 컷 (컨텍스트 창 기반/레거시)
-  const hardBudget = env.MAX_CODE_TOKENS;
-  if (hardBudget > 0) {
-    let used = 0;
-    const trimmed: CodeSlice[] = [];
-    for (const s of slices) {
-      const t = Math.ceil(s.code.length / 4);
-      if (used + t > hardBudget) break;
-      used += t;
-      trimmed.push(s);
-    }
-    return { ...state, codeSlices: trimmed };
-  }
+  // 코드 토큰 예산 (컨텍스트 창 기반/레거시)
+  const budget =
+    calcCodeBudget({
+      question: state.question,
+      filteredAst: state.filteredAst,
+      pruned: !!state.prunedAsts,
+      droppedAll: !!state.droppedAll,
+    }) || env.MAX_CODE_TOKENS;
+  const { slices: packed, packing } = packSlices(slices, {
+    budget,
+    maxBytes: env.CODE_MAX_BYTES,
+    maxFiles: env.CODE_MAX_FILES,
+    question: state.question,
+    symbols: state.sliceHints?.symbols ?? [],
+    outlines: outlinesForFiles(state.filteredAst, [...new Set(slices.map((s) => s.file))]),
+  });
 
-  return { ...state, codeSlices: slices };
+  const it = state._trace?.iterations ?? 0;
+  const tr = state._trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
+  if (reusable.length) (tr.slicesReused ??= [])[it] = reused;
+  if (adjustments.length) (tr.rangeAdjustments ??= [])[it] = adjustments;
+  (tr.slicePacking ??= [])[it] = packing;
+  return { ...state, codeSlices: packed, _trace: tr };
 }
@@ -0,0 +1,190 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type Parser from 'tree-sitter';
+import { env } from '../config/env.js';
+import { countLines } from '../core/lines.js';
+import type { CodeRange, RangeAdjustment } from '../core/types.js';
+import { getLanguageForFile } from '../ast/languages.js';
+import { parseWithCache } from '../ast/tree-cache.js';
+
+/** 범위를 넓힐 기준이 되는 선언 노드(언어 공통) */
+const DECLARATION_TYPES = new Set([
+  // JS/TS
+  'function_declaration',
+  'generator_function_declaration',
+  'class_declaration',
+  'abstract_class_declaration',
+  'method_definition',
+  'interface_declaration',
+  'type_alias_declaration',
+  'enum_declaration',
+  'lexical_declaration',
+  'internal_module',
+  // C/C++
+  'function_definition',
+  'struct_specifier',
+  'union_specifier',
+  'enum_specifier',
+  'class_specifier',
+  'namespace_definition',
+  'type_definition',
+  // Java/Kotlin
+  'method_declaration',
+  'constructor_declaration',
+  'record_declaration',
+  'object_declaration',
+  // Python
+  'class_definition',
+]);
+
+/** 선언을 감싸 함께 읽어야 하는 노드(export, 데코레이터, template 등) */
+const WRAPPER_TYPES = new Set(['export_statement', 'ambient_declaration', 'decorated_definition', 'template_declaration']);
+
+/** 파일 하나의 줄 수와 선언 노드 */
+interface FileShape {
+  lines: number;
+  declarations: Parser.SyntaxNode[];
+}
+
+/**
+ * 파일을 읽어 줄 수와 선언 노드를 모읍니다(파스 트리는 tree-cache 재사용).
+ * @param {string} absPath 파일 절대 경로
+ * @param {string} projectRoot 프로젝트 루트
+ * @returns {Promise<FileShape|null>} 읽지 못하면 null, 지원하지 않는 언어면 선언 없이 줄 수만
+ */
+async function fileShape(absPath: string, projectRoot: string): Promise<FileShape | null> {
+  let code: string;
+  try {
+    code = await fs.readFile(absPath, 'utf8');
+  } catch {
+    return null;
+  }
+  const lines = countLines(code);
+  if (env.CODE_SNAP_MAX_LINES <= 0) return { lines, declarations: [] };
+
+  const { language } = getLanguageForFile(absPath, projectRoot, code);
+  if (!language) return { lines, declarations: [] };
+  const tree = parseWithCache(absPath, language, code);
+  // 본문 없는 struct 참조(`struct foo *p`)와 함수 안의 지역 변수 선언은 선언 경계로 보지 않음
+  const declarations = tree.rootNode
+    .descendantsOfType([...DECLARATION_TYPES])
+    .filter((d) => (d.type.endsWith('_specifier') ? !!d.childForFieldName('body') : true))
+    .filter((d) => d.type !== 'lexical_declaration' || d.parent?.type === 'program' || d.parent?.type === 'export_statement');
+  return { lines, declarations };
+}
+
+/** 선언을 감싸는 export/데코레이터/template 노드까지 올라갑니다. */
+function withWrappers(node: Parser.SyntaxNode): Parser.SyntaxNode {
+  let n = node;
+  while (n.parent && WRAPPER_TYPES.has(n.parent.type)) n = n.parent;
+  return n;
+}
+
+/**
+ * 라인(0-based row)을 감싸는 가장 안쪽 선언
+ * - 다른 선언을 품은 선언(클래스 본문 사이 등)은 통째로 넓히지 않도록 null을 돌려줍니다.
+ */
+function enclosingDeclaration(shape: FileShape, row: number): Parser.SyntaxNode | null {
+  let best: Parser.SyntaxNode | null = null;
+  for (const d of shape.declarations) {
+    if (d.startPosition.row > row || d.endPosition.row < row) continue;
+    if (!best || d.endPosition.row - d.startPosition.row < best.endPosition.row - best.startPosition.row) best = d;
+  }
+  if (!best) return null;
+  const b = best;
+  const hasMembers = shape.declarations.some(
+    (o) => o !== b && o.startIndex >= b.startIndex && o.endIndex <= b.endIndex && o.startPosition.row !== b.startPosition.row
+  );
+  return hasMembers ? null : b;
+}
+
+/**
+ * 코드 범위를 읽기 전에 정리합니다.
+ *
+ * - 파일 길이(`[1..lines]`)로 클램프하고, 파일 밖이거나 읽을 수 없는 범위는 버립니다.
+ * - 시작/끝 라인이 선언(함수, 메서드, 클래스 등) 중간에 걸치면 파스 트리로 그 선언의 경계까지 넓힙니다.
+ *   (다른 선언을 품은 선언은 통째로 넓히지 않고, `CODE_SNAP_MAX_LINES`보다 긴 선언도 넓히지 않음)
+ * - 파일별로 겹치거나 맞닿은 범위를 합칩니다(파일은 처음 나온 순서, 근거는 `; `로 이음).
+ * - 바뀐 범위는 {@link RangeAdjustment}로 돌려줍니다.
+ *
+ * @param {CodeRange[]} ranges 선택된 코드 범위
+ * @param {string} projectRoot 프로젝트 루트
+ * @returns {Promise<{ranges: CodeRange[]; adjustments: RangeAdjustment[]}>} 정리된 범위와 조정 기록
+ */
+export async function normalizeRanges(
+  ranges: CodeRange[],
+  projectRoot: string
+): Promise<{ ranges: CodeRange[]; adjustments: RangeAdjustment[] }> {
+  const shapes = new Map<string, FileShape | null>();
+  const adjustments: RangeAdjustment[] = [];
+  // 파일 → 정리 중인 범위(요청 범위와 조정 기록을 함께 들고 감)
+  const byFile = new Map<string, Array<{ range: CodeRange; adjustment: RangeAdjustment }>>();
+
+  for (const r of ranges) {
+    const requested = { startLine: r.startLine, endLine: r.endLine };
+    if (!shapes.has(r.file)) shapes.set(r.file, await fileShape(path.resolve(projectRoot, r.file), projectRoot));
+    const shape = shapes.get(r.file)!;
+    const adjustment: RangeAdjustment = { file: r.file, requested, reasons: [] };
+
+    let start = Math.min(r.startLine, r.endLine);
+    let end = Math.max(r.startLine, r.endLine);
+    if (!shape || start > shape.lines) {
+      adjustments.push({ ...adjustment, reasons: ['dropped'] });
+      continue;
+    }
+    if (start < 1 || end > shape.lines) adjustment.reasons.push('clamped');
+    start = Math.max(1, start);
+    end = Math.min(shape.lines, end);
+
+    const declarations: string[] = [];
+    for (const row of [start - 1, end - 1]) {
+      const decl = enclosingDeclaration(shape, row);
+      const d = decl && withWrappers(decl);
+      if (!d || d.endPosition.row - d.startPosition.row + 1 > env.CODE_SNAP_MAX_LINES) continue;
+      const [from, to] = [d.startPosition.row + 1, d.endPosition.row + 1];
+      if (from >= start && to <= end) continue;
+      start = Math.min(start, from);
+      end = Math.max(end, Math.min(shape.lines, to));
+      declarations.push(decl.type);
+    }
+    if (declarations.length) {
+      adjustment.reasons.push('expanded');
+      adjustment.declarations = [...new Set(declarations)];
+    }
+
+    const list = byFile.get(r.file) ?? [];
+    list.push({ range: { ...r, startLine: start, endLine: end }, adjustment });
+    byFile.set(r.file, list);
+  }
+
+  const out: CodeRange[] = [];
+  for (const list of byFile.values()) {
+    list.sort((a, b) => a.range.startLine - b.range.startLine);
+    let cur: { range: CodeRange; adjustments: RangeAdjustment[] } | null = null;
+    const flush = () => {
+      if (!cur) return;
+      for (const a of cur.adjustments) {
+        a.result = { startLine: cur.range.startLine, endLine: cur.range.endLine };
+        if (cur.adjustments.length > 1) a.reasons.push('merged');
+        if (a.reasons.length) adjustments.push(a);
+      }
+      out.push(cur.range);
+    };
+    for (const { range, adjustment } of list) {
+      if (cur && range.startLine <= cur.range.endLine + 1) {
+        const rationale = [...new Set([cur.range.rationale, range.rationale].filter(Boolean))].join('; ');
+        cur.range = {
+          ...cur.range,
+          endLine: Math.max(cur.range.endLine, range.endLine),
+          ...(rationale ? { rationale } : {}),
+        };
+        cur.adjustments.push(adjustment);
+        continue;
+      }
+      flush();
+      cur = { range, adjustments: [adjustment] };
+    }
+    flush();
+  }
+  return { ranges: out, adjustments };
+}
@@ -0,0 +1,238 @@
+import type { CodeSlice, SlicePacking, SlicePackItem } from '../core/types.js';
+import { countTokens } from '../core/tokenizer.js';
+import type { FileOutline } from '../ast/outline.js';
+
+/** 요약본(시그니처 + 질문 심볼 라인)의 가치 비율(전체 조각 대비) */
+const REDUCED_VALUE = 0.6;
+/** 요약본이 전체의 이 비율보다 크면 요약본을 후보로 두지 않음 */
+const REDUCED_MAX_RATIO = 0.6;
+/** DP 용량 칸 수(예산을 이만큼으로 나눠 근사) */
+const DP_SLOTS = 1000;
+
+/** 질문에서 검색어로 쓰지 않을 흔한 단어 */
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'what', 'how', 'does', 'this', 'that', 'with', 'from', 'where', 'when', 'which',
+  'who', 'why', 'into', 'about', 'code', 'file', 'files', 'function', 'method', 'class', 'called', 'used',
+]);
+
+/** 패킹 조건 */
+export interface PackOptions {
+  /** 코드 토큰 예산(0이면 바이트 상한으로, 둘 다 없으면 전부) */
+  budget: number;
+  /** 코드 바이트 상한(0이면 없음) */
+  maxBytes: number;
+  /** 파일 수 상한(0이면 없음) */
+  maxFiles: number;
+  question: string;
+  /** 파일 결정 단계의 심볼 힌트(`sliceHints.symbols`) */
+  symbols: string[];
+  /** 파일 → 아웃라인(요약본 시그니처 라인용) */
+  outlines: Map<string, FileOutline>;
+}
+
+/** 조각 하나를 넣는 방법 */
+interface Option {
+  choice: 'full' | 'reduced';
+  slices: CodeSlice[];
+  tokens: number;
+  bytes: number;
+  value: number;
+}
+
+/** 후보 조각(점수, 넣는 방법) */
+interface Candidate {
+  slice: CodeSlice;
+  score: number;
+  options: Option[];
+}
+
+/** 텍스트 속 식별자(3자 이상, 소문자) */
+function identifiers(text: string): string[] {
+  return (text.match(/[A-Za-z_$][\w$]*/g) ?? [])
+    .filter((w) => w.length >= 3)
+    .map((w) => w.toLowerCase())
+    .filter((w) => !STOPWORDS.has(w));
+}
+
+/** 검색어 → 가중치(심볼 힌트 3, 질문 단어 1) */
+function queryTerms(question: string, symbols: string[]): Map<string, number> {
+  const terms = new Map<string, number>();
+  for (const w of identifiers(question)) terms.set(w, 1);
+  for (const w of symbols.flatMap(identifiers)) terms.set(w, 3);
+  return terms;
+}
+
+/**
+ * 조각의 관련도
+ * - 코드(와 근거)에 나오는 검색어 가중치 합
+ * - 모델이 고른 순서는 쓰지 않음(범위 정리에서 파일/줄 순으로 합쳐지고 앞 반복의 조각이 앞에 붙으므로)
+ */
+function relevance(slice: CodeSlice, terms: Map<string, number>): number {
+  const text = `${slice.code}\n${slice.rationale ?? ''}`.toLowerCase();
+  let hits = 0;
+  for (const [term, weight] of terms) if (text.includes(term)) hits += weight;
+  return 1 + hits;
+}
+
+/**
+ * 요약본: 범위 안 선언의 시그니처(첫 줄)와 검색어가 나오는 줄(±1줄)만 남긴 조각들
+ * - 줄 번호를 지키도록 맞닿은 줄끼리 묶어 여러 조각으로 나눕니다.
+ * @returns {CodeSlice[]} 요약 조각(남길 줄이 없으면 빈 배열)
+ */
+function reduceSlice(slice: CodeSlice, terms: Map<string, number>, outline?: FileOutline): CodeSlice[] {
+  const lines = slice.code.split('\n');
+  const keep = new Set<number>();
+  for (const s of outline?.symbols ?? []) {
+    if (s.startLine >= slice.startLine && s.startLine <= slice.endLine) keep.add(s.startLine);
+  }
+  lines.forEach((line, i) => {
+    const text = line.toLowerCase();
+    if (![...terms.keys()].some((t) => text.includes(t))) return;
+    const n = slice.startLine + i;
+    for (const m of [n - 1, n, n + 1]) if (m >= slice.startLine && m <= slice.endLine) keep.add(m);
+  });
+
+  const out: CodeSlice[] = [];
+  for (const n of [...keep].sort((a, b) => a - b)) {
+    const last = out.at(-1);
+    if (last && last.endLine === n - 1) {
+      last.endLine = n;
+      last.code += `\n${lines[n - slice.startLine]}`;
+    } else {
+      out.push({
+        file: slice.file,
+        startLine: n,
+        endLine: n,
+        code: lines[n - slice.startLine],
+        rationale: slice.rationale,
+        reduced: true,
+      });
+    }
+  }
+  return out;
+}
+
+/** 넣는 방법의 토큰/바이트/가치 */
+function optionOf(choice: Option['choice'], slices: CodeSlice[], value: number): Option {
+  return {
+    choice,
+    slices,
+    tokens: slices.reduce((n, s) => n + countTokens(s.code), 0),
+    bytes: slices.reduce((n, s) => n + Buffer.byteLength(s.code, 'utf8'), 0),
+    value,
+  };
+}
+
+/**
+ * 조각별로 전체/요약본/제외 중 하나를 골라 용량 안에서 가치 합이 가장 큰 조합을 찾습니다(다중 선택 배낭, DP).
+ * @returns {(Option|null)[]} 후보별 선택(null이면 제외)
+ */
+function knapsack(candidates: Candidate[], weight: (o: Option) => number, capacity: number): (Option | null)[] {
+  const unit = Math.max(1, Math.ceil(capacity / DP_SLOTS));
+  const cap = Math.floor(capacity / unit);
+  const w = (o: Option) => Math.ceil(weight(o) / unit);
+
+  // best[j]: 무게 j 이하에서 얻는 최대 가치, pick[i][j]: i번째 후보의 선택(-1이면 제외)
+  let best = new Array<number>(cap + 1).fill(0);
+  const pick: Int16Array[] = [];
+  candidates.forEach((c, i) => {
+    const next = best.slice();
+    pick[i] = new Int16Array(cap + 1).fill(-1);
+    c.options.forEach((o, k) => {
+      const ow = w(o);
+      for (let j = cap; j >= ow; j--) {
+        const v = best[j - ow] + o.value;
+        if (v > next[j]) {
+          next[j] = v;
+          pick[i][j] = k;
+        }
+      }
+    });
+    best = next;
+  });
+
+  const chosen: (Option | null)[] = new Array(candidates.length).fill(null);
+  let j = cap;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const k = pick[i][j];
+    if (k < 0) continue;
+    chosen[i] = candidates[i].options[k];
+    j -= w(chosen[i]!);
+  }
+  return chosen;
+}
+
+/**
+ * 읽어 둔 코드 조각을 관련도 순으로 예산에 채워 넣습니다.
+ *
+ * - 관련도: 질문 단어/심볼 힌트가 코드에 나오는 정도(같으면 들어온 순서)
+ * - 조각마다 전체, 요약본(선언 시그니처 + 질문 심볼이 나오는 줄), 제외 중 하나를 골라
+ *   토큰 예산(없으면 바이트 상한) 안에서 관련도 합이 가장 큰 조합을 고릅니다(배낭 문제).
+ *   앞쪽의 큰 조각 하나가 뒤의 조각을 모두 밀어내지 않고, 너무 큰 조각은 통째로 버리는 대신 요약본으로 들어갑니다.
+ * - 토큰 예산으로 고른 뒤 바이트 상한/파일 수 상한을 넘으면 관련도가 낮은 것부터 뺍니다.
+ * - 결과는 관련도 높은 순이며, 조각별 선택은 {@link SlicePacking}으로 돌려줍니다.
+ *
+ * @param {CodeSlice[]} slices 읽어 둔 코드 조각
+ * @param {PackOptions} opts 예산/상한과 검색어
+ * @returns {{slices: CodeSlice[]; packing: SlicePacking}} 담은 조각과 패킹 기록
+ */
+export function packSlices(slices: CodeSlice[], opts: PackOptions): { slices: CodeSlice[]; packing: SlicePacking } {
+  const terms = queryTerms(opts.question, opts.symbols);
+  const candidates: Candidate[] = slices
+    .map((slice) => {
+      const score = relevance(slice, terms);
+      const full = optionOf('full', [slice], score);
+      const options = [full];
+      const reduced = optionOf('reduced', reduceSlice(slice, terms, opts.outlines.get(slice.file)), score * REDUCED_VALUE);
+      if (reduced.slices.length && reduced.tokens < full.tokens * REDUCED_MAX_RATIO) options.push(reduced);
+      return { slice, score, options };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const unit: SlicePacking['unit'] = opts.budget > 0 ? 'tokens' : opts.maxBytes > 0 ? 'bytes' : null;
+  const chosen =
+    unit === 'tokens'
+      ? knapsack(candidates, (o) => o.tokens, opts.budget)
+      : unit === 'bytes'
+        ? knapsack(candidates, (o) => o.bytes, opts.maxBytes)
+        : candidates.map((c) => c.options[0]);
+
+  // 토큰 예산으로 고른 뒤 남은 상한(바이트, 파일 수) — 관련도 낮은 것부터 뺌
+  const byRank = chosen.map((o, i) => ({ o, i })).filter((x) => x.o);
+  const drop = (i: number) => (chosen[i] = null);
+  if (unit === 'tokens' && opts.maxBytes > 0) {
+    let bytes = byRank.reduce((n, x) => n + x.o!.bytes, 0);
+    for (const { o, i } of [...byRank].reverse()) {
+      if (bytes <= opts.maxBytes) break;
+      bytes -= o!.bytes;
+      drop(i);
+    }
+  }
+  if (opts.maxFiles > 0) {
+    const files: string[] = [];
+    chosen.forEach((o, i) => {
+      if (!o) return;
+      const file = candidates[i].slice.file;
+      if (!files.includes(file)) {
+        if (files.length >= opts.maxFiles) return drop(i);
+        files.push(file);
+      }
+    });
+  }
+
+  const items: SlicePackItem[] = candidates.map((c, i) => ({
+    file: c.slice.file,
+    startLine: c.slice.startLine,
+    endLine: c.slice.endLine,
+    score: Math.round(c.score * 100) / 100,
+    tokens: c.options[0].tokens,
+    choice: chosen[i]?.choice ?? 'dropped',
+    ...(chosen[i]?.choice === 'reduced' ? { reducedTokens: chosen[i]!.tokens } : {}),
+  }));
+  const packed = chosen.flatMap((o) => o?.slices ?? []);
+  const used = chosen.reduce((n, o) => n + (o ? (unit === 'bytes' ? o.bytes : o.tokens) : 0), 0);
+  return {
+    slices: packed,
+    packing: { unit, budget: unit === 'tokens' ? opts.budget : unit === 'bytes' ? opts.maxBytes : 0, used, items },
+  };
+}
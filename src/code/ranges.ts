@@ -1,15 +1,19 @@
-import { SystemMessage, HumanMessage } from '@langchain/core/messages';
-import type { ChatOpenAI } from '@langchain/openai';
-import { PROMPT_SELECT_CODE_RANGES } from '../config/prompts.js';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import type { ChatModel } from '../llm/provider.js';
+import { CodeRangesSchema } from '../llm/schemas.js';
+import { invokeStructured } from '../llm/structured.js';
+import { PROMPT_ANSWER_FROM_CODE, PROMPT_SELECT_CODE_RANGES } from '../config/prompts.js';
 import type { CodeRange, GraphState } from '../core/types.js';
+import { countMessageTokens, fitToTokens } from '../core/tokenizer.js';
 import { countNodesQuick, topKTypes } from '../ast/meta.js';
+import { outlinesForFiles, clampRangeToOutline, type FileOutline } from '../ast/outline.js';
 import { env } from '../config/env.js';
 
 /**
  * 코드 단계용 **컨텍스트 창 기반** 토큰 예산을 계산합니다.
  *
- * - CTX에서 출력/오버헤드를 제외하고, CODE_SAFETY 비율을 적용해
- *   코드 조각(code slices)에 할당할 수 있는 안전한 예산을 근사합니다.
+ * - CTX에서 출력/오버헤드(코드 답변 프롬프트에서 코드 조각을 뺀 나머지를 토크나이저로 측정)를 제외하고,
+ *   CODE_SAFETY 비율을 적용해 코드 조각(code slices)에 할당할 수 있는 안전한 예산을 계산합니다.
  *
  * @param {{question:string; filteredAst:any; pruned:boolean; droppedAll:boolean}} opts
  * @returns {number} 코드 조각에 배정 가능한 토큰 예산
@@ -21,33 +25,62 @@ export function calcCodeBudget(opts: {
   droppedAll: boolean;
 }): number {
   if (env.MODEL_CTX_TOKENS <= 0) return 0;
+  const envelope = JSON.stringify({
+    question: opts.question,
+    codeSlices: [],
+    astMeta: [],
+    filteredAstMeta: { files: opts.filteredAst?.files ?? [] },
+  });
+  // 슬라이스별 file/라인/rationale 필드와 astMeta 몫으로 여유 200
   const baseOverhead =
-    1200 +
-    Math.ceil((opts.question?.length ?? 0) / 4) +
-    Math.ceil(JSON.stringify({ files: (opts.filteredAst?.files ?? []).slice(0, 200) }).length / 4) +
-    200;
+    countMessageTokens([new SystemMessage(PROMPT_ANSWER_FROM_CODE), new HumanMessage(envelope)]) + 200;
   const usable = env.MODEL_CTX_TOKENS - env.OUTPUT_TOKENS_BUDGET - baseOverhead;
   const safe = Math.floor(usable * env.CODE_SAFETY);
   return Math.max(0, safe);
 }
 
+/**
+ * LLM이 반환한 범위를 파일 아웃라인에 맞춰 검증합니다.
+ *
+ * - 후보 파일(아웃라인이 있는 파일)이 아닌 범위는 버립니다.
+ * - 남은 범위는 {@link clampRangeToOutline}으로 파일 길이에 맞춥니다(선언 경계로 넓히는 일은 `normalizeRanges`가 함).
+ *
+ * @param {CodeRange[]} ranges LLM이 반환한 범위
+ * @param {Map<string, FileOutline>} outlines 파일 → 아웃라인
+ * @returns {CodeRange[]} 보정된 범위
+ */
+export function validateRanges(ranges: CodeRange[], outlines: Map<string, FileOutline>): CodeRange[] {
+  const out: CodeRange[] = [];
+  for (const r of ranges) {
+    const outline = r && typeof r.file === 'string' ? outlines.get(r.file) : undefined;
+    if (!outline) continue;
+    const clamped = clampRangeToOutline(r, outline);
+    if (clamped) out.push(clamped);
+  }
+  return out;
+}
+
 /**
  * LangGraph 노드: **프룬된 AST 메타**를 입력으로
  * LLM(또는 데모)에게 **보수적** 코드 라인 범위를 선택시키고 상태에 기록합니다.
  *
+ * - 파일별 심볼 아웃라인(선언 이름 + 라인 범위)을 함께 보내 실제 선언 기준으로 고르게 합니다.
+ * - 반환된 범위는 아웃라인으로 검증하고 파일 길이에 맞춥니다.
  * - LLM 부재 시 데모 정책: 파일 상단 200줄 선택
  * - 반환 형식: {@link CodeRange}[]
  *
- * @param {ChatOpenAI|null} llm OpenAI 챗 모델 인스턴스(없으면 데모 경로)
+ * @param {ChatModel|null} llm 챗 모델 인스턴스(없으면 데모 경로)
  * @param {GraphState} state 현재 그래프 상태
  * @returns {Promise<GraphState>} codeRanges가 채워진 새 상태
  */
-export async function nodeSelectCodeRanges(llm: ChatOpenAI | null, state: GraphState): Promise<GraphState> {
+export async function nodeSelectCodeRanges(llm: ChatModel | null, state: GraphState): Promise<GraphState> {
   const sourceForPlan = state.prunedAsts && state.prunedAsts.length ? state.prunedAsts : state.detailedAsts;
   if (!sourceForPlan.length) {
     return { ...state, codeRanges: [] };
   }
 
+  const outlines = outlinesForFiles(state.filteredAst, sourceForPlan.map((a) => a.filePath));
+
   // LLM 부재 시: 파일당 상단 200줄
   if (!llm || typeof (llm as any).invoke !== 'function') {
     const ranges: CodeRange[] = sourceForPlan
@@ -57,24 +90,25 @@ export async function nodeSelectCodeRanges(llm: ChatOpenAI | null, state: GraphS
   }
 
   const system = PROMPT_SELECT_CODE_RANGES;
-  const meta = sourceForPlan.map((a) => ({
-    file: a.filePath,
-    approxNodes: countNodesQuick(a.root),
-    topTypes: topKTypes(a.root, 5),
-  }));
-
-  const user = JSON.stringify({
-    question: state.question,
-    filteredAstMeta: { files: (state.filteredAst as any)?.files ?? [] },
-    astMeta: meta,
+  const meta = sourceForPlan.map((a) => {
+    const outline = outlines.get(a.filePath);
+    return {
+      file: a.filePath,
+      approxNodes: countNodesQuick(a.root),
+      topTypes: topKTypes(a.root, 5),
+      lines: outline?.lines,
+      outline: (outline?.symbols ?? []).map((s) => ({ kind: s.kind, name: s.name, startLine: s.startLine, endLine: s.endLine })),
+    };
   });
 
-  const resp = await (llm as any).invoke([new SystemMessage(system), new HumanMessage(user)]);
-  try {
-    const parsed = JSON.parse((resp as any).content);
-    const ranges: CodeRange[] = Array.isArray(parsed?.ranges) ? parsed.ranges : [];
-    return { ...state, codeRanges: ranges };
-  } catch {
-    return { ...state, codeRanges: [] };
-  }
+  const render = (n: number) =>
+    JSON.stringify({
+      question: state.question,
+      filteredAstMeta: { files: (state.filteredAst as any)?.files ?? [] },
+      astMeta: meta.slice(0, n),
+    });
+  const user = (budget: number) => fitToTokens(meta.length, budget, render, (i) => JSON.stringify(meta[i])).text;
+
+  const { value } = await invokeStructured(llm, { step: 'codeRanges', system, user, schema: CodeRangesSchema, state });
+  return { ...state, codeRanges: validateRanges(value?.ranges ?? [], outlines) };
 }
@@ -1,4 +1,5 @@
 import 'dotenv/config';
+import os from 'os';
 import path from 'path';
 
 /**
@@ -31,18 +32,43 @@ function envNum(val: string | undefined | null, def = 0): number {
 export const env = {
   PROJECT_ROOT: process.env.PROJECT_ROOT || path.resolve(process.cwd(), 'project'),
   FILTERED_AST_PATH: process.env.FILTERED_AST_PATH || path.resolve(process.cwd(), 'data/filtered_ast.json'),
+  INDEX_STORE_DIR: process.env.INDEX_STORE_DIR || path.resolve(process.cwd(), 'data/index'),
+  INDEX_GITIGNORE: envFlag(process.env.INDEX_GITIGNORE, true),
+  INDEX_MAX_FILE_BYTES: envNum(process.env.INDEX_MAX_FILE_BYTES, 1_000_000),
+  INDEX_WORKERS: envNum(process.env.INDEX_WORKERS, Math.max(1, os.availableParallelism() - 1)),
+  WATCH: envFlag(process.env.WATCH, false),
+  WATCH_DEBOUNCE_MS: envNum(process.env.WATCH_DEBOUNCE_MS, 300),
 
   TRACE_LANGGRAPH: String(process.env.TRACE_LANGGRAPH || '0') === '1',
   TRACE_MAX_JSON: envNum(process.env.TRACE_MAX_JSON, 2000),
 
   PROMPT_MODE: ((process.env.PROMPT_MODE || 'slice').toLowerCase() as 'slice' | 'full') || 'slice',
   MAX_LOOPS: envNum(process.env.MAX_LOOPS, 1),
+  /** 답변 뒤에 근거 검증(주장별 판정, 근거 부족이면 추가 탐색 또는 신뢰도 낮음 표시) */
+  GROUNDING_CHECK: envFlag(process.env.GROUNDING_CHECK, true),
+  /** pipeline: 고정 파이프라인, agent: 모델이 도구를 호출하며 탐색 */
+  GRAPH_MODE: ((process.env.GRAPH_MODE || 'pipeline').trim().toLowerCase() as 'pipeline' | 'agent') || 'pipeline',
+  /** (agent) 모델 호출 최대 횟수 */
+  AGENT_MAX_STEPS: envNum(process.env.AGENT_MAX_STEPS, 12),
+  /** (agent) 도구 결과로 모델에 돌려줄 수 있는 총 토큰 수 */
+  AGENT_MAX_TOOL_TOKENS: envNum(process.env.AGENT_MAX_TOOL_TOKENS, 24_000),
+  /** (agent) 도구 결과 하나의 최대 토큰 수(넘으면 자름) */
+  AGENT_TOOL_RESULT_TOKENS: envNum(process.env.AGENT_TOOL_RESULT_TOKENS, 2_000),
+
+  /** 상세 AST를 만든 파일이 이 수 이상이면 prune 대신 파일별 map-reduce(0이면 끔) */
+  MAP_REDUCE_MIN_FILES: envNum(process.env.MAP_REDUCE_MIN_FILES, 12),
+  /** map 단계 LLM 호출을 동시에 몇 개까지 실행할지(0이면 제한 없음) */
+  MAP_CONCURRENCY: envNum(process.env.MAP_CONCURRENCY, 4),
+  /** map 프롬프트에 싣는 파일 하나의 최대 코드 토큰 수(넘으면 뒤를 자름) */
+  MAP_FILE_TOKENS: envNum(process.env.MAP_FILE_TOKENS, 6000),
 
   PRUNE_ALLOW_DROP_ALL: envFlag(process.env.PRUNE_ALLOW_DROP_ALL, true),
   PRUNE_SERVER_ENFORCE_LIMITS: envFlag(process.env.PRUNE_SERVER_ENFORCE_LIMITS, true),
   PROMPT_MAX_FILES: envNum(process.env.PROMPT_MAX_FILES, 0),
   MAX_AST_TOKENS: envNum(process.env.MAX_AST_TOKENS, 0),
 
+  /** o200k_base | cl100k_base | chars (비우면 공급자 모델로 선택, chars는 예전 length/4 근사) */
+  TOKENIZER: (process.env.TOKENIZER || '').trim().toLowerCase(),
   MODEL_CTX_TOKENS: envNum(process.env.MODEL_CTX_TOKENS, 0),
   OUTPUT_TOKENS_BUDGET: envNum(process.env.OUTPUT_TOKENS_BUDGET, 1500),
   PROMPT_SAFETY: Number(process.env.PROMPT_SAFETY ?? 0.8),
@@ -51,13 +77,59 @@ export const env = {
   CODE_MAX_BYTES: envNum(process.env.CODE_MAX_BYTES, 200_000),
   CODE_SAFETY: Number(process.env.CODE_SAFETY ?? 0.8),
   MAX_CODE_TOKENS: envNum(process.env.MAX_CODE_TOKENS, 0),
+  /** 코드 범위가 걸친 선언을 이 줄 수까지만 통째로 넓힘(0이면 넓히지 않고 클램프/병합만) */
+  CODE_SNAP_MAX_LINES: envNum(process.env.CODE_SNAP_MAX_LINES, 300),
 
   OPENAI_API_KEY: (process.env.OPENAI_API_KEY || '').trim(),
   OPENAI_MODEL: process.env.OPENAI_MODEL || 'gpt-5-mini',
 
+  /** openai | openai-compatible | anthropic | fake | none (비우면 OPENAI_API_KEY 유무로 openai/none) */
+  LLM_PROVIDER: (process.env.LLM_PROVIDER || '').trim().toLowerCase(),
+  /** 공급자 기본 모델 대신 쓸 모델 이름 */
+  LLM_MODEL: (process.env.LLM_MODEL || '').trim(),
+  /** OpenAI 호환 엔드포인트(llama.cpp/Ollama/vLLM 등), 예: http://localhost:11434/v1 */
+  LLM_BASE_URL: (process.env.LLM_BASE_URL || '').trim(),
+  LLM_API_KEY: (process.env.LLM_API_KEY || '').trim(),
+  ANTHROPIC_API_KEY: (process.env.ANTHROPIC_API_KEY || '').trim(),
+  ANTHROPIC_MODEL: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+  /** fake 공급자의 스크립트(JSON) 경로 — 비우면 내장 스크립트 */
+  FAKE_LLM_SCRIPT: (process.env.FAKE_LLM_SCRIPT || '').trim(),
+  /** 공급자가 지원하면 tool-calling 기반 구조화 출력 사용(끄면 JSON 텍스트 파싱만) */
+  LLM_STRUCTURED_OUTPUT: envFlag(process.env.LLM_STRUCTURED_OUTPUT, true),
+  /** 응답이 스키마에 맞지 않을 때 오류를 알려주고 다시 요청하는 최대 횟수 */
+  LLM_REPAIR_RETRIES: envNum(process.env.LLM_REPAIR_RETRIES, 2),
+
   PORT: Number(process.env.PORT || 3000),
+  /** 대화를 마지막 사용 후 보관하는 시간(ms) */
+  CONVERSATION_TTL_MS: envNum(process.env.CONVERSATION_TTL_MS, 3_600_000),
+  /** 프롬프트에 싣는 이전 대화 턴 수 */
+  CONVERSATION_HISTORY_TURNS: envNum(process.env.CONVERSATION_HISTORY_TURNS, 4),
+  /** 대화별로 보관하는 코드 조각 수(오래된 것부터 버림) */
+  CONVERSATION_MAX_SLICES: envNum(process.env.CONVERSATION_MAX_SLICES, 32),
 
+  /** 단서가 없는 `.h` 헤더를 C++로 파싱(기본은 C) */
   C_HEADER_AS_CPP: envFlag(process.env.C_HEADER_AS_CPP, false),
+  /** C/C++ 인덱싱 전에 전처리(#if 분기 선택, #include 안의 매크로 추적) */
+  C_PREPROCESS: envFlag(process.env.C_PREPROCESS, true),
+  /** 모든 프로젝트에 적용할 매크로 정의(쉼표 구분, `NAME` 또는 `NAME=VALUE`) */
+  C_DEFINES: (process.env.C_DEFINES ?? '').split(',').map((s) => s.trim()).filter(Boolean),
+  TREE_CACHE_MAX_FILES: envNum(process.env.TREE_CACHE_MAX_FILES, 256),
+
+  DEPS_DEPTH: envNum(process.env.DEPS_DEPTH, 1),
+  DECIDE_NEIGHBOUR_FILES: envNum(process.env.DECIDE_NEIGHBOUR_FILES, 8),
+  CALLGRAPH_MAX_FILES: envNum(process.env.CALLGRAPH_MAX_FILES, 4),
+  /** 인덱스 파일 수가 이 값을 넘으면 파일 결정 전에 검색(BM25)으로 filtered AST를 줄임(0이면 끔) */
+  SEARCH_PRESELECT_MIN_FILES: envNum(process.env.SEARCH_PRESELECT_MIN_FILES, 300),
+  /** 검색으로 골라 파일 결정 프롬프트에 싣는 파일 수 */
+  SEARCH_PRESELECT_FILES: envNum(process.env.SEARCH_PRESELECT_FILES, 40),
+  /** 인덱스 파일 수가 이 값을 넘으면 파일 결정 전에 디렉토리 단위로 범위를 좁힘(0이면 끔) */
+  DRILLDOWN_MIN_FILES: envNum(process.env.DRILLDOWN_MIN_FILES, 2000),
+  /** 파일 수가 이 값 이하인 디렉토리는 더 열지 않고 통째로 범위에 넣음 */
+  DRILLDOWN_SCOPE_FILES: envNum(process.env.DRILLDOWN_SCOPE_FILES, 300),
+  /** 디렉토리 단위 탐색 최대 라운드 수 */
+  DRILLDOWN_MAX_ROUNDS: envNum(process.env.DRILLDOWN_MAX_ROUNDS, 4),
+  /** 디렉토리 한 줄 요약을 LLM으로 만들어 캐시(filtered AST 옆 `*.dirs.json`) */
+  DIR_SUMMARIES: envFlag(process.env.DIR_SUMMARIES, false),
 };
 
 export default env;
\ No newline at end of file
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+
+/** 프로젝트 루트에 두는 설정 파일 이름 */
+export const PROJECT_CONFIG_FILE = '.codebase-explorer.json';
+
+/**
+ * 프로젝트별 인덱싱 정책(설정 파일 `.codebase-explorer.json`)
+ *
+ * ```json
+ * { "include": ["src/"], "exclude": ["vendor/", "*.min.js"], "maxFileBytes": 500000, "gitignore": true }
+ * ```
+ * - 패턴은 프로젝트 루트 기준 **gitignore 문법**입니다.
+ */
+export interface ProjectConfig {
+  /** 지정하면 여기에 맞는 파일만 인덱싱 */
+  include?: string[];
+  /** 추가로 제외할 경로 */
+  exclude?: string[];
+  /** 이보다 큰 파일은 건너뜀(바이트, 0이면 제한 없음) */
+  maxFileBytes?: number;
+  /** `.gitignore`/`.ignore` 적용 여부(기본 true) */
+  gitignore?: boolean;
+  /** C/C++ 전처리(include 경로, 매크로 정의, compile_commands.json) */
+  preprocessor?: PreprocessorConfig;
+  /**
+   * `.h` 헤더 언어 지정(패턴 → `c`/`cpp`, 뒤에 적은 패턴 우선) — 자동 판별보다 우선
+   *
+   * ```json
+   * { "headerLanguage": { "include/": "cpp", "include/legacy/": "c" } }
+   * ```
+   */
+  headerLanguage?: Record<string, 'c' | 'cpp'>;
+}
+
+/**
+ * C/C++ 전처리 설정(`preprocessor`)
+ *
+ * ```json
+ * { "preprocessor": { "includePaths": ["include"], "defines": ["NDEBUG", "USE_FAST_ADD=1"], "compileCommands": "build/compile_commands.json" } }
+ * ```
+ */
+export interface PreprocessorConfig {
+  /** `#include` 검색 경로(프로젝트 루트 기준) */
+  includePaths?: string[];
+  /** 매크로 정의(`NAME`, `NAME=VALUE`, `F(x)=body`) 또는 이름 → 값 */
+  defines?: string[] | Record<string, string>;
+  /** compile_commands.json 경로(프로젝트 루트 기준, 없으면 루트와 `build/`에서 찾음) */
+  compileCommands?: string;
+}
+
+/** 로드된 프로젝트 설정 */
+export interface LoadedProjectConfig {
+  config: ProjectConfig;
+  /** 설정 파일 절대 경로(없으면 null) */
+  file: string | null;
+}
+
+/** 문자열 배열 필드 검증 */
+function stringList(value: unknown, key: string, file: string): string[] | undefined {
+  if (value == null) return undefined;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    throw new Error(`${file}: "${key}" must be an array of strings`);
+  }
+  return value as string[];
+}
+
+/** `preprocessor` 필드 검증 */
+function preprocessorConfig(value: unknown, file: string): PreprocessorConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${file}: "preprocessor" must be an object`);
+  }
+  const v = value as Record<string, unknown>;
+  const out: PreprocessorConfig = {};
+  const includePaths = stringList(v.includePaths, 'preprocessor.includePaths', file);
+  if (includePaths) out.includePaths = includePaths;
+  if (v.defines != null) {
+    const isMap =
+      typeof v.defines === 'object' &&
+      !Array.isArray(v.defines) &&
+      Object.values(v.defines as object).every((x) => typeof x === 'string');
+    if (!isMap) out.defines = stringList(v.defines, 'preprocessor.defines', file);
+    else out.defines = v.defines as Record<string, string>;
+  }
+  if (v.compileCommands != null) {
+    if (typeof v.compileCommands !== 'string') throw new Error(`${file}: "preprocessor.compileCommands" must be a string`);
+    out.compileCommands = v.compileCommands;
+  }
+  return out;
+}
+
+/**
+ * 프로젝트 루트의 설정 파일을 읽습니다(없으면 빈 설정).
+ *
+ * @param {string} projectRoot 프로젝트 루트(절대 경로)
+ * @returns {LoadedProjectConfig} 설정과 파일 경로
+ * @throws {Error} JSON 문법 오류 또는 필드 타입 오류
+ */
+export function loadProjectConfig(projectRoot: string): LoadedProjectConfig {
+  const file = path.join(projectRoot, PROJECT_CONFIG_FILE);
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, 'utf8');
+  } catch {
+    return { config: {}, file: null };
+  }
+
+  let json: any;
+  try {
+    json = JSON.parse(raw);
+  } catch (e: any) {
+    throw new Error(`${file}: invalid JSON (${e?.message || e})`);
+  }
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error(`${file}: top-level value must be an object`);
+  }
+
+  const config: ProjectConfig = {};
+  const include = stringList(json.include, 'include', file);
+  const exclude = stringList(json.exclude, 'exclude', file);
+  if (include) config.include = include;
+  if (exclude) config.exclude = exclude;
+  if (json.maxFileBytes != null) {
+    if (!Number.isFinite(json.maxFileBytes) || json.maxFileBytes < 0) {
+      throw new Error(`${file}: "maxFileBytes" must be a non-negative number`);
+    }
+    config.maxFileBytes = json.maxFileBytes;
+  }
+  if (json.gitignore != null) {
+    if (typeof json.gitignore !== 'boolean') throw new Error(`${file}: "gitignore" must be a boolean`);
+    config.gitignore = json.gitignore;
+  }
+  if (json.preprocessor != null) config.preprocessor = preprocessorConfig(json.preprocessor, file);
+  if (json.headerLanguage != null) {
+    const v = json.headerLanguage;
+    if (!v || typeof v !== 'object' || Array.isArray(v) || Object.values(v).some((x) => x !== 'c' && x !== 'cpp')) {
+      throw new Error(`${file}: "headerLanguage" must map patterns to "c" or "cpp"`);
+    }
+    config.headerLanguage = v;
+  }
+  return { config, file };
+}
@@ -4,7 +4,13 @@
 export const PROMPT_DECIDE_FILES = `
 You are an autonomous code exploration agent.
 Read a filtered project AST and decide the smallest set of files/modules to expand for deeper AST retrieval.
+Each index entry lists the file's declarations (function, method, class, interface, type_alias, enum, namespace, export_default, and C/C++ macro) with line spans; when the question names a symbol, prefer the file that declares it.
+"neighbourhood" lists candidate files with the project files they import and the files importing them; follow these edges from an entry point to its dependencies instead of guessing.
 If the previous prune dropped all detailed ASTs, avoid reselecting the same files unless strictly necessary.
+If "hint.missingEvidence" is present the previous answer was not backed by the code read so far; choose files that contain that missing code.
+If "scope" is present the project was first narrowed directory by directory: "filteredAst" then holds only the candidate files and files under "scope.dirs" / "scope.files"; "omittedFiles" counts the rest.
+If "search" is present the project is too large to list in full: "filteredAst" then holds only the candidate files and the top lexical search matches for the question ("search", best first, with matching symbols); "omittedFiles" counts the rest.
+If "history" is present it lists earlier turns of the same conversation (question, answer, files read); resolve follow-up references such as "it" or "that function" against it.
 Respond in strict JSON:
 {"wantFiles":[...relativePaths], "sliceHints":{"symbols":[...], "hintTypes":[...], "maxNodes": <int>}}
 `.trim();
@@ -44,26 +50,57 @@ Rules (follow all):
    - related imports/exports and props/state definitions
    - interface/type declarations used by the snippet
    - callbacks, handlers, and helper functions invoked by the snippet (if short, include; if large, include only the parts directly read/modified)
-5) Add ±N context lines (e.g., 2–5) when it helps syntax validity (balanced braces/JSX tags) or preserves meaning.
-6) If code seems unnecessary for this question, return {"ranges":[]} — but only if you are confident no code is needed.
-7) If unsure whether a smaller span might omit a crucial piece, choose the *slightly larger* span.
-8) Prefer ranges that are stable entry points (public API, exported component, top-level render path) over internal noise.
+5) Use the per-file "outline" (declaration name, kind, startLine, endLine) to anchor ranges on real declarations. Never invent line numbers outside the given spans or beyond "lines".
+6) Add ±N context lines (e.g., 2–5) when it helps syntax validity (balanced braces/JSX tags) or preserves meaning.
+7) If code seems unnecessary for this question, return {"ranges":[]} — but only if you are confident no code is needed.
+8) If unsure whether a smaller span might omit a crucial piece, choose the *slightly larger* span.
+9) Prefer ranges that are stable entry points (public API, exported component, top-level render path) over internal noise.
 
 Your inputs:
-- pruned AST metadata (files, approximate sizes, top node types)
+- pruned AST metadata (files, approximate sizes, top node types, line count, symbol outline with line spans)
 - filtered project AST metadata
 - the user question
 
 Return only the JSON object described above. No extra keys, text, or explanations beyond the "rationale" field.
 `.trim();
 
+/**
+ * 파일별 메모 프롬프트(map-reduce의 map 단계)
+ */
+export const PROMPT_MAP_FILES = `
+You read source files one batch at a time for a question about a large project; a later step answers from your notes and the ranges you point to.
+Each entry in "files" has the file path, its declaration outline and its code with line numbers ("12| ..."); long files may be truncated.
+For every file decide whether it matters for the question ("relevant").
+For a relevant file write short factual "notes" on what it contributes (names, behaviour, data flow, how it connects to other files) and list the line "ranges" (1-based, inclusive, within that file) the final answer should quote.
+Do not answer the question and do not describe code you were not shown. An irrelevant file gets "relevant": false, empty notes and no ranges.
+If "history" is present it lists earlier turns of the same conversation.
+Respond in strict JSON:
+{"files":[{"file": string, "relevant": boolean, "notes": string, "ranges":[{"startLine": int, "endLine": int, "rationale"?: string}]}]}
+`.trim();
+
 /**
  * 코드 기반 최종 답변 프롬프트
  */
 export const PROMPT_ANSWER_FROM_CODE = `
 You are a senior engineer. Use ONLY the provided code slices to answer.
 If something is unclear, you may use the AST META as hints, but do not hallucinate code not shown.
-Return STRICT JSON: {"answer":"...", "followups":["..."]}
+If "notes" is present, they were written file by file over more files than the slices cover; use them to connect the slices, but cite only the code slices.
+Slices marked "reduced" were shortened to fit the budget: they keep only declaration signatures and the lines mentioning the question's symbols, so do not assume what the omitted lines do.
+If "history" is present it holds earlier turns of the same conversation; use it to interpret follow-up questions, but base the answer on the code slices.
+Back every statement about the code with a citation: the slice's "file" and the lines (within that slice's startLine..endLine) that show it, plus the "claim" it supports. Citations outside the provided slices are discarded.
+Return STRICT JSON: {"answer":"...", "citations":[{"file":"...","startLine":<int>,"endLine":<int>,"claim":"..."}], "followups":["..."]}
+`.trim();
+
+/**
+ * 답변 근거 검증 프롬프트
+ */
+export const PROMPT_VERIFY_GROUNDING = `
+You check whether an answer about a codebase is grounded in the code slices it was written from.
+Split "answer" into its individual statements about the code. For each one decide whether the code slices directly show it ("supported": true), not merely whether it is plausible; "evidence" names the slice lines that show it as "file:start-end".
+"citations" are the answer's own references, already checked to lie inside the slices; a citation does not make a statement supported unless the cited lines actually show it.
+List in "missing" the code that would still be needed to confirm the unsupported statements or to answer the question fully (for example "definition of parseConfig", "caller of retry()"), most important first; leave it empty when the slices suffice.
+Respond in strict JSON:
+{"claims":[{"claim": string, "supported": boolean, "evidence"?: string}], "missing":[string]}
 `.trim();
 
 /**
@@ -75,3 +112,54 @@ Use the filtered project AST and the provided (possibly pruned) detailed AST(s)
 If the detailed ASTs are empty, answer using reasoning and filtered AST only.
 Return strict JSON: {"answer":"...", "followups":["..."]}
 `.trim();
+
+/**
+ * 디렉토리 단위 탐색 프롬프트(큰 프로젝트의 파일 결정 전 단계)
+ */
+export const PROMPT_DRILLDOWN = `
+You narrow down a very large project directory by directory before files are chosen for a code question.
+"dirs" lists the directories currently open; each shows its subdirectories (file count, lines, languages, top symbols, optional one-line summary) and the files directly inside it (language, lines, main symbols).
+Pick the subdirectories likely to contain the code the question is about ("openDirs") and any listed files that are directly relevant ("files").
+Subdirectories with at most "budget.scopeFiles" files are taken whole; larger ones are opened for another round, at most "budget.roundsLeft" more rounds.
+Prefer a few precise directories over many broad ones. If "history" is present it lists earlier turns of the same conversation.
+Respond in strict JSON:
+{"openDirs":[...dirPaths], "files":[...relativePaths]}
+`.trim();
+
+/**
+ * 디렉토리 한 줄 요약 프롬프트(DIR_SUMMARIES=1)
+ */
+export const PROMPT_DIR_SUMMARIES = `
+You write one-line summaries of source directories for navigating a large codebase.
+For each entry in "dirs" (path, file count, languages, subdirectories, top symbols, sample files) write a single plain sentence of at most 20 words saying what the code there is responsible for. Do not repeat the path or the counts.
+Respond in strict JSON:
+{"summaries":[{"dir": string, "summary": string}]}
+`.trim();
+
+/**
+ * 에이전트 탐색 프롬프트(GRAPH_MODE=agent)
+ */
+export const PROMPT_AGENT = `
+You are an autonomous code exploration agent answering a question about a project.
+You receive the question and the list of indexed project files. Explore with the tools instead of guessing:
+- list_symbols: declarations of a file, or symbols matching a name across the project
+- list_dir: one level of the directory tree with per-directory rollups (use it to descend large projects)
+- grep: regex search over indexed files (file:line matches)
+- read_range: read a line range of a file; ONLY code read with this tool is given to the final answer step
+- get_detailed_ast: detailed syntax tree of a file, optionally sliced to symbols
+- follow_import: files a file imports and files importing it
+- search_code: rank files by lexical relevance (BM25 over identifiers, comments, strings) with matching symbols
+Prefer a few targeted calls over broad reads. Read the exact ranges the answer depends on.
+If "history" is present it lists earlier turns of the same conversation; resolve follow-up references against it.
+Call finish as soon as the ranges you have read are enough to answer; you have at most "budget.maxSteps" model turns.
+`.trim();
+
+/**
+ * 형식 오류 복구 프롬프트
+ * - 직전 응답이 스키마 검증에 실패했을 때 오류 내용과 함께 덧붙입니다.
+ */
+export const PROMPT_REPAIR_JSON = `
+Your previous reply could not be used because it did not match the required JSON schema.
+Validation errors are listed below. Reply again with ONLY the corrected JSON object for the original request:
+no code fences, no commentary, no extra keys.
+`.trim();
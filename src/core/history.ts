@@ -0,0 +1,21 @@
+import { env } from '../config/env.js';
+import type { HistoryTurn } from './types.js';
+
+/** 프롬프트에 싣는 이전 답변의 최대 길이(문자) */
+const HISTORY_ANSWER_CHARS = 2000;
+
+/**
+ * 프롬프트에 실을 대화 이력을 만듭니다.
+ * - 최근 `CONVERSATION_HISTORY_TURNS`개 턴만, 긴 답변은 앞부분만 남깁니다.
+ * @param {HistoryTurn[] | undefined} history 이전 턴(오래된 것부터)
+ * @returns {HistoryTurn[] | undefined} 프롬프트용 이력(없으면 undefined — JSON에서 빠짐)
+ */
+export function historyForPrompt(history: HistoryTurn[] | undefined): HistoryTurn[] | undefined {
+  const n = Math.max(0, Math.floor(env.CONVERSATION_HISTORY_TURNS));
+  if (!history?.length || n === 0) return undefined;
+  return history.slice(-n).map((t) => ({
+    question: t.question,
+    answer: t.answer.length > HISTORY_ANSWER_CHARS ? `${t.answer.slice(0, HISTORY_ANSWER_CHARS)}…` : t.answer,
+    files: t.files,
+  }));
+}
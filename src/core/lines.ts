@@ -0,0 +1,20 @@
+/**
+ * 텍스트를 줄 단위로 나눕니다(`\n`/`\r\n`).
+ * - 파일 끝 개행 뒤의 빈 요소는 줄로 세지 않습니다(`"a\nb\n"` → 2줄).
+ * @param {string} text 텍스트
+ * @returns {string[]} 줄 목록(1번 줄이 인덱스 0)
+ */
+export function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * 텍스트의 줄 수({@link splitLines} 기준 — 인덱스의 `lines`, 범위 클램프가 같은 값을 씁니다)
+ * @param {string} text 텍스트
+ * @returns {number} 줄 수
+ */
+export function countLines(text: string): number {
+  return splitLines(text).length;
+}
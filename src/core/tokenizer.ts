@@ -0,0 +1,151 @@
+import { createRequire } from 'module';
+import type { BaseMessage } from '@langchain/core/messages';
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+
+import { env } from '../config/env.js';
+import { messageText } from '../llm/messages.js';
+import { describeProvider } from '../llm/provider.js';
+
+/** 지원하는 토크나이저 */
+export type TokenizerName = 'o200k_base' | 'cl100k_base' | 'chars';
+
+/** 토큰 수 계산기 */
+export interface Tokenizer {
+  name: TokenizerName;
+  count(text: string): number;
+}
+
+const TOKENIZERS: TokenizerName[] = ['o200k_base', 'cl100k_base', 'chars'];
+
+/** 채팅 메시지 하나의 형식 오버헤드(역할/구분자) */
+const TOKENS_PER_MESSAGE = 4;
+/** 응답 프라이밍 오버헤드 */
+const TOKENS_PER_REPLY = 3;
+
+/** o200k_base를 쓰는 OpenAI 모델(gpt-4o 이후) */
+const O200K_MODELS = /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|chatgpt-4o|o\d)/i;
+
+const require = createRequire(import.meta.url);
+
+/**
+ * 모델 이름으로 BPE 인코딩을 고릅니다.
+ * - OpenAI 최신 계열은 o200k_base, 그 밖(gpt-4/3.5, Claude, 로컬 모델 등)은 cl100k_base로 근사합니다.
+ * @param {string | null} model 모델 이름
+ * @returns {TokenizerName} 토크나이저 이름
+ */
+export function tokenizerNameForModel(model: string | null): TokenizerName {
+  return model && O200K_MODELS.test(model) ? 'o200k_base' : 'cl100k_base';
+}
+
+/** 이름 → 토크나이저(랭크 파일은 처음 쓸 때 한 번만 읽음) */
+const cache = new Map<TokenizerName, Tokenizer>();
+
+/**
+ * 토크나이저를 만듭니다.
+ * @param {TokenizerName} name 토크나이저 이름
+ * @returns {Tokenizer} 토크나이저
+ */
+function createTokenizer(name: TokenizerName): Tokenizer {
+  if (name === 'chars') {
+    return { name, count: (text) => Math.ceil(text.length / 4) };
+  }
+  const ranks = require(`js-tiktoken/ranks/${name}`) as TiktokenBPE;
+  const enc = new Tiktoken(ranks);
+  // 코드에 `<|endoftext|>` 같은 특수 토큰 문자열이 있어도 일반 텍스트로 셈
+  return { name, count: (text) => (text ? enc.encode(text, [], []).length : 0) };
+}
+
+/**
+ * 현재 설정의 토크나이저를 돌려줍니다.
+ * - `TOKENIZER`가 있으면 그대로, 없으면 공급자 모델(`describeProvider`)로 고릅니다.
+ * @returns {Tokenizer} 토크나이저
+ * @throws {Error} 알 수 없는 `TOKENIZER` 값
+ */
+export function getTokenizer(): Tokenizer {
+  const name = (env.TOKENIZER || tokenizerNameForModel(describeProvider().model)) as TokenizerName;
+  if (!TOKENIZERS.includes(name)) {
+    throw new Error(`unknown TOKENIZER "${name}" (expected one of: ${TOKENIZERS.join(', ')})`);
+  }
+  let t = cache.get(name);
+  if (!t) {
+    t = createTokenizer(name);
+    cache.set(name, t);
+  }
+  return t;
+}
+
+/**
+ * 텍스트의 토큰 수
+ * @param {string} text 텍스트
+ * @returns {number} 토큰 수
+ */
+export function countTokens(text: string): number {
+  return getTokenizer().count(text);
+}
+
+/**
+ * 채팅 메시지 목록의 토큰 수(메시지별 형식 오버헤드 포함)
+ * @param {BaseMessage[]} messages 메시지 목록
+ * @returns {number} 토큰 수
+ */
+export function countMessageTokens(messages: BaseMessage[]): number {
+  const t = getTokenizer();
+  let n = TOKENS_PER_REPLY;
+  for (const m of messages) n += TOKENS_PER_MESSAGE + t.count(messageText(m));
+  return n;
+}
+
+/**
+ * 항목을 앞에서부터 몇 개까지 넣어야 토큰 예산에 맞는지 찾습니다.
+ *
+ * - `render(n)`은 앞의 n개 항목으로 만든 프롬프트 텍스트, `itemText(i)`는 i번째 항목이 차지하는 텍스트입니다.
+ * - 전체가 들어가면(또는 예산이 무한대면) 그대로 돌려줍니다.
+ * - 아니면 빈 틀(`render(0)`)에 항목별 토큰 수를 더해 가며 고르고, 렌더링 결과를 다시 재서 넘치면 하나씩 뺍니다.
+ * - 0개로도 넘치면 0개로 렌더링한 결과를 돌려줍니다(호출 측에서 최종 검사).
+ *
+ * @param {number} total 전체 항목 수
+ * @param {number} budget 토큰 예산
+ * @param {(n: number) => string} render 앞의 n개로 텍스트 생성
+ * @param {(i: number) => string} itemText i번째 항목의 텍스트
+ * @returns {{n:number, text:string}} 넣은 항목 수와 텍스트
+ */
+export function fitToTokens(
+  total: number,
+  budget: number,
+  render: (n: number) => string,
+  itemText: (i: number) => string
+): { n: number; text: string } {
+  const full = render(total);
+  if (!Number.isFinite(budget) || countTokens(full) <= budget) return { n: total, text: full };
+
+  let used = countTokens(render(0));
+  let n = 0;
+  while (n < total) {
+    const t = countTokens(itemText(n)) + 1; // 구분자(,)
+    if (used + t > budget) break;
+    used += t;
+    n++;
+  }
+  let text = render(n);
+  while (n > 0 && countTokens(text) > budget) text = render(--n);
+  return { n, text };
+}
+
+/**
+ * 텍스트를 토큰 예산 안으로 자릅니다(뒤쪽을 버리고 잘렸다는 표시를 붙임).
+ * @param {string} text 텍스트
+ * @param {number} max 최대 토큰 수(0 이하면 자르지 않음)
+ * @returns {string} 잘린 텍스트
+ */
+export function truncateToTokens(text: string, max: number): string {
+  if (max <= 0) return text;
+  let tokens = countTokens(text);
+  if (tokens <= max) return text;
+  const marker = '\n…(truncated)';
+  let out = text;
+  while (out && tokens > max) {
+    out = out.slice(0, Math.floor((out.length * max) / tokens * 0.95));
+    tokens = countTokens(out + marker);
+  }
+  return out + marker;
+}
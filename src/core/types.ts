@@ -1,3 +1,5 @@
+import type { BaseMessage } from '@langchain/core/messages';
+
 /** tree-sitter의 위치 정보 */
 export type Position = { row: number; column: number };
 
@@ -32,6 +34,24 @@ export interface CodeRange {
   rationale?: string;
 }
 
+/** 코드 범위를 읽기 전에 바꾼 기록 */
+export interface RangeAdjustment {
+  file: string;
+  /** 선택된 범위 */
+  requested: { startLine: number; endLine: number };
+  /** 실제로 읽는 범위(버렸으면 없음) */
+  result?: { startLine: number; endLine: number };
+  /**
+   * - clamped: 파일 길이에 맞춰 자름
+   * - expanded: 걸친 선언의 경계까지 넓힘
+   * - merged: 같은 파일의 겹치거나 맞닿은 범위와 합침
+   * - dropped: 파일 밖이거나 읽을 수 없어 버림
+   */
+  reasons: Array<'clamped' | 'expanded' | 'merged' | 'dropped'>;
+  /** 넓힐 때 기준으로 삼은 선언 노드 종류 */
+  declarations?: string[];
+}
+
 /** 코드 슬라이스(서버가 로드) */
 export interface CodeSlice {
   file: string;
@@ -39,6 +59,78 @@ export interface CodeSlice {
   endLine: number;
   code: string;
   rationale?: string;
+  /** 예산에 맞추려고 선언 시그니처와 질문 심볼이 나오는 줄만 남긴 요약본 */
+  reduced?: boolean;
+}
+
+/** 코드 조각 패킹에서 조각 하나의 선택 */
+export interface SlicePackItem {
+  file: string;
+  startLine: number;
+  endLine: number;
+  /** 관련도(질문 단어/심볼 힌트 일치) */
+  score: number;
+  /** 전체 조각의 토큰 수 */
+  tokens: number;
+  choice: 'full' | 'reduced' | 'dropped';
+  /** 요약본의 토큰 수 */
+  reducedTokens?: number;
+}
+
+/** 코드 조각 패킹 기록 */
+export interface SlicePacking {
+  /** 예산 단위(tokens: 코드 토큰 예산, bytes: `CODE_MAX_BYTES`, null: 상한 없음) */
+  unit: 'tokens' | 'bytes' | null;
+  budget: number;
+  used: number;
+  /** 관련도 높은 순 */
+  items: SlicePackItem[];
+}
+
+/**
+ * 답변 근거 인용(답변이 기대는 코드 라인 범위)
+ * - 서버가 읽어 둔 코드 조각 안을 가리키는 것만 남깁니다.
+ */
+export interface Citation {
+  file: string;
+  startLine: number; // 1-based inclusive
+  endLine: number;   // 1-based inclusive
+  /** 이 범위가 뒷받침하는 답변 내용 */
+  claim?: string;
+  /** 코드 조각을 벗어난 부분을 잘라 냈는지 */
+  clamped?: boolean;
+}
+
+/** 답변이 코드 조각에 기대는 정도 */
+export type Confidence = 'high' | 'medium' | 'low';
+
+/** 답변 속 주장 하나의 근거 판정 */
+export interface GroundingClaim {
+  claim: string;
+  /** 코드 조각이 직접 보여 주는지 */
+  supported: boolean;
+  /** 근거 위치(`file:start-end`) */
+  evidence?: string;
+}
+
+/** 답변 근거 검증 결과 */
+export interface GroundingReport {
+  confidence: Confidence;
+  /** llm: 모델이 주장별로 판정(규칙 결과보다 높게 보지 않음), rules: 규칙만 */
+  by: 'llm' | 'rules';
+  claims: GroundingClaim[];
+  /** 답하려면 더 필요한 근거 */
+  missing: string[];
+  /** 근거를 더 찾으러 탐색을 한 번 더 하는지 */
+  retry: boolean;
+}
+
+/** 대화의 이전 턴(프롬프트용 요약) */
+export interface HistoryTurn {
+  question: string;
+  answer: string;
+  /** 그 턴에서 파싱한 파일 */
+  files: string[];
 }
 
 /** 프롬프트 모드 */
@@ -54,12 +146,116 @@ export interface PruneTraceItem {
   estTokensAfter: number;
 }
 
+/** LLM 응답 검증 실패 기록 */
+export interface LlmFailure {
+  /** 반복 회차 */
+  iteration: number;
+  /** 노드 단계(decideFiles, prunePlan, codeRanges, answerFromCode, answerFromAst) */
+  step: string;
+  /** 0부터 시작하는 시도 번호 */
+  attempt: number;
+  /** structured: tool-calling 구조화 출력, json: 텍스트에서 JSON 추출 */
+  mode: 'structured' | 'json';
+  error: string;
+}
+
+/** 에이전트 모드의 탐색 종료 사유 */
+export type AgentStopReason = 'finish' | 'no_tool_calls' | 'max_steps' | 'token_budget' | 'context' | 'no_model';
+
+/** 에이전트 모드의 도구 호출 기록 */
+export interface AgentToolCall {
+  /** 도구를 요청한 모델 호출 순번(0부터) */
+  step: number;
+  tool: string;
+  args: unknown;
+  ok: boolean;
+  /** 모델에 돌려준 결과의 토큰 수(잘린 뒤) */
+  tokens: number;
+  error?: string;
+}
+
+/** 디렉토리 단위 탐색 한 라운드 */
+export interface DrilldownRound {
+  /** 보여 준 디렉토리 */
+  dirs: string[];
+  /** 모델이 고른 디렉토리 */
+  opened: string[];
+  /** 모델이 고른 파일 */
+  files: string[];
+  /** 통째로 범위에 넣은 디렉토리 */
+  scoped: string[];
+}
+
+/** (map-reduce) 파일 하나에서 뽑은 메모 */
+export interface MapFileNote {
+  file: string;
+  /** 질문과 관련 있는 파일인지 */
+  relevant: boolean;
+  notes: string;
+  /** 답변에 인용할 만한 라인 범위 */
+  ranges: CodeRange[];
+}
+
+/** (map-reduce) 배치 하나의 결과 */
+export interface MapBatchResult {
+  /** 반복 회차 */
+  iteration: number;
+  /** 배치 번호(0부터) */
+  batch: number;
+  files: string[];
+  notes: MapFileNote[];
+  /** 실제로 보낸 프롬프트 토큰 수(호출별) */
+  promptTokens?: number[];
+  /** 스키마 검증에 실패한 응답 */
+  llmFailures?: LlmFailure[];
+  /** 호출 실패(컨텍스트 초과 등) */
+  error?: string;
+}
+
+/** (map-reduce) 반복 한 번의 요약 */
+export interface MapReduceTrace {
+  batches: number;
+  files: number;
+  relevantFiles: string[];
+  /** 메모에서 모은 코드 범위 수 */
+  ranges: number;
+  failedBatches: number;
+}
+
 /** 실행 추적 버퍼 */
 export interface TraceBuffer {
   iterations: number;
   filesRequested: string[][];
   filesParsed: string[][];
   prune?: PruneTraceItem[];
+  /** 반복별로 콜 그래프가 wantFiles에 덧붙인 파일 */
+  callGraphFiles?: string[][];
+  /** 반복별로 검색(BM25)이 파일 결정 프롬프트에 남긴 파일(큰 프로젝트) */
+  searchFiles?: string[][];
+  /** 반복별 디렉토리 단위 탐색 라운드(큰 프로젝트) */
+  drilldown?: DrilldownRound[][];
+  /** 스키마 검증에 실패한 LLM 응답(복구 재시도 포함) */
+  llmFailures?: LlmFailure[];
+  /** 반복별로 코드 범위를 읽기 전에 정리한 기록(바뀐 범위만) */
+  rangeAdjustments?: RangeAdjustment[][];
+  /** 반복별 map-reduce 요약(파일이 많을 때) */
+  mapReduce?: MapReduceTrace[];
+  /** 반복별 코드 조각 패킹(조각별 관련도와 전체/요약본/제외 선택) */
+  slicePacking?: SlicePacking[];
+  /** 반복별로 코드 조각 밖을 가리켜 버린 인용 */
+  citationsDropped?: Citation[][];
+  /** 반복별 답변 근거 검증 결과 */
+  grounding?: GroundingReport[];
+  /** 반복별로 이전 턴의 코드 조각에서 가져온 슬라이스 수 */
+  slicesReused?: number[];
+  /** LLM 호출마다 실제로 보낸 프롬프트 토큰 수 */
+  promptTokens?: Array<{ iteration: number; step: string; tokens: number }>;
+  /** (에이전트 모드) 모델 호출 횟수 */
+  agentSteps?: number;
+  /** (에이전트 모드) 도구 호출 기록 */
+  toolCalls?: AgentToolCall[];
+  /** (에이전트 모드) 탐색 종료 사유 */
+  agentStop?: AgentStopReason;
 }
 
 /**
@@ -77,6 +273,12 @@ export type GraphState = {
   modeUsed: PromptMode;
   answer: string;
   followups: string[];
+  /** 답변 근거 인용(읽어 둔 코드 조각 안으로 검증됨) */
+  citations?: Citation[];
+  /** 답변 근거 검증 결과 신뢰도 */
+  confidence?: Confidence;
+  /** 답하려면 더 필요한 근거(다음 탐색 라운드의 파일 결정에도 전달) */
+  missingEvidence?: string[];
   _loopCount: number;
 
   prunedAsts?: DetailedAst[];
@@ -87,5 +289,18 @@ export type GraphState = {
   codeRanges?: CodeRange[];
   codeSlices?: CodeSlice[];
 
+  /** (map-reduce) 배치별 결과(반복 회차/배치 번호로 합침) */
+  mapResults?: MapBatchResult[];
+  /** (map-reduce) 답변 단계에 넘기는 관련 파일 메모 */
+  mapNotes?: Array<{ file: string; notes: string }>;
+
+  /** 같은 대화의 이전 턴(오래된 것부터) */
+  history?: HistoryTurn[];
+  /** 이전 턴에서 읽은 코드 조각(범위가 겹치면 파일을 다시 읽지 않음) */
+  priorSlices?: CodeSlice[];
+
+  /** (에이전트 모드) 모델과 주고받은 메시지(도구 호출/결과 포함) */
+  agentMessages?: BaseMessage[];
+
   _trace?: TraceBuffer;
 };
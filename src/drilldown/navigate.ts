@@ -0,0 +1,123 @@
+import { env } from '../config/env.js';
+import { PROMPT_DRILLDOWN } from '../config/prompts.js';
+import { historyForPrompt } from '../core/history.js';
+import { fitToTokens } from '../core/tokenizer.js';
+import type { DrilldownRound, GraphState } from '../core/types.js';
+import { buildDirTree, dirOf, dirView, filesUnder, normalizeDir, type DirView } from '../ast/dirs.js';
+import type { ChatModel } from '../llm/provider.js';
+import { DrilldownSchema } from '../llm/schemas.js';
+import { invokeStructured } from '../llm/structured.js';
+import { dirSummaryCachePath, summarizeDirs } from './summaries.js';
+
+/** 디렉토리 단위 탐색 결과 */
+export interface DrilldownResult {
+  /** 통째로 범위에 넣은 디렉토리 */
+  dirs: string[];
+  /** 모델이 직접 고른 파일 */
+  files: string[];
+  /** 범위 안의 전체 파일(직접 고른 파일 먼저) */
+  scope: string[];
+  rounds: DrilldownRound[];
+}
+
+/** 프롬프트에 싣는 목록 항목(디렉토리 목록 번호 + 하위 디렉토리/파일) */
+type ViewEntry =
+  | { view: number; kind: 'subdir'; value: DirView['subdirs'][number] }
+  | { view: number; kind: 'file'; value: DirView['directFiles'][number] };
+
+/** 목록 항목을 디렉토리별로 번갈아 늘어놓습니다(토큰 예산으로 자를 때 한 디렉토리만 남지 않도록). */
+function interleave(views: DirView[]): ViewEntry[] {
+  const lists: ViewEntry[][] = views.map((v, view) => [
+    ...v.subdirs.map((value) => ({ view, kind: 'subdir' as const, value })),
+    ...v.directFiles.map((value) => ({ view, kind: 'file' as const, value })),
+  ]);
+  const out: ViewEntry[] = [];
+  for (let i = 0; lists.some((l) => i < l.length); i++) {
+    for (const l of lists) if (i < l.length) out.push(l[i]);
+  }
+  return out;
+}
+
+/** 앞의 n개 항목으로 디렉토리 목록을 다시 만듭니다(빠진 항목 수는 `omitted`). */
+function viewsWith(views: DirView[], entries: ViewEntry[], n: number): DirView[] {
+  const out: DirView[] = views.map((v) => ({ dir: v.dir, files: v.files, subdirs: [], directFiles: [] }));
+  for (const e of entries.slice(0, n)) {
+    if (e.kind === 'subdir') out[e.view].subdirs.push(e.value);
+    else out[e.view].directFiles.push(e.value);
+  }
+  out.forEach((v, i) => {
+    const omitted = views[i].subdirs.length + views[i].directFiles.length - v.subdirs.length - v.directFiles.length;
+    if (omitted > 0) v.omitted = omitted;
+  });
+  return out;
+}
+
+/** `dir`이 `parent` 자신이거나 그 아래인지 */
+function isUnder(dir: string, parent: string): boolean {
+  return parent === '.' || dir === parent || dir.startsWith(`${parent}/`);
+}
+
+/**
+ * 큰 프로젝트에서 파일을 고르기 전에 디렉토리 단위로 범위를 좁힙니다.
+ *
+ * - 루트부터 시작해, 라운드마다 열린 디렉토리의 한 단계 목록(하위 디렉토리 요약 + 바로 아래 파일)을 보여 주고
+ *   관련 있는 하위 디렉토리/파일을 고르게 합니다.
+ * - 고른 디렉토리가 `DRILLDOWN_SCOPE_FILES` 이하이면 통째로 범위에 넣고, 크면 다음 라운드에 엽니다.
+ * - 모델이 더 고르지 않거나 `DRILLDOWN_MAX_ROUNDS`에 이르면 열려 있던 디렉토리를 통째로 범위에 넣습니다.
+ * - `DIR_SUMMARIES=1`이면 보여 줄 하위 디렉토리의 한 줄 요약을 만들어(캐시) 함께 싣습니다.
+ *
+ * @param {ChatModel} llm 챗 모델
+ * @param {GraphState} state 현재 상태(filteredAst 필요)
+ * @returns {Promise<DrilldownResult|null>} 범위(첫 라운드에서 아무것도 고르지 않으면 null)
+ */
+export async function drillDown(llm: ChatModel, state: GraphState): Promise<DrilldownResult | null> {
+  const ast = state.filteredAst;
+  const tree = buildDirTree(ast);
+  const known = new Set<string>(ast?.files ?? []);
+  const history = historyForPrompt(state.history);
+  const previousParsed = (state._trace?.filesParsed ?? []).flat();
+  const cachePath = env.DIR_SUMMARIES && state.filteredAstPath ? dirSummaryCachePath(state.filteredAstPath) : null;
+  const maxRounds = Math.max(1, env.DRILLDOWN_MAX_ROUNDS);
+
+  const scoped: string[] = [];
+  const picked: string[] = [];
+  const rounds: DrilldownRound[] = [];
+  const seen = new Set<string>(['.']);
+  let open = ['.'];
+
+  for (let round = 0; round < maxRounds && open.length; round++) {
+    const shown = open.flatMap((d) => tree.get(d)?.subdirs ?? []);
+    const summaries = cachePath ? await summarizeDirs(llm, state, tree, shown, cachePath) : {};
+    const views = open.map((d) => dirView(tree, ast, d, { summaries })).filter((v): v is DirView => !!v);
+    const entries = interleave(views);
+    const budget = { scopeFiles: env.DRILLDOWN_SCOPE_FILES, roundsLeft: maxRounds - round - 1 };
+    const render = (n: number) =>
+      JSON.stringify({ question: state.question, history, hint: { previousParsed }, dirs: viewsWith(views, entries, n), budget });
+    const user = (tokens: number) =>
+      fitToTokens(entries.length, tokens, render, (i) => JSON.stringify(entries[i].value)).text;
+
+    const { value } = await invokeStructured(llm, { step: 'drilldown', system: PROMPT_DRILLDOWN, user, schema: DrilldownSchema, state });
+    const opened = [...new Set((value?.openDirs ?? []).map(normalizeDir))].filter(
+      (d) => tree.has(d) && !seen.has(d) && open.some((o) => isUnder(d, o))
+    );
+    const files = [...new Set(value?.files ?? [])].filter((f) => known.has(f) && open.some((o) => isUnder(dirOf(f), o)));
+    if (round === 0 && !opened.length && !files.length) return null;
+
+    picked.push(...files.filter((f) => !picked.includes(f)));
+    const next: string[] = [];
+    const whole: string[] = [];
+    for (const d of opened) {
+      seen.add(d);
+      if (tree.get(d)!.files <= env.DRILLDOWN_SCOPE_FILES || round + 1 >= maxRounds) whole.push(d);
+      else next.push(d);
+    }
+    // 더 고르지 않은 디렉토리는 통째로(직전 라운드에서 관련 있다고 고른 곳)
+    if (!opened.length && !files.length) whole.push(...open.filter((d) => d !== '.'));
+    scoped.push(...whole);
+    rounds.push({ dirs: views.map((v) => v.dir), opened, files, scoped: whole });
+    open = next;
+  }
+
+  const scope = [...new Set([...picked, ...scoped.flatMap((d) => filesUnder(tree, d))])];
+  return { dirs: scoped, files: picked, scope, rounds };
+}
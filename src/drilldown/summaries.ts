@@ -0,0 +1,147 @@
+import fsp from 'fs/promises';
+
+import { PROMPT_DIR_SUMMARIES } from '../config/prompts.js';
+import { fitToTokens } from '../core/tokenizer.js';
+import type { GraphState } from '../core/types.js';
+import { dirSignature, type DirTree } from '../ast/dirs.js';
+import type { ChatModel } from '../llm/provider.js';
+import { DirSummariesSchema } from '../llm/schemas.js';
+import { invokeStructured } from '../llm/structured.js';
+
+/** 요약 캐시 파일 형식 버전 */
+const CACHE_VERSION = 1;
+/** 요약 요청에 싣는 디렉토리별 예시 파일 수 */
+const SAMPLE_FILES = 8;
+/** 요약 요청에 싣는 디렉토리별 하위 디렉토리 수 */
+const SAMPLE_SUBDIRS = 12;
+
+/** 디스크에 저장되는 요약 캐시 */
+interface SummaryCache {
+  version: number;
+  /** 디렉토리 → 요약과 만들 때의 서명({@link dirSignature}) */
+  dirs: Record<string, { signature: string; summary: string }>;
+}
+
+/** 캐시 파일 경로 → 메모리에 올린 캐시 */
+const loaded = new Map<string, SummaryCache>();
+/** 캐시 파일 경로 → 진행 중인 쓰기(같은 파일은 순서대로) */
+const writing = new Map<string, Promise<void>>();
+
+/**
+ * filtered AST 파일 옆의 요약 캐시 경로(`filtered_ast.json` → `filtered_ast.dirs.json`)
+ * @param {string} filteredAstPath filtered AST 경로
+ * @returns {string} 캐시 경로
+ */
+export function dirSummaryCachePath(filteredAstPath: string): string {
+  return `${filteredAstPath.replace(/\.json$/i, '')}.dirs.json`;
+}
+
+/** 캐시를 읽습니다(없거나 형식이 다르면 빈 캐시). */
+async function readCache(cachePath: string): Promise<SummaryCache> {
+  const hit = loaded.get(cachePath);
+  if (hit) return hit;
+  let cache: SummaryCache = { version: CACHE_VERSION, dirs: {} };
+  try {
+    const json = JSON.parse(await fsp.readFile(cachePath, 'utf8'));
+    if (json?.version === CACHE_VERSION && json.dirs && typeof json.dirs === 'object') cache = json;
+  } catch {
+    // 처음 쓰는 프로젝트
+  }
+  loaded.set(cachePath, cache);
+  return cache;
+}
+
+/** 캐시를 파일에 씁니다(같은 파일의 쓰기는 순서대로). */
+async function writeCache(cachePath: string, cache: SummaryCache): Promise<void> {
+  const prev = writing.get(cachePath) ?? Promise.resolve();
+  const next = prev.then(() => fsp.writeFile(cachePath, JSON.stringify(cache), 'utf8'));
+  writing.set(cachePath, next.catch(() => undefined));
+  await next;
+}
+
+/**
+ * 캐시에 있는 디렉토리 요약 중 지금 내용과 서명이 같은 것만 돌려줍니다.
+ *
+ * @param {string} cachePath 캐시 경로({@link dirSummaryCachePath})
+ * @param {DirTree} tree 디렉토리 트리
+ * @param {any} filteredAst filtered AST(JSON)
+ * @param {string[]} dirs 대상 디렉토리
+ * @returns {Promise<Record<string,string>>} 디렉토리 → 한 줄 요약
+ */
+export async function cachedDirSummaries(
+  cachePath: string,
+  tree: DirTree,
+  filteredAst: any,
+  dirs: string[]
+): Promise<Record<string, string>> {
+  const cache = await readCache(cachePath);
+  const out: Record<string, string> = {};
+  for (const dir of dirs) {
+    const entry = cache.dirs[dir];
+    if (entry && entry.signature === dirSignature(tree, filteredAst, dir)) out[dir] = entry.summary;
+  }
+  return out;
+}
+
+/**
+ * 디렉토리 한 줄 요약을 LLM으로 만들고 캐시합니다.
+ *
+ * - 캐시에 있고 서명(하위 파일 경로/최상위 선언 이름)이 같은 디렉토리는 다시 만들지 않습니다.
+ * - 나머지는 한 번의 호출로 요약합니다(토큰 예산을 넘으면 앞쪽 디렉토리만).
+ * - 실패하면 캐시에 있던 요약만 돌려줍니다(탐색은 요약 없이 진행).
+ *
+ * @param {ChatModel} llm 챗 모델
+ * @param {GraphState} state 현재 상태(filteredAst 필요, trace 기록용)
+ * @param {DirTree} tree 디렉토리 트리
+ * @param {string[]} dirs 대상 디렉토리
+ * @param {string} cachePath 캐시 경로
+ * @returns {Promise<Record<string,string>>} 디렉토리 → 한 줄 요약
+ */
+export async function summarizeDirs(
+  llm: ChatModel,
+  state: GraphState,
+  tree: DirTree,
+  dirs: string[],
+  cachePath: string
+): Promise<Record<string, string>> {
+  const out = await cachedDirSummaries(cachePath, tree, state.filteredAst, dirs);
+  const missing = dirs.filter((d) => !(d in out) && tree.has(d));
+  if (!missing.length) return out;
+
+  const entries = missing.map((dir) => {
+    const n = tree.get(dir)!;
+    return {
+      dir,
+      files: n.files,
+      languages: n.languages,
+      subdirs: n.subdirs.slice(0, SAMPLE_SUBDIRS),
+      topSymbols: n.topSymbols.map((s) => `${s.name} (${s.file})`),
+      sampleFiles: n.directFiles.slice(0, SAMPLE_FILES),
+    };
+  });
+  const render = (k: number) => JSON.stringify({ dirs: entries.slice(0, k) });
+  const user = (budget: number) => fitToTokens(entries.length, budget, render, (i) => JSON.stringify(entries[i])).text;
+
+  try {
+    const { value } = await invokeStructured(llm, {
+      step: 'dirSummaries',
+      system: PROMPT_DIR_SUMMARIES,
+      user,
+      schema: DirSummariesSchema,
+      state,
+    });
+    if (!value) return out;
+    const cache = await readCache(cachePath);
+    const wanted = new Set(missing);
+    for (const { dir, summary } of value.summaries) {
+      const text = summary.trim();
+      if (!wanted.has(dir) || !text) continue;
+      cache.dirs[dir] = { signature: dirSignature(tree, state.filteredAst, dir), summary: text };
+      out[dir] = text;
+    }
+    await writeCache(cachePath, cache);
+  } catch (e: any) {
+    console.warn(`[drilldown] directory summaries failed: ${e?.message || e}`);
+  }
+  return out;
+}
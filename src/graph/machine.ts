@@ -1,7 +1,10 @@
 import { StateGraph, Annotation, START, END } from '@langchain/langgraph';
 import { env } from '../config/env.js';
 import type { GraphState } from '../core/types.js';
-import { GraphNodes, initialState, shouldLoop } from './nodes.js';
+import { agentNext } from '../agent/loop.js';
+import { endWithoutRetry, needsMoreEvidence } from '../code/grounding.js';
+import { mergeMapResults, routeAfterDetails } from '../mapreduce/map.js';
+import { GraphNodes, hasNewFiles, initialState, shouldLoop } from './nodes.js';
 
 /**
  * LangGraph 채널(상태 스키마) 정의
@@ -18,6 +21,9 @@ export const State = Annotation.Root({
   modeUsed:          Annotation<'slice' | 'full'>(),
   answer:            Annotation<string>(),
   followups:         Annotation<string[]>(),
+  citations:         Annotation<any[] | undefined>(),
+  confidence:        Annotation<'high' | 'medium' | 'low' | undefined>(),
+  missingEvidence:   Annotation<string[] | undefined>(),
   _loopCount:        Annotation<number>(),
   prunedAsts:        Annotation<any[] | undefined>(),
   prunePlan:         Annotation<any | undefined>(),
@@ -25,47 +31,83 @@ export const State = Annotation.Root({
   droppedAll:        Annotation<boolean | undefined>(),
   codeRanges:        Annotation<any[] | undefined>(),
   codeSlices:        Annotation<any[] | undefined>(),
+  history:           Annotation<any[] | undefined>(),
+  priorSlices:       Annotation<any[] | undefined>(),
+  agentMessages:     Annotation<any[] | undefined>(),
+  // map 분기들이 병렬로 쓰므로 배치별로 합침
+  mapResults:        Annotation<any[] | undefined>({ reducer: mergeMapResults, default: () => undefined }),
+  mapNotes:          Annotation<any[] | undefined>(),
   _trace:            Annotation<any | undefined>(),
 });
 
 /**
  * 그래프 구성 및 컴파일
- * - 간략 AST → 파일결정 → 상세 AST → PRUNE → 코드 범위 → 코드 로드 → 코드 기반 답변
+ * - 간략 AST → 파일결정 → 상세 AST → PRUNE → 코드 범위 → 코드 로드 → 코드 기반 답변 → 근거 검증
+ * - 상세 AST 파일이 많으면(`MAP_REDUCE_MIN_FILES`) PRUNE/코드 범위 대신 배치별 map(병렬 `Send`) → reduce로 메모와 코드 범위를 모음
+ *   (메모를 합친 답변은 `answer_from_code`가 코드 조각과 함께 만듦)
+ * - 후속 질문이 더 볼 파일을 가리키거나(`shouldLoop`) 근거가 부족하면(`needsMoreEvidence`) 파일 결정부터 다시 탐색
+ *   (앞 반복에서 읽은 코드 조각은 다음 답변에도 실리고, 새로 고른 파일이 없으면 다시 돌지 않고 직전 답변으로 끝냄)
  */
 export const graph = new StateGraph(State)
   .addNode('load_filtered',      GraphNodes.nodeLoadFilteredAst as any)
   .addNode('decide_files',       GraphNodes.nodeDecideFiles as any)
   .addNode('get_details',        GraphNodes.nodeGetDetailedAsts as any)
   .addNode('prune_ast',          GraphNodes.nodePruneAst as any)
+  .addNode('map_file',           GraphNodes.nodeMapFiles as any)
+  .addNode('reduce_notes',       GraphNodes.nodeReduceNotes as any)
   .addNode('select_code_ranges', GraphNodes.nodeSelectCodeRanges as any)
   .addNode('load_code_slices',   GraphNodes.nodeLoadCodeSlices as any)
   .addNode('answer_from_code',   GraphNodes.nodeAnswerFromCode as any)
+  .addNode('verify_grounding',   GraphNodes.nodeVerifyGrounding as any)
   .addEdge(START,                 'load_filtered')
   .addEdge('load_filtered',       'decide_files')
   .addEdge('decide_files',        'get_details')
-  .addEdge('get_details',         'prune_ast')
+  .addConditionalEdges('get_details', routeAfterDetails as any, ['prune_ast', 'map_file'])
+  .addEdge('map_file',            'reduce_notes')
+  .addEdge('reduce_notes',        'load_code_slices')
   .addEdge('prune_ast',           'select_code_ranges')
   .addEdge('select_code_ranges',  'load_code_slices')
   .addEdge('load_code_slices',    'answer_from_code')
-  .addConditionalEdges('answer_from_code', (state: any) =>
-    shouldLoop(state) ? 'decide_files_again' : END
+  .addEdge('answer_from_code',    'verify_grounding')
+  .addConditionalEdges('verify_grounding', (state: any) =>
+    shouldLoop(state) || needsMoreEvidence(state) ? 'decide_files_again' : END
   )
   .addNode('decide_files_again', async (state: any) => {
     const next = await GraphNodes.nodeDecideFiles(state as GraphState);
-    (next as GraphState)._loopCount = ((state as GraphState)._loopCount || 0) + 1;
+    const parsedAll = new Set((next._trace?.filesParsed ?? []).flat());
+    const filtered = next.wantFiles.filter((f) => !parsedAll.has(f));
+    // 새로 볼 파일이 없으면 빈 코드 조각으로 다시 답변하지 않음(아래 간선이 END로 보냄)
+    if (filtered.length === 0) return endWithoutRetry({ ...(state as GraphState), wantFiles: [], _trace: next._trace });
 
-    const tr = (next as GraphState)._trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
+    const tr = next._trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
     tr.iterations = (tr.iterations || 0) + 1;
-
-    const parsedAll = new Set((tr.filesParsed ?? []).flat());
-    const filtered = (next as GraphState).wantFiles.filter((f) => !parsedAll.has(f));
-    (next as GraphState).wantFiles = filtered;
-
-    if (filtered.length === 0) (next as GraphState).followups = [];
-    (next as GraphState)._trace = tr;
-    return next;
+    return { ...next, wantFiles: filtered, _loopCount: ((state as GraphState)._loopCount || 0) + 1, _trace: tr };
   })
-  .addEdge('decide_files_again', 'get_details');
+  .addConditionalEdges('decide_files_again', (state: any) => (hasNewFiles(state) ? 'get_details' : END));
 
 export const compiledGraph = graph.compile();
+
+/**
+ * 에이전트 모드 그래프(`GRAPH_MODE=agent`)
+ * - 간략 AST → (모델 ⇄ 도구)* → 코드 기반 답변 → 근거 검증(다시 탐색하지 않고 신뢰도만 표시)
+ * - 모델이 `finish`를 부르거나 단계/토큰 예산을 다 쓰면 모은 코드 조각으로 답변합니다.
+ */
+export const agentGraph = new StateGraph(State)
+  .addNode('load_filtered',    GraphNodes.nodeLoadFilteredAst as any)
+  .addNode('agent',            GraphNodes.nodeAgentStep as any)
+  .addNode('agent_tools',      GraphNodes.nodeAgentTools as any)
+  .addNode('answer_from_code', GraphNodes.nodeAnswerFromCode as any)
+  .addNode('verify_grounding', GraphNodes.nodeVerifyGrounding as any)
+  .addEdge(START,              'load_filtered')
+  .addEdge('load_filtered',    'agent')
+  .addConditionalEdges('agent', (state: any) =>
+    agentNext(state) === 'continue' ? 'agent_tools' : 'answer_from_code'
+  )
+  .addConditionalEdges('agent_tools', (state: any) =>
+    agentNext(state) === 'continue' ? 'agent' : 'answer_from_code'
+  )
+  .addEdge('answer_from_code', 'verify_grounding')
+  .addEdge('verify_grounding', END);
+
+export const compiledAgentGraph = agentGraph.compile();
 export { initialState };
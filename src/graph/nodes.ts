@@ -1,37 +1,143 @@
 import path from 'path';
 import fs from 'fs/promises';
-import { SystemMessage, HumanMessage } from '@langchain/core/messages';
-import { ChatOpenAI } from '@langchain/openai';
 import { Trace } from '../core/tracing.js';
+import { fitToTokens } from '../core/tokenizer.js';
+import { historyForPrompt } from '../core/history.js';
 import { env } from '../config/env.js';
-import type { GraphState, SliceHints } from '../core/types.js';
+import type { CodeSlice, GraphState, HistoryTurn, SliceHints } from '../core/types.js';
 import { parseFileToAST, loadFilteredAst as loadFilteredAstFile } from '../ast/parse.js';
+import { neighbourhoodForPrompt, questionCandidates } from '../ast/deps.js';
+import { callGraphFilesForQuestion } from '../ast/callgraph.js';
+import { searchProject, type SearchHit } from '../ast/search.js';
+import { drillDown, type DrilldownResult } from '../drilldown/navigate.js';
 import { collectPrunePlan } from '../prune/planner.js';
 import { applyPrunePlan } from '../prune/apply.js';
 import { nodeSelectCodeRanges } from '../code/ranges.js';
 import { nodeLoadCodeSlices } from '../code/load.js';
 import { nodeAnswerFromCode } from '../code/answer.js';
+import { nodeVerifyGrounding } from '../code/grounding.js';
+import { nodeAgentStep, nodeAgentTools } from '../agent/loop.js';
+import { nodeMapFiles, nodeReduceNotes, type MapTask } from '../mapreduce/map.js';
 import { PROMPT_DECIDE_FILES } from '../config/prompts.js';
+import { createChatModel, type ChatModel } from '../llm/provider.js';
+import { DecideFilesSchema } from '../llm/schemas.js';
+import { invokeStructured } from '../llm/structured.js';
 
-/** OpenAI Chat 모델 인스턴스. OPENAI_API_KEY가 없으면 null(데모 모드). */
-export const llm: ChatOpenAI | null = env.OPENAI_API_KEY
-  ? new ChatOpenAI({ model: env.OPENAI_MODEL, apiKey: env.OPENAI_API_KEY })
-  : null;
+/** 챗 모델 인스턴스(`LLM_PROVIDER`로 선택). 공급자가 없으면 null(데모 모드). */
+export const llm: ChatModel | null = createChatModel();
 
 /**
- * 초기 상태 생성 (모드/경로 적용)
- * @param {{promptMode:'slice'|'full'; projectRoot?:string; filteredAstPath?:string}} options 초기 설정
+ * 질문에 심볼 이름이 있으면 콜 그래프의 caller/callee 파일을 wantFiles에 덧붙입니다.
+ * - 추가된 파일은 `_trace.callGraphFiles[iteration]`에 기록한 **새 trace**로 돌려줍니다(입력 상태는 바꾸지 않음).
+ * @param {GraphState} state 현재 상태
+ * @param {string[]} wantFiles 결정된 파일
+ * @returns {{wantFiles: string[]; trace: GraphState['_trace']}} 확장된 파일 목록과 trace
+ */
+function withCallGraphFiles(state: GraphState, wantFiles: string[]): { wantFiles: string[]; trace: GraphState['_trace'] } {
+  const { files } = callGraphFilesForQuestion(state.filteredAst, state.question, env.CALLGRAPH_MAX_FILES);
+  const parsedAll = new Set((state._trace?.filesParsed ?? []).flat());
+  const added = files.filter((f) => !wantFiles.includes(f) && !parsedAll.has(f));
+  if (!added.length || !state._trace) return { wantFiles, trace: state._trace };
+
+  const it = state._trace.iterations ?? 0;
+  const callGraphFiles = [...(state._trace.callGraphFiles ?? [])];
+  callGraphFiles[it] = added;
+  return { wantFiles: [...wantFiles, ...added], trace: { ...state._trace, callGraphFiles } };
+}
+
+/**
+ * 아주 큰 프로젝트(파일 수 > `DRILLDOWN_MIN_FILES`)면 디렉토리 단위로 범위를 좁힙니다.
+ * - 라운드별 기록은 `_trace.drilldown[iteration]`에 남깁니다.
+ * @param {ChatModel} model 챗 모델
+ * @param {GraphState} state 현재 상태
+ * @returns {Promise<DrilldownResult|null>} 좁힌 범위(작은 프로젝트거나 꺼져 있거나 고른 것이 없으면 null)
+ */
+async function drilldownScope(model: ChatModel, state: GraphState): Promise<DrilldownResult | null> {
+  const total = state.filteredAst?.files?.length ?? 0;
+  if (env.DRILLDOWN_MIN_FILES <= 0 || total <= env.DRILLDOWN_MIN_FILES) return null;
+  const result = await drillDown(model, state);
+  if (state._trace && result) {
+    const it = state._trace.iterations ?? 0;
+    state._trace.drilldown = state._trace.drilldown ?? [];
+    state._trace.drilldown[it] = result.rounds;
+  }
+  return result?.scope.length ? result : null;
+}
+
+/**
+ * 큰 프로젝트(파일 수 > `SEARCH_PRESELECT_MIN_FILES`)면 질문으로 검색(BM25)한 상위 파일을 고릅니다.
+ * - 직전 턴 질문도 검색어에 넣어 후속 질문("그건 어디서 호출돼?")을 돕습니다.
+ * - 디렉토리 단위로 좁힌 범위가 있으면 그 안에서만 찾고, 파일 수도 범위 기준으로 셉니다.
+ * - 고른 파일은 `_trace.searchFiles[iteration]`에 기록합니다.
+ * @param {GraphState} state 현재 상태
+ * @param {string[]} [scope] 디렉토리 단위로 좁힌 범위
+ * @returns {Promise<SearchHit[]|null>} 검색 결과(작은 프로젝트거나 꺼져 있으면 null)
+ */
+async function searchPreselect(state: GraphState, scope?: string[]): Promise<SearchHit[] | null> {
+  const total = scope?.length ?? state.filteredAst?.files?.length ?? 0;
+  if (env.SEARCH_PRESELECT_MIN_FILES <= 0 || total <= env.SEARCH_PRESELECT_MIN_FILES) return null;
+  const query = [state.history?.at(-1)?.question, state.question].filter(Boolean).join('\n');
+  const hits = await searchProject(
+    state.projectRoot ?? env.PROJECT_ROOT,
+    state.filteredAst,
+    query,
+    env.SEARCH_PRESELECT_FILES,
+    scope ? new Set(scope) : undefined
+  );
+  if (state._trace) {
+    const it = state._trace.iterations ?? 0;
+    state._trace.searchFiles = state._trace.searchFiles ?? [];
+    state._trace.searchFiles[it] = hits.map((h) => h.file);
+  }
+  return hits;
+}
+
+/**
+ * 프롬프트용 filtered AST (호출 지점 `calls`는 콜 그래프 전용, `preprocessor`는 재파싱/헤더 추적용이라 제외)
+ * @param {any} filteredAst filtered AST(JSON)
+ * @returns {any} 프롬프트에 실을 filtered AST
+ */
+function filteredAstForPrompt(filteredAst: any): any {
+  if (!Array.isArray(filteredAst?.index)) return filteredAst;
+  return { ...filteredAst, index: filteredAst.index.map(({ calls: _calls, preprocessor: _preprocessor, ...rest }: any) => rest) };
+}
+
+/**
+ * 프롬프트용 filtered AST를 `keep` 파일만 남기도록 줄입니다(토큰 예산 초과 시).
+ * - 빠진 파일 수는 `omittedFiles`로 알립니다.
+ * @param {any} filteredAst 프롬프트용 filtered AST
+ * @param {string[]} keep 남길 파일
+ * @returns {any} 줄인 filtered AST
+ */
+function limitFilteredAst(filteredAst: any, keep: string[]): any {
+  const set = new Set(keep);
+  const files: string[] = (filteredAst?.files ?? []).filter((f: string) => set.has(f));
+  return {
+    ...filteredAst,
+    files,
+    index: (filteredAst?.index ?? []).filter((e: any) => set.has(e.file)),
+    omittedFiles: (filteredAst?.files?.length ?? 0) - files.length,
+  };
+}
+
+/**
+ * 초기 상태 생성 (모드/경로/대화 이력 적용)
+ * @param {{promptMode:'slice'|'full'; projectRoot?:string; filteredAstPath?:string; history?:HistoryTurn[]; priorSlices?:CodeSlice[]}} options 초기 설정
  * @returns {GraphState} 초기 상태
  */
 export function initialState(options: {
   promptMode: 'slice' | 'full';
   projectRoot?: string;
   filteredAstPath?: string;
+  history?: HistoryTurn[];
+  priorSlices?: CodeSlice[];
 }): GraphState {
   return {
     question: '',
     projectRoot: options.projectRoot,
     filteredAstPath: options.filteredAstPath,
+    history: options.history,
+    priorSlices: options.priorSlices,
     filteredAst: null,
     wantFiles: [],
     sliceHints: null,
@@ -39,6 +145,7 @@ export function initialState(options: {
     modeUsed: options.promptMode,
     answer: '',
     followups: [],
+    citations: [],
     _loopCount: 0,
     _trace: { iterations: 0, filesRequested: [], filesParsed: [] },
   };
@@ -90,7 +197,7 @@ export class GraphNodes {
       const files = (state.filteredAst?.files || []).filter(
         (f: string) => f.endsWith('.ts') || f.endsWith('.tsx') || f.endsWith('.jsx') || f.endsWith('.js')
       );
-      const wantFiles = files.slice(0, 3);
+      const { wantFiles, trace } = withCallGraphFiles(state, files.slice(0, 3));
       const sliceHints: SliceHints = {
         symbols: state.question ? [state.question] : [],
         hintTypes: ['function_declaration', 'method_definition'],
@@ -98,40 +205,67 @@ export class GraphNodes {
       };
       const next = { ...state, wantFiles, sliceHints };
       const it = state._trace?.iterations ?? 0;
-      const tr = state._trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
+      const tr = trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
       tr.filesRequested[it] = [...wantFiles];
       next._trace = tr;
       return next;
     }
 
+    // 후보 파일(이전 파싱 + 질문에 언급된 심볼/파일)의 import 이웃
+    const previousParsed = (state._trace?.filesParsed ?? []).flat();
+    const candidates = [
+      ...previousParsed,
+      ...questionCandidates(state.filteredAst, state.question, env.DECIDE_NEIGHBOUR_FILES),
+    ].slice(0, Math.max(env.DECIDE_NEIGHBOUR_FILES, previousParsed.length));
+    const neighbourhood = neighbourhoodForPrompt(state.filteredAst, candidates, env.DEPS_DEPTH);
+
+    const history = historyForPrompt(state.history);
+    // 큰 프로젝트는 디렉토리 단위로 좁힌 범위/검색 상위 파일과 후보만 싣고, 그 밖에는 토큰 예산을 넘으면 후보 파일부터 남김
+    const scope = await drilldownScope(llm, state);
+    const search = await searchPreselect(state, scope?.scope);
+    const promptAst = filteredAstForPrompt(state.filteredAst);
+    const pool: string[] = search ? search.map((h) => h.file) : (scope?.scope ?? promptAst?.files ?? []);
+    const order: string[] = [...new Set([...candidates, ...pool])];
+    const limited = !!(search || scope);
+    const entryOf = new Map<string, any>((promptAst?.index ?? []).map((e: any) => [e.file, e]));
+    const render = (n: number) =>
+      JSON.stringify({
+        question: state.question,
+        history,
+        filteredAst: n >= order.length && !limited ? promptAst : limitFilteredAst(promptAst, order.slice(0, n)),
+        scope: scope ? { dirs: scope.dirs, files: scope.files } : undefined,
+        search: search?.map((h) => ({ file: h.file, score: h.score, symbols: h.symbols.map((sym) => sym.name) })),
+        neighbourhood,
+        hint: {
+          previousParsed,
+          droppedAllInLastPrune: !!state.droppedAll,
+          missingEvidence: state.missingEvidence?.length ? state.missingEvidence : undefined,
+        },
+      });
+    const fileText = (i: number) => JSON.stringify(order[i]) + JSON.stringify(entryOf.get(order[i]) ?? null);
+
     const system = PROMPT_DECIDE_FILES;
-    const user = JSON.stringify({
-      question: state.question,
-      filteredAst: state.filteredAst,
-      hint: {
-        previousParsed: (state._trace?.filesParsed ?? []).flat(),
-        droppedAllInLastPrune: !!state.droppedAll,
-      },
-    });
+    const user = (budget: number) => fitToTokens(order.length, budget, render, fileText).text;
 
-    const resp = await (llm as any).invoke([new SystemMessage(system), new HumanMessage(user)]);
+    const { value } = await invokeStructured(llm, { step: 'decideFiles', system, user, schema: DecideFilesSchema, state });
     let wantFiles: string[] = [];
     let sliceHints: SliceHints | null = null;
-    try {
-      const parsed = JSON.parse((resp as any).content);
-      wantFiles = Array.isArray(parsed.wantFiles) ? parsed.wantFiles : [];
-      sliceHints = parsed.sliceHints || null;
-    } catch {
+    if (value) {
+      wantFiles = value.wantFiles;
+      sliceHints = value.sliceHints || null;
+    } else {
       const files = (state.filteredAst?.files || []).filter(
         (f: string) => f.endsWith('.ts') || f.endsWith('.tsx') || f.endsWith('.jsx') || f.endsWith('.js')
       );
       wantFiles = files.slice(0, 3);
       sliceHints = { symbols: state.question ? [state.question] : [], hintTypes: ['function_declaration'], maxNodes: 200 };
     }
+    const expanded = withCallGraphFiles(state, wantFiles);
+    wantFiles = expanded.wantFiles;
 
     const next = { ...state, wantFiles, sliceHints };
     const it = state._trace?.iterations ?? 0;
-    const tr = state._trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
+    const tr = expanded.trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
     tr.filesRequested[it] = [...wantFiles];
     next._trace = tr;
     return next;
@@ -204,6 +338,41 @@ export class GraphNodes {
     return applyPrunePlan(state, plan);
   }
 
+  /**
+   * (map-reduce) 배치 하나의 파일별 메모/코드 범위 추출
+   * - 입력: 반복 회차, 배치 번호, 파일 수
+   * - 출력: 관련 파일 수, 실패 여부
+   * @param {MapTask} task `Send`로 받은 배치
+   * @returns {Promise<Partial<GraphState>>} mapResults에 배치 결과 하나
+   */
+  @Trace({
+    tag: 'nodeMapFiles',
+    pickArgs: ([t]) => ({ iteration: t?.iteration, batch: t?.batch, files: (t?.files ?? []).length }),
+    pickResult: (o: any) => ({
+      relevant: (o?.mapResults?.[0]?.notes ?? []).filter((n: any) => n.relevant).length,
+      error: o?.mapResults?.[0]?.error,
+    }),
+  })
+  static async nodeMapFiles(task: MapTask): Promise<Partial<GraphState>> {
+    return nodeMapFiles(llm, task);
+  }
+
+  /**
+   * (map-reduce) 배치 결과를 모아 코드 범위/메모로 합침
+   * - 입력: 배치 결과 수
+   * - 출력: 범위 개수, 메모 남은 파일 수
+   * @param {GraphState} state 현재 상태
+   * @returns {Promise<GraphState>} codeRanges/mapNotes가 채워진 상태
+   */
+  @Trace({
+    tag: 'nodeReduceNotes',
+    pickArgs: ([s]) => ({ batches: (s?.mapResults ?? []).length }),
+    pickResult: (o: any) => ({ ranges: (o?.codeRanges ?? []).length, notes: (o?.mapNotes ?? []).length }),
+  })
+  static async nodeReduceNotes(state: GraphState): Promise<GraphState> {
+    return nodeReduceNotes(state);
+  }
+
   /**
    * 코드 범위 선택
    * - 입력: pruned/detailed AST 개수 요약
@@ -252,6 +421,67 @@ export class GraphNodes {
   static async nodeAnswerFromCode(state: GraphState): Promise<GraphState> {
     return nodeAnswerFromCode(llm, state);
   }
+
+  /**
+   * 답변 근거 검증
+   * - 입력: 인용/코드 슬라이스 개수
+   * - 출력: 신뢰도, 더 필요한 근거 수
+   * @param {GraphState} state 현재 상태
+   * @returns {Promise<GraphState>} confidence/missingEvidence가 채워진 상태
+   */
+  @Trace({
+    tag: 'nodeVerifyGrounding',
+    pickArgs: ([s]) => ({ citations: (s?.citations ?? []).length, slices: (s?.codeSlices ?? []).length }),
+    pickResult: (o: any) => ({ confidence: o?.confidence, missing: (o?.missingEvidence ?? []).length }),
+  })
+  static async nodeVerifyGrounding(state: GraphState): Promise<GraphState> {
+    return nodeVerifyGrounding(llm, state);
+  }
+
+  /**
+   * (에이전트 모드) 모델에 다음 행동 질의
+   * - 입력: 지금까지의 모델 호출 수
+   * - 출력: 요청한 도구, 종료 사유
+   * @param {GraphState} state 현재 상태
+   * @returns {Promise<GraphState>} agentMessages에 모델 응답이 덧붙은 상태
+   */
+  @Trace({
+    tag: 'nodeAgentStep',
+    pickArgs: ([s]) => ({ steps: s?._trace?.agentSteps ?? 0 }),
+    pickResult: (o: any) => ({
+      tools: ((o?.agentMessages?.at(-1) as any)?.tool_calls ?? []).map((c: any) => c.name),
+      stop: o?._trace?.agentStop,
+    }),
+  })
+  static async nodeAgentStep(state: GraphState): Promise<GraphState> {
+    return nodeAgentStep(llm, state);
+  }
+
+  /**
+   * (에이전트 모드) 도구 실행
+   * - 입력: 요청된 도구 수
+   * - 출력: 누적 도구 호출 수, 코드 조각 수
+   * @param {GraphState} state 현재 상태
+   * @returns {Promise<GraphState>} 도구 결과/codeSlices가 채워진 상태
+   */
+  @Trace({
+    tag: 'nodeAgentTools',
+    pickArgs: ([s]) => ({ calls: ((s?.agentMessages?.at(-1) as any)?.tool_calls ?? []).length }),
+    pickResult: (o: any) => ({ toolCalls: (o?._trace?.toolCalls ?? []).length, slices: (o?.codeSlices ?? []).length }),
+  })
+  static async nodeAgentTools(state: GraphState): Promise<GraphState> {
+    return nodeAgentTools(state);
+  }
+}
+
+/**
+ * 이미 파싱한 적 없는 파일이 wantFiles에 있는지(다시 탐색할 거리가 있는지)
+ * @param {GraphState} state 현재 상태
+ * @returns {boolean} true면 새 파일이 있음
+ */
+export function hasNewFiles(state: GraphState): boolean {
+  const parsedAll = new Set((state._trace?.filesParsed ?? []).flat());
+  return (state.wantFiles ?? []).some((f) => !parsedAll.has(f));
 }
 
 /**
@@ -270,9 +500,5 @@ export function shouldLoop(state: GraphState): boolean {
   const text = arr.join(' ');
   const wantsMore = /파일|file|module|더|expand|detail/i.test(text);
   if (!wantsMore) return false;
-
-  const parsedAll = new Set((state._trace?.filesParsed ?? []).flat());
-  const want = state.wantFiles ?? [];
-  const hasNew = want.some((f) => !parsedAll.has(f));
-  return hasNew;
+  return hasNewFiles(state);
 }
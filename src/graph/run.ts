@@ -1,40 +1,255 @@
-import { compiledGraph, initialState } from './machine.js';
+import type { BaseMessage } from '@langchain/core/messages';
+import { parseJsonMarkdown } from '@langchain/core/output_parsers';
+
+import { compiledAgentGraph, compiledGraph, initialState } from './machine.js';
 import { env } from '../config/env.js';
-import type { GraphState } from '../core/types.js';
+import type { Citation, CodeSlice, Confidence, GraphState, HistoryTurn } from '../core/types.js';
+import { messageText } from '../llm/messages.js';
 
 export interface RunGraphOptions {
   projectRoot?: string;
   filteredAstPath?: string;
   promptMode?: 'slice' | 'full';
+  /** 같은 대화의 이전 턴(오래된 것부터) */
+  history?: HistoryTurn[];
+  /** 이전 턴에서 읽은 코드 조각 */
+  priorSlices?: CodeSlice[];
+  /** 실행 중단 신호(스트리밍 클라이언트 연결 종료 등) */
+  signal?: AbortSignal;
+  /** pipeline(고정 파이프라인) | agent(도구 호출 탐색) — 기본 `GRAPH_MODE` */
+  graphMode?: 'pipeline' | 'agent';
 }
 
-/**
- * 질문 한 건을 입력으로 LangGraph 파이프라인 실행
- * (간략 AST → 파일결정 → 상세 AST → PRUNE → 코드 범위 → 코드 로드 → 코드 기반 답변)
- *
- * @param {string} question 사용자 질문
- * @param {RunGraphOptions} [options] 프로젝트 루트/filtered AST 경로 등 실행 옵션
- * @returns {Promise<{answer:string, followups:string[], wantFiles:string[], modeUsed:'slice'|'full', trace?:GraphState['_trace']}>}
- */
-export async function runGraph(question: string, options: RunGraphOptions = {}): Promise<{
+/** 그래프 실행 결과 */
+export interface RunGraphResult {
   answer: string;
+  /** 답변 근거 인용(읽은 코드 조각 안으로 검증됨) */
+  citations: Citation[];
+  /** 답변 근거 검증 신뢰도(`GROUNDING_CHECK=0`이면 없음) */
+  confidence?: Confidence;
+  /** 답하려면 더 필요한 근거 */
+  missingEvidence: string[];
   followups: string[];
   wantFiles: string[];
   modeUsed: 'slice' | 'full';
+  /** 답변에 쓴 코드 조각(대화에 보관) */
+  codeSlices: CodeSlice[];
   trace?: GraphState['_trace'];
-}> {
+}
+
+/**
+ * 스트리밍 실행 이벤트
+ * - `node-start`/`node-end`: 노드 시작/종료(종료 시 고른 파일, 코드 범위 등 요약 포함)
+ * - `answer-token`: 답변 노드가 생성 중인 답변 텍스트 조각
+ * - `answer-reset`: 답변을 처음부터 다시 받음(복구 재시도, 추가 탐색 루프) — 그때까지 받은 조각은 버림
+ * - `done`: 최종 결과
+ */
+export type GraphStreamEvent =
+  | { type: 'node-start'; node: string }
+  | { type: 'node-end'; node: string; summary: Record<string, unknown> }
+  | { type: 'answer-token'; delta: string }
+  | { type: 'answer-reset' }
+  | { type: 'done'; result: RunGraphResult };
+
+/** 답변 토큰을 스트리밍하는 노드 */
+const ANSWER_NODES = new Set(['answer_from_code']);
+
+/** 실행 옵션으로 초기 상태 생성 */
+function initFor(question: string, options: RunGraphOptions): GraphState {
   const init = initialState({
     promptMode: options.promptMode ?? env.PROMPT_MODE,
     projectRoot: options.projectRoot,
     filteredAstPath: options.filteredAstPath,
+    history: options.history,
+    priorSlices: options.priorSlices,
   });
   init.question = question;
-  const result = (await compiledGraph.invoke(init)) as GraphState;
+  return init;
+}
+
+/**
+ * 실행 모드에 맞는 그래프와 실행 설정
+ * - 에이전트 그래프는 모델/도구 노드를 오가므로 `AGENT_MAX_STEPS`에 맞춰 재귀 한도를 늘립니다.
+ * - 파이프라인은 map-reduce 분기의 동시 실행 수를 `MAP_CONCURRENCY`로 제한합니다.
+ */
+function graphFor(options: RunGraphOptions) {
+  const mode = options.graphMode ?? env.GRAPH_MODE;
+  if (mode === 'agent') {
+    return {
+      graph: compiledAgentGraph,
+      config: { signal: options.signal, recursionLimit: 2 * Math.max(1, env.AGENT_MAX_STEPS) + 10 },
+    };
+  }
+  return {
+    graph: compiledGraph,
+    config: { signal: options.signal, maxConcurrency: env.MAP_CONCURRENCY > 0 ? env.MAP_CONCURRENCY : undefined },
+  };
+}
+
+/** 최종 상태 → 실행 결과 */
+function resultOf(result: GraphState): RunGraphResult {
   return {
     answer: result.answer,
+    citations: result.citations || [],
+    confidence: result.confidence,
+    missingEvidence: result.missingEvidence || [],
     followups: result.followups || [],
     wantFiles: result.wantFiles || [],
     modeUsed: (result.modeUsed as 'slice' | 'full') || env.PROMPT_MODE,
+    codeSlices: result.codeSlices || [],
     trace: result._trace,
   };
 }
+
+/**
+ * 질문 한 건을 입력으로 LangGraph 파이프라인 실행
+ * (간략 AST → 파일결정 → 상세 AST → PRUNE(파일이 많으면 파일별 map → reduce) → 코드 범위 → 코드 로드 → 코드 기반 답변 → 근거 검증)
+ *
+ * @param {string} question 사용자 질문
+ * @param {RunGraphOptions} [options] 프로젝트 루트/filtered AST 경로 등 실행 옵션
+ * @returns {Promise<RunGraphResult>} 답변, 인용, 신뢰도, 후속 질문, 고른 파일, 코드 조각, trace
+ */
+export async function runGraph(question: string, options: RunGraphOptions = {}): Promise<RunGraphResult> {
+  const { graph, config } = graphFor(options);
+  const result = (await graph.invoke(initFor(question, options), config)) as GraphState;
+  return resultOf(result);
+}
+
+/**
+ * 노드가 끝났을 때 클라이언트에 알릴 요약(코드/AST 본문 제외)
+ * @param {string} node 노드 이름
+ * @param {Partial<GraphState>} s 노드가 쓴 상태
+ * @returns {Record<string, unknown>} 요약
+ */
+function summarizeNode(node: string, s: Partial<GraphState>): Record<string, unknown> {
+  switch (node) {
+    case 'load_filtered':
+      return { files: (s.filteredAst as any)?.files?.length ?? 0 };
+    case 'decide_files':
+    case 'decide_files_again':
+      return { wantFiles: s.wantFiles ?? [], sliceHints: s.sliceHints ?? null };
+    case 'get_details':
+      return { files: (s.detailedAsts ?? []).map((a) => a.filePath) };
+    case 'prune_ast':
+      return {
+        mode: s.prunePlan?.mode ?? null,
+        files: (s.prunedAsts ?? []).map((a) => a.filePath),
+        droppedAll: !!s.droppedAll,
+      };
+    case 'map_file': {
+      const r = s.mapResults?.[0];
+      return {
+        batch: r?.batch ?? null,
+        files: r?.files ?? [],
+        relevant: (r?.notes ?? []).filter((n) => n.relevant).map((n) => n.file),
+        error: r?.error ?? null,
+      };
+    }
+    case 'reduce_notes':
+      return { ranges: s.codeRanges ?? [], notes: s.mapNotes ?? [] };
+    case 'select_code_ranges':
+      return { ranges: s.codeRanges ?? [] };
+    case 'load_code_slices':
+      return {
+        slices: (s.codeSlices ?? []).map(({ code: _code, ...rest }) => rest),
+        reused: s._trace?.slicesReused?.at(-1) ?? 0,
+      };
+    case 'agent':
+      return {
+        toolCalls: ((s.agentMessages?.at(-1) as any)?.tool_calls ?? []).map((c: any) => ({ name: c.name, args: c.args })),
+        stop: s._trace?.agentStop ?? null,
+      };
+    case 'agent_tools': {
+      const calls = s._trace?.toolCalls ?? [];
+      const step = calls.at(-1)?.step;
+      return {
+        results: calls.filter((c) => c.step === step && c.tool !== 'finish'),
+        files: s.wantFiles ?? [],
+        stop: s._trace?.agentStop ?? null,
+      };
+    }
+    case 'answer_from_code':
+      return { citations: s.citations ?? [], followups: s.followups ?? [] };
+    case 'verify_grounding':
+      return {
+        confidence: s.confidence ?? null,
+        missingEvidence: s.missingEvidence ?? [],
+        retry: !!s._trace?.grounding?.at(-1)?.retry,
+      };
+    default:
+      return {};
+  }
+}
+
+/** 답변 메시지 조각의 텍스트(구조화 출력이면 tool call 인자 JSON) */
+function chunkText(message: BaseMessage): string {
+  const m = message as any;
+  if (m.tool_call_chunks?.length) return m.tool_call_chunks.map((c: any) => c.args ?? '').join('');
+  if (m.tool_calls?.length) return JSON.stringify(m.tool_calls[0].args ?? {});
+  return messageText(message);
+}
+
+/** 지금까지 받은 JSON 조각에서 `answer` 필드 값(아직 없으면 빈 문자열) */
+function partialAnswer(text: string): string {
+  try {
+    const value = parseJsonMarkdown(text.slice(Math.max(0, text.search(/[{`]/))));
+    return typeof value?.answer === 'string' ? value.answer : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * 질문 한 건을 실행하며 진행 이벤트를 차례로 돌려줍니다.
+ *
+ * - LangGraph의 `tasks` 스트림으로 노드 시작/종료를, `messages` 스트림으로 답변 노드의 모델 출력 조각을 받습니다.
+ * - 답변은 JSON으로 생성되므로 부분 JSON에서 `answer` 필드만 꺼내 늘어난 부분을 `answer-token`으로 보냅니다.
+ * - 마지막으로 `done` 이벤트에 {@link runGraph}와 같은 결과를 담습니다.
+ *
+ * @param {string} question 사용자 질문
+ * @param {RunGraphOptions} [options] 실행 옵션
+ * @returns {AsyncGenerator<GraphStreamEvent>} 진행 이벤트
+ */
+export async function* streamGraph(
+  question: string,
+  options: RunGraphOptions = {}
+): AsyncGenerator<GraphStreamEvent> {
+  const { graph, config } = graphFor(options);
+  const stream = await graph.stream(initFor(question, options), {
+    ...config,
+    streamMode: ['tasks', 'messages', 'values'],
+  });
+
+  let final: GraphState | undefined;
+  // 답변 모델 호출(메시지 ID)별 누적 텍스트와 보낸 답변
+  let current: { id?: string; text: string; sent: string } | null = null;
+
+  for await (const [mode, chunk] of stream as AsyncIterable<[string, any]>) {
+    if (mode === 'values') {
+      final = chunk as GraphState;
+    } else if (mode === 'tasks') {
+      if ('input' in chunk) {
+        yield { type: 'node-start', node: chunk.name };
+      } else {
+        // 타입 선언은 [채널, 값][]이지만 런타임은 { 채널: 값 } 객체로 줌
+        const writes = Array.isArray(chunk.result) ? Object.fromEntries(chunk.result) : chunk.result;
+        yield { type: 'node-end', node: chunk.name, summary: summarizeNode(chunk.name, writes ?? {}) };
+      }
+    } else if (mode === 'messages') {
+      const [message, meta] = chunk as [BaseMessage, Record<string, any>];
+      if (!ANSWER_NODES.has(meta?.langgraph_node)) continue;
+      if (!current || message.id !== current.id) {
+        if (current?.sent) yield { type: 'answer-reset' };
+        current = { id: message.id, text: '', sent: '' };
+      }
+      current.text += chunkText(message);
+      const answer = partialAnswer(current.text);
+      if (answer.length > current.sent.length && answer.startsWith(current.sent)) {
+        yield { type: 'answer-token', delta: answer.slice(current.sent.length) };
+        current.sent = answer;
+      }
+    }
+  }
+  if (!final) throw new Error('graph produced no state');
+  yield { type: 'done', result: resultOf(final) };
+}
@@ -0,0 +1,333 @@
+import fs from 'fs';
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { SimpleChatModel, type BaseChatModelParams } from '@langchain/core/language_models/chat_models';
+import { AIMessage, AIMessageChunk, type BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, type ChatResult } from '@langchain/core/outputs';
+
+import {
+  PROMPT_AGENT,
+  PROMPT_ANSWER_FROM_AST,
+  PROMPT_ANSWER_FROM_CODE,
+  PROMPT_DECIDE_FILES,
+  PROMPT_DIR_SUMMARIES,
+  PROMPT_DRILLDOWN,
+  PROMPT_MAP_FILES,
+  PROMPT_PRUNE_PLAN,
+  PROMPT_SELECT_CODE_RANGES,
+  PROMPT_VERIFY_GROUNDING,
+} from '../config/prompts.js';
+import { messageText } from './messages.js';
+
+/** 스트리밍 응답 조각 크기(글자) */
+const STREAM_CHUNK_CHARS = 16;
+
+/** 스크립트 항목(노드별) */
+export type FakeStep =
+  | 'decideFiles'
+  | 'drilldown'
+  | 'dirSummaries'
+  | 'prunePlan'
+  | 'codeRanges'
+  | 'mapFiles'
+  | 'answerFromCode'
+  | 'answerFromAst'
+  | 'verifyGrounding'
+  | 'agent';
+
+/**
+ * 스크립트 응답
+ * - 문자열은 그대로, 객체는 JSON으로 직렬화해 돌려줍니다.
+ * - 함수는 요청 페이로드(사용자 메시지 JSON)를 받아 응답을 만듭니다.
+ * - `{ "tool_calls": [{ "name", "args" }] }` 객체는 도구 호출 응답이 됩니다(에이전트 모드).
+ */
+export type FakeReply = string | object | ((input: any) => string | object);
+
+/**
+ * 노드별 응답 스크립트
+ * - 배열이면 호출마다 차례로 쓰고, 다 쓰면 마지막 응답을 반복합니다.
+ * - 없는 항목은 요청 페이로드에서 만든 기본 응답을 씁니다.
+ */
+export type FakeScript = Partial<Record<FakeStep, FakeReply | FakeReply[]>>;
+
+/** 기록된 호출 */
+export interface FakeCall {
+  step: FakeStep | null;
+  input: any;
+  output: string;
+}
+
+/** 시스템 프롬프트 → 스크립트 항목 */
+const STEP_BY_PROMPT: Array<[string, FakeStep]> = [
+  [PROMPT_DECIDE_FILES, 'decideFiles'],
+  [PROMPT_DRILLDOWN, 'drilldown'],
+  [PROMPT_DIR_SUMMARIES, 'dirSummaries'],
+  [PROMPT_PRUNE_PLAN, 'prunePlan'],
+  [PROMPT_SELECT_CODE_RANGES, 'codeRanges'],
+  [PROMPT_MAP_FILES, 'mapFiles'],
+  [PROMPT_ANSWER_FROM_CODE, 'answerFromCode'],
+  [PROMPT_ANSWER_FROM_AST, 'answerFromAst'],
+  [PROMPT_VERIFY_GROUNDING, 'verifyGrounding'],
+  [PROMPT_AGENT, 'agent'],
+];
+
+/** 시스템 프롬프트가 어느 노드의 것인지(앞부분이 같으면 같은 노드로 봄 — 뒤에 덧붙인 지시는 무시) */
+function stepOf(system: string): FakeStep | null {
+  const s = system.trim();
+  for (const [prompt, step] of STEP_BY_PROMPT) {
+    if (s.startsWith(prompt.slice(0, 80))) return step;
+  }
+  return null;
+}
+
+/**
+ * 요청 페이로드만으로 만든 기본 응답 — 그래프가 끝까지 흘러가도록 "무난한" 선택을 합니다.
+ * - decideFiles: 질문에 이름이 나온 파일을 우선, 없으면 앞쪽 3개
+ * - drilldown: 질문에 이름이 나온 하위 디렉토리, 없으면 첫 목록의 가장 큰 하위 디렉토리
+ * - dirSummaries: 파일 수/언어로 만든 요약
+ * - prunePlan: 모든 파일 유지(KEEP_SOME + keep_full)
+ * - codeRanges: 아웃라인의 첫 선언, 없으면 파일 상단 80줄
+ * - mapFiles: 모든 파일 관련 있음, 범위는 아웃라인의 첫 선언(없으면 파일 상단 40줄)
+ * - answer*: 입력 요약
+ * - verifyGrounding: 인용마다 근거 있음, 인용이 없으면 근거 없음
+ * - agent: 질문에 이름이 나온(없으면 첫) 파일의 list_symbols → 첫 선언 read_range → finish
+ */
+function defaultReply(step: FakeStep | null, input: any): object | string {
+  const question = String(input?.question ?? '');
+  switch (step) {
+    case 'decideFiles': {
+      const files: string[] = input?.filteredAst?.files ?? [];
+      const q = question.toLowerCase();
+      const named = files.filter((f) => q.includes(f.split('/').pop()!.replace(/\.[^.]+$/, '').toLowerCase()));
+      return {
+        wantFiles: (named.length ? named : files).slice(0, 3),
+        sliceHints: { symbols: [], hintTypes: ['function_declaration', 'method_definition'], maxNodes: 200 },
+      };
+    }
+    case 'drilldown': {
+      const views: any[] = input?.dirs ?? [];
+      const q = question.toLowerCase();
+      const subdirs: string[] = views.flatMap((v) => (v.subdirs ?? []).map((d: any) => d.dir));
+      const named = subdirs.filter((d) => q.includes(d.split('/').pop()!.toLowerCase()));
+      return { openDirs: named.length ? named : subdirs.slice(0, 1), files: [] };
+    }
+    case 'dirSummaries': {
+      const dirs: any[] = input?.dirs ?? [];
+      return {
+        summaries: dirs.map((d) => ({
+          dir: d.dir,
+          summary: `fake: ${d.files} file(s) in ${Object.keys(d.languages ?? {}).join(', ') || 'unknown languages'}`,
+        })),
+      };
+    }
+    case 'prunePlan': {
+      const files: string[] = input?.files ?? [];
+      return {
+        mode: files.length ? 'KEEP_SOME' : 'DROP_ALL',
+        keep_full: files,
+        slice: [],
+        drop: [],
+        rationale: 'fake: keep every file',
+      };
+    }
+    case 'codeRanges': {
+      const meta: any[] = input?.astMeta ?? [];
+      return {
+        ranges: meta.map((m) => {
+          const first = (m.outline ?? [])[0];
+          return first
+            ? { file: m.file, startLine: first.startLine, endLine: first.endLine, rationale: `fake: ${first.name}` }
+            : { file: m.file, startLine: 1, endLine: Math.min(m.lines ?? 80, 80), rationale: 'fake: head' };
+        }),
+      };
+    }
+    case 'mapFiles': {
+      const files: any[] = input?.files ?? [];
+      return {
+        files: files.map((f) => {
+          const first = (f.outline ?? [])[0];
+          return {
+            file: f.file,
+            relevant: true,
+            notes: `fake: ${f.file} (${f.lines ?? 0} lines)`,
+            ranges: first
+              ? [{ startLine: first.startLine, endLine: first.endLine, rationale: `fake: ${first.name}` }]
+              : [{ startLine: 1, endLine: Math.max(1, Math.min(f.lines ?? 40, 40)), rationale: 'fake: head' }],
+          };
+        }),
+      };
+    }
+    case 'answerFromCode': {
+      const slices: any[] = input?.codeSlices ?? [];
+      return {
+        answer: `fake answer for "${question}" from ${slices.length} slice(s): ` +
+          slices.map((s) => `${s.file}:${s.startLine}-${s.endLine}`).join(', '),
+        citations: slices.map((s) => ({
+          file: s.file,
+          startLine: s.startLine,
+          endLine: s.endLine,
+          claim: s.rationale ?? 'fake slice',
+        })),
+        followups: [],
+      };
+    }
+    case 'answerFromAst': {
+      const asts: any[] = input?.detailedAsts ?? [];
+      return { answer: `fake answer for "${question}" from ${asts.length} AST(s)`, followups: [] };
+    }
+    case 'verifyGrounding': {
+      const citations: any[] = input?.citations ?? [];
+      if (!citations.length) {
+        return { claims: [{ claim: String(input?.answer ?? ''), supported: false }], missing: ['fake: code for the question'] };
+      }
+      return {
+        claims: citations.map((c) => ({
+          claim: c.claim ?? `${c.file}:${c.startLine}-${c.endLine}`,
+          supported: true,
+          evidence: `${c.file}:${c.startLine}-${c.endLine}`,
+        })),
+        missing: [],
+      };
+    }
+    case 'agent': {
+      const files: string[] = input?.files ?? [];
+      const results: Array<{ name: string; content: string }> = input?.toolResults ?? [];
+      const q = question.toLowerCase();
+      const file = files.find((f) => q.includes(f.split('/').pop()!.replace(/\.[^.]+$/, '').toLowerCase())) ?? files[0];
+      const last = results.at(-1);
+      if (!file) return { tool_calls: [{ name: 'finish', args: { reason: 'fake: no files' } }] };
+      if (!last) return { tool_calls: [{ name: 'list_symbols', args: { file } }] };
+      if (last.name === 'list_symbols') {
+        let first: any;
+        try {
+          first = JSON.parse(last.content).symbols?.[0];
+        } catch {
+          // 잘린 결과
+        }
+        const args = first ? { file, startLine: first.startLine, endLine: first.endLine } : { file, startLine: 1, endLine: 80 };
+        return { tool_calls: [{ name: 'read_range', args }] };
+      }
+      return { tool_calls: [{ name: 'finish', args: { reason: 'fake: read enough' } }] };
+    }
+    default:
+      return '{}';
+  }
+}
+
+/**
+ * 스크립트 JSON 파일을 읽습니다(`FAKE_LLM_SCRIPT`).
+ * @param {string} file 스크립트 경로
+ * @returns {FakeScript} 노드별 응답 스크립트
+ * @throws {Error} 파일이 없거나 JSON 객체가 아닌 경우
+ */
+export function loadFakeScript(file: string): FakeScript {
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${file}: fake LLM script must be a JSON object keyed by step`);
+  }
+  return parsed as FakeScript;
+}
+
+/**
+ * 네트워크 없이 노드별로 정해진 JSON을 돌려주는 챗 모델입니다.
+ *
+ * - 시스템 프롬프트(`PROMPT_*`)로 어느 노드의 호출인지 판별해 스크립트 응답을 고릅니다.
+ * - 스크립트에 없는 노드는 요청 페이로드에서 만든 기본 응답을 씁니다.
+ * - 모든 호출은 `calls`에 기록되어 테스트에서 검사할 수 있습니다.
+ */
+export class ScriptedChatModel extends SimpleChatModel {
+  readonly calls: FakeCall[] = [];
+  private readonly script: FakeScript;
+  private readonly cursor = new Map<FakeStep, number>();
+
+  constructor(script: FakeScript = {}, params: BaseChatModelParams = {}) {
+    super(params);
+    this.script = script;
+  }
+
+  _llmType(): string {
+    return 'fake-scripted';
+  }
+
+  /** 노드별 다음 응답(배열이면 차례로, 끝나면 마지막 반복) */
+  private next(step: FakeStep | null): FakeReply | undefined {
+    if (!step) return undefined;
+    const entry = this.script[step];
+    if (!Array.isArray(entry)) return entry;
+    if (!entry.length) return undefined;
+    const i = this.cursor.get(step) ?? 0;
+    this.cursor.set(step, i + 1);
+    return entry[Math.min(i, entry.length - 1)];
+  }
+
+  /** 스크립트 응답으로 메시지 생성(`tool_calls` 응답이면 도구 호출 메시지) */
+  private respond(messages: BaseMessage[]): AIMessage {
+    const system = messageText(messages.find((m) => m.getType() === 'system'));
+    // 복구 재시도에서도 원래 요청(첫 사용자 메시지)을 기준으로 응답
+    const human = messageText(messages.find((m) => m.getType() === 'human'));
+    const step = stepOf(system);
+    let input: any = human;
+    try {
+      input = JSON.parse(human);
+    } catch {
+      // 평문 요청
+    }
+    if (step === 'agent' && input && typeof input === 'object') {
+      const toolResults = messages
+        .filter((m) => m.getType() === 'tool')
+        .map((m) => ({ name: (m as any).name ?? '', content: messageText(m) }));
+      input = { ...input, toolResults };
+    }
+
+    const reply = this.next(step);
+    const value: any = typeof reply === 'function' ? reply(input) : reply ?? defaultReply(step, input);
+    const output = typeof value === 'string' ? value : JSON.stringify(value);
+    this.calls.push({ step, input, output });
+
+    if (value && typeof value === 'object' && Array.isArray(value.tool_calls)) {
+      return new AIMessage({
+        content: '',
+        tool_calls: value.tool_calls.map((c: any, i: number) => ({
+          id: `fake_call_${this.calls.length}_${i}`,
+          name: String(c.name),
+          args: c.args ?? {},
+          type: 'tool_call' as const,
+        })),
+      });
+    }
+    return new AIMessage(output);
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    return messageText(this.respond(messages));
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const message = this.respond(messages);
+    return { generations: [{ text: messageText(message), message }] };
+  }
+
+  /** 스트리밍으로 호출되면(`/graph/ask/stream`) 응답을 몇 글자씩 나눠 보냅니다(도구 호출은 한 번에). */
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this.respond(messages);
+    if (message.tool_calls?.length) {
+      const tool_call_chunks = message.tool_calls.map((c, index) => ({
+        id: c.id, name: c.name, args: JSON.stringify(c.args), index, type: 'tool_call_chunk' as const,
+      }));
+      const chunk = new ChatGenerationChunk({ text: '', message: new AIMessageChunk({ content: '', tool_call_chunks }) });
+      yield chunk;
+      await runManager?.handleLLMNewToken('', undefined, undefined, undefined, undefined, { chunk });
+      return;
+    }
+    const output = messageText(message);
+    for (let i = 0; i < output.length; i += STREAM_CHUNK_CHARS) {
+      const text = output.slice(i, i + STREAM_CHUNK_CHARS);
+      const chunk = new ChatGenerationChunk({ text, message: new AIMessageChunk({ content: text }) });
+      yield chunk;
+      await runManager?.handleLLMNewToken(text, undefined, undefined, undefined, undefined, { chunk });
+    }
+  }
+}
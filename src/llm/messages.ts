@@ -0,0 +1,13 @@
+import type { BaseMessage } from '@langchain/core/messages';
+
+/**
+ * 메시지 내용을 문자열로 합칩니다(멀티파트 content 포함).
+ * @param {BaseMessage | undefined} m 메시지
+ * @returns {string} 텍스트
+ */
+export function messageText(m: BaseMessage | undefined): string {
+  if (!m) return '';
+  return typeof m.content === 'string'
+    ? m.content
+    : m.content.map((p: any) => (typeof p === 'string' ? p : p?.text ?? '')).join('');
+}
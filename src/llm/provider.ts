@@ -0,0 +1,90 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatOpenAI } from '@langchain/openai';
+
+import { env } from '../config/env.js';
+import { loadFakeScript, ScriptedChatModel } from './fake.js';
+
+/** 지원하는 LLM 공급자 */
+export type LlmProvider = 'openai' | 'openai-compatible' | 'anthropic' | 'fake' | 'none';
+
+/** 그래프 노드가 쓰는 챗 모델(공급자와 무관) */
+export type ChatModel = BaseChatModel;
+
+const PROVIDERS: LlmProvider[] = ['openai', 'openai-compatible', 'anthropic', 'fake', 'none'];
+
+/**
+ * `LLM_PROVIDER`로 공급자를 고릅니다.
+ * - 비어 있으면 예전 동작대로 `OPENAI_API_KEY`가 있을 때만 openai, 없으면 none(데모 경로)
+ * @returns {LlmProvider} 공급자
+ * @throws {Error} 알 수 없는 공급자 이름
+ */
+export function resolveProvider(): LlmProvider {
+  const name = env.LLM_PROVIDER;
+  if (!name) return env.OPENAI_API_KEY ? 'openai' : 'none';
+  if (!PROVIDERS.includes(name as LlmProvider)) {
+    throw new Error(`unknown LLM_PROVIDER "${name}" (expected one of: ${PROVIDERS.join(', ')})`);
+  }
+  return name as LlmProvider;
+}
+
+/**
+ * 공급자별 모델 이름(`LLM_MODEL`이 있으면 우선)
+ * @param {LlmProvider} provider 공급자
+ * @returns {string} 모델 이름
+ */
+function modelFor(provider: LlmProvider): string {
+  if (env.LLM_MODEL) return env.LLM_MODEL;
+  if (provider === 'anthropic') return env.ANTHROPIC_MODEL;
+  if (provider === 'fake') return 'scripted';
+  return env.OPENAI_MODEL;
+}
+
+/**
+ * 환경 변수로 챗 모델을 만듭니다.
+ *
+ * - openai: `OPENAI_API_KEY`, `OPENAI_MODEL`
+ * - openai-compatible: `LLM_BASE_URL`(필수), `LLM_API_KEY`(없으면 더미 키), `LLM_MODEL`
+ * - anthropic: `ANTHROPIC_API_KEY`, `ANTHROPIC_MODEL`
+ * - fake: 노드별 JSON을 돌려주는 {@link ScriptedChatModel}(`FAKE_LLM_SCRIPT`로 응답 지정)
+ * - none: null(각 노드가 데모 경로로 동작)
+ *
+ * @returns {ChatModel | null} 챗 모델(없으면 null)
+ * @throws {Error} 필수 설정이 빠진 경우
+ */
+export function createChatModel(): ChatModel | null {
+  const provider = resolveProvider();
+  const model = modelFor(provider);
+  switch (provider) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) throw new Error('LLM_PROVIDER=openai requires OPENAI_API_KEY');
+      return new ChatOpenAI({ model, apiKey: env.OPENAI_API_KEY });
+    case 'openai-compatible':
+      if (!env.LLM_BASE_URL) throw new Error('LLM_PROVIDER=openai-compatible requires LLM_BASE_URL');
+      return new ChatOpenAI({
+        model,
+        apiKey: env.LLM_API_KEY || 'not-needed', // 로컬 서버는 대개 키를 검사하지 않음
+        configuration: { baseURL: env.LLM_BASE_URL },
+      });
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) throw new Error('LLM_PROVIDER=anthropic requires ANTHROPIC_API_KEY');
+      return new ChatAnthropic({ model, apiKey: env.ANTHROPIC_API_KEY });
+    case 'fake':
+      return new ScriptedChatModel(env.FAKE_LLM_SCRIPT ? loadFakeScript(env.FAKE_LLM_SCRIPT) : {});
+    case 'none':
+      return null;
+  }
+}
+
+/**
+ * 현재 공급자 설정 요약(`/health` 응답용 — 키는 포함하지 않음)
+ * @returns {{provider: LlmProvider, model: string | null, baseURL?: string}} 공급자 요약
+ */
+export function describeProvider(): { provider: LlmProvider; model: string | null; baseURL?: string } {
+  const provider = resolveProvider();
+  return {
+    provider,
+    model: provider === 'none' ? null : modelFor(provider),
+    ...(provider === 'openai-compatible' ? { baseURL: env.LLM_BASE_URL } : {}),
+  };
+}
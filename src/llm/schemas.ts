@@ -0,0 +1,119 @@
+import { z } from 'zod';
+
+/** 상세 AST 슬라이싱 힌트({@link SliceHints}) */
+const SliceHintsSchema = z.object({
+  symbols: z.array(z.string()).optional(),
+  hintTypes: z.array(z.string()).optional(),
+  maxNodes: z.number().int().positive().optional(),
+});
+
+/** 파일 결정(`PROMPT_DECIDE_FILES`) 응답 */
+export const DecideFilesSchema = z.object({
+  wantFiles: z.array(z.string()),
+  sliceHints: SliceHintsSchema.nullable().optional(),
+});
+
+/** 디렉토리 단위 탐색(`PROMPT_DRILLDOWN`) 응답 */
+export const DrilldownSchema = z.object({
+  openDirs: z.array(z.string()).default([]),
+  files: z.array(z.string()).default([]),
+});
+
+/** 디렉토리 한 줄 요약(`PROMPT_DIR_SUMMARIES`) 응답 */
+export const DirSummariesSchema = z.object({
+  summaries: z.array(z.object({ dir: z.string(), summary: z.string() })),
+});
+
+/** 프루닝 계획(`PROMPT_PRUNE_PLAN`) 응답 */
+export const PrunePlanSchema = z.object({
+  mode: z.enum(['DROP_ALL', 'KEEP_SOME', 'KEEP_MIN']),
+  keep_full: z.array(z.string()).default([]),
+  slice: z
+    .array(
+      z.object({
+        file: z.string(),
+        by: z
+          .object({
+            types: z.array(z.string()).optional(),
+            symbols: z.array(z.string()).optional(),
+            maxNodes: z.number().int().positive().optional(),
+          })
+          .default({}),
+        paths: z.array(z.string()).optional(),
+      })
+    )
+    .default([]),
+  drop: z.array(z.string()).default([]),
+  rationale: z.string().default(''),
+});
+
+/** 코드 범위 선택(`PROMPT_SELECT_CODE_RANGES`) 응답 — 라인은 1-based inclusive */
+export const CodeRangesSchema = z.object({
+  ranges: z.array(
+    z.object({
+      file: z.string(),
+      startLine: z.number().int().min(1),
+      endLine: z.number().int().min(1),
+      rationale: z.string().optional(),
+    })
+  ),
+});
+
+/** 파일별 메모(`PROMPT_MAP_FILES`) 응답 — 라인은 1-based inclusive */
+export const MapFilesSchema = z.object({
+  files: z.array(
+    z.object({
+      file: z.string(),
+      relevant: z.boolean(),
+      notes: z.string().default(''),
+      ranges: z
+        .array(
+          z.object({
+            startLine: z.number().int().min(1),
+            endLine: z.number().int().min(1),
+            rationale: z.string().optional(),
+          })
+        )
+        .default([]),
+    })
+  ),
+});
+
+/** 최종 답변(`PROMPT_ANSWER_FROM_CODE`/`PROMPT_ANSWER_FROM_AST`) 응답 */
+export const AnswerSchema = z.object({
+  answer: z.string(),
+  citations: z
+    .array(
+      z.object({
+        file: z.string(),
+        startLine: z.number().int().min(1),
+        endLine: z.number().int().min(1),
+        claim: z.string().optional(),
+      })
+    )
+    .default([]),
+  followups: z.array(z.string()).default([]),
+});
+
+/** 답변 근거 검증(`PROMPT_VERIFY_GROUNDING`) 응답 */
+export const GroundingSchema = z.object({
+  claims: z
+    .array(
+      z.object({
+        claim: z.string(),
+        supported: z.boolean(),
+        evidence: z.string().optional(),
+      })
+    )
+    .default([]),
+  missing: z.array(z.string()).default([]),
+});
+
+export type DecideFilesOutput = z.infer<typeof DecideFilesSchema>;
+export type DrilldownOutput = z.infer<typeof DrilldownSchema>;
+export type DirSummariesOutput = z.infer<typeof DirSummariesSchema>;
+export type PrunePlanOutput = z.infer<typeof PrunePlanSchema>;
+export type CodeRangesOutput = z.infer<typeof CodeRangesSchema>;
+export type MapFilesOutput = z.infer<typeof MapFilesSchema>;
+export type AnswerOutput = z.infer<typeof AnswerSchema>;
+export type GroundingOutput = z.infer<typeof GroundingSchema>;
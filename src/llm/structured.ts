@@ -0,0 +1,206 @@
+import { AIMessage, HumanMessage, SystemMessage, type BaseMessage } from '@langchain/core/messages';
+import { OutputParserException } from '@langchain/core/output_parsers';
+import type { z } from 'zod';
+
+import { env } from '../config/env.js';
+import { PROMPT_REPAIR_JSON } from '../config/prompts.js';
+import { countMessageTokens } from '../core/tokenizer.js';
+import type { GraphState, LlmFailure, TraceBuffer } from '../core/types.js';
+import { messageText } from './messages.js';
+import type { ChatModel } from './provider.js';
+
+/** 구조화 호출 결과 */
+export interface StructuredResult<T> {
+  /** 스키마를 통과한 값(재시도까지 모두 실패하면 null) */
+  value: T | null;
+  /** 마지막 응답 원문(구조화 출력 경로에서는 빈 문자열일 수 있음) */
+  raw: string;
+}
+
+/**
+ * 모델 응답 텍스트에서 JSON 값을 꺼냅니다.
+ * - 코드 펜스(```json … ```)를 벗기고, 앞뒤 설명이 붙었으면 가장 바깥 `{…}`만 사용합니다.
+ * @param {string} text 응답 텍스트
+ * @returns {unknown} 파싱된 값
+ * @throws {Error} JSON을 찾지 못하거나 파싱에 실패한 경우
+ */
+export function extractJson(text: string): unknown {
+  let s = text.trim();
+  const fence = /```[a-zA-Z]*\s*\n?([\s\S]*?)```/.exec(s);
+  if (fence) s = fence[1].trim();
+  if (!s.startsWith('{') && !s.startsWith('[')) {
+    const start = s.indexOf('{');
+    const end = s.lastIndexOf('}');
+    if (start === -1 || end <= start) throw new Error('no JSON object found in the reply');
+    s = s.slice(start, end + 1);
+  }
+  try {
+    return JSON.parse(s);
+  } catch (e: any) {
+    throw new Error(`invalid JSON: ${e?.message || e}`);
+  }
+}
+
+/** zod 오류를 프롬프트/추적용 한 줄로 */
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+}
+
+/** tool-calling 구조화 출력을 쓸 수 있는 모델인지 */
+function supportsStructuredOutput(llm: ChatModel): boolean {
+  return env.LLM_STRUCTURED_OUTPUT && typeof llm.bindTools === 'function';
+}
+
+/**
+ * 공급자가 tool-calling 구조화 출력 요청 자체를 지원하지 않는다는 오류인지
+ * - 한도 초과(429), 인증(401/403), 네트워크 오류 등은 텍스트 경로로 바꿔도 같으므로 false
+ * @param {any} e 호출 오류
+ * @returns {boolean} 텍스트(JSON) 경로로 다시 시도할 오류인지
+ */
+function isToolCallingUnsupported(e: any): boolean {
+  const status = e?.status ?? e?.response?.status;
+  if (status != null && ![400, 404, 422, 501].includes(Number(status))) return false;
+  const msg = String(e?.message || e);
+  return (
+    /\btools?\b|function[ _-]?call|tool[ _-]?choice|response_format|structured output/i.test(msg) &&
+    /not (be )?supported|unsupported|(does not|doesn't|do not) support|not (available|enabled|allowed)|unrecognized|unknown (parameter|field)/i.test(msg)
+  );
+}
+
+/** 상태의 추적 버퍼(없으면 만들어 붙임) */
+function traceOf(state: GraphState): TraceBuffer {
+  return (state._trace ??= { iterations: 0, filesRequested: [], filesParsed: [] });
+}
+
+/** 실패를 `_trace.llmFailures`에 기록합니다. */
+function recordFailure(state: GraphState | undefined, failure: Omit<LlmFailure, 'iteration'>): void {
+  if (!state) return;
+  const tr = traceOf(state);
+  (tr.llmFailures ??= []).push({ iteration: tr.iterations ?? 0, ...failure });
+}
+
+/** 프롬프트 토큰 수가 컨텍스트 창(`MODEL_CTX_TOKENS - OUTPUT_TOKENS_BUDGET`) 안에 들어가는지 */
+function fitsContext(tokens: number): boolean {
+  return env.MODEL_CTX_TOKENS <= 0 || tokens + env.OUTPUT_TOKENS_BUDGET <= env.MODEL_CTX_TOKENS;
+}
+
+/** 실제로 보내는 프롬프트의 토큰 수를 `_trace.promptTokens`에 기록합니다. */
+function recordPromptTokens(state: GraphState | undefined, step: string, tokens: number): void {
+  if (!state) return;
+  const tr = traceOf(state);
+  (tr.promptTokens ??= []).push({ iteration: tr.iterations ?? 0, step, tokens });
+}
+
+/**
+ * 사용자 메시지에 쓸 수 있는 토큰 예산(컨텍스트 창 미설정 시 무한대)
+ * @param {string} system 시스템 프롬프트
+ * @returns {number} 토큰 예산
+ */
+export function userTokenBudget(system: string): number {
+  if (env.MODEL_CTX_TOKENS <= 0) return Infinity;
+  const fixed = countMessageTokens([new SystemMessage(system), new HumanMessage('')]);
+  return Math.max(0, env.MODEL_CTX_TOKENS - env.OUTPUT_TOKENS_BUDGET - fixed);
+}
+
+/**
+ * 프롬프트를 보내고 응답을 스키마로 검증합니다.
+ *
+ * - 공급자가 tool-calling을 지원하면 `withStructuredOutput`으로 요청하고, 아니면 응답 텍스트에서 JSON을 꺼냅니다.
+ * - 공급자가 tool-calling을 지원하지 않는다는 오류일 때만 텍스트 경로로 바꿔 다시 시도합니다.
+ * - 검증에 실패하면 직전 응답과 오류를 덧붙여 최대 `LLM_REPAIR_RETRIES`번 다시 요청합니다.
+ * - 실패한 시도는 모두 `state._trace.llmFailures`에 기록하고, 재시도까지 모두 실패하면 경고를 한 번 남깁니다.
+ * - 그 밖의 호출 오류(429, 401, 네트워크 등)는 두 경로 모두 그대로 던집니다.
+ * - `user`가 함수면 사용자 메시지 토큰 예산({@link userTokenBudget})을 넘겨 예산에 맞춘 페이로드를 받습니다.
+ * - 매 호출 전에 실제 프롬프트 토큰 수를 재서 `MODEL_CTX_TOKENS`를 넘으면 보내지 않습니다
+ *   (복구 재시도는 직전 응답을 빼고 다시 재고, 그래도 넘치면 재시도를 멈춤).
+ *
+ * @template T
+ * @param {ChatModel} llm 챗 모델
+ * @param {{step:string, system:string, user:string|((budget:number)=>string), schema:z.ZodType<T, any, any>, state?:GraphState}} req 요청
+ * @returns {Promise<StructuredResult<T>>} 검증된 값과 마지막 응답 원문
+ * @throws {Error} 첫 요청부터 컨텍스트 창을 넘는 경우, 모델 호출 자체가 실패한 경우
+ */
+export async function invokeStructured<T>(
+  llm: ChatModel,
+  req: {
+    step: string;
+    system: string;
+    user: string | ((budget: number) => string);
+    schema: z.ZodType<T, any, any>;
+    state?: GraphState;
+  }
+): Promise<StructuredResult<T>> {
+  const { step, schema, state } = req;
+  const user = typeof req.user === 'function' ? req.user(userTokenBudget(req.system)) : req.user;
+  const base: BaseMessage[] = [new SystemMessage(req.system), new HumanMessage(user)];
+  const baseTokens = countMessageTokens(base);
+  if (!fitsContext(baseTokens)) {
+    throw new Error(
+      `${step}: prompt is ${baseTokens} tokens; exceeds MODEL_CTX_TOKENS=${env.MODEL_CTX_TOKENS} ` +
+        `minus OUTPUT_TOKENS_BUDGET=${env.OUTPUT_TOKENS_BUDGET}`
+    );
+  }
+  const attempts = 1 + Math.max(0, Math.floor(env.LLM_REPAIR_RETRIES));
+  let structured = supportsStructuredOutput(llm);
+  let messages = base;
+  let tokens = baseTokens;
+  let raw = '';
+  let lastError = '';
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const mode = structured ? 'structured' : 'json';
+    let value: unknown;
+    let error = '';
+    let rejected = false;
+    raw = '';
+    recordPromptTokens(state, step, tokens);
+
+    if (structured) {
+      try {
+        value = await (llm as any).withStructuredOutput(schema, { name: step, method: 'functionCalling' }).invoke(messages);
+        raw = JSON.stringify(value ?? null);
+      } catch (e: any) {
+        error = String(e?.message || e);
+        if (e instanceof OutputParserException) raw = e.llmOutput ?? '';
+        else if (isToolCallingUnsupported(e)) rejected = true;
+        else throw e;
+      }
+    } else {
+      raw = messageText(await llm.invoke(messages));
+      try {
+        value = extractJson(raw);
+      } catch (e: any) {
+        error = String(e?.message || e);
+      }
+    }
+
+    if (!error) {
+      const parsed = schema.safeParse(value);
+      if (parsed.success) return { value: parsed.data, raw };
+      error = formatIssues(parsed.error);
+    }
+    recordFailure(state, { step, attempt, mode, error });
+    lastError = error;
+
+    if (rejected) {
+      // tool-calling 미지원 → 같은 요청을 텍스트 경로로(시도 횟수에 넣지 않음)
+      structured = false;
+      messages = base;
+      tokens = baseTokens;
+      attempt--;
+      continue;
+    }
+    if (attempt + 1 >= attempts) break;
+    // 복구 요청: 직전 응답 + 오류. 컨텍스트 창을 넘으면 직전 응답을 빼고, 그래도 넘으면 중단
+    const repair = new HumanMessage(`${PROMPT_REPAIR_JSON}\n\n${error}`);
+    messages = raw ? [...base, new AIMessage(raw), repair] : [...base, repair];
+    tokens = countMessageTokens(messages);
+    if (raw && !fitsContext(tokens)) {
+      messages = [...base, repair];
+      tokens = countMessageTokens(messages);
+    }
+    if (!fitsContext(tokens)) break;
+  }
+  console.warn(`[llm] ${step}: no valid output after retries (${lastError})`);
+  return { value: null, raw };
+}
@@ -0,0 +1,253 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Send } from '@langchain/langgraph';
+import { env } from '../config/env.js';
+import { PROMPT_MAP_FILES } from '../config/prompts.js';
+import { historyForPrompt } from '../core/history.js';
+import { splitLines } from '../core/lines.js';
+import { countTokens, fitToTokens, truncateToTokens } from '../core/tokenizer.js';
+import type { CodeRange, GraphState, HistoryTurn, MapBatchResult, MapFileNote } from '../core/types.js';
+import { outlinesForFiles, type FileOutline } from '../ast/outline.js';
+import { validateRanges } from '../code/ranges.js';
+import type { ChatModel } from '../llm/provider.js';
+import { MapFilesSchema } from '../llm/schemas.js';
+import { invokeStructured, userTokenBudget } from '../llm/structured.js';
+
+/** map 노드 하나가 받는 입력(`Send` 페이로드) */
+export interface MapTask {
+  question: string;
+  projectRoot?: string;
+  filteredAst: any;
+  history?: HistoryTurn[];
+  iteration: number;
+  batch: number;
+  files: string[];
+}
+
+/** map 프롬프트에 싣는 파일 하나 */
+interface MapFileEntry {
+  file: string;
+  lines: number;
+  outline: Array<{ kind: string; name: string; startLine: number; endLine: number }>;
+  code: string;
+}
+
+/**
+ * 상세 AST를 만든 파일이 `MAP_REDUCE_MIN_FILES` 이상인지(prune으로 자르는 대신 파일별로 메모를 뽑음)
+ * @param {GraphState} state 현재 상태
+ * @returns {boolean} true면 map-reduce
+ */
+export function shouldMapReduce(state: GraphState): boolean {
+  return env.MAP_REDUCE_MIN_FILES > 0 && (state.detailedAsts?.length ?? 0) >= env.MAP_REDUCE_MIN_FILES;
+}
+
+/**
+ * (map-reduce) 배치별 결과 채널 리듀서 — 반복 회차/배치 번호가 같으면 새 결과로 바꿉니다.
+ * - 노드들이 상태 전체를 돌려주므로 같은 결과가 다시 들어와도 늘어나지 않아야 합니다.
+ * @param {MapBatchResult[]|undefined} prev 기존 결과
+ * @param {MapBatchResult[]|undefined} next 새 결과
+ * @returns {MapBatchResult[]|undefined} 합친 결과
+ */
+export function mergeMapResults(
+  prev: MapBatchResult[] | undefined,
+  next: MapBatchResult[] | undefined
+): MapBatchResult[] | undefined {
+  if (!next) return prev;
+  const byKey = new Map((prev ?? []).map((r) => [`${r.iteration}:${r.batch}`, r]));
+  for (const r of next) byKey.set(`${r.iteration}:${r.batch}`, r);
+  return [...byKey.values()];
+}
+
+/** 파일을 읽어 줄 번호를 붙이고 `MAP_FILE_TOKENS`로 자릅니다(읽지 못하면 null). */
+async function mapFileEntry(projectRoot: string, file: string, outline?: FileOutline): Promise<MapFileEntry | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.resolve(projectRoot, file), 'utf8');
+  } catch {
+    return null;
+  }
+  const lines = splitLines(raw);
+  const numbered = lines.map((l, i) => `${i + 1}| ${l}`).join('\n');
+  return {
+    file,
+    lines: lines.length,
+    outline: (outline?.symbols ?? []).map((s) => ({ kind: s.kind, name: s.name, startLine: s.startLine, endLine: s.endLine })),
+    code: truncateToTokens(numbered, env.MAP_FILE_TOKENS),
+  };
+}
+
+/**
+ * 상세 AST를 만든 파일을 map 배치로 나눕니다.
+ * - 컨텍스트 창(`MODEL_CTX_TOKENS`)을 모르면 파일 하나당 한 배치
+ * - 알면 map 프롬프트 예산(`PROMPT_SAFETY` 적용) 안에 들어가는 만큼 파일을 묶음
+ * @param {GraphState} state 현재 상태(detailedAsts 필요)
+ * @returns {Promise<string[][]>} 배치별 파일
+ */
+export async function planMapBatches(state: GraphState): Promise<string[][]> {
+  const files = state.detailedAsts.map((a) => a.filePath);
+  const budget = userTokenBudget(PROMPT_MAP_FILES);
+  if (!Number.isFinite(budget)) return files.map((f) => [f]);
+
+  const projectRoot = state.projectRoot ?? env.PROJECT_ROOT;
+  const outlines = outlinesForFiles(state.filteredAst, files);
+  const limit = Math.floor(budget * env.PROMPT_SAFETY);
+  const batches: string[][] = [];
+  let used = 0;
+  for (const file of files) {
+    const entry = await mapFileEntry(projectRoot, file, outlines.get(file));
+    const t = entry ? countTokens(JSON.stringify(entry)) : 0;
+    const last = batches.at(-1);
+    if (last && used + t <= limit) {
+      last.push(file);
+      used += t;
+    } else {
+      batches.push([file]);
+      used = t;
+    }
+  }
+  return batches;
+}
+
+/**
+ * `get_details` 다음 경로: 파일이 많으면 배치마다 `map_file` 분기(`Send`), 아니면 `prune_ast`
+ * - 분기는 LangGraph가 병렬로 실행하며, 동시 실행 수는 실행 설정의 `maxConcurrency`(`MAP_CONCURRENCY`)로 제한합니다.
+ * @param {GraphState} state 현재 상태
+ * @returns {Promise<Send[]|'prune_ast'>} 다음 노드
+ */
+export async function routeAfterDetails(state: GraphState): Promise<Send[] | 'prune_ast'> {
+  if (!shouldMapReduce(state)) return 'prune_ast';
+  const iteration = state._trace?.iterations ?? 0;
+  const batches = await planMapBatches(state);
+  return batches.map(
+    (files, batch) =>
+      new Send('map_file', {
+        question: state.question,
+        projectRoot: state.projectRoot,
+        filteredAst: state.filteredAst,
+        history: state.history,
+        iteration,
+        batch,
+        files,
+      } satisfies MapTask)
+  );
+}
+
+/** 질문 속 식별자(3자 이상, 소문자) */
+function questionWords(question: string): string[] {
+  return (question.match(/[A-Za-z_$][\w$]*/g) ?? []).filter((w) => w.length >= 3).map((w) => w.toLowerCase());
+}
+
+/** LLM 없이: 질문에 이름이 나온 선언/파일을 관련 있다고 보고 그 선언 범위를 고름 */
+function demoNote(entry: MapFileEntry, words: string[]): MapFileNote {
+  const base = entry.file.split('/').pop()!.replace(/\.[^.]+$/, '').toLowerCase();
+  const hits = entry.outline.filter((s) => words.some((w) => s.name.toLowerCase().includes(w)));
+  const relevant = hits.length > 0 || words.includes(base);
+  return {
+    file: entry.file,
+    relevant,
+    notes: relevant ? `demo: ${hits.map((h) => `${h.kind} ${h.name}`).join(', ') || 'file name matches'}` : '',
+    ranges: hits.map((h) => ({ file: entry.file, startLine: h.startLine, endLine: h.endLine, rationale: `demo: ${h.name}` })),
+  };
+}
+
+/**
+ * LangGraph 노드(map): 배치 하나의 파일을 읽고 질문에 관련된 메모와 코드 범위를 뽑습니다.
+ *
+ * - 파일마다 줄 번호를 붙인 코드와 선언 아웃라인을 보내고(`MAP_FILE_TOKENS`로 자름), 넘치면 뒤쪽 파일부터 뺍니다.
+ * - 병렬 분기끼리 `_trace`를 같이 쓰지 않도록 프롬프트 토큰/검증 실패는 결과에 담아 reduce 단계에서 합칩니다.
+ * - 호출이 실패해도(컨텍스트 초과 등) 다른 배치는 계속되도록 `error`로 남깁니다.
+ * - LLM이 없으면 질문에 이름이 나온 선언을 고릅니다.
+ *
+ * @param {ChatModel|null} llm 챗 모델 인스턴스(없으면 데모 경로)
+ * @param {MapTask} task 배치
+ * @returns {Promise<Partial<GraphState>>} `mapResults`에 배치 결과 하나
+ */
+export async function nodeMapFiles(llm: ChatModel | null, task: MapTask): Promise<Partial<GraphState>> {
+  const projectRoot = task.projectRoot ?? env.PROJECT_ROOT;
+  const outlines = outlinesForFiles(task.filteredAst, task.files);
+  const entries: MapFileEntry[] = [];
+  for (const file of task.files) {
+    const entry = await mapFileEntry(projectRoot, file, outlines.get(file));
+    if (entry) entries.push(entry);
+  }
+  const result: MapBatchResult = { iteration: task.iteration, batch: task.batch, files: task.files, notes: [] };
+
+  if (!llm || typeof (llm as any).invoke !== 'function') {
+    const words = questionWords(task.question);
+    result.notes = entries.map((e) => demoNote(e, words));
+    return { mapResults: [result] };
+  }
+
+  // invokeStructured가 기록하는 프롬프트 토큰/검증 실패를 이 배치 몫으로 따로 받음
+  const local = { iterations: task.iteration, filesRequested: [], filesParsed: [] } as NonNullable<GraphState['_trace']>;
+  const history = historyForPrompt(task.history);
+  const render = (n: number) => JSON.stringify({ question: task.question, history, files: entries.slice(0, n) });
+  const user = (budget: number) => fitToTokens(entries.length, budget, render, (i) => JSON.stringify(entries[i])).text;
+  try {
+    const { value } = await invokeStructured(llm, {
+      step: 'mapFiles',
+      system: PROMPT_MAP_FILES,
+      user,
+      schema: MapFilesSchema,
+      state: { _trace: local } as GraphState,
+    });
+    const sent = new Set(task.files);
+    result.notes = (value?.files ?? [])
+      .filter((f) => sent.has(f.file))
+      .map((f) => ({
+        file: f.file,
+        relevant: f.relevant,
+        notes: f.notes,
+        ranges: f.ranges.map((r) => ({ file: f.file, ...r })),
+      }));
+  } catch (e: any) {
+    result.error = String(e?.message || e);
+  }
+  if (local.promptTokens?.length) result.promptTokens = local.promptTokens.map((p) => p.tokens);
+  if (local.llmFailures?.length) result.llmFailures = local.llmFailures;
+  return { mapResults: [result] };
+}
+
+/**
+ * LangGraph 노드(reduce): 이번 반복의 배치 결과를 모아 답변 단계로 넘깁니다.
+ *
+ * - 답변은 여기서 만들지 않습니다. 메모만으로 답하면 인용을 읽은 코드 안으로 검증할 수 없으므로,
+ *   메모는 `answer_from_code`의 `notes`로 넘겨 그 노드가 코드 조각과 함께 최종 답을 만듭니다(reduce의 답변 단계).
+ * - 관련 있다고 한 파일의 메모는 `mapNotes`로, 코드 범위는 아웃라인으로 검증해 `codeRanges`로 넘깁니다
+ *   (이후 `load_code_slices`가 선언 경계로 넓히고 관련도 순으로 예산에 채워 넣음).
+ * - 배치별 프롬프트 토큰/검증 실패를 `_trace`에 합치고, 요약은 `_trace.mapReduce[iteration]`에 남깁니다.
+ *
+ * @param {GraphState} state 현재 상태(mapResults 필요)
+ * @returns {Promise<GraphState>} codeRanges/mapNotes가 채워진 상태
+ */
+export async function nodeReduceNotes(state: GraphState): Promise<GraphState> {
+  const it = state._trace?.iterations ?? 0;
+  const results = (state.mapResults ?? []).filter((r) => r.iteration === it).sort((a, b) => a.batch - b.batch);
+  const relevant = results.flatMap((r) => r.notes).filter((n) => n.relevant);
+
+  const files = [...new Set(relevant.map((n) => n.file))];
+  const outlines = outlinesForFiles(state.filteredAst, files);
+  const ranges: CodeRange[] = validateRanges(relevant.flatMap((n) => n.ranges), outlines);
+
+  const tr = state._trace ?? { iterations: 0, filesRequested: [], filesParsed: [] };
+  for (const r of results) {
+    for (const tokens of r.promptTokens ?? []) (tr.promptTokens ??= []).push({ iteration: it, step: 'mapFiles', tokens });
+    if (r.llmFailures?.length) (tr.llmFailures ??= []).push(...r.llmFailures);
+  }
+  (tr.mapReduce ??= [])[it] = {
+    batches: results.length,
+    files: results.reduce((n, r) => n + r.files.length, 0),
+    relevantFiles: files,
+    ranges: ranges.length,
+    failedBatches: results.filter((r) => r.error).length,
+  };
+
+  return {
+    ...state,
+    codeRanges: ranges,
+    mapNotes: relevant.filter((n) => n.notes.trim()).map((n) => ({ file: n.file, notes: n.notes })),
+    prunedAsts: undefined,
+    droppedAll: false,
+    _trace: tr,
+  };
+}
@@ -1,13 +1,31 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
 import type { DetailedAst, GraphState, PruneTraceItem, SliceHints } from '../core/types.js';
 import { sliceDetailedAST, sliceByPaths, isNonEmptySlice } from '../ast/parse.js';
 import { estimateTokensForAsts } from '../ast/meta.js';
 import { env } from '../config/env.js';
+import { PROMPT_ANSWER_FROM_AST } from '../config/prompts.js';
+import { countMessageTokens, countTokens } from '../core/tokenizer.js';
+
+/** filtered AST → 직렬화 토큰 수(한 실행 동안 같은 객체를 재사용하므로 캐시) */
+const filteredTokens = new WeakMap<object, number>();
+
+/** filtered AST의 직렬화 토큰 수 */
+function filteredAstTokens(filteredAst: any): number {
+  if (!filteredAst || typeof filteredAst !== 'object') return 0;
+  let t = filteredTokens.get(filteredAst);
+  if (t == null) {
+    t = countTokens(JSON.stringify(filteredAst));
+    filteredTokens.set(filteredAst, t);
+  }
+  return t;
+}
 
 /**
- * **AST 이외 프롬프트 오버헤드**(시스템/질문/메타)를 경험적으로 근사합니다.
+ * **AST 이외 프롬프트 오버헤드**(시스템/질문/메타)를 토크나이저로 계산합니다.
+ * - AST 기반 답변 프롬프트(`PROMPT_ANSWER_FROM_AST`)에서 상세 AST를 비운 나머지를 셉니다.
  *
  * @param {{question:string; filteredAst:any; pruned:boolean; droppedAll:boolean}} params
- * @returns {number} 오버헤드 토큰 근사
+ * @returns {number} 오버헤드 토큰
  */
 export function estimateFixedPromptTokens(params: {
   question: string;
@@ -16,18 +34,8 @@ export function estimateFixedPromptTokens(params: {
   droppedAll: boolean;
 }): number {
   const { question, filteredAst, pruned, droppedAll } = params;
-
-  let base = 1200;
-  base += Math.ceil((question?.length ?? 0) / 4);
-
-  const filesArr = Array.isArray(filteredAst?.files) ? filteredAst.files : [];
-  const metaStr = JSON.stringify({ files: filesArr.slice(0, 200) });
-  base += Math.ceil(metaStr.length / 4);
-
-  if (pruned) base += 50;
-  if (droppedAll) base += 30;
-
-  return base;
+  const user = JSON.stringify({ question, filteredAst: null, detailedAsts: [], pruned, droppedAll });
+  return countMessageTokens([new SystemMessage(PROMPT_ANSWER_FROM_AST), new HumanMessage(user)]) + filteredAstTokens(filteredAst);
 }
 
 /**
@@ -1,7 +1,9 @@
-import { SystemMessage, HumanMessage } from '@langchain/core/messages';
-import type { ChatOpenAI } from '@langchain/openai';
+import type { ChatModel } from '../llm/provider.js';
+import { PrunePlanSchema } from '../llm/schemas.js';
+import { invokeStructured } from '../llm/structured.js';
 import { PROMPT_PRUNE_PLAN } from '../config/prompts.js';
 import type { GraphState } from '../core/types.js';
+import { fitToTokens } from '../core/tokenizer.js';
 import { countNodesQuick, topKTypes } from '../ast/meta.js';
 
 /**
@@ -34,11 +36,11 @@ export function demoPrunePlan(state: GraphState): any {
  * LangGraph 노드(내부): LLM을 호출하여 **프루닝 플랜**을 수집합니다.
  * 실패 시 {@link demoPrunePlan}으로 대체합니다.
  *
- * @param {ChatOpenAI|null} llm OpenAI 챗 모델 인스턴스(없으면 데모 경로)
+ * @param {ChatModel|null} llm 챗 모델 인스턴스(없으면 데모 경로)
  * @param {GraphState} state 현재 상태 (detailedAsts 필요)
  * @returns {Promise<any>} 프루닝 플랜(JSON)
  */
-export async function collectPrunePlan(llm: ChatOpenAI | null, state: GraphState): Promise<any> {
+export async function collectPrunePlan(llm: ChatModel | null, state: GraphState): Promise<any> {
   const { question, filteredAst, detailedAsts } = state;
 
   if (!llm || typeof (llm as any).invoke !== 'function') {
@@ -51,18 +53,18 @@ export async function collectPrunePlan(llm: ChatOpenAI | null, state: GraphState
     topTypes: topKTypes(d.root, 5),
   }));
 
+  // 토큰 예산을 넘으면 뒤쪽 파일의 메타를 뺌(계획에 없는 파일은 적용 단계에서 제외됨)
+  const render = (n: number) =>
+    JSON.stringify({
+      question,
+      filteredAstMeta: { files: (filteredAst as any)?.files ?? [] },
+      files: detailedAsts.slice(0, n).map((d) => d.filePath),
+      astMeta: meta.slice(0, n),
+    });
   const system = PROMPT_PRUNE_PLAN;
-  const user = JSON.stringify({
-    question,
-    filteredAstMeta: { files: (filteredAst as any)?.files ?? [] },
-    files: detailedAsts.map((d) => d.filePath),
-    astMeta: meta,
-  });
+  const user = (budget: number) =>
+    fitToTokens(meta.length, budget, render, (i) => JSON.stringify(meta[i]) + JSON.stringify(meta[i].file)).text;
 
-  const resp = await (llm as any).invoke([new SystemMessage(system), new HumanMessage(user)]);
-  try {
-    return JSON.parse((resp as any).content);
-  } catch {
-    return demoPrunePlan(state);
-  }
+  const { value } = await invokeStructured(llm, { step: 'prunePlan', system, user, schema: PrunePlanSchema, state });
+  return value ?? demoPrunePlan(state);
 }
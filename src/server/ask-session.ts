@@ -1,62 +1,49 @@
 import { randomUUID } from 'crypto';
-import fs from 'fs/promises';
-import path from 'path';
 
-import { buildFilteredAst, writeFilteredAst } from '../ast/gen_filtered.js';
+import type { IndexProgress } from '../ast/pool.js';
+import { openProjectIndex, projectIdOf, type RefreshStats } from '../ast/store.js';
+import { broadcastEvent } from './events.js';
 
 /**
- * ask API 실행 중 생성되는 임시 filtered_ast 세션 정보입니다.
+ * ask API 실행 중 사용하는 filtered_ast 세션 정보입니다.
  */
 export interface AskSession {
-  /** 세션 디렉토리 이름(UUID) */
+  /** 세션 ID(UUID) */
   id: string;
-  /** 생성된 세션 디렉토리 절대 경로 */
-  dir: string;
-  /** 세션 디렉토리 내 filtered_ast.json 절대 경로 */
+  /** 프로젝트 인덱스 ID(`GET /projects/:id/index`) */
+  projectId: string;
+  /** 프로젝트 인덱스의 filtered_ast.json 절대 경로 */
   filteredAstPath: string;
-  /** 세션 디렉토리 정리 함수 (idempotent) */
-  cleanup: () => Promise<void>;
+  /** 이번 요청에서 수행한 인덱스 갱신 결과 */
+  refresh?: RefreshStats;
 }
 
 /**
- * ask API용 임시 filtered_ast 세션을 생성합니다.
+ * ask API용 filtered_ast 세션을 생성합니다.
  *
- * - `./<uuid>` 형식의 디렉토리를 생성합니다.
- * - 주어진 프로젝트 루트를 파싱해 filtered_ast.json을 생성합니다.
- * - 세션 종료 시 `cleanup()`으로 디렉토리를 삭제할 수 있습니다.
+ * - 프로젝트별 영속 인덱스를 열어 **바뀐 파일만 다시 파싱**합니다.
+ * - 생성된 filtered_ast.json은 다음 요청에서도 재사용되므로 세션 종료 시 삭제하지 않습니다.
+ * - 파싱 진행 상황은 SSE(`/events`)의 `index-progress` 이벤트로 알리고, `onProgress`가 있으면 함께 넘깁니다.
  *
  * @param {string} projectRoot filtered_ast를 생성할 프로젝트 루트 절대 경로
- * @param {{baseDir?:string}} [options] 세션 디렉토리를 생성할 기준 디렉토리 (기본: process.cwd())
+ * @param {(p: IndexProgress) => void} [onProgress] 요청별 진행 상황 콜백(스트리밍 응답용)
  * @returns {Promise<AskSession>} 생성된 세션 정보
  */
 export async function createAskSession(
   projectRoot: string,
-  options: { baseDir?: string } = {}
+  onProgress?: (p: IndexProgress) => void
 ): Promise<AskSession> {
-  const baseDir = path.resolve(options.baseDir ?? process.cwd());
-  const sessionId = randomUUID();
-  const sessionDir = path.resolve(baseDir, sessionId);
-
-  await fs.mkdir(sessionDir, { recursive: false });
-
-  let cleaned = false;
-  const cleanup = async (): Promise<void> => {
-    if (cleaned) return;
-    cleaned = true;
-    try {
-      await fs.rm(sessionDir, { recursive: true, force: true });
-    } catch {
-      // swallow cleanup errors — nothing else to do
-    }
+  const projectId = projectIdOf(projectRoot);
+  const pi = await openProjectIndex(projectRoot, {
+    onProgress: (p) => {
+      broadcastEvent('index-progress', { projectId, ...p });
+      onProgress?.(p);
+    },
+  });
+  return {
+    id: randomUUID(),
+    projectId: pi.id,
+    filteredAstPath: pi.filteredAstPath,
+    refresh: pi.manifest.lastRefresh,
   };
-
-  try {
-    const filteredAst = await buildFilteredAst(projectRoot);
-    const filteredAstPath = path.join(sessionDir, 'filtered_ast.json');
-    await writeFilteredAst(filteredAst, filteredAstPath);
-    return { id: sessionId, dir: sessionDir, filteredAstPath, cleanup };
-  } catch (error) {
-    await cleanup();
-    throw error;
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+
+import { env } from '../config/env.js';
+import type { Citation, CodeSlice, Confidence, HistoryTurn } from '../core/types.js';
+import { projectIdOf, type RefreshStats } from '../ast/store.js';
+import { runGraph } from '../graph/run.js';
+import { createAskSession } from './ask-session.js';
+
+/** 대화의 한 턴 */
+export interface ConversationTurn extends HistoryTurn {
+  citations: Citation[];
+  confidence?: Confidence;
+  followups: string[];
+  at: string;
+}
+
+/** 서버 메모리에 보관하는 대화 */
+export interface Conversation {
+  id: string;
+  projectRoot: string;
+  projectId: string;
+  turns: ConversationTurn[];
+  /** 지금까지 파싱한 파일(처음 파싱한 순서) */
+  files: string[];
+  /** 지금까지 읽은 코드 조각(최근 `CONVERSATION_MAX_SLICES`개) */
+  slices: CodeSlice[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** 대화 ID → 대화 */
+const conversations = new Map<string, Conversation>();
+/** 대화별 진행 중인 질문(같은 대화의 질문은 순서대로 처리) */
+const inflight = new Map<string, Promise<unknown>>();
+
+/** 마지막 사용 후 `CONVERSATION_TTL_MS`가 지난 대화를 버립니다. */
+function sweep(): void {
+  if (env.CONVERSATION_TTL_MS <= 0) return;
+  const cutoff = Date.now() - env.CONVERSATION_TTL_MS;
+  for (const [id, c] of conversations) {
+    if (Date.parse(c.updatedAt) < cutoff && !inflight.has(id)) conversations.delete(id);
+  }
+}
+
+/**
+ * 새 코드 조각을 보관 목록에 합칩니다(같은 범위는 최신으로 교체, 오래된 것부터 버림).
+ * @param {CodeSlice[]} kept 보관 중인 조각
+ * @param {CodeSlice[]} added 이번 턴에 읽은 조각
+ * @returns {CodeSlice[]} 합친 조각
+ */
+function mergeSlices(kept: CodeSlice[], added: CodeSlice[]): CodeSlice[] {
+  const key = (s: CodeSlice) => `${s.file}:${s.startLine}-${s.endLine}`;
+  const addedKeys = new Set(added.map(key));
+  const merged = [...kept.filter((s) => !addedKeys.has(key(s))), ...added];
+  const max = Math.max(0, Math.floor(env.CONVERSATION_MAX_SLICES));
+  return merged.slice(Math.max(0, merged.length - max));
+}
+
+/**
+ * 인덱스 갱신에서 바뀌었거나 사라진 파일의 코드 조각을 버립니다(전체 재생성이면 모두).
+ * @param {CodeSlice[]} slices 보관 중인 조각
+ * @param {RefreshStats} [refresh] 이번 질문 전에 수행한 인덱스 갱신 결과
+ * @returns {CodeSlice[]} 파일 내용과 맞는 조각
+ */
+function dropStaleSlices(slices: CodeSlice[], refresh?: RefreshStats): CodeSlice[] {
+  if (!refresh) return slices;
+  if (refresh.full) return [];
+  const stale = new Set([...(refresh.changedFiles ?? []), ...(refresh.removedFiles ?? [])]);
+  return stale.size ? slices.filter((s) => !stale.has(s.file)) : slices;
+}
+
+/**
+ * 대화를 만듭니다.
+ * @param {string} projectRoot 프로젝트 루트(절대 경로)
+ * @returns {Conversation} 새 대화
+ */
+export function createConversation(projectRoot: string): Conversation {
+  sweep();
+  const now = new Date().toISOString();
+  const conv: Conversation = {
+    id: randomUUID(),
+    projectRoot,
+    projectId: projectIdOf(projectRoot),
+    turns: [],
+    files: [],
+    slices: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  conversations.set(conv.id, conv);
+  return conv;
+}
+
+/**
+ * 대화를 찾습니다.
+ * @param {string} id 대화 ID
+ * @returns {Conversation | undefined} 대화(없거나 만료되면 undefined)
+ */
+export function getConversation(id: string): Conversation | undefined {
+  sweep();
+  return conversations.get(id);
+}
+
+/**
+ * 대화 요약(코드 본문 제외 — 응답용)
+ * @param {Conversation} conv 대화
+ * @returns {object} 요약
+ */
+export function describeConversation(conv: Conversation) {
+  return {
+    id: conv.id,
+    projectRoot: conv.projectRoot,
+    projectId: conv.projectId,
+    turns: conv.turns,
+    files: conv.files,
+    slices: conv.slices.map(({ code: _code, ...rest }) => rest),
+    createdAt: conv.createdAt,
+    updatedAt: conv.updatedAt,
+  };
+}
+
+/**
+ * 대화에 질문을 보내고 답변을 받습니다.
+ *
+ * - 프로젝트 인덱스를 증분 갱신한 뒤, 이전 턴(질문/답변/파싱한 파일)과 읽어 둔 코드 조각을 넘겨 그래프를 실행합니다.
+ * - 갱신에서 바뀌었거나 사라진 파일의 코드 조각은 넘기지 않고 버립니다(전체 재생성이면 모두).
+ * - 답변과 이번 턴에 파싱한 파일/코드 조각을 대화에 기록합니다.
+ * - 같은 대화의 질문은 순서대로 처리합니다.
+ *
+ * @param {Conversation} conv 대화
+ * @param {string} question 질문
+ * @returns {Promise<{turn:number, index?:RefreshStats} & Awaited<ReturnType<typeof runGraph>>>} 턴 번호(0부터), 인덱스 갱신 결과, 그래프 실행 결과
+ */
+export async function askInConversation(
+  conv: Conversation,
+  question: string
+): Promise<{ turn: number; index?: RefreshStats } & Awaited<ReturnType<typeof runGraph>>> {
+  const prev = inflight.get(conv.id) ?? Promise.resolve();
+  const run = prev.catch(() => undefined).then(async () => {
+    const session = await createAskSession(conv.projectRoot);
+    conv.slices = dropStaleSlices(conv.slices, session.refresh);
+    const result = await runGraph(question, {
+      projectRoot: conv.projectRoot,
+      filteredAstPath: session.filteredAstPath,
+      history: conv.turns.map(({ question, answer, files }) => ({ question, answer, files })),
+      priorSlices: conv.slices,
+    });
+
+    const parsed = [...new Set((result.trace?.filesParsed ?? []).flat())];
+    conv.turns.push({
+      question,
+      answer: result.answer,
+      citations: result.citations,
+      confidence: result.confidence,
+      followups: result.followups,
+      files: parsed,
+      at: new Date().toISOString(),
+    });
+    conv.files = [...new Set([...conv.files, ...parsed])];
+    conv.slices = mergeSlices(conv.slices, result.codeSlices);
+    conv.updatedAt = new Date().toISOString();
+    return { turn: conv.turns.length - 1, index: session.refresh, ...result };
+  });
+
+  inflight.set(conv.id, run);
+  try {
+    return await run;
+  } finally {
+    if (inflight.get(conv.id) === run) inflight.delete(conv.id);
+  }
+}
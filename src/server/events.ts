@@ -0,0 +1,57 @@
+import type { Request, Response } from 'express';
+
+/** 연결된 SSE 클라이언트 */
+const clients = new Set<Response>();
+
+/** 프록시가 유휴 연결을 끊지 않도록 보내는 주석 간격(ms) */
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * 응답을 Server-Sent Events 스트림으로 전환합니다.
+ * @param {Response} res 응답(스트림으로 유지)
+ */
+export function openEventStream(res: Response): void {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  res.write(': connected\n\n');
+}
+
+/**
+ * SSE 스트림 하나에 이벤트를 보냅니다.
+ * @param {Response} res SSE 응답
+ * @param {string} event 이벤트 이름
+ * @param {unknown} data JSON으로 직렬화할 데이터
+ */
+export function sendEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * 요청을 Server-Sent Events 스트림으로 전환하고 구독자로 등록합니다.
+ * - 연결이 끊기면 자동으로 구독을 해제합니다.
+ *
+ * @param {Request} req 요청
+ * @param {Response} res 응답(스트림으로 유지)
+ */
+export function subscribeEvents(req: Request, res: Response): void {
+  openEventStream(res);
+  clients.add(res);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
+
+/**
+ * 연결된 모든 클라이언트에 이벤트를 보냅니다.
+ * @param {string} event 이벤트 이름(예: `index`)
+ * @param {unknown} data JSON으로 직렬화할 데이터
+ */
+export function broadcastEvent(event: string, data: unknown): void {
+  for (const res of clients) sendEvent(res, event, data);
+}
@@ -5,15 +5,30 @@ import fs from 'fs/promises';
 import path from 'path';
 
 import { env } from '../config/env.js';
-import { runGraph } from '../graph/run.js';
+import { runGraph, streamGraph } from '../graph/run.js';
 import { parseFileToAST } from '../ast/parse.js';
 import { loadFilteredAst } from '../ast/parse.js';
-import { createAskSession, type AskSession } from './ask-session.js';
+import { buildDepGraph, depNeighbourhood } from '../ast/deps.js';
+import { buildCallGraph, callersOf, calleesOf } from '../ast/callgraph.js';
+import { searchProject } from '../ast/search.js';
+import { buildDirTree, dirView, normalizeDir } from '../ast/dirs.js';
+import { describeProjectIndex, ensureFilteredAst, getProjectIndex, openProjectIndex } from '../ast/store.js';
+import { writeFilteredAst } from '../ast/gen_filtered.js';
+import { watchProjectIndex } from '../ast/watch.js';
+import { createAskSession } from './ask-session.js';
+import { askInConversation, createConversation, describeConversation, getConversation } from './conversations.js';
+import { broadcastEvent, openEventStream, sendEvent, subscribeEvents } from './events.js';
+import { cachedDirSummaries, dirSummaryCachePath } from '../drilldown/summaries.js';
+import { describeProvider } from '../llm/provider.js';
+
+/** `/graph/ask`의 graphMode 값 */
+const GRAPH_MODES = ['pipeline', 'agent'];
 
 /**
- * Express 앱을 생성하고 라우팅을 설정한 뒤 서버를 기동합니다.
+ * Express 앱을 생성하고 라우팅을 설정합니다(기동은 {@link startServer}).
+ * @returns {express.Express} 앱
  */
-export function startServer() {
+export function createApp() {
   const app = express();
   app.use(cors());
   app.use(bodyParser.json({ limit: '25mb' }));
@@ -27,7 +42,13 @@ export function startServer() {
 
   /** 헬스체크 */
   app.get('/health', (_req: Request, res: Response) => {
-    res.json({ ok: true, mode: env.PROMPT_MODE, llm: !!env.OPENAI_API_KEY });
+    const provider = describeProvider();
+    res.json({ ok: true, mode: env.PROMPT_MODE, llm: provider.provider !== 'none', provider, watch: env.WATCH });
+  });
+
+  /** 서버 이벤트 스트림(SSE) — `WATCH=1`이면 인덱스 갱신 시 `index` 이벤트 전송 */
+  app.get('/events', (req: Request, res: Response) => {
+    subscribeEvents(req, res);
   });
 
   /** 간략 AST 제공 — 파일에서 read */
@@ -40,6 +61,117 @@ export function startServer() {
     }
   });
 
+  /** 모듈 의존 그래프 — 파일의 dependencies/dependents (depth 단계까지) */
+  app.get('/graph/deps', async (req: Request, res: Response) => {
+    const file = typeof req.query.file === 'string' ? req.query.file.replaceAll('\\', '/') : '';
+    if (!file) {
+      return res.status(400).json({ ok: false, error: 'file (query) is required' });
+    }
+    const depth = req.query.depth != null ? Number(req.query.depth) : env.DEPS_DEPTH;
+    if (!Number.isInteger(depth) || depth < 1) {
+      return res.status(400).json({ ok: false, error: 'depth must be a positive integer' });
+    }
+    try {
+      const json = await loadFilteredAst(env.FILTERED_AST_PATH);
+      const graph = buildDepGraph(json);
+      if (!graph.dependencies.has(file)) {
+        return res.status(404).json({ ok: false, error: `file not in index: ${file}` });
+      }
+      res.json({ ok: true, ...depNeighbourhood(graph, file, depth) });
+    } catch (e) {
+      res.status(500).json({ ok: false, error: String(e) });
+    }
+  });
+
+  /** 콜 그래프 — 심볼을 호출하는 쪽(callers) / 심볼이 호출하는 쪽(callees) */
+  app.get('/symbols/:name/:direction', async (req: Request, res: Response) => {
+    const name = String(req.params.name ?? '');
+    const direction = String(req.params.direction ?? '');
+    if (direction !== 'callers' && direction !== 'callees') {
+      return res.status(404).json({ ok: false, error: 'direction must be callers or callees' });
+    }
+    try {
+      const json = await loadFilteredAst(env.FILTERED_AST_PATH);
+      const graph = buildCallGraph(json);
+      const edges = direction === 'callers' ? callersOf(graph, name) : calleesOf(graph, name);
+      res.json({ ok: true, symbol: name, [direction]: edges });
+    } catch (e) {
+      res.status(500).json({ ok: false, error: String(e) });
+    }
+  });
+
+  /** 코드 검색(BM25) — 식별자/주석/문자열 단어로 파일 순위와 겹치는 선언, `?projectId=`면 그 프로젝트 인덱스에서 */
+  app.get('/search', async (req: Request, res: Response) => {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      return res.status(400).json({ ok: false, error: 'q (query) is required' });
+    }
+    const limit = req.query.limit != null ? Number(req.query.limit) : 20;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return res.status(400).json({ ok: false, error: 'limit must be a positive integer' });
+    }
+    try {
+      let root = env.PROJECT_ROOT;
+      let json: any;
+      if (typeof req.query.projectId === 'string') {
+        const pi = await getProjectIndex(req.query.projectId);
+        if (!pi) {
+          return res.status(404).json({ ok: false, error: `unknown project: ${req.query.projectId}` });
+        }
+        root = pi.root;
+        json = pi.filteredAst;
+      } else {
+        json = await loadFilteredAst(env.FILTERED_AST_PATH);
+      }
+      res.json({ ok: true, q, hits: await searchProject(root, json, q, limit) });
+    } catch (e) {
+      res.status(500).json({ ok: false, error: String(e) });
+    }
+  });
+
+  /** 디렉토리 한 단계 목록 — 하위 디렉토리 요약(파일 수/언어/대표 심볼/캐시된 한 줄 요약)과 바로 아래 파일 */
+  app.get('/dirs', async (req: Request, res: Response) => {
+    const dir = normalizeDir(typeof req.query.path === 'string' ? req.query.path : '.');
+    try {
+      let json: any;
+      let astPath = env.FILTERED_AST_PATH;
+      if (typeof req.query.projectId === 'string') {
+        const pi = await getProjectIndex(req.query.projectId);
+        if (!pi) {
+          return res.status(404).json({ ok: false, error: `unknown project: ${req.query.projectId}` });
+        }
+        json = pi.filteredAst;
+        astPath = pi.filteredAstPath;
+      } else {
+        json = await loadFilteredAst(env.FILTERED_AST_PATH);
+      }
+      const tree = buildDirTree(json);
+      const subdirs = tree.get(dir)?.subdirs ?? [];
+      const summaries = await cachedDirSummaries(dirSummaryCachePath(astPath), tree, json, subdirs);
+      const view = dirView(tree, json, dir, { summaries });
+      if (!view) {
+        return res.status(404).json({ ok: false, error: `directory not in index: ${dir}` });
+      }
+      res.json({ ok: true, ...view });
+    } catch (e) {
+      res.status(500).json({ ok: false, error: String(e) });
+    }
+  });
+
+  /** 프로젝트 인덱스 상태 — `?entries=1`이면 파일별 mtime/size/hash 포함, `?refresh=1`이면 먼저 증분 갱신 */
+  app.get('/projects/:id/index', async (req: Request, res: Response) => {
+    try {
+      let pi = await getProjectIndex(String(req.params.id ?? ''));
+      if (!pi) {
+        return res.status(404).json({ ok: false, error: `unknown project: ${req.params.id}` });
+      }
+      if (req.query.refresh === '1') pi = await openProjectIndex(pi.root);
+      res.json({ ok: true, index: describeProjectIndex(pi, { entries: req.query.entries === '1' }) });
+    } catch (e) {
+      res.status(500).json({ ok: false, error: String(e) });
+    }
+  });
+
   /** 상세 AST 생성 — tree-sitter 실행 */
   app.post('/ast/detailed', async (req: Request, res: Response) => {
     try {
@@ -60,18 +192,20 @@ export function startServer() {
     }
   });
 
-  /** (LangGraph) 전체 흐름 — 질문 → (간략 AST) → 파일결정 → 상세 AST → PRUNE → 코드 범위 → 코드 → 답변 */
+  /** (LangGraph) 전체 흐름 — 질문 → (간략 AST) → 파일결정 → 상세 AST → PRUNE → 코드 범위 → 코드 → 답변 (graphMode=agent면 도구 호출 탐색) */
   app.post('/graph/ask', async (req: Request, res: Response) => {
-    const { question, projectPath } = req.body || {};
+    const { question, projectPath, graphMode } = req.body || {};
     if (!question || typeof question !== 'string') {
       return res.status(400).json({ ok: false, error: 'question (string) is required' });
     }
     if (!projectPath || typeof projectPath !== 'string') {
       return res.status(400).json({ ok: false, error: 'projectPath (string) is required' });
     }
+    if (graphMode != null && !GRAPH_MODES.includes(graphMode)) {
+      return res.status(400).json({ ok: false, error: `graphMode must be one of: ${GRAPH_MODES.join(', ')}` });
+    }
 
     const resolvedProjectPath = path.resolve(projectPath);
-    let session: AskSession | null = null;
 
     try {
       const stat = await fs.stat(resolvedProjectPath);
@@ -79,31 +213,162 @@ export function startServer() {
         return res.status(400).json({ ok: false, error: 'projectPath must be a directory' });
       }
 
-      session = await createAskSession(resolvedProjectPath);
-      const result = await runGraph(question, {
+      const session = await createAskSession(resolvedProjectPath);
+      const { codeSlices: _codeSlices, ...result } = await runGraph(question, {
         projectRoot: resolvedProjectPath,
         filteredAstPath: session.filteredAstPath,
+        graphMode,
       });
-      res.json({ ok: true, ...result });
+      res.json({ ok: true, projectId: session.projectId, index: session.refresh, ...result });
     } catch (e: any) {
       if (e?.code === 'ENOENT') {
         return res.status(400).json({ ok: false, error: 'projectPath does not exist' });
       }
       console.error(e);
       res.status(500).json({ ok: false, error: String(e) });
-    } finally {
-      if (session) {
-        try {
-          await session.cleanup();
-        } catch (cleanupError) {
-          console.warn('Failed to cleanup ask session:', cleanupError);
+    }
+  });
+
+  /**
+   * (LangGraph) 전체 흐름 스트리밍(SSE) — body는 `/graph/ask`와 같음
+   * - `index-progress` → `node-start`/`node-end` → `answer-token`(`answer-reset`) → `done` | `error`
+   */
+  app.post('/graph/ask/stream', async (req: Request, res: Response) => {
+    const { question, projectPath, graphMode } = req.body || {};
+    if (!question || typeof question !== 'string') {
+      return res.status(400).json({ ok: false, error: 'question (string) is required' });
+    }
+    if (!projectPath || typeof projectPath !== 'string') {
+      return res.status(400).json({ ok: false, error: 'projectPath (string) is required' });
+    }
+    if (graphMode != null && !GRAPH_MODES.includes(graphMode)) {
+      return res.status(400).json({ ok: false, error: `graphMode must be one of: ${GRAPH_MODES.join(', ')}` });
+    }
+
+    const resolvedProjectPath = path.resolve(projectPath);
+    try {
+      const stat = await fs.stat(resolvedProjectPath);
+      if (!stat.isDirectory()) {
+        return res.status(400).json({ ok: false, error: 'projectPath must be a directory' });
+      }
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') {
+        return res.status(400).json({ ok: false, error: 'projectPath does not exist' });
+      }
+      return res.status(500).json({ ok: false, error: String(e) });
+    }
+
+    // 클라이언트가 끊으면 그래프 실행도 중단
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) abort.abort();
+    });
+    openEventStream(res);
+    try {
+      const session = await createAskSession(resolvedProjectPath, (p) => sendEvent(res, 'index-progress', p));
+      const events = streamGraph(question, {
+        projectRoot: resolvedProjectPath,
+        filteredAstPath: session.filteredAstPath,
+        graphMode,
+        signal: abort.signal,
+      });
+      for await (const ev of events) {
+        if (ev.type === 'done') {
+          const { codeSlices: _codeSlices, ...result } = ev.result;
+          sendEvent(res, 'done', { ok: true, projectId: session.projectId, index: session.refresh, ...result });
+        } else {
+          const { type, ...data } = ev;
+          sendEvent(res, type, data);
         }
       }
+    } catch (e: any) {
+      if (abort.signal.aborted) return;
+      console.error(e);
+      sendEvent(res, 'error', { ok: false, error: String(e) });
+    }
+    res.end();
+  });
+
+  /** 대화 생성 — body: { projectPath } */
+  app.post('/conversations', async (req: Request, res: Response) => {
+    const { projectPath } = req.body || {};
+    if (!projectPath || typeof projectPath !== 'string') {
+      return res.status(400).json({ ok: false, error: 'projectPath (string) is required' });
+    }
+    const resolvedProjectPath = path.resolve(projectPath);
+    try {
+      const stat = await fs.stat(resolvedProjectPath);
+      if (!stat.isDirectory()) {
+        return res.status(400).json({ ok: false, error: 'projectPath must be a directory' });
+      }
+      const conv = createConversation(resolvedProjectPath);
+      res.json({ ok: true, conversation: describeConversation(conv) });
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') {
+        return res.status(400).json({ ok: false, error: 'projectPath does not exist' });
+      }
+      res.status(500).json({ ok: false, error: String(e) });
     }
   });
 
-  app.listen(env.PORT, () => {
+  /** 대화 상태(턴/파싱한 파일/보관 중인 코드 조각 범위) */
+  app.get('/conversations/:id', (req: Request, res: Response) => {
+    const conv = getConversation(String(req.params.id));
+    if (!conv) return res.status(404).json({ ok: false, error: 'conversation not found' });
+    res.json({ ok: true, conversation: describeConversation(conv) });
+  });
+
+  /** 대화에 질문 — body: { question } */
+  app.post('/conversations/:id/messages', async (req: Request, res: Response) => {
+    const { question } = req.body || {};
+    if (!question || typeof question !== 'string') {
+      return res.status(400).json({ ok: false, error: 'question (string) is required' });
+    }
+    const conv = getConversation(String(req.params.id));
+    if (!conv) return res.status(404).json({ ok: false, error: 'conversation not found' });
+    try {
+      const { codeSlices: _codeSlices, ...result } = await askInConversation(conv, question);
+      res.json({ ok: true, conversationId: conv.id, projectId: conv.projectId, ...result });
+    } catch (e: any) {
+      console.error(e);
+      res.status(500).json({ ok: false, error: String(e) });
+    }
+  });
+
+  return app;
+}
+
+/**
+ * 앱을 만들어 `PORT`에서 서버를 기동합니다(`WATCH=1`이면 프로젝트 감시도 시작).
+ */
+export function startServer() {
+  createApp().listen(env.PORT, () => {
     console.log(`AST path ${env.FILTERED_AST_PATH}`);
     console.log(`LangGraph AST server listening on http://localhost:${env.PORT}`);
+    if (env.WATCH) void startWatching();
   });
 }
+
+/**
+ * `PROJECT_ROOT`를 감시해 `FILTERED_AST_PATH`를 최신으로 유지하고, 갱신마다 SSE로 알립니다.
+ */
+async function startWatching(): Promise<void> {
+  try {
+    await ensureFilteredAst({
+      onProgress: (p) => broadcastEvent('index-progress', { root: env.PROJECT_ROOT, ...p }),
+    });
+  } catch (e) {
+    console.warn('[watch] initial index failed:', e);
+    return;
+  }
+  watchProjectIndex(
+    env.PROJECT_ROOT,
+    async (ev, pi) => {
+      await writeFilteredAst(pi.filteredAst, env.FILTERED_AST_PATH);
+      console.log(`[watch] index updated (changed=${ev.changed.length}, removed=${ev.removed.length}, full=${ev.full})`);
+      broadcastEvent('index', ev);
+    },
+    { debounceMs: env.WATCH_DEBOUNCE_MS }
+  );
+  console.log(`[watch] watching ${env.PROJECT_ROOT}`);
+}
@@ -0,0 +1,9 @@
+#ifndef CONFIG_H
+#define CONFIG_H
+
+/* 내보내는 함수 표시(빌드 설정에 따라 속성이 붙을 수 있음) */
+#define API
+#define USE_FAST_ADD 1
+#define SQUARE(x) ((x) * (x))
+
+#endif
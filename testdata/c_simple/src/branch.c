@@ -0,0 +1,21 @@
+#include "config.h"
+
+#define LEVEL 2
+#define TWICE(x) ((x) + (x))
+
+#if LEVEL == 1
+int level(void) { return 1; }
+#elif LEVEL == 2
+int level(void) { return 2; }
+#else
+int level(void) { return 0; }
+#endif
+
+#undef USE_FAST_ADD
+#ifdef USE_FAST_ADD
+int fast(void) { return 1; }
+#endif
+
+#if defined(SQUARE) && !defined(MISSING)
+int area(int v) { return TWICE(SQUARE(v)); }
+#endif
@@ -1,4 +1,18 @@
 #include "math.h"
+#include "config.h"
+#include <stdio.h>
 
+#if USE_FAST_ADD
 int add(int a, int b) { return a + b; }
+#else
+int add(int a, int b) { int s = a; while (b--) s++; return s; }
+#endif
+
+API int sub(int a, int b) { return a - b; }
 static int hidden(double x) { return (int)x; }
+
+#ifndef NDEBUG
+void debug_dump(int v) { printf("%d\n", SQUARE(v)); }
+#endif
+
+int square(int v) { return SQUARE(v); }
@@ -0,0 +1 @@
+int bare(void);
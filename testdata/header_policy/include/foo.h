@@ -1,6 +1,16 @@
-// .h 를 C 로 볼 때는 class를 인식하지 못해야 하고,
-// C++ 로 볼 때는 class Foo 가 인식되어야 한다.
+// C++ 문법(class)이 있으므로 C++ 로 판별되어 class Foo 가 인식되어야 한다.
+// headerLanguage 로 C 를 지정하면 class 는 인식하지 못하고 foo_c_api 만 남아야 한다.
+#ifdef __cplusplus
 class Foo {
 public:
     void bar(int n);
 };
+
+extern "C" {
+#endif
+
+int foo_c_api(int n);
+
+#ifdef __cplusplus
+}
+#endif
@@ -0,0 +1,9 @@
+/* C 라이브러리 헤더 — 설정 파일로 C 지정(C++ 분기는 C로 파싱하면 비활성) */
+#ifdef __cplusplus
+class ApiGuard {
+public:
+    ApiGuard();
+};
+#endif
+
+int api_open(const char *path);
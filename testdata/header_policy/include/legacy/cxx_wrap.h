@@ -0,0 +1,2 @@
+/* legacy/ 아래지만 뒤에 적은 패턴으로 C++ 지정 */
+int wrap_open(const char *path);
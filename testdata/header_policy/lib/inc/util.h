@@ -0,0 +1,2 @@
+/* 짝 소스가 없고 디렉터리에 헤더뿐 — compile_commands.json 의 -I 로 C++ 항목에서 쓰임 */
+int util_sum(int a, int b);
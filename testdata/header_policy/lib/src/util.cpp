@@ -0,0 +1,3 @@
+#include "util.h"
+
+int util_sum(int a, int b) { return a + b; }
@@ -0,0 +1,3 @@
+#include "point.h"
+
+int dot(struct point a, struct point b) { return a.x * b.x + a.y * b.y; }
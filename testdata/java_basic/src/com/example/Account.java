@@ -0,0 +1,40 @@
+package com.example;
+
+import java.util.List;
+
+@Entity
+public class Account {
+    private final int id;
+
+    public Account(int id) {
+        this.id = id;
+    }
+
+    @Override
+    public String toString() {
+        return "Account(" + id + ")";
+    }
+
+    public static int sum(int a, int b) {
+        return a + b;
+    }
+
+    enum Kind { SAVING, CHECKING }
+}
+
+interface Repository<T> {
+    T find(int id);
+    List<T> findAll();
+}
+
+enum Color {
+    RED, GREEN;
+
+    Color() {}
+
+    public boolean isWarm() { return this == RED; }
+}
+
+record Point(int x, int y) {
+    public int length() { return x + y; }
+}
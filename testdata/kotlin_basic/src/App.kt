@@ -0,0 +1,34 @@
+package example
+
+import kotlin.math.max
+
+@Suppress("unused")
+class Account(val id: Int) {
+    constructor(id: Int, name: String) : this(id)
+
+    fun deposit(amount: Int): Int {
+        return max(amount, 0)
+    }
+
+    companion object Factory {
+        fun create(): Account = Account(0)
+    }
+}
+
+interface Repository<T> {
+    fun find(id: Int): T?
+}
+
+enum class Color { RED, GREEN }
+
+data class Point(val x: Int, val y: Int)
+
+object Registry {
+    private fun register(name: String) {}
+}
+
+fun topLevel(a: Int, b: Int): Int = a + b
+
+fun String.shout(times: Int): String = this.uppercase().repeat(times)
+
+suspend inline fun <reified T> Repository<T>.loadAll(): List<T> = emptyList()
@@ -0,0 +1,8 @@
+#pragma once
+
+namespace geo {
+class Shape {
+public:
+    virtual double area() const = 0;
+};
+}
@@ -0,0 +1,6 @@
+#ifndef X_H
+#define X_H
+
+int x_init(void);
+
+#endif
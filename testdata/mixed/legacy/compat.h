@@ -0,0 +1,2 @@
+/* C++ 코드에서만 포함하는 헤더 — 설정 파일로 C++ 지정 */
+int compat_distance(int ax, int ay, int bx, int by);
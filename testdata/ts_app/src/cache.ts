@@ -0,0 +1,11 @@
+export class Cache {
+  private readonly values = new Map<string, number>();
+
+  get(key: string): number | undefined {
+    return this.values.get(key);
+  }
+
+  set(key: string, value: number): void {
+    this.values.set(key, value);
+  }
+}
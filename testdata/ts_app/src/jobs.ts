@@ -0,0 +1,9 @@
+import { Cache } from './cache';
+
+/** 작업을 차례로 실행하고 합계를 캐시에 남깁니다. */
+export function runJobs(jobs: Array<() => number>, cache: Cache): number {
+  let total = 0;
+  for (const job of jobs) total += job();
+  cache.set('total', total);
+  return total;
+}
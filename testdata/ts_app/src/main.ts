@@ -0,0 +1,6 @@
+import { Cache } from './cache';
+import { runJobs } from './jobs';
+
+export function main(): number {
+  return runJobs([() => 1, () => 2], new Cache());
+}
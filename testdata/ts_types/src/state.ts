@@ -0,0 +1,35 @@
+export interface GraphState<T> extends BaseState {
+  question: string;
+  run(x: number): void;
+}
+
+export type Id = string | number;
+
+export const enum Color {
+  Red = 1,
+  Green,
+}
+
+export abstract class Shape {
+  private readonly id: number = 1;
+  static count: number;
+  abstract area(): number;
+  get name(): string {
+    return 'shape';
+  }
+  set name(v: string) {}
+}
+
+namespace Util {
+  export function clamp(n: number) {
+    return n;
+  }
+}
+
+declare module 'express' {
+  interface Request {
+    user: string;
+  }
+}
+
+export default { color: Color.Red };